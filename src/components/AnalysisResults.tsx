@@ -3,6 +3,22 @@ import { CheckCircle, XCircle, Clock, Eye, Zap, Database, AlertTriangle, Info, B
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import CameraReferencePanel from '@/components/CameraReferencePanel';
+import CopyMovePanel from '@/components/CopyMovePanel';
+import ElaOverlay from '@/components/ElaOverlay';
+import FaceAnalysisPanel from '@/components/FaceAnalysisPanel';
+import VideoFramesPanel from '@/components/VideoFramesPanel';
+import FaceTracksPanel from '@/components/FaceTracksPanel';
+import GeneratorFingerprintPanel from '@/components/GeneratorFingerprintPanel';
+import JpegForensicsPanel from '@/components/JpegForensicsPanel';
+import MetadataPanel from '@/components/MetadataPanel';
+import ContainerPanel from '@/components/ContainerPanel';
+import AudioPanel from '@/components/AudioPanel';
+import EnfPanel from '@/components/EnfPanel';
+import ProvenancePanel from '@/components/ProvenancePanel';
+import SpectrumPanel from '@/components/SpectrumPanel';
+import SyntheticImagePanel from '@/components/SyntheticImagePanel';
+import ZeroShotPanel from '@/components/ZeroShotPanel';
 import { AnalysisResult } from '@/pages/Index';
 
 interface AnalysisResultsProps {
@@ -114,6 +130,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                       ? 'Comprehensive social media monitoring using RoBERTa NLP and advanced sentiment analysis.'
                       : result.type === 'telegram' || result.type === 'twitter' || result.type === 'instagram'
                       ? 'Multi-layered bot detection using RoBERTa NLP, pattern recognition, and behavioral analysis.'
+                      : result.type === 'audio'
+                      ? 'Analyzed with signal forensics: spectral voice features, splice detection, and container structure.'
                       : 'Analyzed using Vision Transformer (ViT) and advanced computer vision techniques.'
                     }
                   </p>
@@ -171,8 +189,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                   </div>
                 </div>
 
-                {result.details.mentionCount && (
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-3 bg-slate-700/20 rounded-lg">
+                {result.details.mentionCount !== undefined && (
+                  <div className="grid grid-cols-3 gap-4 p-3 bg-slate-700/20 rounded-lg">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-blue-400">{result.details.mentionCount}</div>
                       <div className="text-xs text-slate-400">Total Mentions</div>
@@ -181,10 +199,6 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                       <div className="text-2xl font-bold text-red-400">{result.details.botAccountsDetected}</div>
                       <div className="text-xs text-slate-400">Bot Accounts</div>
                     </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-yellow-400">{result.details.suspiciousActivity?.toFixed(0)}%</div>
-                      <div className="text-xs text-slate-400">Suspicious Activity</div>
-                    </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-400">{result.details.sentimentScore?.toFixed(0)}%</div>
                       <div className="text-xs text-slate-400">Sentiment Score</div>
@@ -251,6 +265,58 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
               </div>
             )}
 
+            {/* Content Credentials */}
+            {result.provenance && <ProvenancePanel provenance={result.provenance} />}
+
+            {/* Video Frame Timeline */}
+            {result.video && <VideoFramesPanel video={result.video} videoUrl={result.previewUrl} />}
+
+            {/* Face Tracks */}
+            {result.video && <FaceTracksPanel faceTracks={result.video.faceTracks} />}
+
+            {/* Voice Analysis */}
+            {result.audio && <AudioPanel audio={result.audio} audioUrl={result.type === 'audio' ? result.previewUrl : undefined} />}
+
+            {/* Electrical Network Frequency */}
+            {result.enf && <EnfPanel enf={result.enf} claimedTime={result.container?.creationTime} />}
+
+            {/* Face Analysis */}
+            {result.faces && <FaceAnalysisPanel imageUrl={result.previewUrl} faces={result.faces} />}
+
+            {/* Synthetic-Image Classifier */}
+            {result.synthetic && <SyntheticImagePanel synthetic={result.synthetic} />}
+
+            {/* Zero-Shot Prompt Probe */}
+            {result.zeroShot && <ZeroShotPanel zeroShot={result.zeroShot} />}
+
+            {/* Generative AI Fingerprints */}
+            {result.generator && <GeneratorFingerprintPanel generator={result.generator} />}
+
+            {/* Error Level Analysis */}
+            {result.ela && result.previewUrl && (
+              <ElaOverlay imageUrl={result.previewUrl} ela={result.ela} />
+            )}
+
+            {/* Copy-Move Detection */}
+            {result.copyMove && result.previewUrl && (
+              <CopyMovePanel imageUrl={result.previewUrl} copyMove={result.copyMove} />
+            )}
+
+            {/* Frequency Spectrum */}
+            {result.spectrum && <SpectrumPanel spectrum={result.spectrum} />}
+
+            {/* Camera Reference Matching */}
+            {result.type === 'image' && result.previewUrl && <CameraReferencePanel imageUrl={result.previewUrl} />}
+
+            {/* JPEG Compression Forensics */}
+            {result.jpeg && <JpegForensicsPanel jpeg={result.jpeg} />}
+
+            {/* Metadata Consistency */}
+            {result.metadata && <MetadataPanel metadata={result.metadata} />}
+
+            {/* Container Structure */}
+            {result.container && <ContainerPanel container={result.container} />}
+
             {/* Bot Detection Reasons */}
             {result.reasons && result.reasons.length > 0 && (
               <div className="p-3 bg-slate-700/20 rounded-lg">
@@ -280,27 +346,19 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                 <div className="space-y-3">
                   {result.type === 'telegram' || result.type === 'twitter' || result.type === 'instagram' ? (
                     <>
-                      <div>
-                        <div className="flex justify-between items-center mb-1">
-                          <span className="text-sm text-slate-300">Pattern Analysis</span>
-                          <span className="text-sm text-slate-400">
-                            {result.details.patternAnalysis?.toFixed(0)}%
-                          </span>
-                        </div>
-                        <Progress value={result.details.patternAnalysis} className="h-2" />
-                      </div>
-
-                      <div>
-                        <div className="flex justify-between items-center mb-1">
-                          <span className="text-sm text-slate-300">Linguistic Analysis</span>
-                          <span className="text-sm text-slate-400">
-                            {result.details.linguisticAnalysis?.toFixed(0)}%
-                          </span>
+                      {result.details.patternAnalysis !== undefined && (
+                        <div>
+                          <div className="flex justify-between items-center mb-1">
+                            <span className="text-sm text-slate-300">Pattern Analysis</span>
+                            <span className="text-sm text-slate-400">
+                              {result.details.patternAnalysis.toFixed(0)}%
+                            </span>
+                          </div>
+                          <Progress value={result.details.patternAnalysis} className="h-2" />
                         </div>
-                        <Progress value={result.details.linguisticAnalysis} className="h-2" />
-                      </div>
+                      )}
 
-                      {result.type === 'telegram' && (
+                      {result.type === 'telegram' && result.details.structureAnalysis !== undefined && (
                         <div>
                           <div className="flex justify-between items-center mb-1">
                             <span className="text-sm text-slate-300">Structure Analysis</span>
@@ -312,7 +370,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                         </div>
                       )}
 
-                      {result.type === 'twitter' && (
+                      {result.type === 'twitter' && result.details.behavioralAnalysis !== undefined && (
                         <>
                           <div>
                             <div className="flex justify-between items-center mb-1">
@@ -336,18 +394,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                         </>
                       )}
 
-                      {result.type === 'instagram' && (
+                      {result.type === 'instagram' && result.details.engagementAnalysis !== undefined && (
                         <>
-                          <div>
-                            <div className="flex justify-between items-center mb-1">
-                              <span className="text-sm text-slate-300">Visual Analysis</span>
-                              <span className="text-sm text-slate-400">
-                                {result.details.visualAnalysis?.toFixed(0)}%
-                              </span>
-                            </div>
-                            <Progress value={result.details.visualAnalysis} className="h-2" />
-                          </div>
-
                           <div>
                             <div className="flex justify-between items-center mb-1">
                               <span className="text-sm text-slate-300">Engagement Analysis</span>
@@ -362,10 +410,10 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                     </>
                   ) : (
                     <>
-                      {result.details.faceDetection && (
+                      {result.details.faceDetection !== undefined && (
                         <div>
                           <div className="flex justify-between items-center mb-1">
-                            <span className="text-sm text-slate-300">Face Detection</span>
+                            <span className="text-sm text-slate-300">Face Manipulation</span>
                             <span className="text-sm text-slate-400">
                               {result.details.faceDetection.toFixed(0)}%
                             </span>
@@ -374,7 +422,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                         </div>
                       )}
 
-                      {result.details.temporalConsistency && (
+                      {result.details.temporalConsistency !== undefined && (
                         <div>
                           <div className="flex justify-between items-center mb-1">
                             <span className="text-sm text-slate-300">Temporal Consistency</span>
@@ -386,7 +434,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                         </div>
                       )}
 
-                      {result.details.artifactDetection && (
+                      {result.details.artifactDetection !== undefined && (
                         <div>
                           <div className="flex justify-between items-center mb-1">
                             <span className="text-sm text-slate-300">Artifact Detection</span>
@@ -398,7 +446,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                         </div>
                       )}
 
-                      {result.details.metadataAnalysis && (
+                      {result.details.metadataAnalysis !== undefined && (
                         <div>
                           <div className="flex justify-between items-center mb-1">
                             <span className="text-sm text-slate-300">Metadata Analysis</span>
@@ -409,18 +457,42 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                           <Progress value={result.details.metadataAnalysis} className="h-2" />
                         </div>
                       )}
+
+                      {result.details.voiceAuthenticity !== undefined && (
+                        <div>
+                          <div className="flex justify-between items-center mb-1">
+                            <span className="text-sm text-slate-300">Voice Authenticity</span>
+                            <span className="text-sm text-slate-400">
+                              {result.details.voiceAuthenticity.toFixed(0)}%
+                            </span>
+                          </div>
+                          <Progress value={result.details.voiceAuthenticity} className="h-2" />
+                        </div>
+                      )}
+
+                      {result.details.timingIntegrity !== undefined && (
+                        <div>
+                          <div className="flex justify-between items-center mb-1">
+                            <span className="text-sm text-slate-300">Timing Integrity</span>
+                            <span className="text-sm text-slate-400">
+                              {result.details.timingIntegrity.toFixed(0)}%
+                            </span>
+                          </div>
+                          <Progress value={result.details.timingIntegrity} className="h-2" />
+                        </div>
+                      )}
                     </>
                   )}
 
-                  {result.details.aiModelConfidence && (
+                  {result.details.zeroShotProbe !== undefined && (
                     <div>
                       <div className="flex justify-between items-center mb-1">
-                        <span className="text-sm text-slate-300">AI Model Confidence</span>
+                        <span className="text-sm text-slate-300">Zero-shot Probe</span>
                         <span className="text-sm text-slate-400">
-                          {result.details.aiModelConfidence.toFixed(0)}%
+                          {result.details.zeroShotProbe.toFixed(0)}%
                         </span>
                       </div>
-                      <Progress value={result.details.aiModelConfidence} className="h-2" />
+                      <Progress value={result.details.zeroShotProbe} className="h-2" />
                     </div>
                   )}
                 </div>
@@ -441,11 +513,20 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                     <span className="text-slate-300">Processing Time:</span>
                     <span className="text-slate-400">{result.analysisTime.toFixed(1)}s</span>
                   </div>
+                  {result.seed !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-300">Analysis Seed:</span>
+                      <span className="text-slate-400 font-mono">{result.seed}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-slate-300">AI Model:</span>
                     <span className="text-slate-400">
                       {result.type === 'monitor' ? 'RoBERTa + Sentiment Analysis' :
                        result.type === 'telegram' || result.type === 'twitter' || result.type === 'instagram' ? 'RoBERTa + Multi-layer Analysis' : 
+                       result.type === 'audio' ? 'Signal forensics' :
+                       result.type === 'video' ? 'Frame forensics + ViT face tracking' :
+                       result.synthetic ? result.synthetic.model :
                        'Vision Transformer (ViT)'}
                     </span>
                   </div>
@@ -468,6 +549,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results }) => {
                           ? 'Real-time monitoring with AI sentiment analysis. Results based on advanced NLP models and pattern recognition.'
                           : result.type === 'telegram' || result.type === 'twitter' || result.type === 'instagram'
                           ? 'Multi-layered bot detection combining NLP models with behavioral and pattern analysis for enhanced accuracy.'
+                          : result.type === 'audio'
+                          ? 'Voice analysis measures acoustic traits of synthetic speech. Heavily compressed or very short recordings reduce its reliability.'
                           : 'Computer vision analysis adapted for synthetic media detection. Specialized models would provide higher accuracy.'
                         }
                       </p>
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { AudioLines } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { AudioAnalysisResult, AudioSegment } from '@/utils/audioAnalysis';
+
+interface AudioPanelProps {
+  audio: AudioAnalysisResult;
+  audioUrl?: string;
+}
+
+const segmentColors: Record<AudioSegment['kind'], string> = {
+  'noise-change': 'bg-red-500/40 border-red-400',
+  'phase-break': 'bg-yellow-400/40 border-yellow-300',
+  click: 'bg-orange-500/40 border-orange-400',
+  'gated-silence': 'bg-sky-400/40 border-sky-300'
+};
+
+const segmentLabels: Record<AudioSegment['kind'], string> = {
+  'noise-change': 'Noise change',
+  'phase-break': 'Phase break',
+  click: 'Click',
+  'gated-silence': 'Gated silence'
+};
+
+const formatOptional = (value: number | null, format: (value: number) => string) => (value === null ? 'n/a' : format(value));
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ audio, audioUrl }) => {
+  const { features, segments } = audio;
+  const playerRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const position = (time: number) => `${Math.min(Math.max(time / audio.analyzedDuration, 0), 1) * 100}%`;
+
+  const seekTo = (time: number) => {
+    const player = playerRef.current;
+    if (player) player.currentTime = Math.max(time, 0);
+  };
+
+  const authenticityColor = audio.voiceAuthenticity >= 70 ? 'text-green-400' : audio.voiceAuthenticity >= 40 ? 'text-yellow-400' : 'text-red-400';
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <AudioLines className="h-4 w-4 text-purple-400" />
+          <span className="text-sm font-medium text-white">Voice Analysis</span>
+        </div>
+        {audio.assessed ? (
+          <Badge variant="outline" className={`${authenticityColor} border-slate-600`}>
+            Voice authenticity {audio.voiceAuthenticity.toFixed(0)}%
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-slate-300 border-slate-600">Not assessed</Badge>
+        )}
+      </div>
+
+      <div className="relative rounded border border-slate-600 overflow-hidden mb-1">
+        <img src={audio.spectrogram} alt="Log-mel spectrogram" className="block w-full h-32" style={{ imageRendering: 'pixelated' }} />
+        {/* Short events get a minimum width so they stay visible on long recordings */}
+        {segments.map((segment, index) => (
+          <button
+            key={index}
+            type="button"
+            title={segment.description}
+            onClick={() => seekTo(segment.start)}
+            className={`absolute inset-y-0 border-x ${segmentColors[segment.kind]}`}
+            style={{ left: position(segment.start), width: `max(${position(segment.end - segment.start)}, 3px)` }}
+          />
+        ))}
+        {audioUrl && currentTime > 0 && (
+          <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: position(currentTime) }} />
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-slate-500 mb-3">
+        <span>0s</span>
+        <span>Log-mel spectrogram · {audio.melBands} bands up to {(audio.maxFrequency / 1000).toFixed(0)} kHz</span>
+        <span>{audio.analyzedDuration.toFixed(1)}s</span>
+      </div>
+
+      {audioUrl && (
+        <audio
+          ref={playerRef}
+          src={audioUrl}
+          controls
+          className="w-full mb-3"
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-slate-400 mb-2">
+        <div>Speech: <span className="text-slate-200">{features.speechSeconds.toFixed(1)}s</span></div>
+        <div>
+          Band limit: <span className="text-slate-200">{formatOptional(features.bandLimit, (value) => `${(value / 1000).toFixed(1)} kHz`)}</span>
+        </div>
+        <div>
+          Phase regularity: <span className="text-slate-200">{formatOptional(features.phaseRegularity, (value) => value.toFixed(2))}</span>
+        </div>
+        <div>
+          Pitch jitter: <span className="text-slate-200">{formatOptional(features.pitchJitter, (value) => `${(value * 100).toFixed(2)}%`)}</span>
+        </div>
+        <div>
+          HNR: <span className="text-slate-200">{formatOptional(features.harmonicToNoise, (value) => `${value.toFixed(1)} dB`)}</span>
+        </div>
+        <div>Pauses: <span className="text-slate-200">{features.pauses}</span></div>
+        <div>
+          Breaths: <span className="text-slate-200">{formatOptional(features.breathRatio, (value) => `${(value * 100).toFixed(0)}% of long pauses`)}</span>
+        </div>
+        <div>Digital silence: <span className="text-slate-200">{(features.digitalSilence * 100).toFixed(0)}%</span></div>
+      </div>
+
+      {segments.length > 0 && (
+        <div className="mb-2">
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="text-slate-300">Suspected edit points</span>
+            <span className="text-slate-400">Splice score {audio.spliceScore.toFixed(0)}%</span>
+          </div>
+          <ul className="space-y-1">
+            {segments.map((segment, index) => (
+              <li key={index} className="flex items-start space-x-2 text-xs">
+                <button type="button" onClick={() => seekTo(segment.start)} className="shrink-0">
+                  <Badge variant="outline" className={`${segmentColors[segment.kind]} text-slate-100`}>
+                    {segmentLabels[segment.kind]}
+                  </Badge>
+                </button>
+                <span className="text-slate-300">{segment.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {audio.findings.length > 0 ? (
+        <ul className="space-y-1">
+          {audio.findings.map((finding, index) => (
+            <li key={index} className="text-xs text-slate-300">• {finding}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-green-400">No synthetic speech artifacts found</p>
+      )}
+    </div>
+  );
+};
+
+export default AudioPanel;
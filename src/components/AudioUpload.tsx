@@ -0,0 +1,121 @@
+import React, { useState, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { AudioLines, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+interface AudioUploadProps {
+  onAnalyze: (type: 'audio', data: { fileName: string; file: File }) => void;
+  disabled?: boolean;
+}
+
+const AudioUpload: React.FC<AudioUploadProps> = ({ onAnalyze, disabled }) => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (file) {
+      setSelectedFile(file);
+      const reader = new FileReader();
+      reader.onload = () => setPreview(reader.result as string);
+      reader.readAsDataURL(file);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'audio/*': ['.wav', '.mp3', '.ogg', '.oga', '.m4a', '.opus']
+    },
+    multiple: false,
+    disabled
+  });
+
+  const handleAnalyze = () => {
+    if (selectedFile) {
+      onAnalyze('audio', { fileName: selectedFile.name, file: selectedFile });
+    }
+  };
+
+  const clearFile = () => {
+    setSelectedFile(null);
+    setPreview(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-slate-700/30 border-slate-600 border-dashed">
+        <CardContent className="pt-6">
+          <div
+            {...getRootProps()}
+            className={`
+              border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors
+              ${isDragActive
+                ? 'border-purple-400 bg-purple-400/10'
+                : 'border-slate-500 hover:border-slate-400'
+              }
+              ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+            `}
+          >
+            <input {...getInputProps()} />
+            <AudioLines className="h-12 w-12 mx-auto mb-4 text-slate-400" />
+            {isDragActive ? (
+              <p className="text-purple-400 font-medium">Drop the recording here...</p>
+            ) : (
+              <>
+                <p className="text-white font-medium mb-2">
+                  Drag & drop a voice recording here, or click to select
+                </p>
+                <p className="text-slate-400 text-sm">
+                  Supports: WAV, MP3, OGG, M4A, OPUS
+                </p>
+                <p className="text-slate-400 text-xs mt-1">
+                  Note: At least a few seconds of speech are needed to assess the voice
+                </p>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card className="bg-slate-700/30 border-slate-600">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-white font-medium">{selectedFile?.name}</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearFile}
+                className="text-slate-400 hover:text-white"
+                disabled={disabled}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="space-y-1 mb-4">
+              <p className="text-slate-400 text-sm">
+                Size: {selectedFile ? (selectedFile.size / 1024 / 1024).toFixed(2) : 0} MB
+              </p>
+              <p className="text-slate-400 text-sm">
+                Type: {selectedFile?.type || 'Unknown'}
+              </p>
+            </div>
+            <audio src={preview} controls className="w-full mb-4" />
+            <Button
+              onClick={handleAnalyze}
+              disabled={disabled}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Analyze for Voice Deepfakes
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AudioUpload;
@@ -0,0 +1,157 @@
+import React, { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Camera, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import ComputerVisionAnalyzer from '@/utils/computerVision';
+import { decodeImageBlob } from '@/utils/imageIO';
+import { PrnuCorrelationResult } from '@/utils/sensorNoise';
+
+interface CameraReferencePanelProps {
+  imageUrl: string;
+}
+
+const cvAnalyzer = new ComputerVisionAnalyzer();
+
+const CameraReferencePanel: React.FC<CameraReferencePanelProps> = ({ imageUrl }) => {
+  const [references, setReferences] = useState<File[]>([]);
+  const [result, setResult] = useState<PrnuCorrelationResult | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    setReferences((current) => [...current, ...acceptedFiles]);
+    setResult(null);
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'image/*': ['.jpeg', '.jpg', '.png', '.tif', '.tiff', '.webp'] },
+    multiple: true,
+    disabled: isComparing
+  });
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+    try {
+      // Let the spinner render before the synchronous residual extraction blocks the thread
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const referenceImages = await Promise.all(references.map((file) => decodeImageBlob(file)));
+      const questioned = await decodeImageBlob(await (await fetch(imageUrl)).blob());
+      const fingerprint = cvAnalyzer.buildCameraFingerprint(referenceImages);
+      setImageSize({ width: questioned.width, height: questioned.height });
+      setResult(cvAnalyzer.compareWithCameraFingerprint(questioned, fingerprint));
+    } catch (compareError) {
+      console.error('Camera reference comparison failed:', compareError);
+      setError(compareError instanceof Error ? compareError.message : 'Comparison failed');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Camera className="h-4 w-4 text-emerald-400" />
+          <span className="text-sm font-medium text-white">Camera Reference (PRNU)</span>
+        </div>
+        {result && (
+          <Badge className={result.matched ? 'bg-green-600' : 'bg-red-600'}>
+            {result.matched ? 'Matches reference camera' : 'Camera mismatch'}
+          </Badge>
+        )}
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={`border border-dashed rounded p-3 text-center text-xs cursor-pointer ${
+          isDragActive ? 'border-emerald-400 bg-emerald-400/10' : 'border-slate-600 hover:border-slate-500'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <p className="text-slate-300">
+          Drop original photos known to come from the claimed camera (same resolution, unedited)
+        </p>
+        {references.length > 0 && (
+          <p className="text-slate-400 mt-1">{references.length} reference image{references.length === 1 ? '' : 's'} selected</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 mt-2">
+        <Button
+          size="sm"
+          onClick={handleCompare}
+          disabled={references.length === 0 || isComparing}
+          className="bg-emerald-600 hover:bg-emerald-700 text-white"
+        >
+          {isComparing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Build fingerprint & compare
+        </Button>
+        {references.length > 0 && !isComparing && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-slate-400 hover:text-white"
+            onClick={() => {
+              setReferences([]);
+              setResult(null);
+            }}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      {result && imageSize && (
+        <div className="mt-3 space-y-3">
+          <div className="relative w-full max-w-xl mx-auto rounded-lg overflow-hidden border border-slate-600 bg-black">
+            <img src={imageUrl} alt="Questioned" className="block w-full h-auto" />
+            <img
+              src={result.mapImage}
+              alt="Local PRNU correlation"
+              className="absolute"
+              style={{
+                left: `${(result.region.x / imageSize.width) * 100}%`,
+                top: `${(result.region.y / imageSize.height) * 100}%`,
+                width: `${((result.columns * result.blockSize) / imageSize.width) * 100}%`,
+                height: `${((result.rows * result.blockSize) / imageSize.height) * 100}%`,
+                imageRendering: 'pixelated'
+              }}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div>
+              <div className="text-lg font-bold text-emerald-400">{result.pce.toFixed(1)}</div>
+              <div className="text-xs text-slate-400">PCE</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-sky-400">{result.correlation.toFixed(4)}</div>
+              <div className="text-xs text-slate-400">Correlation</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-red-400">{result.inconsistentBlocks}</div>
+              <div className="text-xs text-slate-400">Inconsistent Blocks</div>
+            </div>
+          </div>
+
+          <ul className="text-xs text-slate-300 space-y-1">
+            {result.findings.map((finding, index) => (
+              <li key={index}>• {finding}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-500">
+            Green blocks carry the reference noise pattern, red blocks do not, grey blocks are too dark or clipped to judge.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraReferencePanel;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Boxes } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MetadataCheck } from '@/utils/metadataAnalysis';
+import { ContainerResult, ContainerTrack } from '@/utils/containerAnalysis';
+
+interface ContainerPanelProps {
+  container: ContainerResult;
+}
+
+const severityColors: Record<MetadataCheck['severity'], string> = {
+  high: 'text-red-400 border-red-400',
+  medium: 'text-yellow-400 border-yellow-400',
+  low: 'text-slate-300 border-slate-500'
+};
+
+const describeTrack = (track: ContainerTrack) => {
+  const parts = [track.codec];
+  if (track.kind === 'video' && track.width && track.height) parts.push(`${track.width}×${track.height}`);
+  if (track.kind === 'audio' && track.sampleRate) parts.push(`${track.sampleRate} Hz${track.channels ? ` · ${track.channels} ch` : ''}`);
+  if (track.duration !== null) parts.push(`${track.duration.toFixed(2)}s`);
+  if (track.frameCount !== null) parts.push(`${track.frameCount} frames`);
+  if (track.edits.length > 0) parts.push(`${track.edits.length} edit${track.edits.length === 1 ? '' : 's'}`);
+  if (track.language) parts.push(track.language);
+  return parts.join(' · ');
+};
+
+const ContainerPanel: React.FC<ContainerPanelProps> = ({ container }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center space-x-2 mb-2">
+        <Boxes className="h-4 w-4 text-blue-400" />
+        <span className="text-sm font-medium text-white">Container Structure</span>
+        <span className="text-xs text-slate-400">({container.format.toUpperCase()})</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-xs text-slate-400 mb-2">
+        <div>Encoder: <span className="text-slate-200">{container.encoder ?? 'not recorded'}</span></div>
+        <div>Created: <span className="text-slate-200">{container.creationTime?.toISOString() ?? 'not recorded'}</span></div>
+        {container.structure.length > 0 && (
+          <div className="md:col-span-2 break-all">
+            Layout: <span className="font-mono text-slate-200">{container.structure.join(' → ')}</span>
+          </div>
+        )}
+      </div>
+
+      {container.tracks.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {container.tracks.map((track) => (
+            <li key={track.id} className="text-xs text-slate-300">
+              <span className="text-slate-400 capitalize">Track {track.id} ({track.kind}):</span> {describeTrack(track)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {container.checks.length > 0 ? (
+        <ul className="space-y-1 mb-2">
+          {container.checks.map((check, index) => (
+            <li key={`${check.id}-${index}`} className="flex items-start space-x-2 text-xs">
+              <Badge variant="outline" className={`${severityColors[check.severity]} uppercase`}>
+                {check.severity}
+              </Badge>
+              <span className="text-slate-300">{check.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-green-400 mb-2">All container consistency checks passed</p>
+      )}
+
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white px-0">
+            {open ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+            Container fields ({container.fields.length})
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="max-h-80 overflow-auto rounded border border-slate-700">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-300 h-8">Group</TableHead>
+                  <TableHead className="text-slate-300 h-8">Field</TableHead>
+                  <TableHead className="text-slate-300 h-8">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {container.fields.map((field, index) => (
+                  <TableRow key={index} className="border-slate-700">
+                    <TableCell className="py-1 text-xs text-slate-400">{field.group}</TableCell>
+                    <TableCell className="py-1 text-xs text-slate-300">{field.name}</TableCell>
+                    <TableCell className="py-1 text-xs text-slate-400 break-all">{field.value}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+export default ContainerPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { CopyMoveResult } from '@/utils/copyMoveDetection';
+
+interface CopyMovePanelProps {
+  imageUrl: string;
+  copyMove: CopyMoveResult;
+}
+
+const pairColors = ['#f87171', '#60a5fa', '#facc15', '#4ade80', '#c084fc', '#fb923c', '#22d3ee', '#f472b6'];
+
+const CopyMovePanel: React.FC<CopyMovePanelProps> = ({ imageUrl, copyMove }) => {
+  const strokeWidth = Math.max(copyMove.width, copyMove.height) / 250;
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Copy className="h-4 w-4 text-pink-400" />
+          <span className="text-sm font-medium text-white">Copy-Move Detection</span>
+        </div>
+        <span className="text-xs text-slate-400">
+          {copyMove.pairs.length} matched pair{copyMove.pairs.length === 1 ? '' : 's'} · {copyMove.blocksAnalyzed} blocks
+        </span>
+      </div>
+
+      {copyMove.pairs.length === 0 ? (
+        <p className="text-xs text-green-400">No duplicated regions found</p>
+      ) : (
+        <>
+          <div className="relative w-full max-w-xl mx-auto rounded-lg overflow-hidden border border-slate-600 bg-black">
+            <img src={imageUrl} alt="Analyzed" className="block w-full h-auto" />
+            <svg
+              className="absolute inset-0 w-full h-full"
+              viewBox={`0 0 ${copyMove.width} ${copyMove.height}`}
+              preserveAspectRatio="none"
+            >
+              {copyMove.pairs.map((pair, index) => {
+                const color = pairColors[index % pairColors.length];
+                return (
+                  <g key={index} stroke={color} strokeWidth={strokeWidth} fill="none">
+                    <rect {...pair.source} strokeDasharray={`${strokeWidth * 4} ${strokeWidth * 2}`} />
+                    <rect {...pair.target} />
+                    <line
+                      x1={pair.source.x + pair.source.width / 2}
+                      y1={pair.source.y + pair.source.height / 2}
+                      x2={pair.target.x + pair.target.width / 2}
+                      y2={pair.target.y + pair.target.height / 2}
+                      strokeOpacity={0.7}
+                    />
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          <ul className="space-y-1 mt-3 text-xs">
+            {copyMove.pairs.map((pair, index) => (
+              <li key={index} className="flex items-center space-x-2 text-slate-300">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: pairColors[index % pairColors.length] }} />
+                <span>
+                  {pair.source.width}×{pair.source.height}px region at ({pair.source.x}, {pair.source.y}) duplicated at
+                  ({pair.target.x}, {pair.target.y}) · {pair.matchedBlocks} matching blocks
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CopyMovePanel;
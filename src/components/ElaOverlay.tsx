@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Layers } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { ElaResult } from '@/utils/computerVision';
+
+interface ElaOverlayProps {
+  imageUrl: string;
+  ela: ElaResult;
+}
+
+const ElaOverlay: React.FC<ElaOverlayProps> = ({ imageUrl, ela }) => {
+  const [opacity, setOpacity] = useState(60);
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Layers className="h-4 w-4 text-orange-400" />
+          <span className="text-sm font-medium text-white">Error Level Analysis</span>
+        </div>
+        <span className="text-xs text-slate-400">
+          Resaved at JPEG quality {Math.round(ela.quality * 100)}
+        </span>
+      </div>
+
+      <div className="relative w-full max-w-xl mx-auto rounded-lg overflow-hidden border border-slate-600 bg-black">
+        <img src={imageUrl} alt="Original" className="block w-full h-auto" />
+        <img
+          src={ela.heatmap}
+          alt="ELA heatmap"
+          className="absolute inset-0 w-full h-full"
+          style={{ opacity: opacity / 100 }}
+        />
+      </div>
+
+      <div className="flex items-center space-x-3 mt-3">
+        <span className="text-xs text-slate-400 w-24">Overlay opacity</span>
+        <Slider
+          value={[opacity]}
+          onValueChange={(value) => setOpacity(value[0])}
+          min={0}
+          max={100}
+          step={1}
+          className="flex-1"
+        />
+        <span className="text-xs text-slate-400 w-10 text-right">{opacity}%</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-3 text-center">
+        <div>
+          <div className="text-lg font-bold text-orange-400">{ela.meanError.toFixed(2)}</div>
+          <div className="text-xs text-slate-400">Mean Error</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-red-400">{ela.maxError.toFixed(0)}</div>
+          <div className="text-xs text-slate-400">Max Error</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-yellow-400">{ela.inconsistencyScore.toFixed(0)}%</div>
+          <div className="text-xs text-slate-400">Local Inconsistency</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ElaOverlay;
@@ -0,0 +1,203 @@
+import React, { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Loader2, UtilityPole } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import EnfAnalyzer, { EnfMatch, EnfResult } from '@/utils/enfAnalysis';
+
+interface EnfPanelProps {
+  enf: EnfResult;
+  // Recording time claimed by the file's own metadata, for comparison with the grid match
+  claimedTime?: Date | null;
+}
+
+const chartConfig = {
+  recording: { label: 'Recording', color: '#facc15' },
+  reference: { label: 'Grid reference', color: '#60a5fa' }
+} satisfies ChartConfig;
+
+const strengthStyles: Record<EnfMatch['strength'], { label: string; className: string }> = {
+  strong: { label: 'Strong match', className: 'bg-green-600' },
+  weak: { label: 'Weak match', className: 'bg-yellow-600' },
+  none: { label: 'No match', className: 'bg-slate-600' }
+};
+
+const enfAnalyzer = new EnfAnalyzer();
+
+const formatOffset = (milliseconds: number) => {
+  const minutes = Math.round(Math.abs(milliseconds) / 60000);
+  if (minutes === 0) return 'within a minute of';
+  const text = minutes >= 120 ? `${(minutes / 60).toFixed(1)} h` : `${minutes} min`;
+  return `${text} ${milliseconds < 0 ? 'before' : 'after'}`;
+};
+
+const EnfPanel: React.FC<EnfPanelProps> = ({ enf, claimedTime }) => {
+  const [references, setReferences] = useState<File[]>([]);
+  const [matches, setMatches] = useState<EnfMatch[]>([]);
+  const [selected, setSelected] = useState<EnfMatch | null>(null);
+  const [isMatching, setIsMatching] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    setReferences((current) => [...current, ...acceptedFiles]);
+    setMatches([]);
+    setSelected(null);
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'text/csv': ['.csv', '.txt'] },
+    multiple: true,
+    disabled: isMatching || !enf.detected
+  });
+
+  const handleMatch = async () => {
+    setIsMatching(true);
+    setErrors([]);
+    // Let the spinner render before the synchronous correlation blocks the thread
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const found: EnfMatch[] = [];
+    const failed: string[] = [];
+    for (const file of references) {
+      try {
+        found.push(enfAnalyzer.match(enf, enfAnalyzer.parseReference(await file.text(), file.name)));
+      } catch (matchError) {
+        failed.push(matchError instanceof Error ? matchError.message : `${file.name}: matching failed`);
+      }
+    }
+    found.sort((a, b) => b.correlation - a.correlation);
+    setMatches(found);
+    setSelected(found[0] ?? null);
+    setErrors(failed);
+    setIsMatching(false);
+  };
+
+  const data = selected
+    ? selected.points
+    : enf.frequencies.map((value, i) => ({ time: enf.startOffset + i * enf.step, recording: value, reference: null }));
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <UtilityPole className="h-4 w-4 text-amber-400" />
+          <span className="text-sm font-medium text-white">Electrical Network Frequency</span>
+        </div>
+        <Badge variant="outline" className="text-slate-300 border-slate-600">
+          {enf.detected ? `${enf.nominal} Hz grid · ${(enf.coverage * 100).toFixed(0)}% tracked` : 'No usable hum'}
+        </Badge>
+      </div>
+
+      {enf.harmonics.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs text-slate-400 mb-2">
+          {enf.harmonics.map((harmonic) => (
+            <span key={harmonic.frequency} className={harmonic.used ? 'text-slate-200' : ''}>
+              {harmonic.frequency} Hz: {harmonic.snr.toFixed(1)} dB{harmonic.used ? ' ✓' : ''}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {enf.findings.map((finding, index) => (
+        <p key={index} className="text-xs text-slate-300 mb-2">{finding}</p>
+      ))}
+
+      {enf.detected && (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+            <LineChart data={data} margin={{ left: 8, right: 8, top: 8, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(value: number) => `${value.toFixed(0)}s`} />
+              <YAxis width={56} domain={['auto', 'auto']} tickFormatter={(value: number) => value.toFixed(3)} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.time.toFixed(0)}s`} />} />
+              <Line type="monotone" dataKey="recording" stroke="var(--color-recording)" dot={false} connectNulls={false} isAnimationActive={false} />
+              {selected && (
+                <Line type="monotone" dataKey="reference" stroke="var(--color-reference)" dot={false} isAnimationActive={false} />
+              )}
+            </LineChart>
+          </ChartContainer>
+
+          <div
+            {...getRootProps()}
+            className={`border border-dashed rounded p-3 mt-2 text-center text-xs cursor-pointer ${
+              isDragActive ? 'border-amber-400 bg-amber-400/10' : 'border-slate-600 hover:border-slate-500'
+            }`}
+          >
+            <input {...getInputProps()} />
+            <p className="text-slate-300">Drop grid frequency logs (CSV with a timestamp and a frequency column; times without a zone are read as UTC)</p>
+            {references.length > 0 && (
+              <p className="text-slate-400 mt-1">{references.map((file) => file.name).join(', ')}</p>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2 mt-2">
+            <Button
+              size="sm"
+              onClick={handleMatch}
+              disabled={references.length === 0 || isMatching}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {isMatching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Match against references
+            </Button>
+            {references.length > 0 && !isMatching && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-slate-400 hover:text-white"
+                onClick={() => {
+                  setReferences([]);
+                  setMatches([]);
+                  setSelected(null);
+                  setErrors([]);
+                }}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      {errors.map((error, index) => (
+        <p key={index} className="text-xs text-red-400 mt-2">{error}</p>
+      ))}
+
+      {matches.length > 0 && (
+        <ul className="space-y-2 mt-3">
+          {matches.map((match) => (
+            <li key={match.reference}>
+              <button
+                type="button"
+                onClick={() => setSelected(match)}
+                className={`w-full text-left p-2 rounded border text-xs ${
+                  selected === match ? 'border-amber-400 bg-amber-400/10' : 'border-slate-600 hover:border-slate-500'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-slate-200">{match.reference}</span>
+                  <Badge className={strengthStyles[match.strength].className}>{strengthStyles[match.strength].label}</Badge>
+                </div>
+                <div className="text-slate-400">
+                  Starts at <span className="text-slate-200">{match.start.toISOString()}</span> · correlation{' '}
+                  {match.correlation.toFixed(3)} (next best {match.runnerUp.toFixed(3)}) · RMS difference{' '}
+                  {(match.rmse * 1000).toFixed(1)} mHz over {match.overlap.toFixed(0)}s
+                </div>
+                {claimedTime && match.strength !== 'none' && (
+                  <div className="text-slate-400">
+                    Metadata creation time {claimedTime.toISOString()} is{' '}
+                    {formatOffset(claimedTime.getTime() - match.start.getTime())} the grid match
+                  </div>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EnfPanel;
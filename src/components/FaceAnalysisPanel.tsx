@@ -0,0 +1,99 @@
+import React from 'react';
+import { ScanFace } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { FaceAnalysisResult, Point } from '@/utils/faceAnalysis';
+
+interface FaceAnalysisPanelProps {
+  imageUrl?: string;
+  faces: FaceAnalysisResult;
+}
+
+const scoreColor = (score: number) => (score >= 60 ? '#f87171' : score >= 30 ? '#facc15' : '#4ade80');
+
+const FaceAnalysisPanel: React.FC<FaceAnalysisPanelProps> = ({ imageUrl, faces }) => {
+  const strokeWidth = Math.max(faces.width, faces.height) / 300;
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <ScanFace className="h-4 w-4 text-cyan-400" />
+          <span className="text-sm font-medium text-white">Face Analysis</span>
+        </div>
+        <span className="text-xs text-slate-400">
+          {faces.modelAvailable ? `${faces.faces.length} face${faces.faces.length === 1 ? '' : 's'} detected` : 'Face model unavailable'}
+        </span>
+      </div>
+
+      {faces.faces.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          {faces.modelAvailable ? 'No faces found in this image.' : 'The face parsing model could not be loaded; faces were not analyzed.'}
+        </p>
+      ) : (
+        <>
+          {imageUrl && (
+            <div className="relative w-full max-w-xl mx-auto rounded-lg overflow-hidden border border-slate-600 bg-black mb-3">
+              <img src={imageUrl} alt="Analyzed" className="block w-full h-auto" />
+              <svg
+                className="absolute inset-0 w-full h-full"
+                viewBox={`0 0 ${faces.width} ${faces.height}`}
+                preserveAspectRatio="none"
+              >
+                {faces.faces.map((face, index) => {
+                  const color = scoreColor(face.manipulationScore);
+                  const points = Object.values(face.landmarks).filter((point): point is Point => !!point);
+                  return (
+                    <g key={index}>
+                      <rect {...face.box} fill="none" stroke={color} strokeWidth={strokeWidth} />
+                      <text
+                        x={face.box.x}
+                        y={face.box.y - strokeWidth * 2}
+                        fill={color}
+                        fontSize={strokeWidth * 8}
+                      >
+                        {index + 1}
+                      </text>
+                      {points.map((point, pointIndex) => (
+                        <circle key={pointIndex} cx={point.x} cy={point.y} r={strokeWidth * 1.5} fill="#38bdf8" />
+                      ))}
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {faces.faces.map((face, index) => (
+              <div key={index} className="flex items-start space-x-3 p-2 rounded bg-slate-800/40">
+                <img src={face.alignedFace} alt={`Face ${index + 1}`} className="h-16 w-16 rounded object-cover" />
+                <div className="flex-1 min-w-0 text-xs">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-slate-200 font-medium">Face {index + 1}</span>
+                    <Badge variant="outline" className="text-slate-300 border-slate-600">
+                      {face.box.width}×{face.box.height} at ({face.box.x}, {face.box.y})
+                    </Badge>
+                  </div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <Progress value={face.manipulationScore} className="h-2 flex-1" />
+                    <span className="text-slate-300 w-10 text-right">{face.manipulationScore.toFixed(0)}%</span>
+                  </div>
+                  <div className="text-slate-400">
+                    Roll {face.roll.toFixed(0)}° · noise ratio {(2 ** face.noiseRatio).toFixed(2)}x · sharpness ratio{' '}
+                    {(2 ** face.sharpnessRatio).toFixed(2)}x · landmarks {(face.confidence * 4).toFixed(0)}/4
+                  </div>
+                  {face.findings.map((finding, findingIndex) => (
+                    <div key={findingIndex} className="text-yellow-300">⚠ {finding}</div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FaceAnalysisPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { FaceTrackingResult } from '@/utils/faceTracking';
+
+interface FaceTracksPanelProps {
+  faceTracks: FaceTrackingResult;
+}
+
+const scoreColor = (score: number) => (score >= 60 ? 'text-red-400' : score >= 30 ? 'text-yellow-400' : 'text-green-400');
+
+const FaceTracksPanel: React.FC<FaceTracksPanelProps> = ({ faceTracks }) => {
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Users className="h-4 w-4 text-purple-400" />
+          <span className="text-sm font-medium text-white">Face Tracks</span>
+        </div>
+        <Badge variant="outline" className="text-slate-300 border-slate-600">
+          {faceTracks.embedding === 'model' ? 'Generic ViT features' : 'Pixel features'}
+        </Badge>
+      </div>
+
+      <p className="text-xs text-slate-400 mb-2">
+        Flags frames where a face suddenly looks different from the rest of its track. The features are not
+        face-recognition embeddings, so the same identity is not verified across frames.
+      </p>
+
+      {faceTracks.tracks.length === 0 && (
+        <p className="text-xs text-slate-400">No faces were found in the sampled frames.</p>
+      )}
+
+      <div className="space-y-3">
+        {faceTracks.tracks.map((track) => {
+          const first = track.points[0];
+          const last = track.points[track.points.length - 1];
+          return (
+            <div key={track.id}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="text-slate-300">
+                  Track {track.id} · {track.points.length} frame{track.points.length === 1 ? '' : 's'} ·{' '}
+                  {first.time.toFixed(2)}s–{last.time.toFixed(2)}s
+                </span>
+                <span className={`font-medium ${scoreColor(track.score)}`}>{track.score.toFixed(0)}%</span>
+              </div>
+              <div className="flex space-x-1 overflow-x-auto pb-1">
+                {track.points.map((point) => (
+                  <img
+                    key={point.frameIndex}
+                    src={point.thumbnail}
+                    alt={`Track ${track.id} at ${point.time.toFixed(2)}s`}
+                    title={
+                      `Frame ${point.frameIndex} · ${point.time.toFixed(2)}s\n` +
+                      `Appearance shift ${point.appearanceShift.toFixed(3)} · tone shift ${point.toneShift.toFixed(1)} · ` +
+                      `boundary shift ${point.boundaryShift.toFixed(2)}`
+                    }
+                    className={`h-12 w-12 flex-shrink-0 rounded border-2 ${point.flagged ? 'border-red-500' : 'border-slate-600'}`}
+                  />
+                ))}
+              </div>
+              {track.findings.map((finding, index) => (
+                <p key={index} className="text-xs text-slate-400">{finding}</p>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FaceTracksPanel;
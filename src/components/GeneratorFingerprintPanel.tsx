@@ -0,0 +1,93 @@
+import React from 'react';
+import { Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { GeneratorFingerprint } from '@/utils/generativeProvenance';
+
+interface GeneratorFingerprintPanelProps {
+  generator: GeneratorFingerprint;
+}
+
+const GeneratorFingerprintPanel: React.FC<GeneratorFingerprintPanelProps> = ({ generator }) => {
+  const settings = Object.entries(generator.parameters).slice(0, 12);
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Wand2 className="h-4 w-4 text-purple-400" />
+          <span className="text-sm font-medium text-white">Generative AI Fingerprints</span>
+        </div>
+        {generator.detected ? (
+          <Badge className="bg-purple-600">{generator.generator ?? 'AI generated'}</Badge>
+        ) : (
+          <Badge variant="outline" className="text-slate-300 border-slate-500">
+            {generator.markers.length > 0 ? 'Weak indicators only' : 'None found'}
+          </Badge>
+        )}
+      </div>
+
+      {generator.markers.length === 0 ? (
+        <p className="text-xs text-slate-400">No generator metadata, tool names or characteristic output sizes found.</p>
+      ) : (
+        <div className="space-y-3 text-xs">
+          {(generator.prompt || generator.seed || generator.model) && (
+            <div className="space-y-1">
+              {generator.prompt && (
+                <div>
+                  <span className="text-slate-400">Prompt: </span>
+                  <span className="text-slate-200 break-words">{generator.prompt}</span>
+                </div>
+              )}
+              {generator.negativePrompt && (
+                <div>
+                  <span className="text-slate-400">Negative prompt: </span>
+                  <span className="text-slate-300 break-words">{generator.negativePrompt}</span>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {generator.seed && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Seed</span>
+                    <span className="text-slate-200">{generator.seed}</span>
+                  </div>
+                )}
+                {generator.model && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Model</span>
+                    <span className="text-slate-200 truncate ml-2">{generator.model}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {settings.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {settings.map(([key, value]) => (
+                <Badge key={key} variant="outline" className="text-slate-300 border-slate-600 text-xs">
+                  {key}: {value.length > 40 ? `${value.slice(0, 40)}…` : value}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <ul className="space-y-1">
+            {generator.markers.map((marker, index) => (
+              <li key={index} className="flex items-start space-x-2">
+                <Badge
+                  variant="outline"
+                  className={marker.strength === 'strong' ? 'text-purple-300 border-purple-400 uppercase' : 'text-slate-300 border-slate-500 uppercase'}
+                >
+                  {marker.strength}
+                </Badge>
+                <span className="text-slate-300">{marker.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeneratorFingerprintPanel;
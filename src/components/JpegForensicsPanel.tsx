@@ -0,0 +1,74 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { JpegForensicsResult, SignatureCategory } from '@/utils/jpegForensics';
+
+interface JpegForensicsPanelProps {
+  jpeg: JpegForensicsResult;
+}
+
+const categoryColors: Record<SignatureCategory, string> = {
+  camera: 'text-green-400 border-green-400',
+  editor: 'text-red-400 border-red-400',
+  platform: 'text-yellow-400 border-yellow-400',
+  library: 'text-blue-400 border-blue-400',
+  encoder: 'text-slate-300 border-slate-500'
+};
+
+const JpegForensicsPanel: React.FC<JpegForensicsPanelProps> = ({ jpeg }) => {
+  const { doubleCompression } = jpeg;
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center space-x-2 mb-3">
+        <FileSearch className="h-4 w-4 text-blue-400" />
+        <span className="text-sm font-medium text-white">JPEG Compression Forensics</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs mb-3">
+        <div>
+          <div className="text-slate-400">Encoding</div>
+          <div className="text-slate-200 capitalize">{jpeg.encoding}</div>
+        </div>
+        <div>
+          <div className="text-slate-400">Chroma Subsampling</div>
+          <div className="text-slate-200">{jpeg.subsampling}</div>
+        </div>
+        <div>
+          <div className="text-slate-400">Estimated Quality</div>
+          <div className="text-slate-200">
+            {jpeg.estimatedQuality ?? 'n/a'} {jpeg.standardTables ? '(libjpeg tables)' : '(custom tables)'}
+          </div>
+        </div>
+        <div>
+          <div className="text-slate-400">Double Compression</div>
+          <div className={doubleCompression.detected ? 'text-red-400' : 'text-slate-200'}>
+            {doubleCompression.analyzed
+              ? `${doubleCompression.detected ? 'Detected' : 'Not detected'} (${doubleCompression.score.toFixed(0)}%)`
+              : 'Not analyzed'}
+          </div>
+        </div>
+      </div>
+
+      {jpeg.signatures.length > 0 && (
+        <div className="space-y-1">
+          {jpeg.signatures.map((signature, index) => (
+            <div key={index} className="flex items-start space-x-2 text-xs">
+              <Badge variant="outline" className={`${categoryColors[signature.category]} capitalize`}>
+                {signature.category}
+              </Badge>
+              <span className="text-slate-200">{signature.name}</span>
+              <span className="text-slate-400">— {signature.evidence}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {doubleCompression.note && (
+        <p className="text-xs text-slate-400 mt-2">{doubleCompression.note}</p>
+      )}
+    </div>
+  );
+};
+
+export default JpegForensicsPanel;
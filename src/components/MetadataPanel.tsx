@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Tags } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MetadataCheck, MetadataResult } from '@/utils/metadataAnalysis';
+
+interface MetadataPanelProps {
+  metadata: MetadataResult;
+}
+
+const severityColors: Record<MetadataCheck['severity'], string> = {
+  high: 'text-red-400 border-red-400',
+  medium: 'text-yellow-400 border-yellow-400',
+  low: 'text-slate-300 border-slate-500'
+};
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center space-x-2 mb-2">
+        <Tags className="h-4 w-4 text-blue-400" />
+        <span className="text-sm font-medium text-white">Metadata Consistency</span>
+        <span className="text-xs text-slate-400">({metadata.format.toUpperCase()})</span>
+      </div>
+
+      {metadata.checks.length > 0 ? (
+        <ul className="space-y-1 mb-2">
+          {metadata.checks.map((check) => (
+            <li key={check.id} className="flex items-start space-x-2 text-xs">
+              <Badge variant="outline" className={`${severityColors[check.severity]} uppercase`}>
+                {check.severity}
+              </Badge>
+              <span className="text-slate-300">{check.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-green-400 mb-2">All metadata consistency checks passed</p>
+      )}
+
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white px-0">
+            {open ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+            Raw metadata ({metadata.fields.length} fields)
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="max-h-80 overflow-auto rounded border border-slate-700">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-300 h-8">Group</TableHead>
+                  <TableHead className="text-slate-300 h-8">Field</TableHead>
+                  <TableHead className="text-slate-300 h-8">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metadata.fields.map((field, index) => (
+                  <TableRow key={index} className="border-slate-700">
+                    <TableCell className="py-1 text-xs text-slate-400">{field.group}</TableCell>
+                    <TableCell className="py-1 text-xs text-slate-300">{field.name}</TableCell>
+                    <TableCell className="py-1 text-xs text-slate-400 break-all">{field.value}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { BadgeCheck, FileWarning, FileX, HelpCircle, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ProvenanceResult, ProvenanceStatus } from '@/utils/c2paVerification';
+
+interface ProvenancePanelProps {
+  provenance: ProvenanceResult;
+}
+
+const statusStyles: Record<ProvenanceStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  valid: {
+    label: 'Valid',
+    className: 'bg-green-600',
+    icon: <BadgeCheck className="h-4 w-4 text-green-400" />
+  },
+  tampered: {
+    label: 'Tampered',
+    className: 'bg-red-600',
+    icon: <FileWarning className="h-4 w-4 text-red-400" />
+  },
+  unverified: {
+    label: 'Unverified',
+    className: 'bg-yellow-600',
+    icon: <HelpCircle className="h-4 w-4 text-yellow-400" />
+  },
+  absent: {
+    label: 'Absent',
+    className: 'bg-slate-600',
+    icon: <FileX className="h-4 w-4 text-slate-400" />
+  }
+};
+
+const formatSourceType = (sourceType: string) => sourceType.split('/').pop();
+
+const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ provenance }) => {
+  const style = statusStyles[provenance.status];
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          {style.icon}
+          <span className="text-sm font-medium text-white">Content Credentials (C2PA)</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {provenance.aiGenerated && (
+            <Badge className="bg-purple-600">
+              <Sparkles className="h-3 w-3 mr-1" />
+              AI Generated
+            </Badge>
+          )}
+          <Badge className={style.className}>{style.label}</Badge>
+        </div>
+      </div>
+
+      {provenance.status === 'absent' ? (
+        <p className="text-xs text-slate-400">No C2PA manifest embedded in this file.</p>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Claim generator</span>
+              <span className="text-slate-200">{provenance.claimGenerator ?? 'unknown'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Signer</span>
+              <span className="text-slate-200">
+                {provenance.signer?.organization ?? provenance.signer?.commonName ?? 'unknown'}
+                {provenance.signer && (provenance.trusted ? ' (trusted)' : ' (not on trust list)')}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Signature</span>
+              <span className="text-slate-200">
+                {provenance.signatureAlgorithm ?? 'n/a'}{' '}
+                {provenance.signatureValid === undefined ? '' : provenance.signatureValid ? '✓' : '✗'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Hash binding</span>
+              <span className="text-slate-200">
+                {provenance.hashBindingValid === undefined ? 'n/a' : provenance.hashBindingValid ? 'Matches' : 'Mismatch'}
+              </span>
+            </div>
+          </div>
+
+          {provenance.actions.length > 0 && (
+            <div>
+              <div className="text-slate-300 font-medium mb-1">Recorded actions</div>
+              <ul className="space-y-1">
+                {provenance.actions.map((action, index) => (
+                  <li key={index} className="text-slate-400">
+                    <span className="text-slate-200">{action.action}</span>
+                    {action.softwareAgent && ` · ${action.softwareAgent}`}
+                    {action.digitalSourceType && ` · ${formatSourceType(action.digitalSourceType)}`}
+                    {action.when && ` · ${action.when}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {provenance.assertions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {provenance.assertions.map((label) => (
+                <Badge key={label} variant="outline" className="text-slate-300 border-slate-600 text-xs">
+                  {label}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {provenance.errors.length > 0 && (
+            <ul className="text-red-300 space-y-1">
+              {provenance.errors.map((error, index) => (
+                <li key={index}>⚠ {error}</li>
+              ))}
+            </ul>
+          )}
+
+          {provenance.trustIssues.length > 0 && (
+            <ul className="text-yellow-300 space-y-1">
+              {provenance.trustIssues.map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProvenancePanel;
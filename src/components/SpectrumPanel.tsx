@@ -0,0 +1,72 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { SpectralResult } from '@/utils/spectralAnalysis';
+
+interface SpectrumPanelProps {
+  spectrum: SpectralResult;
+}
+
+const chartConfig = {
+  power: { label: 'Measured', color: '#38bdf8' },
+  reference: { label: 'Natural image (1/f²)', color: '#94a3b8' }
+} satisfies ChartConfig;
+
+const SpectrumPanel: React.FC<SpectrumPanelProps> = ({ spectrum }) => {
+  const data = spectrum.profile.map((point) => ({
+    frequency: point.frequency.toFixed(2),
+    power: Number(point.power.toFixed(2)),
+    reference: Number(point.reference.toFixed(2))
+  }));
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Activity className="h-4 w-4 text-sky-400" />
+          <span className="text-sm font-medium text-white">Frequency Spectrum</span>
+        </div>
+        <span className="text-xs text-slate-400">
+          {spectrum.size}×{spectrum.size} centre crop · slope {spectrum.slope.toFixed(2)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center">
+        <div className="relative rounded overflow-hidden border border-slate-600 bg-black aspect-square">
+          <img src={spectrum.spectrumImage} alt="2D power spectrum" className="w-full h-full" />
+          {spectrum.peaks.map((peak, index) => (
+            <span
+              key={index}
+              className="absolute h-3 w-3 -ml-1.5 -mt-1.5 rounded-full border border-red-400"
+              style={{ left: `${(peak.u + 1) * 50}%`, top: `${(peak.v + 1) * 50}%` }}
+            />
+          ))}
+        </div>
+
+        <ChartContainer config={chartConfig} className="md:col-span-2 aspect-auto h-48 w-full">
+          <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="frequency" interval="preserveStartEnd" minTickGap={32} />
+            <YAxis width={32} domain={['auto', 'auto']} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => `${value} × Nyquist`} />} />
+            <Line type="monotone" dataKey="reference" stroke="var(--color-reference)" strokeDasharray="4 4" dot={false} />
+            <Line type="monotone" dataKey="power" stroke="var(--color-power)" dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      {spectrum.findings.length > 0 ? (
+        <ul className="mt-3 space-y-1 text-xs text-yellow-300">
+          {spectrum.findings.map((finding, index) => (
+            <li key={index}>• {finding}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-green-400">Spectrum follows the natural-image power law with no periodic peaks</p>
+      )}
+    </div>
+  );
+};
+
+export default SpectrumPanel;
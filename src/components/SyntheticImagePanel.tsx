@@ -0,0 +1,56 @@
+import React from 'react';
+import { ScanFace } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ClassifierLabel, SyntheticImageResult } from '@/utils/syntheticImage';
+
+interface SyntheticImagePanelProps {
+  synthetic: SyntheticImageResult;
+}
+
+const LabelList: React.FC<{ title: string; labels: ClassifierLabel[] }> = ({ title, labels }) => (
+  <div>
+    <p className="text-slate-400 mb-1">{title}</p>
+    <div className="space-y-1">
+      {labels.map((entry) => (
+        <div key={entry.label} className="flex items-center space-x-2">
+          <span className="w-28 truncate text-slate-200">{entry.label}</span>
+          <Progress value={entry.score * 100} className="h-1.5 flex-1" />
+          <span className="w-12 text-right font-mono text-slate-300">{(entry.score * 100).toFixed(1)}%</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const SyntheticImagePanel: React.FC<SyntheticImagePanelProps> = ({ synthetic }) => {
+  const likely = synthetic.score >= 50;
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <ScanFace className="h-4 w-4 text-fuchsia-400" />
+          <span className="text-sm font-medium text-white">Synthetic-Image Classifier</span>
+        </div>
+        <Badge className={likely ? 'bg-red-600' : 'bg-green-600'}>
+          {synthetic.score.toFixed(0)}% synthetic
+        </Badge>
+      </div>
+
+      <p className="text-xs text-slate-400 mb-3">
+        <span className="font-mono text-slate-300">{synthetic.model}</span> · whole image{' '}
+        {(synthetic.probability * 100).toFixed(0)}%
+        {synthetic.faceProbability !== null && <> · main face {(synthetic.faceProbability * 100).toFixed(0)}%</>}
+        {' '}· raw model output, not calibrated and not counted in the verdict
+      </p>
+
+      <div className="grid gap-3 text-xs md:grid-cols-2">
+        <LabelList title="Whole image" labels={synthetic.labels} />
+        {synthetic.faceLabels.length > 0 && <LabelList title="Main face" labels={synthetic.faceLabels} />}
+      </div>
+    </div>
+  );
+};
+
+export default SyntheticImagePanel;
@@ -0,0 +1,341 @@
+import React, { useRef, useState } from 'react';
+import { Film } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { VideoAnalysisResult, VideoFrameScore } from '@/utils/computerVision';
+import { TimingAnomalyKind } from '@/utils/timingIntegrity';
+import { describeSampling } from '@/utils/videoFrames';
+
+interface VideoFramesPanelProps {
+  video: VideoAnalysisResult;
+  videoUrl?: string;
+}
+
+const chartConfig = {
+  score: { label: 'Manipulation score', color: '#c084fc' }
+} satisfies ChartConfig;
+
+const timingLabels: Record<TimingAnomalyKind, string> = {
+  duplicate: 'Repeated frames',
+  dropped: 'Missing frames',
+  'irregular-pts': 'Irregular timestamps',
+  interpolated: 'Synthesised frames',
+  'rate-change': 'Frame rate change'
+};
+
+const pairColors = ['#f87171', '#60a5fa', '#facc15', '#4ade80', '#c084fc', '#fb923c'];
+
+const FrameOverlay: React.FC<{ frame: VideoFrameScore; showEla: boolean }> = ({ frame, showEla }) => {
+  const strokeWidth = Math.max(frame.width, frame.height) / 250;
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {showEla && frame.ela && (
+        <img src={frame.ela.heatmap} alt="Error level analysis" className="absolute inset-0 w-full h-full opacity-60 mix-blend-screen" />
+      )}
+      <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${frame.width} ${frame.height}`} preserveAspectRatio="none">
+        {frame.copyMove?.pairs.map((pair, index) => (
+          <g key={`pair-${index}`} stroke={pairColors[index % pairColors.length]} strokeWidth={strokeWidth} fill="none">
+            <rect {...pair.source} strokeDasharray={`${strokeWidth * 4} ${strokeWidth * 2}`} />
+            <rect {...pair.target} />
+          </g>
+        ))}
+        {frame.faces.faces.map((face, index) => (
+          <rect
+            key={`face-${index}`}
+            {...face.box}
+            fill="none"
+            stroke={face.manipulationScore >= 60 ? '#f87171' : face.manipulationScore >= 30 ? '#facc15' : '#4ade80'}
+            strokeWidth={strokeWidth}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const VideoFramesPanel: React.FC<VideoFramesPanelProps> = ({ video, videoUrl }) => {
+  const { extraction, frames, suspiciousFrames, lipSync, scenes, timing } = video;
+  const playerRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [selected, setSelected] = useState<VideoFrameScore | null>(null);
+  const [showEla, setShowEla] = useState(true);
+
+  const suspicious = new Set(suspiciousFrames);
+  const data = frames.map((frame) => ({
+    time: Number(frame.time.toFixed(3)),
+    score: Number(frame.manipulationScore.toFixed(1)),
+    index: frame.index,
+    suspicious: suspicious.has(frame.index)
+  }));
+
+  const seekToTime = (time: number) => {
+    const player = playerRef.current;
+    if (player) {
+      player.pause();
+      player.currentTime = time;
+    }
+  };
+
+  const seekTo = (frame: VideoFrameScore) => {
+    setSelected(frame);
+    seekToTime(frame.time);
+  };
+
+  // Overlays belong to one decoded frame, so they are only drawn while the player shows it
+  const frameDuration = 1 / extraction.frameRate;
+  const overlayFrame = selected && Math.abs(currentTime - selected.time) < frameDuration ? selected : null;
+
+  return (
+    <div className="p-3 bg-slate-700/20 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Film className="h-4 w-4 text-purple-400" />
+          <span className="text-sm font-medium text-white">Frame Timeline</span>
+        </div>
+        <Badge variant="outline" className="text-slate-300 border-slate-600">
+          {extraction.sampledFrames} frame{extraction.sampledFrames === 1 ? '' : 's'} · {describeSampling(extraction.sampling)}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-slate-400 mb-3">
+        <div>Resolution: <span className="text-slate-200">{extraction.width}×{extraction.height}</span></div>
+        <div>Duration: <span className="text-slate-200">{extraction.duration.toFixed(2)}s</span></div>
+        <div>
+          Frame rate: <span className="text-slate-200">{extraction.frameRate.toFixed(2)} fps</span>
+          {extraction.frameRateSource === 'assumed' && ' (assumed)'}
+        </div>
+        <div>
+          Frames: <span className="text-slate-200">{extraction.frameCount}</span>
+          {extraction.keyframeCount !== null && ` (${extraction.keyframeCount} keyframes)`}
+        </div>
+      </div>
+
+      {videoUrl && (
+        <div className="relative w-full max-w-xl mx-auto rounded-lg overflow-hidden border border-slate-600 bg-black mb-3">
+          <video
+            ref={playerRef}
+            src={videoUrl}
+            controls
+            muted
+            className="block w-full h-auto"
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+          {overlayFrame && <FrameOverlay frame={overlayFrame} showEla={showEla} />}
+        </div>
+      )}
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full cursor-pointer">
+        <LineChart
+          data={data}
+          margin={{ left: 0, right: 8, top: 8, bottom: 0 }}
+          onClick={(state) => {
+            if (state?.activeTooltipIndex !== undefined && frames[state.activeTooltipIndex]) {
+              seekTo(frames[state.activeTooltipIndex]);
+            }
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[0, Math.max(extraction.duration, 0.001)]}
+            tickFormatter={(value: number) => `${value.toFixed(1)}s`}
+          />
+          <YAxis width={32} domain={[0, 100]} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload;
+                  return point ? `Frame ${point.index} · ${point.time.toFixed(2)}s` : '';
+                }}
+              />
+            }
+          />
+          {lipSync?.segments.map((segment, index) => (
+            <ReferenceArea key={`lip-${index}`} x1={segment.start} x2={segment.end} fill="#f97316" fillOpacity={0.15} stroke="none" />
+          ))}
+          {timing?.anomalies.map((anomaly, index) => (
+            <ReferenceArea
+              key={`timing-${index}`}
+              x1={anomaly.start}
+              x2={Math.max(anomaly.end, anomaly.start + extraction.duration / 200)}
+              fill="#facc15"
+              fillOpacity={0.15}
+              stroke="none"
+            />
+          ))}
+          {scenes?.cuts.map((cut, index) => (
+            <ReferenceLine
+              key={`cut-${index}`}
+              x={cut.time}
+              stroke={cut.classification === 'suspicious' ? '#ef4444' : '#64748b'}
+              strokeDasharray={cut.transition === 'fade' ? '2 4' : undefined}
+            />
+          ))}
+          {videoUrl && <ReferenceLine x={currentTime} stroke="#94a3b8" strokeDasharray="3 3" />}
+          <Line
+            type="monotone"
+            dataKey="score"
+            stroke="var(--color-score)"
+            isAnimationActive={false}
+            dot={(props) => (
+              <circle
+                key={props.index}
+                cx={props.cx}
+                cy={props.cy}
+                r={props.payload.suspicious ? 4 : 2}
+                fill={props.payload.suspicious ? '#ef4444' : 'var(--color-score)'}
+                stroke="none"
+              />
+            )}
+          />
+        </LineChart>
+      </ChartContainer>
+
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <span className="text-slate-400">
+          {selected
+            ? `Frame ${selected.index} at ${selected.time.toFixed(2)}s: ${selected.manipulationScore.toFixed(0)}%` +
+              `${selected.copyMove?.pairs.length ? ` · ${selected.copyMove.pairs.length} cloned region pair(s)` : ''}` +
+              `${selected.faces.faces.length ? ` · ${selected.faces.faces.length} face(s)` : ''}`
+            : 'Click the timeline to jump to a frame and show its forensic overlays'}
+        </span>
+        <label className="flex items-center space-x-2 text-slate-300">
+          <Switch checked={showEla} onCheckedChange={setShowEla} />
+          <span>ELA overlay</span>
+        </label>
+      </div>
+
+      {suspiciousFrames.length > 0 ? (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {frames
+            .filter((frame) => suspicious.has(frame.index))
+            .map((frame) => (
+              <button
+                key={frame.index}
+                type="button"
+                onClick={() => seekTo(frame)}
+                className="px-2 py-0.5 rounded bg-red-500/20 text-red-300 text-xs hover:bg-red-500/30"
+              >
+                #{frame.index} · {frame.time.toFixed(2)}s
+              </button>
+            ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 mt-2">No sampled frame stands out from the rest of the clip.</p>
+      )}
+
+      {scenes && scenes.cuts.length > 0 && (
+        <div className="mt-3 text-xs">
+          <p className="text-slate-300 mb-1">
+            {scenes.segments.length} shots · {scenes.cuts.length} cut{scenes.cuts.length === 1 ? '' : 's'}
+            <span className="text-slate-500"> (grey lines: natural cuts, red: footage changes across the cut, dotted: fades)</span>
+          </p>
+          <div className="space-y-1">
+            {scenes.segments.map((segment, index) => {
+              const cut = index > 0 ? scenes.cuts[index - 1] : null;
+              return (
+                <button
+                  key={segment.index}
+                  type="button"
+                  onClick={() => seekToTime(segment.start)}
+                  className={`w-full text-left px-2 py-1 rounded border ${
+                    cut?.classification === 'suspicious' ? 'border-red-500/50 bg-red-500/10' : 'border-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  <span className="text-slate-200">
+                    Shot {segment.index + 1} · {segment.start.toFixed(2)}–{segment.end.toFixed(2)}s
+                  </span>
+                  <span className="text-slate-400">
+                    {' '}· {segment.frames.length} frame{segment.frames.length === 1 ? '' : 's'} · score {segment.score.toFixed(0)}%
+                    {segment.effectiveFrameRate !== null && ` · ${segment.effectiveFrameRate.toFixed(0)} fps of distinct frames`}
+                  </span>
+                  {cut && cut.mismatches.length > 0 && (
+                    <span className="block text-red-300">Changes at the cut: {cut.mismatches.join(', ')}</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {timing && (
+        <div className="mt-3 text-xs">
+          <p className="text-slate-300 mb-1">
+            Timing integrity {timing.integrity.toFixed(0)}%
+            <span className="text-slate-500">
+              {' '}· {timing.nominalFrameRate.toFixed(2)} fps
+              {timing.timestampSource === 'container' ? ` · ${timing.frameCount} frame timestamps` : ' (assumed)'}
+              {' '}· {timing.frames.length} consecutive frames decoded
+            </span>
+          </p>
+          {timing.anomalies.length > 0 && (
+            <div className="space-y-1">
+              {timing.anomalies.map((anomaly, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => seekToTime(anomaly.start)}
+                  className="block w-full text-left px-2 py-0.5 rounded bg-yellow-500/10 text-yellow-200 hover:bg-yellow-500/20"
+                >
+                  <span className="font-medium">{timingLabels[anomaly.kind]}</span>
+                  <span className="text-slate-300"> · frames {anomaly.firstFrame}–{anomaly.lastFrame}: {anomaly.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {timing.notes.map((note, index) => (
+            <p key={index} className="text-slate-500 mt-1">{note}</p>
+          ))}
+        </div>
+      )}
+
+      {lipSync && (lipSync.assessed || lipSync.notes.length > 0) && (
+        <div className="mt-3 text-xs">
+          <p className="text-slate-300 mb-1">
+            Lip sync{lipSync.segments.length > 0 && <span className="text-orange-300"> · shaded spans: lip motion and speech disagree</span>}
+          </p>
+          {lipSync.tracks
+            .filter((track) => track.assessed)
+            .map((track) => (
+              <p key={track.trackId} className="text-slate-400">
+                Face {track.trackId}: correlation {track.correlation.toFixed(2)} with the speech, mouth{' '}
+                {Math.abs(track.lag) < 0.5 / lipSync.frameRate
+                  ? 'in step with the audio'
+                  : `${Math.round(Math.abs(track.lag) * 1000)} ms ${track.lag > 0 ? 'behind' : 'ahead of'} the audio`}
+              </p>
+            ))}
+          {lipSync.segments.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {lipSync.segments.map((segment, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  title={segment.description}
+                  onClick={() => seekToTime(segment.start)}
+                  className="px-2 py-0.5 rounded bg-orange-500/20 text-orange-300 text-xs hover:bg-orange-500/30"
+                >
+                  Face {segment.trackId} · {segment.start.toFixed(1)}–{segment.end.toFixed(1)}s
+                </button>
+              ))}
+            </div>
+          )}
+          {lipSync.notes.map((note, index) => (
+            <p key={index} className="text-slate-500 mt-1">{note}</p>
+          ))}
+        </div>
+      )}
+
+      {extraction.notes.map((note, index) => (
+        <p key={index} className="text-xs text-slate-500 mt-1">{note}</p>
+      ))}
+    </div>
+  );
+};
+
+export default VideoFramesPanel;
@@ -4,15 +4,20 @@ import { useDropzone } from 'react-dropzone';
 import { Video, Upload, X, Play } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_FRAME_SAMPLING, FrameSampling } from '@/utils/videoFrames';
 
 interface VideoUploadProps {
-  onAnalyze: (type: 'video', data: { fileName: string; file: File }) => void;
+  onAnalyze: (type: 'video', data: { fileName: string; file: File; sampling: FrameSampling }) => void;
   disabled?: boolean;
 }
 
 const VideoUpload: React.FC<VideoUploadProps> = ({ onAnalyze, disabled }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
+  const [samplingMode, setSamplingMode] = useState<FrameSampling['mode']>(DEFAULT_FRAME_SAMPLING.mode);
+  const [samplingValue, setSamplingValue] = useState('1');
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -35,7 +40,13 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ onAnalyze, disabled }) => {
 
   const handleAnalyze = () => {
     if (selectedFile) {
-      onAnalyze('video', { fileName: selectedFile.name, file: selectedFile });
+      const value = Math.max(Number(samplingValue) || 1, samplingMode === 'rate' ? 0.1 : 1);
+      const sampling: FrameSampling = samplingMode === 'interval'
+        ? { mode: 'interval', frames: Math.round(value) }
+        : samplingMode === 'rate'
+          ? { mode: 'rate', perSecond: value }
+          : { mode: 'keyframes' };
+      onAnalyze('video', { fileName: selectedFile.name, file: selectedFile, sampling });
     }
   };
 
@@ -121,6 +132,34 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ onAnalyze, disabled }) => {
                     Type: {selectedFile?.type || 'Unknown'}
                   </p>
                 </div>
+                <div className="flex items-center space-x-2 mb-4">
+                  <span className="text-slate-300 text-sm">Sample</span>
+                  <Select
+                    value={samplingMode}
+                    onValueChange={(mode) => setSamplingMode(mode as FrameSampling['mode'])}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="w-44 bg-slate-800/50 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rate">Frames per second</SelectItem>
+                      <SelectItem value="interval">Every N frames</SelectItem>
+                      <SelectItem value="keyframes">Keyframes only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {samplingMode !== 'keyframes' && (
+                    <Input
+                      type="number"
+                      min={samplingMode === 'rate' ? 0.1 : 1}
+                      step={samplingMode === 'rate' ? 0.5 : 1}
+                      value={samplingValue}
+                      onChange={(e) => setSamplingValue(e.target.value)}
+                      className="w-20 bg-slate-800/50 border-slate-600 text-white"
+                      disabled={disabled}
+                    />
+                  )}
+                </div>
                 <Button
                   onClick={handleAnalyze}
                   disabled={disabled}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ZeroShotResult } from '@/utils/zeroShotProbe';
+
+interface ZeroShotPanelProps {
+  zeroShot: ZeroShotResult;
+}
+
+const ZeroShotPanel: React.FC<ZeroShotPanelProps> = ({ zeroShot }) => (
+  <div className="p-3 bg-slate-700/20 rounded-lg">
+    <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center space-x-2">
+        <MessageSquareText className="h-4 w-4 text-sky-400" />
+        <span className="text-sm font-medium text-white">Zero-Shot Prompt Probe</span>
+      </div>
+      <Badge className={zeroShot.score >= 50 ? 'bg-red-600' : 'bg-green-600'}>
+        {zeroShot.score.toFixed(0)}% synthetic
+      </Badge>
+    </div>
+
+    <p className="text-xs text-slate-400 mb-2">
+      Cosine similarity between the image and each prompt under <span className="font-mono text-slate-300">{zeroShot.model}</span>.
+      Prompts are edited on the Models page.
+    </p>
+
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-slate-400 text-left">
+          <th className="font-normal pb-1">Prompt</th>
+          <th className="font-normal pb-1 text-right">Similarity</th>
+          <th className="font-normal pb-1 text-right">Share</th>
+        </tr>
+      </thead>
+      <tbody>
+        {zeroShot.prompts.map((prompt) => (
+          <tr key={prompt.text} className="border-t border-slate-700/60">
+            <td className="py-1 pr-2">
+              <span className={`inline-block w-2 h-2 rounded-full mr-2 ${prompt.kind === 'synthetic' ? 'bg-red-400' : 'bg-green-400'}`} />
+              <span className="text-slate-200">{prompt.text}</span>
+            </td>
+            <td className="py-1 text-right font-mono text-slate-300">{prompt.similarity.toFixed(3)}</td>
+            <td className="py-1 text-right font-mono text-slate-400">{(prompt.probability * 100).toFixed(1)}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default ZeroShotPanel;
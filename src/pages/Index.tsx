@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import { Upload, Link, Shield, AlertTriangle, CheckCircle, XCircle, Info } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Upload, Link, Shield, AlertTriangle, CheckCircle, XCircle, Info, Boxes } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -7,18 +8,34 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import ImageUpload from '@/components/ImageUpload';
 import VideoUpload from '@/components/VideoUpload';
+import AudioUpload from '@/components/AudioUpload';
 import SocialLinkAnalyzer from '@/components/SocialLinkAnalyzer';
 import AnalysisResults from '@/components/AnalysisResults';
 import TelegramBotAnalyzer from '@/components/TelegramBotAnalyzer';
 import TwitterBotAnalyzer from '@/components/TwitterBotAnalyzer';
 import InstagramBotAnalyzer from '@/components/InstagramBotAnalyzer';
 import SocialMediaMonitor from '@/components/SocialMediaMonitor';
-import { analyzeImage, analyzeVideo, analyzeTelegramBot, analyzeTwitterBot, analyzeInstagramBot, analyzeSocialMediaMonitoring } from '@/utils/deepfakeDetection';
+import { ElaResult, VideoAnalysisResult } from '@/utils/computerVision';
+import { JpegForensicsResult } from '@/utils/jpegForensics';
+import { MetadataResult } from '@/utils/metadataAnalysis';
+import { ProvenanceResult } from '@/utils/c2paVerification';
+import { CopyMoveResult } from '@/utils/copyMoveDetection';
+import { SpectralResult } from '@/utils/spectralAnalysis';
+import { FaceAnalysisResult } from '@/utils/faceAnalysis';
+import { GeneratorFingerprint } from '@/utils/generativeProvenance';
+import { ContainerResult } from '@/utils/containerAnalysis';
+import { AudioAnalysisResult } from '@/utils/audioAnalysis';
+import { EnfResult } from '@/utils/enfAnalysis';
+import { SyntheticImageResult } from '@/utils/syntheticImage';
+import { ZeroShotResult } from '@/utils/zeroShotProbe';
+import AIModelManager, { ModelLoadState } from '@/utils/aiModels';
+import { analyzeImage, analyzeVideo, analyzeAudio, analyzeTelegramBot, analyzeTwitterBot, analyzeInstagramBot, analyzeSocialMediaMonitoring } from '@/utils/deepfakeDetection';
 
 export interface AnalysisResult {
   id: string;
-  type: 'image' | 'video' | 'social' | 'telegram' | 'twitter' | 'instagram' | 'monitor';
+  type: 'image' | 'video' | 'audio' | 'social' | 'telegram' | 'twitter' | 'instagram' | 'monitor';
   fileName?: string;
+  previewUrl?: string;
   url?: string;
   username?: string;
   query?: string;
@@ -29,24 +46,38 @@ export interface AnalysisResult {
   sentiment?: 'positive' | 'negative' | 'neutral';
   riskLevel?: 'low' | 'medium' | 'high';
   analysisTime: number;
+  seed?: number;
   details: {
     faceDetection?: number;
     temporalConsistency?: number;
     artifactDetection?: number;
     metadataAnalysis?: number;
-    aiModelConfidence?: number;
+    voiceAuthenticity?: number;
+    timingIntegrity?: number;
+    zeroShotProbe?: number;
     patternAnalysis?: number;
-    linguisticAnalysis?: number;
     structureAnalysis?: number;
     behavioralAnalysis?: number;
     profileAnalysis?: number;
-    visualAnalysis?: number;
     engagementAnalysis?: number;
     mentionCount?: number;
     sentimentScore?: number;
     botAccountsDetected?: number;
-    suspiciousActivity?: number;
   };
+  ela?: ElaResult | null;
+  copyMove?: CopyMoveResult | null;
+  spectrum?: SpectralResult | null;
+  faces?: FaceAnalysisResult;
+  jpeg?: JpegForensicsResult | null;
+  metadata?: MetadataResult;
+  provenance?: ProvenanceResult;
+  generator?: GeneratorFingerprint;
+  video?: VideoAnalysisResult;
+  container?: ContainerResult;
+  audio?: AudioAnalysisResult | null;
+  enf?: EnfResult | null;
+  synthetic?: SyntheticImageResult | null;
+  zeroShot?: ZeroShotResult | null;
   reasons?: string[];
   threats?: string[];
   findings?: {
@@ -58,34 +89,59 @@ export interface AnalysisResult {
   timestamp: Date;
 }
 
+const modelManager = AIModelManager.getInstance();
+
+const deviceLabels: Record<string, string> = { webgpu: 'WebGPU', wasm: 'WASM' };
+
+const stageLabels: Record<ModelLoadState['stage'], string> = {
+  download: 'Downloading',
+  compile: 'Compiling',
+  ready: 'Ready',
+  failed: 'Backend failed'
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
 const Index = () => {
   const [results, setResults] = useState<AnalysisResult[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [analysisStatus, setAnalysisStatus] = useState('');
+  // Latest load state per model requested during the current analysis
+  const [modelLoads, setModelLoads] = useState<Record<string, ModelLoadState>>({});
+  // Object URL behind the latest file's preview, released when another file is analyzed or the page unmounts
+  const currentPreview = useRef<string>();
+
+  useEffect(() => modelManager.onProgress((state) => {
+    setModelLoads((prev) => ({ ...prev, [state.capability]: state }));
+  }), []);
+
+  useEffect(() => () => {
+    if (currentPreview.current) URL.revokeObjectURL(currentPreview.current);
+    currentPreview.current = undefined;
+  }, []);
 
   const addResult = (result: AnalysisResult) => {
-    setResults(prev => [result, ...prev]);
+    // Only the newest file keeps a preview; older results lose theirs once it is revoked
+    setResults(prev => [result, ...(result.previewUrl ? prev.map(({ previewUrl, ...rest }) => rest) : prev)]);
+  };
+
+  const replacePreview = (file?: File) => {
+    if (!file) return undefined;
+    if (currentPreview.current) URL.revokeObjectURL(currentPreview.current);
+    currentPreview.current = URL.createObjectURL(file);
+    return currentPreview.current;
   };
 
-  const handleAnalysis = async (type: 'image' | 'video' | 'social' | 'telegram' | 'twitter' | 'instagram' | 'monitor', data: any) => {
+  const handleAnalysis = async (type: 'image' | 'video' | 'audio' | 'social' | 'telegram' | 'twitter' | 'instagram' | 'monitor', data: any) => {
     setIsAnalyzing(true);
     setAnalysisProgress(0);
     setAnalysisStatus('Initializing AI models...');
+    setModelLoads({});
 
     const startTime = Date.now();
 
     try {
-      const progressInterval = setInterval(() => {
-        setAnalysisProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + Math.random() * 10;
-        });
-      }, 500);
-
       let analysisResult;
 
       if (type === 'image') {
@@ -93,7 +149,10 @@ const Index = () => {
         analysisResult = await analyzeImage(data.file);
       } else if (type === 'video') {
         setAnalysisStatus('Extracting video frames...');
-        analysisResult = await analyzeVideo(data.file);
+        analysisResult = await analyzeVideo(data.file, { sampling: data.sampling });
+      } else if (type === 'audio') {
+        setAnalysisStatus('Decoding audio...');
+        analysisResult = await analyzeAudio(data.file);
       } else if (type === 'social') {
         setAnalysisStatus('Analyzing social media content...');
         analysisResult = await analyzeSocialMediaMonitoring(data.url, data.platforms || ['twitter', 'instagram']);
@@ -111,16 +170,15 @@ const Index = () => {
         analysisResult = await analyzeSocialMediaMonitoring(data.query, data.platforms);
       }
 
-      clearInterval(progressInterval);
       setAnalysisProgress(100);
       setAnalysisStatus('Analysis complete!');
 
       const analysisTime = (Date.now() - startTime) / 1000;
-
       const result: AnalysisResult = {
         id: Date.now().toString(),
         type,
         fileName: data.fileName,
+        previewUrl: replacePreview(data.file),
         url: data.url,
         username: data.username,
         query: data.query,
@@ -131,7 +189,22 @@ const Index = () => {
         sentiment: analysisResult.sentiment,
         riskLevel: analysisResult.riskLevel,
         analysisTime,
+        seed: analysisResult.seed,
         details: analysisResult.details,
+        ela: analysisResult.ela,
+        copyMove: analysisResult.copyMove,
+        spectrum: analysisResult.spectrum,
+        faces: analysisResult.faces,
+        jpeg: analysisResult.jpeg,
+        metadata: analysisResult.metadata,
+        provenance: analysisResult.provenance,
+        generator: analysisResult.generator,
+        video: analysisResult.video,
+        container: analysisResult.container,
+        audio: analysisResult.audio,
+        enf: analysisResult.enf,
+        synthetic: analysisResult.synthetic,
+        zeroShot: analysisResult.zeroShot,
         reasons: analysisResult.reasons,
         threats: analysisResult.threats,
         findings: analysisResult.findings,
@@ -156,6 +229,15 @@ const Index = () => {
     }
   };
 
+  // Byte progress while weights download; analysis stages themselves report no fraction
+  const activeLoads = Object.values(modelLoads).filter((load) => load.stage === 'download');
+  const loadTotal = activeLoads.reduce((sum, load) => sum + load.total, 0);
+  const overallProgress = analysisProgress === 100
+    ? 100
+    : loadTotal > 0
+      ? (activeLoads.reduce((sum, load) => sum + load.loaded, 0) / loadTotal) * 100
+      : null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       <div className="container mx-auto px-4 py-8">
@@ -170,6 +252,12 @@ const Index = () => {
             Advanced AI-powered social media intelligence, deepfake detection, and bot analysis. 
             Real machine learning models running entirely in your browser.
           </p>
+          <Button asChild variant="outline" size="sm" className="mb-4 bg-transparent border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white">
+            <RouterLink to="/models">
+              <Boxes className="h-4 w-4 mr-2" />
+              Models &amp; offline bundles
+            </RouterLink>
+          </Button>
           
           {/* AI Notice */}
           <Card className="max-w-3xl mx-auto mb-8 bg-green-900/20 border-green-700">
@@ -199,11 +287,43 @@ const Index = () => {
                 <div className="flex-1">
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-white font-medium">{analysisStatus}</span>
-                    <span className="text-blue-400 font-mono">{Math.round(analysisProgress)}%</span>
+                    {overallProgress !== null && (
+                      <span className="text-blue-400 font-mono">{Math.round(overallProgress)}%</span>
+                    )}
                   </div>
-                  <Progress value={analysisProgress} className="h-2" />
+                  <Progress value={overallProgress ?? 100} className={`h-2 ${overallProgress === null ? 'animate-pulse' : ''}`} />
                 </div>
               </div>
+
+              {Object.values(modelLoads).length > 0 && (
+                <ul className="mt-4 space-y-2">
+                  {Object.values(modelLoads).map((load) => (
+                    <li key={load.capability} className="text-xs">
+                      <div className="flex justify-between items-center text-slate-300 mb-1">
+                        <span>
+                          <span className="text-white">{load.model}</span> · {load.capability} ·{' '}
+                          <Badge variant="outline" className="text-[10px] px-1 py-0 border-slate-600 text-slate-300">
+                            {deviceLabels[load.device] ?? load.device}
+                          </Badge>
+                        </span>
+                        <span className={load.stage === 'failed' ? 'text-red-400' : 'text-slate-400'}>
+                          {stageLabels[load.stage]}
+                          {load.total > 0 && ` · ${formatMegabytes(load.loaded)} / ${formatMegabytes(load.total)}`}
+                        </span>
+                      </div>
+                      {(load.stage === 'download' || load.stage === 'compile') && (
+                        <Progress
+                          value={load.total > 0 ? (load.loaded / load.total) * 100 : 0}
+                          className={`h-1 ${load.stage === 'compile' ? 'animate-pulse' : ''}`}
+                        />
+                      )}
+                      {load.stage === 'failed' && load.error && (
+                        <p className="text-red-300 truncate">{load.error}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </CardContent>
           </Card>
         )}
@@ -218,7 +338,7 @@ const Index = () => {
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="monitor" className="w-full">
-              <TabsList className="grid w-full grid-cols-6 bg-slate-700/50">
+              <TabsList className="grid w-full grid-cols-7 bg-slate-700/50">
                 <TabsTrigger value="monitor" className="text-white data-[state=active]:bg-purple-600 text-xs">
                   Social Monitor
                 </TabsTrigger>
@@ -237,6 +357,9 @@ const Index = () => {
                 <TabsTrigger value="video" className="text-white data-[state=active]:bg-green-600 text-xs">
                   Video Analysis
                 </TabsTrigger>
+                <TabsTrigger value="audio" className="text-white data-[state=active]:bg-green-600 text-xs">
+                  Audio Analysis
+                </TabsTrigger>
               </TabsList>
               
               <TabsContent value="monitor" className="mt-6">
@@ -262,6 +385,10 @@ const Index = () => {
               <TabsContent value="video" className="mt-6">
                 <VideoUpload onAnalyze={handleAnalysis} disabled={isAnalyzing} />
               </TabsContent>
+
+              <TabsContent value="audio" className="mt-6">
+                <AudioUpload onAnalyze={handleAnalysis} disabled={isAnalyzing} />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Boxes, Download, Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import AIModelManager from '@/utils/aiModels';
+import { BundleCheck, BundleManifest, InstalledModel, ModelSourceMode } from '@/utils/modelBundles';
+import { isCommitRevision } from '@/utils/modelRegistry';
+import ZeroShotProbe, { ProbePrompt, PromptKind } from '@/utils/zeroShotProbe';
+
+const modelManager = AIModelManager.getInstance();
+const zeroShotProbe = new ZeroShotProbe();
+
+const sourceOptions: { mode: ModelSourceMode; label: string; description: string }[] = [
+  {
+    mode: 'remote',
+    label: 'Hugging Face Hub',
+    description: 'Download weights on first use and keep them in the browser cache.'
+  },
+  {
+    mode: 'directory',
+    label: 'Local model directory',
+    description: 'Serve an extracted bundle next to the app (e.g. public/models). Nothing is downloaded.'
+  },
+  {
+    mode: 'archive',
+    label: 'Imported bundle',
+    description: 'Use a bundle archive imported below and stored in this browser. Nothing is downloaded.'
+  }
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes <= 0) return '—';
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / 1024 ** exponent).toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
+
+const Models = () => {
+  const [mode, setMode] = useState<ModelSourceMode>(modelManager.bundles.source.mode);
+  const [directory, setDirectory] = useState(modelManager.bundles.source.directory);
+  const [models, setModels] = useState<InstalledModel[]>([]);
+  const [manifest, setManifest] = useState<BundleManifest | null>(null);
+  const [checks, setChecks] = useState<BundleCheck[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState<ProbePrompt[]>(() => zeroShotProbe.prompts());
+  const [promptStatus, setPromptStatus] = useState<{ message: string; failed: boolean } | null>(null);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    try {
+      setManifest(await modelManager.bundles.manifest());
+      setModels(await modelManager.bundles.inventory());
+    } catch (refreshError) {
+      setManifest(null);
+      setModels([]);
+      setError(refreshError instanceof Error ? refreshError.message : 'Could not read the model source');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (label: string, task: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : `${label} failed`);
+    }
+    setBusy(null);
+  };
+
+  const handleSave = () => run('Saving', async () => {
+    await modelManager.configureSource({ mode, directory });
+    setDirectory(modelManager.bundles.source.directory);
+    setChecks(null);
+    await refresh();
+  });
+
+  const handleVerify = () => run('Verifying', async () => {
+    setChecks(await modelManager.bundles.verify());
+  });
+
+  const handleExport = () => run('Building bundle', async () => {
+    const bundle = await modelManager.bundles.exportBundle((path) => setBusy(`Fetching ${path}`));
+    const url = URL.createObjectURL(bundle);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `deepguard-models-${new Date().toISOString().slice(0, 10)}.tar`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  });
+
+  const onDrop = (acceptedFiles: File[]) => {
+    const archive = acceptedFiles[0];
+    if (!archive) return;
+    run('Importing', async () => {
+      await modelManager.bundles.importArchive(archive);
+      setChecks(null);
+      await refresh();
+    });
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { 'application/x-tar': ['.tar'], 'application/gzip': ['.tar.gz', '.tgz'] },
+    multiple: false,
+    disabled: busy !== null
+  });
+
+  const updatePrompt = (index: number, change: Partial<ProbePrompt>) => {
+    setPrompts((current) => current.map((prompt, i) => (i === index ? { ...prompt, ...change } : prompt)));
+    setPromptStatus(null);
+  };
+
+  const handleSavePrompts = () => {
+    try {
+      zeroShotProbe.savePrompts(prompts);
+      setPrompts(zeroShotProbe.prompts());
+      setPromptStatus({ message: 'Prompts saved; they apply to the next image analysis.', failed: false });
+    } catch (saveError) {
+      setPromptStatus({ message: saveError instanceof Error ? saveError.message : 'Could not save prompts', failed: true });
+    }
+  };
+
+  const handleResetPrompts = () => {
+    zeroShotProbe.resetPrompts();
+    setPrompts(zeroShotProbe.prompts());
+    setPromptStatus({ message: 'Default prompts restored.', failed: false });
+  };
+
+  const saved = modelManager.bundles.source;
+  const dirty = mode !== saved.mode || (mode === 'directory' && directory !== saved.directory);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <Link to="/" className="inline-flex items-center text-sm text-slate-300 hover:text-white mb-6">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to analysis
+        </Link>
+
+        <div className="flex items-center mb-6">
+          <Boxes className="h-8 w-8 text-blue-400 mr-3" />
+          <h1 className="text-3xl font-bold text-white">Models</h1>
+        </div>
+
+        <Card className="mb-6 bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white text-lg">Model source</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ModelSourceMode)} className="space-y-2">
+              {sourceOptions.map((option) => (
+                <div key={option.mode} className="flex items-start space-x-3">
+                  <RadioGroupItem value={option.mode} id={`source-${option.mode}`} className="mt-1 border-slate-400 text-blue-400" />
+                  <Label htmlFor={`source-${option.mode}`} className="cursor-pointer">
+                    <span className="text-white">{option.label}</span>
+                    <span className="block text-xs text-slate-400 font-normal mt-0.5">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {mode === 'directory' && (
+              <div className="space-y-1">
+                <Label htmlFor="model-directory" className="text-slate-300 text-xs">Directory URL</Label>
+                <Input
+                  id="model-directory"
+                  value={directory}
+                  onChange={(event) => setDirectory(event.target.value)}
+                  className="bg-slate-900/50 border-slate-600 text-white max-w-sm"
+                />
+              </div>
+            )}
+
+            <p className="text-xs text-slate-400">
+              Offline sources only run files whose SHA-256 matches the bundle's manifest.json, including the ONNX runtime.
+            </p>
+
+            <Button size="sm" onClick={handleSave} disabled={!dirty || busy !== null} className="bg-blue-600 hover:bg-blue-700 text-white">
+              Save source
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6 bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white text-lg">Offline bundle</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div
+              {...getRootProps()}
+              className={`border border-dashed rounded p-4 text-center text-sm cursor-pointer ${
+                isDragActive ? 'border-blue-400 bg-blue-400/10' : 'border-slate-600 hover:border-slate-500'
+              }`}
+            >
+              <input {...getInputProps()} />
+              <p className="text-slate-300">Drop a model bundle (.tar or .tar.gz) to verify and import it</p>
+              <p className="text-xs text-slate-400 mt-1">Archives with any file that doesn't match the manifest are rejected as a whole.</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" variant="outline" onClick={handleVerify} disabled={saved.mode === 'remote' || busy !== null}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Verify installed files
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleExport} disabled={saved.mode !== 'remote' || busy !== null}>
+                <Download className="h-4 w-4 mr-2" />
+                Build bundle from the hub
+              </Button>
+              {busy && (
+                <span className="flex items-center text-xs text-slate-300">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {busy}
+                </span>
+              )}
+            </div>
+
+            {manifest && (
+              <p className="text-xs text-slate-400">
+                Bundle created {new Date(manifest.created).toLocaleString()} · runtime from transformers.js {manifest.runtimeVersion}
+              </p>
+            )}
+
+            {checks && checks.map((check) => (
+              <div key={check.name} className="text-xs">
+                <span className={check.problems.length === 0 ? 'text-green-400' : 'text-red-400'}>
+                  {check.problems.length === 0 ? '✓' : '✗'} {check.name}
+                </span>
+                {check.problems.map((problem, index) => (
+                  <p key={index} className="text-red-300 ml-4">{problem}</p>
+                ))}
+              </div>
+            ))}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6 bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white text-lg">Zero-shot prompts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-xs text-slate-400">
+              The CLIP probe compares each image with these descriptions. The share of the match that goes to synthetic
+              prompts becomes the probe's score, so keep both sides comparable in number and specificity.
+            </p>
+
+            {prompts.map((prompt, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  value={prompt.text}
+                  onChange={(event) => updatePrompt(index, { text: event.target.value })}
+                  className="bg-slate-900/50 border-slate-600 text-white"
+                />
+                <Select value={prompt.kind} onValueChange={(value) => updatePrompt(index, { kind: value as PromptKind })}>
+                  <SelectTrigger className="w-36 bg-slate-900/50 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="real">Real</SelectItem>
+                    <SelectItem value="synthetic">Synthetic</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-slate-400 hover:text-white"
+                  onClick={() => {
+                    setPrompts((current) => current.filter((_, i) => i !== index));
+                    setPromptStatus(null);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPrompts((current) => [...current, { text: '', kind: 'synthetic' }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add prompt
+              </Button>
+              <Button size="sm" onClick={handleSavePrompts} className="bg-blue-600 hover:bg-blue-700 text-white">
+                Save prompts
+              </Button>
+              <Button size="sm" variant="ghost" className="text-slate-400 hover:text-white" onClick={handleResetPrompts}>
+                Restore defaults
+              </Button>
+            </div>
+
+            {promptStatus && (
+              <p className={`text-xs ${promptStatus.failed ? 'text-red-400' : 'text-green-400'}`}>{promptStatus.message}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white text-lg">Installed models</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700">
+                  <TableHead className="text-slate-300">Capability</TableHead>
+                  <TableHead className="text-slate-300">Model</TableHead>
+                  <TableHead className="text-slate-300">Version</TableHead>
+                  <TableHead className="text-slate-300 text-right">Size</TableHead>
+                  <TableHead className="text-slate-300">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map((entry) => (
+                  <TableRow key={entry.capability} className="border-slate-700">
+                    <TableCell>
+                      <div className="text-white">{entry.capability}</div>
+                      <div className="text-xs text-slate-400">{entry.definition.purpose}</div>
+                    </TableCell>
+                    <TableCell className="text-slate-200 font-mono text-xs">{entry.definition.model}</TableCell>
+                    <TableCell className="text-slate-300 font-mono text-xs" title={entry.revision ?? entry.definition.revision}>
+                      {(entry.revision ?? entry.definition.revision).slice(0, 12)}
+                      {!isCommitRevision(entry.definition.revision) && (
+                        <span className="block text-yellow-500 font-sans">
+                          Not pinned to a commit
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-slate-300 text-right text-xs">
+                      {formatBytes(entry.size)}
+                      {entry.files > 0 && <span className="block text-slate-500">{entry.files} files</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={entry.installed ? 'bg-green-600' : 'bg-slate-600'}>
+                        {entry.installed ? 'Installed' : saved.mode === 'remote' ? 'Not downloaded' : 'Missing'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Models;
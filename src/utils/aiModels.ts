@@ -1,18 +1,56 @@
-
-import { pipeline, env, AutoTokenizer, AutoModel } from '@huggingface/transformers';
-
-// Configure for local model storage
-env.allowLocalModels = true;
-env.allowRemoteModels = true;
+import { pipeline } from '@huggingface/transformers';
+import type { DeviceType } from '@huggingface/transformers';
+import { MODEL_REGISTRY, ModelCapability, ModelDefinition } from './modelRegistry';
+import ModelBundleStore, { ModelSourceSettings } from './modelBundles';
 
 interface ModelCache {
   [key: string]: any;
 }
 
+// 'compile' covers building the ONNX session once the weights are in memory
+export type ModelLoadStage = 'download' | 'compile' | 'ready' | 'failed';
+
+export interface ModelFileProgress {
+  file: string;
+  loaded: number;
+  total: number;
+}
+
+export interface ModelLoadState {
+  capability: ModelCapability;
+  model: string;
+  device: DeviceType;
+  stage: ModelLoadStage;
+  files: ModelFileProgress[];
+  loaded: number;
+  total: number;
+  error?: string;
+}
+
+export type ModelLoadListener = (state: ModelLoadState) => void;
+
+// Subset of the transformers.js progress_callback payload
+interface TransformersProgress {
+  status: 'initiate' | 'download' | 'progress' | 'done' | 'ready';
+  file?: string;
+  loaded?: number;
+  total?: number;
+}
+
+// Byte counts arrive per network chunk; listeners hear at most this often
+const PROGRESS_INTERVAL_MS = 100;
+
 class AIModelManager {
   private static instance: AIModelManager;
   private modelCache: ModelCache = {};
   private loadingPromises: { [key: string]: Promise<any> } = {};
+  // Remote hub, local model directory or imported bundle
+  readonly bundles = new ModelBundleStore();
+  private listeners = new Set<ModelLoadListener>();
+
+  private constructor() {
+    this.bundles.apply();
+  }
 
   static getInstance(): AIModelManager {
     if (!AIModelManager.instance) {
@@ -21,128 +59,104 @@ class AIModelManager {
     return AIModelManager.instance;
   }
 
-  async loadDeepfakeDetectionModel() {
-    const modelKey = 'deepfake-detection';
-    
-    if (this.modelCache[modelKey]) {
-      return this.modelCache[modelKey];
-    }
-
-    if (this.loadingPromises[modelKey]) {
-      return this.loadingPromises[modelKey];
-    }
-
-    this.loadingPromises[modelKey] = pipeline(
-      'image-classification',
-      'microsoft/resnet-50',
-      { device: 'webgpu' }
-    );
-
-    try {
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
-    } catch (error) {
-      console.warn('WebGPU not available, falling back to CPU');
-      this.loadingPromises[modelKey] = pipeline(
-        'image-classification',
-        'microsoft/resnet-50'
-      );
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
-    }
+  // Returns an unsubscribe function
+  onProgress(listener: ModelLoadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
-  async loadSentimentAnalysisModel() {
-    const modelKey = 'sentiment-analysis';
-    
-    if (this.modelCache[modelKey]) {
-      return this.modelCache[modelKey];
-    }
-
-    if (this.loadingPromises[modelKey]) {
-      return this.loadingPromises[modelKey];
-    }
-
-    this.loadingPromises[modelKey] = pipeline(
-      'sentiment-analysis',
-      'cardiffnlp/twitter-roberta-base-sentiment-latest',
-      { device: 'webgpu' }
-    );
-
-    try {
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
-    } catch (error) {
-      console.warn('WebGPU not available for sentiment, falling back to CPU');
-      this.loadingPromises[modelKey] = pipeline(
-        'sentiment-analysis',
-        'cardiffnlp/twitter-roberta-base-sentiment-latest'
-      );
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
-    }
+  describe(capability: ModelCapability): ModelDefinition {
+    return MODEL_REGISTRY[capability];
   }
 
-  async loadTextClassificationModel() {
-    const modelKey = 'text-classification';
-    
-    if (this.modelCache[modelKey]) {
-      return this.modelCache[modelKey];
+  async load(capability: ModelCapability) {
+    if (this.modelCache[capability]) {
+      return this.modelCache[capability];
     }
 
-    if (this.loadingPromises[modelKey]) {
-      return this.loadingPromises[modelKey];
+    if (!this.loadingPromises[capability]) {
+      const definition = MODEL_REGISTRY[capability];
+      this.loadingPromises[capability] = this.bundles.prepare(definition).then(() => this.create(capability, definition));
     }
 
-    this.loadingPromises[modelKey] = pipeline(
-      'text-classification',
-      'unitary/toxic-bert',
-      { device: 'webgpu' }
-    );
-
     try {
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
+      this.modelCache[capability] = await this.loadingPromises[capability];
+      return this.modelCache[capability];
     } catch (error) {
-      console.warn('WebGPU not available for text classification, falling back to CPU');
-      this.loadingPromises[modelKey] = pipeline(
-        'text-classification',
-        'unitary/toxic-bert'
-      );
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
+      // Let the next caller retry instead of replaying the failure
+      delete this.loadingPromises[capability];
+      throw error;
     }
   }
 
-  async loadFeatureExtractionModel() {
-    const modelKey = 'feature-extraction';
-    
-    if (this.modelCache[modelKey]) {
-      return this.modelCache[modelKey];
+  private async create(capability: ModelCapability, definition: ModelDefinition) {
+    let lastError: unknown;
+    for (const device of definition.devices) {
+      const state: ModelLoadState = {
+        capability,
+        model: definition.model,
+        device,
+        stage: 'download',
+        files: [],
+        loaded: 0,
+        total: 0
+      };
+      let lastEmit = 0;
+      const emit = (force: boolean) => {
+        const now = Date.now();
+        if (!force && now - lastEmit < PROGRESS_INTERVAL_MS) return;
+        lastEmit = now;
+        state.loaded = state.files.reduce((sum, file) => sum + file.loaded, 0);
+        state.total = state.files.reduce((sum, file) => sum + file.total, 0);
+        const snapshot = { ...state, files: state.files.map(file => ({ ...file })) };
+        this.listeners.forEach(listener => listener(snapshot));
+      };
+      emit(true);
+
+      try {
+        const model = await pipeline(definition.task, definition.model, {
+          device,
+          dtype: definition.dtype[device],
+          revision: definition.revision,
+          progress_callback: (info: TransformersProgress) => {
+            if (!info.file || info.status === 'ready') return;
+            let file = state.files.find(entry => entry.file === info.file);
+            if (!file) {
+              file = { file: info.file, loaded: 0, total: 0 };
+              state.files.push(file);
+            }
+            if (info.status === 'progress') {
+              file.loaded = info.loaded ?? file.loaded;
+              file.total = info.total ?? file.total;
+              emit(false);
+            } else if (info.status === 'done') {
+              file.loaded = file.total = Math.max(file.loaded, file.total);
+              // The session is built as soon as the weights have been read
+              if (/\.onnx$/.test(info.file)) state.stage = 'compile';
+              emit(true);
+            }
+          }
+        });
+        state.stage = 'ready';
+        emit(true);
+        return model;
+      } catch (error) {
+        console.warn(`${device} not available for ${definition.model}, trying the next backend`, error);
+        state.stage = 'failed';
+        state.error = error instanceof Error ? error.message : String(error);
+        emit(true);
+        lastError = error;
+      }
     }
+    throw lastError ?? new Error(`No devices configured for ${definition.model}`);
+  }
 
-    if (this.loadingPromises[modelKey]) {
-      return this.loadingPromises[modelKey];
-    }
-
-    this.loadingPromises[modelKey] = pipeline(
-      'feature-extraction',
-      'sentence-transformers/all-MiniLM-L6-v2',
-      { device: 'webgpu' }
-    );
-
-    try {
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
-    } catch (error) {
-      console.warn('WebGPU not available for feature extraction, falling back to CPU');
-      this.loadingPromises[modelKey] = pipeline(
-        'feature-extraction',
-        'sentence-transformers/all-MiniLM-L6-v2'
-      );
-      this.modelCache[modelKey] = await this.loadingPromises[modelKey];
-      return this.modelCache[modelKey];
-    }
+  // Loaded models keep the weights they were created from, so switching drops them
+  async configureSource(settings: ModelSourceSettings) {
+    this.bundles.configure(settings);
+    await this.clearCache();
   }
 
   async clearCache() {
@@ -0,0 +1,772 @@
+import { decodeAudioBlob, DecodedAudio } from './audioIO';
+import { ContainerResult } from './containerAnalysis';
+import { fft, hannWindow } from './fft';
+import { imageDataToUrl } from './imageIO';
+
+// Scores speech for the artifacts of text-to-speech and voice conversion: the band limit of
+// the synthesis sample rate, vocoder phase and harmonic signatures, and pauses without the
+// breaths and room noise of a real recording. Also looks for splices: points where the
+// background noise, the waveform or the phase of the voice does not continue.
+
+export interface VoiceFeatures {
+  speechSeconds: number;
+  // Frequency where speech energy stops abruptly; null when it fades out naturally
+  bandLimit: number | null;
+  // 0 for random upper-band phase, 1 for phase that evolves perfectly predictably
+  phaseRegularity: number | null;
+  // Median relative pitch change between 10 ms frames
+  pitchJitter: number | null;
+  // Median harmonic-to-noise ratio of voiced frames, in dB
+  harmonicToNoise: number | null;
+  pauses: number;
+  // Share of long pauses that contain a breath
+  breathRatio: number | null;
+  // Share of pause time that is exact digital silence
+  digitalSilence: number;
+  // Coefficient of variation of pause lengths
+  pauseVariation: number | null;
+}
+
+// What the file itself says about the stored audio, used to tell a band limit that the
+// format explains from one left behind by synthesis
+export interface AudioSource {
+  codec: string;
+  sampleRate: number | null;
+  // Average bits per second; null when the file also carries video
+  bitrate: number | null;
+}
+
+export interface AudioSegment {
+  start: number;
+  end: number;
+  kind: 'noise-change' | 'phase-break' | 'click' | 'gated-silence';
+  description: string;
+}
+
+export interface AudioAnalysisResult {
+  duration: number;
+  analyzedDuration: number;
+  channels: number;
+  sampleRate: number;
+  spectrogram: string;
+  melBands: number;
+  maxFrequency: number;
+  features: VoiceFeatures;
+  // False when there was too little speech to judge the voice
+  assessed: boolean;
+  // 100 - score: how much the voice looks like a natural recording
+  voiceAuthenticity: number;
+  score: number;
+  findings: string[];
+  // Suspected edit points, in playback order
+  segments: AudioSegment[];
+  spliceScore: number;
+}
+
+const FFT_SIZE = 1024;
+const PITCH_FFT_SIZE = 2048;
+const HOP_SECONDS = 0.01;
+const MEL_BANDS = 80;
+const MAX_ANALYZED_SECONDS = 600;
+const MAX_SPECTROGRAM_COLUMNS = 1000;
+
+const MIN_SPEECH_SECONDS = 3;
+const MIN_PAUSE_SECONDS = 0.25;
+const LONG_PAUSE_SECONDS = 0.4;
+const MIN_BREATH_SECONDS = 0.08;
+const DIGITAL_SILENCE_DB = -90;
+const MIN_PITCH = 70;
+const MAX_PITCH = 400;
+const VOICING_THRESHOLD = 0.45;
+
+// Band limits at or below this match 16, 22.05 and 24 kHz synthesis; codecs at normal bitrates cut higher
+const SYNTHESIS_BAND_LIMIT = 12500;
+// An edge this close to the stored Nyquist frequency is the sample rate's, not the voice's
+const NYQUIST_SHARE = 0.8;
+// Lossy encoders low-pass speech at 11-14 kHz below roughly this average bitrate
+const LOW_PASS_BITRATE = 96000;
+const LOSSY_CODEC_PATTERN = /mp3|mpeg|mp4a|aac|opus|vorbis|samr|sawb|amr|a-law|µ-law|adpcm|ac-3|ec-3/i;
+const BAND_EDGE_DROP = 25;
+const PHASE_REGULARITY_LIMIT = 0.75;
+const JITTER_LIMIT = 0.004;
+const HNR_LIMIT = 25;
+const MIN_VOICED_PAIRS = 200;
+const MIN_LONG_PAUSES = 4;
+const PAUSE_VARIATION_LIMIT = 0.2;
+
+// Splice detection: RMS difference of pause noise spectra, share of strong low harmonics whose
+// phase stops evolving smoothly, and waveform steps against the local sample-to-sample noise
+const NOISE_JUMP_DB = 6;
+const PHASE_BREAK_LIMIT = 0.7;
+const PHASE_BREAK_DEVIATIONS = 5;
+const CLICK_DEVIATIONS = 12;
+const MIN_CLICK_AMPLITUDE = 0.02;
+const SEGMENT_WEIGHTS: Record<AudioSegment['kind'], number> = {
+  'noise-change': 25,
+  'phase-break': 15,
+  click: 10,
+  'gated-silence': 10
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+const percentile = (values: ArrayLike<number>, fraction: number): number => {
+  const sorted = Float64Array.from(values).sort();
+  return sorted.length > 0 ? sorted[Math.min(Math.floor(sorted.length * fraction), sorted.length - 1)] : 0;
+};
+
+const median = (values: number[]) => percentile(values, 0.5);
+
+// Dark purple through orange to pale yellow, like the usual spectrogram palettes
+const SPECTROGRAM_STOPS: [number, number, number][] = [
+  [0, 0, 4],
+  [80, 18, 123],
+  [182, 54, 121],
+  [251, 136, 97],
+  [252, 253, 191]
+];
+
+const spectrogramColor = (value: number): [number, number, number] => {
+  const position = Math.min(Math.max(value, 0), 1) * (SPECTROGRAM_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), SPECTROGRAM_STOPS.length - 2);
+  const t = position - index;
+  const [a, b] = [SPECTROGRAM_STOPS[index], SPECTROGRAM_STOPS[index + 1]];
+  return [0, 1, 2].map(channel => Math.round(a[channel] + (b[channel] - a[channel]) * t)) as [number, number, number];
+};
+
+class AudioAnalyzer {
+  // Pass the container's parse of the same file so format band limits aren't read as synthesis
+  async analyze(file: Blob, container: ContainerResult | null = null): Promise<AudioAnalysisResult> {
+    return this.analyzeSamples(await decodeAudioBlob(file), this.describeSource(file, container));
+  }
+
+  analyzeSamples(audio: DecodedAudio, source: AudioSource | null = null): AudioAnalysisResult {
+    const { sampleRate } = audio;
+    const samples = audio.samples.subarray(0, Math.floor(MAX_ANALYZED_SECONDS * sampleRate));
+    const hop = Math.round(HOP_SECONDS * sampleRate);
+    const frameCount = Math.max(Math.floor((samples.length - FFT_SIZE) / hop) + 1, 1);
+    const binHz = sampleRate / FFT_SIZE;
+    const bins = FFT_SIZE / 2 + 1;
+
+    const energy = this.frameEnergy(samples, frameCount, hop);
+    const floor = percentile(energy, 0.1);
+    const speechThreshold = Math.max(floor + 15, percentile(energy, 0.95) - 30, -60);
+    const speech = this.detectSpeech(energy, speechThreshold);
+
+    const filterbank = this.melFilterbank(sampleRate);
+    const window = hannWindow(FFT_SIZE);
+    const logMel = new Float32Array(frameCount * MEL_BANDS);
+    const flatness = new Float32Array(frameCount);
+    const speechSpectrum = new Float64Array(bins);
+    let speechFrames = 0;
+
+    // Upper band where the harmonics are weak and phase is set by the vocoder or by noise
+    const phaseLow = Math.ceil(5000 / binHz);
+    const phaseHigh = Math.min(Math.floor(8000 / binHz), bins - 1);
+    const phases = [new Float64Array(phaseHigh - phaseLow + 1), new Float64Array(phaseHigh - phaseLow + 1)];
+    let phaseSum = 0;
+    let phaseWeight = 0;
+
+    // Low harmonics change slowly enough that their phase only breaks at a cut
+    const harmonicLow = Math.ceil(100 / binHz);
+    const harmonicHigh = Math.floor(1000 / binHz);
+    const harmonicPhases = [new Float64Array(harmonicHigh + 1), new Float64Array(harmonicHigh + 1)];
+    const previousPower = new Float64Array(harmonicHigh + 1);
+    const phaseBreaks = new Float32Array(frameCount).fill(NaN);
+
+    const pitch = new Float64Array(frameCount);
+    const harmonicity: number[] = [];
+    const pitchRe = new Float64Array(PITCH_FFT_SIZE);
+    const pitchIm = new Float64Array(PITCH_FFT_SIZE);
+    const windowCorrelation = this.windowAutocorrelation(window);
+
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    const power = new Float64Array(bins);
+    for (let t = 0; t < frameCount; t++) {
+      const start = t * hop;
+      for (let i = 0; i < FFT_SIZE; i++) {
+        re[i] = (samples[start + i] ?? 0) * window[i];
+        im[i] = 0;
+      }
+      if (speech[t]) {
+        pitchRe.fill(0);
+        pitchIm.fill(0);
+        pitchRe.set(re);
+      }
+      fft(re, im);
+      for (let k = 0; k < bins; k++) power[k] = re[k] * re[k] + im[k] * im[k];
+
+      for (let band = 0; band < MEL_BANDS; band++) {
+        let sum = 0;
+        for (const [k, weight] of filterbank[band]) sum += power[k] * weight;
+        logMel[t * MEL_BANDS + band] = 10 * Math.log10(sum + 1e-10);
+      }
+      flatness[t] = this.spectralFlatness(power, Math.ceil(300 / binHz), Math.floor(8000 / binHz));
+
+      if (!speech[t]) continue;
+      speechFrames++;
+      for (let k = 0; k < bins; k++) speechSpectrum[k] += 10 * Math.log10(power[k] + 1e-12);
+
+      // The second difference of a bin's phase removes the bin's own rotation; what is left is
+      // how predictably the signal in it evolves
+      const [previous, beforePrevious] = phases;
+      for (let k = phaseLow; k <= phaseHigh; k++) {
+        const phase = Math.atan2(im[k], re[k]);
+        if (t >= 2 && speech[t - 1] && speech[t - 2]) {
+          phaseSum += Math.cos(phase - 2 * previous[k - phaseLow] + beforePrevious[k - phaseLow]) * Math.sqrt(power[k]);
+          phaseWeight += Math.sqrt(power[k]);
+        }
+        beforePrevious[k - phaseLow] = previous[k - phaseLow];
+        previous[k - phaseLow] = phase;
+      }
+      phaseBreaks[t] = this.harmonicPhaseBreak(re, im, power, harmonicLow, harmonicHigh, harmonicPhases, previousPower, this.isSteady(energy, speechThreshold, t));
+
+      const voicing = this.estimatePitch(pitchRe, pitchIm, windowCorrelation, sampleRate);
+      if (voicing) {
+        pitch[t] = voicing.frequency;
+        harmonicity.push(10 * Math.log10(voicing.strength / (1 - voicing.strength)));
+      }
+    }
+
+    const speechSeconds = speechFrames * HOP_SECONDS;
+    const pauseRanges = this.findPauses(speech);
+    const pauses = this.analyzePauses(pauseRanges, energy, flatness, floor, speechThreshold);
+    const jitter = this.pitchJitter(pitch);
+    const features: VoiceFeatures = {
+      speechSeconds,
+      bandLimit: speechFrames > 0 ? this.findBandLimit(speechSpectrum.map(value => value / speechFrames), binHz) : null,
+      phaseRegularity: phaseWeight > 0 ? phaseSum / phaseWeight : null,
+      pitchJitter: jitter.pairs >= MIN_VOICED_PAIRS ? jitter.value : null,
+      harmonicToNoise: harmonicity.length >= MIN_VOICED_PAIRS ? median(harmonicity) : null,
+      ...pauses
+    };
+
+    const { score, findings } = this.score(features, source);
+    const segments = [
+      ...this.findNoiseChanges(pauseRanges, logMel, energy),
+      ...this.findGatedSilence(pauseRanges, energy, floor),
+      ...this.findPhaseBreaks(phaseBreaks, sampleRate),
+      ...this.findClicks(samples, sampleRate, hop)
+    ].sort((a, b) => a.start - b.start);
+    return {
+      duration: audio.duration,
+      analyzedDuration: samples.length / sampleRate,
+      channels: audio.channels,
+      sampleRate,
+      spectrogram: this.renderSpectrogram(logMel, frameCount),
+      melBands: MEL_BANDS,
+      maxFrequency: sampleRate / 2,
+      features,
+      assessed: speechSeconds >= MIN_SPEECH_SECONDS,
+      voiceAuthenticity: 100 - score,
+      score,
+      findings,
+      segments,
+      spliceScore: Math.min(segments.reduce((sum, segment) => sum + SEGMENT_WEIGHTS[segment.kind], 0), 100)
+    };
+  }
+
+  private describeSource(file: Blob, container: ContainerResult | null): AudioSource | null {
+    const track = container?.tracks.find(candidate => candidate.kind === 'audio');
+    if (!container || !track) return null;
+    const audioOnly = !container.tracks.some(candidate => candidate.kind === 'video');
+    const duration = track.duration ?? container.duration;
+    return {
+      codec: track.codec,
+      sampleRate: track.sampleRate,
+      bitrate: audioOnly && duration ? (file.size * 8) / duration : null
+    };
+  }
+
+  // Why a file with a known sample rate would lose the upper band without any synthesis;
+  // null when nothing explains it
+  private explainBandLimit(bandLimit: number, source: AudioSource): string | null {
+    if (bandLimit >= (source.sampleRate / 2) * NYQUIST_SHARE) {
+      return `the file's ${source.sampleRate / 1000} kHz sample rate`;
+    }
+    if (LOSSY_CODEC_PATTERN.test(source.codec) && (source.bitrate === null || source.bitrate < LOW_PASS_BITRATE)) {
+      const bitrate = source.bitrate === null ? 'an unknown bitrate' : `${Math.round(source.bitrate / 1000)} kbps`;
+      return `${source.codec} compression at ${bitrate}`;
+    }
+    return null;
+  }
+
+  private score(features: VoiceFeatures, source: AudioSource | null): { score: number; findings: string[] } {
+    if (features.speechSeconds < MIN_SPEECH_SECONDS) {
+      return { score: 0, findings: [`Only ${features.speechSeconds.toFixed(1)}s of speech; too little to assess the voice`] };
+    }
+
+    let score = 0;
+    const findings: string[] = [];
+    if (features.bandLimit !== null && features.bandLimit <= SYNTHESIS_BAND_LIMIT) {
+      const edge = `Speech energy stops at ${(features.bandLimit / 1000).toFixed(1)} kHz`;
+      const explanation = source?.sampleRate ? this.explainBandLimit(features.bandLimit, source) : null;
+      if (!source?.sampleRate) {
+        findings.push(`${edge}; the container's sample rate is unknown, so this is not counted as a sign of synthesis`);
+      } else if (explanation) {
+        findings.push(`${edge}, which ${explanation} accounts for`);
+      } else {
+        score += 20;
+        findings.push(
+          `Speech energy stops abruptly at ${(features.bandLimit / 1000).toFixed(1)} kHz although the file stores ` +
+            `${source.codec} at ${source.sampleRate / 1000} kHz: the voice was generated or resampled at about ` +
+            `${Math.round((features.bandLimit * 2) / 1000)} kHz before it was saved`
+        );
+      }
+    }
+    if (features.phaseRegularity !== null && features.phaseRegularity > PHASE_REGULARITY_LIMIT) {
+      score += 25;
+      findings.push(`Upper-band phase evolves too predictably (${features.phaseRegularity.toFixed(2)}): typical of vocoder resynthesis`);
+    }
+    if (features.pitchJitter !== null && features.pitchJitter < JITTER_LIMIT) {
+      score += 20;
+      findings.push(`Pitch is unnaturally smooth (${(features.pitchJitter * 100).toFixed(2)}% change per 10 ms)`);
+    }
+    if (features.harmonicToNoise !== null && features.harmonicToNoise > HNR_LIMIT) {
+      score += 15;
+      findings.push(`Voiced speech is unnaturally clean (harmonic-to-noise ratio ${features.harmonicToNoise.toFixed(1)} dB)`);
+    }
+    if (features.breathRatio === 0) {
+      score += 15;
+      findings.push('No breathing sounds in any of the long pauses');
+    }
+    if (features.pauses > 0 && features.digitalSilence > 0.5) {
+      score += 20;
+      findings.push(`${(features.digitalSilence * 100).toFixed(0)}% of the pause time is exact digital silence with no room noise`);
+    }
+    if (features.pauseVariation !== null && features.pauseVariation < PAUSE_VARIATION_LIMIT) {
+      score += 10;
+      findings.push(`${features.pauses} pauses of nearly identical length`);
+    }
+    return { score: Math.min(score, 100), findings };
+  }
+
+  private frameEnergy(samples: Float32Array, frameCount: number, hop: number): Float64Array {
+    const energy = new Float64Array(frameCount);
+    for (let t = 0; t < frameCount; t++) {
+      let sum = 0;
+      const start = t * hop;
+      const end = Math.min(start + FFT_SIZE, samples.length);
+      for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+      energy[t] = 10 * Math.log10(sum / Math.max(end - start, 1) + 1e-12);
+    }
+    return energy;
+  }
+
+  // Energy gate with 100 ms hangover to bridge short stops, then drops bursts under 50 ms
+  private detectSpeech(energy: Float64Array, threshold: number): Uint8Array {
+    const speech = new Uint8Array(energy.length);
+    let hangover = 0;
+    for (let t = 0; t < energy.length; t++) {
+      if (energy[t] >= threshold) hangover = 10;
+      speech[t] = hangover > 0 ? 1 : 0;
+      hangover--;
+    }
+    for (let t = 0; t < speech.length; ) {
+      if (!speech[t]) {
+        t++;
+        continue;
+      }
+      let end = t;
+      while (end < speech.length && speech[end]) end++;
+      if (end - t < 15) speech.fill(0, t, end);
+      t = end;
+    }
+    return speech;
+  }
+
+  // Frame ranges [start, end) of the gaps between speech, ignoring leading and trailing silence
+  private findPauses(speech: Uint8Array): [number, number][] {
+    const pauses: [number, number][] = [];
+    const firstSpeech = speech.indexOf(1);
+    const lastSpeech = speech.lastIndexOf(1);
+    for (let t = firstSpeech; t >= 0 && t < lastSpeech; ) {
+      if (speech[t]) {
+        t++;
+        continue;
+      }
+      let end = t;
+      while (end < lastSpeech && !speech[end]) end++;
+      if ((end - t) * HOP_SECONDS >= MIN_PAUSE_SECONDS) pauses.push([t, end]);
+      t = end;
+    }
+    return pauses;
+  }
+
+  private analyzePauses(
+    pauseRanges: [number, number][],
+    energy: Float64Array,
+    flatness: Float32Array,
+    floor: number,
+    speechThreshold: number
+  ): Pick<VoiceFeatures, 'pauses' | 'breathRatio' | 'digitalSilence' | 'pauseVariation'> {
+    const lengths: number[] = [];
+    let longPauses = 0;
+    let breaths = 0;
+    let pauseFrames = 0;
+    let silentFrames = 0;
+
+    for (const [start, end] of pauseRanges) {
+      const seconds = (end - start) * HOP_SECONDS;
+      lengths.push(seconds);
+      pauseFrames += end - start;
+      let run = 0;
+      let breathed = false;
+      for (let i = start; i < end; i++) {
+        if (energy[i] < DIGITAL_SILENCE_DB) silentFrames++;
+        // Breaths are quiet, noise-like and longer than a click
+        const breathy = energy[i] > floor + 6 && energy[i] < speechThreshold && flatness[i] > 0.25;
+        run = breathy ? run + 1 : 0;
+        if (run * HOP_SECONDS >= MIN_BREATH_SECONDS) breathed = true;
+      }
+      if (seconds >= LONG_PAUSE_SECONDS) {
+        longPauses++;
+        if (breathed) breaths++;
+      }
+    }
+
+    const mean = lengths.reduce((sum, value) => sum + value, 0) / Math.max(lengths.length, 1);
+    const deviation = Math.sqrt(lengths.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(lengths.length, 1));
+    return {
+      pauses: lengths.length,
+      breathRatio: longPauses >= MIN_LONG_PAUSES ? breaths / longPauses : null,
+      digitalSilence: pauseFrames > 0 ? silentFrames / pauseFrames : 0,
+      pauseVariation: lengths.length >= 5 ? deviation / mean : null
+    };
+  }
+
+  // Inside a sustained sound: loud frames on both sides and no onset or decay
+  private isSteady(energy: Float64Array, speechThreshold: number, t: number): boolean {
+    if (t < 2 || t + 3 >= energy.length) return false;
+    for (let i = t - 2; i <= t + 3; i++) {
+      if (energy[i] < speechThreshold || Math.abs(energy[i] - energy[t]) > 6) return false;
+    }
+    return true;
+  }
+
+  // Weighted share of strong, steady low-frequency bins whose phase second difference is far
+  // from zero; NaN when the frame cannot be judged
+  private harmonicPhaseBreak(
+    re: Float64Array,
+    im: Float64Array,
+    power: Float64Array,
+    low: number,
+    high: number,
+    phases: Float64Array[],
+    previousPower: Float64Array,
+    continuous: boolean
+  ): number {
+    const [previous, beforePrevious] = phases;
+    let peak = 0;
+    for (let k = low; k <= high; k++) peak = Math.max(peak, power[k]);
+
+    let sum = 0;
+    let weight = 0;
+    for (let k = low; k <= high; k++) {
+      const phase = Math.atan2(im[k], re[k]);
+      const harmonic = power[k] > peak * 0.03 && power[k] >= power[k - 1] && power[k] >= power[k + 1];
+      const steady = harmonic && Math.abs(10 * Math.log10((power[k] + 1e-12) / (previousPower[k] + 1e-12))) < 3;
+      if (continuous && steady) {
+        const w = Math.sqrt(power[k]);
+        sum += (1 - Math.cos(phase - 2 * previous[k] + beforePrevious[k])) * w;
+        weight += w;
+      }
+      beforePrevious[k] = previous[k];
+      previous[k] = phase;
+      previousPower[k] = power[k];
+    }
+    return weight > 0 ? sum / weight : NaN;
+  }
+
+  private findPhaseBreaks(phaseBreaks: Float32Array, sampleRate: number): AudioSegment[] {
+    const values = Array.from(phaseBreaks).filter(value => !Number.isNaN(value));
+    if (values.length < 50) return [];
+    const centre = median(values);
+    const spread = 1.4826 * median(values.map(value => Math.abs(value - centre)));
+
+    const segments: AudioSegment[] = [];
+    for (let t = 0; t < phaseBreaks.length; t++) {
+      const value = phaseBreaks[t];
+      if (!(value > PHASE_BREAK_LIMIT) || (value - centre) / (spread + 0.02) < PHASE_BREAK_DEVIATIONS) continue;
+      // One segment per break; neighbouring frames share the same discontinuity
+      let end = t;
+      while (end + 1 < phaseBreaks.length && phaseBreaks[end + 1] > PHASE_BREAK_LIMIT) end++;
+      // The break falls in the newest part of the window that first sees it
+      const window = FFT_SIZE / sampleRate;
+      const time = t * HOP_SECONDS + window / 2;
+      segments.push({
+        start: t * HOP_SECONDS,
+        end: end * HOP_SECONDS + window,
+        kind: 'phase-break',
+        description: `Voice phase jumps mid-sound at ${time.toFixed(2)}s`
+      });
+      t = end + 10;
+    }
+    return segments;
+  }
+
+  // Noise floor spectrum of each pause (20th percentile per band, which ignores breaths),
+  // compared with the next pause
+  private findNoiseChanges(pauseRanges: [number, number][], logMel: Float32Array, energy: Float64Array): AudioSegment[] {
+    const profiles: { start: number; end: number; profile: Float64Array }[] = [];
+    for (const [start, end] of pauseRanges) {
+      // Skip the hangover at either edge, which still carries the end of the speech
+      const from = start + 5;
+      const to = end - 5;
+      if (to - from < 10) continue;
+      let silent = 0;
+      for (let t = from; t < to; t++) if (energy[t] < DIGITAL_SILENCE_DB) silent++;
+      if (silent > (to - from) / 2) continue;
+
+      const profile = new Float64Array(MEL_BANDS);
+      const column: number[] = [];
+      for (let band = 0; band < MEL_BANDS; band++) {
+        column.length = 0;
+        for (let t = from; t < to; t++) column.push(logMel[t * MEL_BANDS + band]);
+        profile[band] = percentile(column, 0.2);
+      }
+      profiles.push({ start: start * HOP_SECONDS, end: end * HOP_SECONDS, profile });
+    }
+    if (profiles.length < 3) return [];
+
+    const distances = profiles.slice(1).map((current, i) => {
+      let sum = 0;
+      for (let band = 0; band < MEL_BANDS; band++) sum += (current.profile[band] - profiles[i].profile[band]) ** 2;
+      return Math.sqrt(sum / MEL_BANDS);
+    });
+    const typical = median(distances);
+    const segments: AudioSegment[] = [];
+    distances.forEach((distance, i) => {
+      if (distance < NOISE_JUMP_DB || distance < typical * 3) return;
+      segments.push({
+        start: profiles[i].end,
+        end: profiles[i + 1].start,
+        kind: 'noise-change',
+        description:
+          `Background noise changes by ${distance.toFixed(1)} dB between the pauses at ` +
+          `${profiles[i].end.toFixed(2)}s and ${profiles[i + 1].start.toFixed(2)}s`
+      });
+    });
+    return segments;
+  }
+
+  // Room noise that drops to exact zero and comes back was cut out or gated in an editor
+  private findGatedSilence(pauseRanges: [number, number][], energy: Float64Array, floor: number): AudioSegment[] {
+    if (floor < DIGITAL_SILENCE_DB) return [];
+    const segments: AudioSegment[] = [];
+    for (const [start, end] of pauseRanges) {
+      for (let t = start; t < end; t++) {
+        if (energy[t] >= DIGITAL_SILENCE_DB) continue;
+        let stop = t;
+        while (stop < end && energy[stop] < DIGITAL_SILENCE_DB) stop++;
+        segments.push({
+          start: t * HOP_SECONDS,
+          end: stop * HOP_SECONDS,
+          kind: 'gated-silence',
+          description: `Background noise drops to digital silence at ${(t * HOP_SECONDS).toFixed(2)}s`
+        });
+        break;
+      }
+    }
+    return segments;
+  }
+
+  // A cut that does not land on a zero crossing leaves a step in the waveform: one sample
+  // whose second difference towers over the ones around it
+  private findClicks(samples: Float32Array, sampleRate: number, hop: number): AudioSegment[] {
+    const blocks = Math.floor(samples.length / hop);
+    const sigma = new Float64Array(blocks);
+    const block: number[] = [];
+    for (let b = 0; b < blocks; b++) {
+      block.length = 0;
+      for (let i = Math.max(b * hop, 2); i < (b + 1) * hop; i++) block.push(Math.abs(samples[i] - 2 * samples[i - 1] + samples[i - 2]));
+      sigma[b] = median(block) / 0.6745;
+    }
+
+    const segments: AudioSegment[] = [];
+    for (let b = 2; b < blocks - 2; b++) {
+      const local = median([sigma[b - 2], sigma[b - 1], sigma[b + 1], sigma[b + 2]]);
+      let peak = 0;
+      let peakIndex = -1;
+      for (let i = b * hop; i < (b + 1) * hop; i++) {
+        const value = Math.abs(samples[i] - 2 * samples[i - 1] + samples[i - 2]);
+        if (value > peak) {
+          peak = value;
+          peakIndex = i;
+        }
+      }
+      if (peak < MIN_CLICK_AMPLITUDE || peak < CLICK_DEVIATIONS * Math.max(local, 1e-5)) continue;
+
+      let neighbour = 0;
+      // A step excites three neighbouring second differences; anything wider is a transient in the voice
+      for (let i = Math.max(peakIndex - 32, 2); i <= Math.min(peakIndex + 32, samples.length - 1); i++) {
+        if (Math.abs(i - peakIndex) <= 1) continue;
+        neighbour = Math.max(neighbour, Math.abs(samples[i] - 2 * samples[i - 1] + samples[i - 2]));
+      }
+      if (neighbour > peak * 0.3) continue;
+
+      const time = peakIndex / sampleRate;
+      segments.push({ start: time - 0.01, end: time + 0.01, kind: 'click', description: `Waveform discontinuity at ${time.toFixed(3)}s` });
+      b += 5;
+    }
+    return segments;
+  }
+
+  // Autocorrelation from the power spectrum of the zero-padded frame, corrected for the window taper
+  private estimatePitch(
+    re: Float64Array,
+    im: Float64Array,
+    windowCorrelation: Float64Array,
+    sampleRate: number
+  ): { frequency: number; strength: number } | null {
+    fft(re, im);
+    for (let k = 0; k < re.length; k++) {
+      re[k] = re[k] * re[k] + im[k] * im[k];
+      im[k] = 0;
+    }
+    fft(re, im, true);
+    if (re[0] <= 0) return null;
+
+    const minLag = Math.floor(sampleRate / MAX_PITCH);
+    const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH), FFT_SIZE - 1);
+    const normalized = (lag: number) => re[lag] / re[0] / windowCorrelation[lag];
+    let bestLag = -1;
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const value = normalized(lag);
+      if (value > best) {
+        best = value;
+        bestLag = lag;
+      }
+    }
+    if (bestLag < 0 || best < VOICING_THRESHOLD) return null;
+
+    // A periodic signal correlates as well at two or three periods; prefer the shortest
+    for (let lag = minLag + 1; lag < bestLag; lag++) {
+      const value = normalized(lag);
+      if (value >= best * 0.9 && value >= normalized(lag - 1) && value >= normalized(lag + 1)) {
+        best = value;
+        bestLag = lag;
+        break;
+      }
+    }
+
+    const before = normalized(bestLag - 1);
+    const after = bestLag < maxLag ? normalized(bestLag + 1) : best;
+    const curvature = before - 2 * best + after;
+    const offset = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+    return { frequency: sampleRate / (bestLag + offset), strength: Math.min(best, 0.999) };
+  }
+
+  private windowAutocorrelation(window: Float64Array): Float64Array {
+    const correlation = new Float64Array(window.length);
+    for (let lag = 0; lag < window.length; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < window.length; i++) sum += window[i] * window[i + lag];
+      correlation[lag] = sum;
+    }
+    return correlation.map(value => value / correlation[0]);
+  }
+
+  private pitchJitter(pitch: Float64Array): { value: number; pairs: number } {
+    const changes: number[] = [];
+    for (let t = 1; t < pitch.length; t++) {
+      if (!pitch[t] || !pitch[t - 1]) continue;
+      const ratio = pitch[t] / pitch[t - 1];
+      // Octave errors of the tracker are not jitter
+      if (ratio > 1.3 || ratio < 1 / 1.3) continue;
+      changes.push(Math.abs(pitch[t] - pitch[t - 1]) / ((pitch[t] + pitch[t - 1]) / 2));
+    }
+    return { value: median(changes), pairs: changes.length };
+  }
+
+  private spectralFlatness(power: Float64Array, low: number, high: number): number {
+    let logSum = 0;
+    let sum = 0;
+    for (let k = low; k <= high; k++) {
+      logSum += Math.log(power[k] + 1e-12);
+      sum += power[k] + 1e-12;
+    }
+    const count = high - low + 1;
+    return Math.exp(logSum / count) / (sum / count);
+  }
+
+  // Largest sharp drop of the average speech spectrum above 4 kHz, accepted only when little
+  // but noise remains above it
+  private findBandLimit(spectrum: Float64Array, binHz: number): number | null {
+    const edge = Math.max(Math.round(250 / binHz), 2);
+    const smoothed = spectrum.map((_, k) => {
+      const from = Math.max(k - 2, 0);
+      const to = Math.min(k + 2, spectrum.length - 1);
+      let sum = 0;
+      for (let i = from; i <= to; i++) sum += spectrum[i];
+      return sum / (to - from + 1);
+    });
+    const mean = (from: number, to: number) => {
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += smoothed[i];
+      return sum / Math.max(to - from, 1);
+    };
+
+    const reference = mean(Math.round(300 / binHz), Math.round(3000 / binHz));
+    const last = spectrum.length - Math.round(1000 / binHz);
+    let bestBin = -1;
+    let bestDrop = 0;
+    for (let k = Math.round(4000 / binHz); k < last - edge; k++) {
+      const drop = mean(k - edge, k) - mean(k + 1, k + 1 + edge);
+      if (drop > bestDrop) {
+        bestDrop = drop;
+        bestBin = k;
+      }
+    }
+    if (bestBin < 0 || bestDrop < BAND_EDGE_DROP) return null;
+    if (mean(bestBin + edge, last) > reference - 45) return null;
+    return bestBin * binHz;
+  }
+
+  private melFilterbank(sampleRate: number): [number, number][][] {
+    const bins = FFT_SIZE / 2 + 1;
+    const maxMel = hzToMel(sampleRate / 2);
+    const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) => (melToHz((maxMel * i) / (MEL_BANDS + 1)) * FFT_SIZE) / sampleRate);
+
+    return Array.from({ length: MEL_BANDS }, (_, band) => {
+      const [left, centre, right] = [edges[band], edges[band + 1], edges[band + 2]];
+      const weights: [number, number][] = [];
+      for (let k = Math.floor(left); k <= Math.min(Math.ceil(right), bins - 1); k++) {
+        const weight = k <= centre ? (k - left) / Math.max(centre - left, 1e-6) : (right - k) / Math.max(right - centre, 1e-6);
+        if (weight > 0) weights.push([k, weight]);
+      }
+      // Narrow low bands may fall between bins; give them the nearest one
+      return weights.length > 0 ? weights : [[Math.min(Math.round(centre), bins - 1), 1]];
+    });
+  }
+
+  private renderSpectrogram(logMel: Float32Array, frameCount: number): string {
+    const columns = Math.min(frameCount, MAX_SPECTROGRAM_COLUMNS);
+    const low = percentile(logMel, 0.05);
+    const high = percentile(logMel, 0.999);
+    const range = Math.max(high - low, 1e-6);
+
+    // Low frequencies at the bottom; each column keeps the loudest of the frames it covers
+    const image = new ImageData(columns, MEL_BANDS);
+    for (let x = 0; x < columns; x++) {
+      const from = Math.floor((x * frameCount) / columns);
+      const to = Math.max(Math.floor(((x + 1) * frameCount) / columns), from + 1);
+      for (let band = 0; band < MEL_BANDS; band++) {
+        let value = -Infinity;
+        for (let t = from; t < to; t++) value = Math.max(value, logMel[t * MEL_BANDS + band]);
+        const [r, g, b] = spectrogramColor((value - low) / range);
+        const index = ((MEL_BANDS - 1 - band) * columns + x) * 4;
+        image.data[index] = r;
+        image.data[index + 1] = g;
+        image.data[index + 2] = b;
+        image.data[index + 3] = 255;
+      }
+    }
+    return imageDataToUrl(image);
+  }
+}
+
+export default AudioAnalyzer;
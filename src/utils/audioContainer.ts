@@ -0,0 +1,469 @@
+import { readAscii, readLatin1, readUint16LE, readUint32BE, readUint32LE, readUtf8 } from './fileFormats';
+
+// Structure readers for WAV (RIFF), MP3 (ID3v2 + MPEG frames) and Ogg (Opus/Vorbis). They
+// keep the layout details an editor leaves behind: chunk order, frame format changes and
+// page sequence numbers.
+
+// MP3 and Ogg are walked frame by frame; longer files are only read this far
+const MAX_SCANNED_BYTES = 128 * 1024 * 1024;
+
+export interface AudioTag {
+  name: string;
+  value: string;
+}
+
+export interface WavChunk {
+  id: string;
+  offset: number;
+  size: number;
+}
+
+export interface WavFile {
+  riffSize: number;
+  fileSize: number;
+  chunks: WavChunk[];
+  codec: string;
+  channels: number | null;
+  sampleRate: number | null;
+  bitsPerSample: number | null;
+  duration: number | null;
+  info: AudioTag[];
+  broadcast: AudioTag[];
+  xmp: string | null;
+}
+
+export interface Mp3FormatChange {
+  time: number;
+  description: string;
+}
+
+export interface Mp3File {
+  id3Version: string | null;
+  tags: AudioTag[];
+  encoderTag: string | null;
+  frameCount: number;
+  // Frame count stored by the encoder in the Xing/Info/VBRI header, when present
+  declaredFrames: number | null;
+  duration: number;
+  sampleRate: number | null;
+  channels: number | null;
+  formatChanges: Mp3FormatChange[];
+  // Times at which frame sync was lost and found again, with what was in between
+  resyncs: Mp3FormatChange[];
+  truncated: boolean;
+}
+
+export interface OggStream {
+  serial: number;
+  codec: string;
+  vendor: string | null;
+  comments: AudioTag[];
+  sampleRate: number | null;
+  channels: number | null;
+  duration: number | null;
+  pages: number;
+  missingPages: number;
+  granuleBackwards: number;
+  // Index of the stream in file order; chained streams follow one another
+  chainIndex: number;
+}
+
+export interface OggFile {
+  streams: OggStream[];
+  structure: string[];
+  truncated: boolean;
+}
+
+export const isWav = (bytes: Uint8Array): boolean =>
+  bytes.length >= 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WAVE';
+
+export const isOgg = (bytes: Uint8Array): boolean => bytes.length >= 4 && readAscii(bytes, 0, 4) === 'OggS';
+
+export const isMp3 = (bytes: Uint8Array): boolean =>
+  (bytes.length >= 3 && readAscii(bytes, 0, 3) === 'ID3') || (bytes.length >= 4 && readMpegHeader(bytes, 0) !== null);
+
+const WAV_CODECS: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0003: 'IEEE float',
+  0x0006: 'A-law',
+  0x0007: 'µ-law',
+  0x0011: 'IMA ADPCM',
+  0x0055: 'MP3',
+  0xfffe: 'Extensible'
+};
+
+const RIFF_INFO_TAGS: Record<string, string> = {
+  ISFT: 'Software',
+  ICRD: 'Created',
+  INAM: 'Title',
+  IART: 'Artist',
+  ICMT: 'Comment',
+  IENG: 'Engineer',
+  ITCH: 'Technician',
+  ISRC: 'Source',
+  ICOP: 'Copyright'
+};
+
+// Walks the chunk headers only; the sample data is never loaded
+export const readWav = async (file: Blob): Promise<WavFile | null> => {
+  const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (!isWav(header)) return null;
+
+  const wav: WavFile = {
+    riffSize: readUint32LE(header, 4),
+    fileSize: file.size,
+    chunks: [],
+    codec: 'unknown',
+    channels: null,
+    sampleRate: null,
+    bitsPerSample: null,
+    duration: null,
+    info: [],
+    broadcast: [],
+    xmp: null
+  };
+
+  let byteRate = 0;
+  let dataBytes = 0;
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const chunkHeader = new Uint8Array(await file.slice(offset, offset + 8).arrayBuffer());
+    const id = readAscii(chunkHeader, 0, 4);
+    const size = readUint32LE(chunkHeader, 4);
+    wav.chunks.push({ id, offset, size });
+
+    if (id === 'data') {
+      dataBytes += Math.min(size, file.size - offset - 8);
+    } else if (size <= 4 * 1024 * 1024) {
+      const data = new Uint8Array(await file.slice(offset + 8, offset + 8 + size).arrayBuffer());
+      if (id === 'fmt ' && data.length >= 16) {
+        const formatTag = readUint16LE(data, 0);
+        wav.codec = WAV_CODECS[formatTag] ?? `0x${formatTag.toString(16)}`;
+        wav.channels = readUint16LE(data, 2);
+        wav.sampleRate = readUint32LE(data, 4);
+        byteRate = readUint32LE(data, 8);
+        wav.bitsPerSample = readUint16LE(data, 14);
+      } else if (id === 'LIST' && readAscii(data, 0, 4) === 'INFO') {
+        let infoOffset = 4;
+        while (infoOffset + 8 <= data.length) {
+          const tag = readAscii(data, infoOffset, 4);
+          const length = readUint32LE(data, infoOffset + 4);
+          const value = readUtf8(data.subarray(infoOffset + 8, infoOffset + 8 + length)).replace(/\0+$/, '').trim();
+          if (value) wav.info.push({ name: RIFF_INFO_TAGS[tag] ?? tag, value });
+          infoOffset += 8 + length + (length % 2);
+        }
+      } else if (id === 'bext' && data.length >= 602) {
+        // EBU Broadcast Wave: fixed-width ASCII fields, then free-text coding history
+        const text = (start: number, length: number) => readLatin1(data.subarray(start, start + length)).replace(/\0.*$/s, '').trim();
+        const fields: [string, string][] = [
+          ['Description', text(0, 256)],
+          ['Originator', text(256, 32)],
+          ['Originator reference', text(288, 32)],
+          ['Origination date', text(320, 10)],
+          ['Origination time', text(330, 8)],
+          ['Coding history', text(602, data.length - 602)]
+        ];
+        wav.broadcast = fields.filter(([, value]) => value).map(([name, value]) => ({ name, value }));
+      } else if (id === '_PMX') {
+        wav.xmp = readUtf8(data);
+      }
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+
+  if (byteRate > 0 && dataBytes > 0) wav.duration = dataBytes / byteRate;
+  return wav;
+};
+
+interface MpegHeader {
+  version: 1 | 2 | 2.5;
+  sampleRate: number;
+  channels: number;
+  frameLength: number;
+  samplesPerFrame: number;
+}
+
+const LAYER3_BITRATES: Record<string, number[]> = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+// Layer III frame headers only; free-format and reserved values are rejected
+const readMpegHeader = (bytes: Uint8Array, offset: number): MpegHeader | null => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 3;
+  const layerBits = (bytes[offset + 1] >> 1) & 3;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 3;
+  if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const sampleRate = [44100, 48000, 32000][sampleRateIndex] / (version === 1 ? 1 : version === 2 ? 2 : 4);
+  const bitrate = LAYER3_BITRATES[version === 1 ? 'mpeg1' : 'mpeg2'][bitrateIndex] * 1000;
+  const samplesPerFrame = version === 1 ? 1152 : 576;
+  const padding = (bytes[offset + 2] >> 1) & 1;
+  return {
+    version,
+    sampleRate,
+    channels: bytes[offset + 3] >> 6 === 3 ? 1 : 2,
+    frameLength: Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding,
+    samplesPerFrame
+  };
+};
+
+// ID3v2 text: a leading byte selects Latin-1, UTF-16 with BOM, UTF-16BE or UTF-8
+const decodeId3Text = (encoding: number, bytes: Uint8Array): string => {
+  let text: string;
+  if (encoding === 1 || encoding === 2) {
+    const bigEndian = encoding === 2 || (bytes[0] === 0xfe && bytes[1] === 0xff);
+    text = new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(bytes);
+  } else {
+    text = encoding === 3 ? readUtf8(bytes) : readLatin1(bytes);
+  }
+  return text.replace(/^\uFEFF/, '').replace(/\0+$/, '').trim();
+};
+
+// Splits "description\0value" with the terminator width of the encoding
+const splitId3Text = (encoding: number, bytes: Uint8Array): [string, string] => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = 0; i + (wide ? 1 : 0) < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+      return [decodeId3Text(encoding, bytes.subarray(0, i)), decodeId3Text(encoding, bytes.subarray(i + (wide ? 2 : 1)))];
+    }
+  }
+  return ['', decodeId3Text(encoding, bytes)];
+};
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const readId3Tag = (bytes: Uint8Array): { version: string; size: number; tags: AudioTag[] } | null => {
+  if (bytes.length < 10 || readAscii(bytes, 0, 3) !== 'ID3') return null;
+  const major = bytes[3];
+  const size = 10 + readSyncsafe(bytes, 6) + (bytes[5] & 0x10 ? 10 : 0);
+  const tags: AudioTag[] = [];
+  // v2.2 uses three-character frame ids with 24-bit sizes
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+
+  let offset = 10;
+  const end = Math.min(size, bytes.length);
+  while (offset + headerLength <= end) {
+    const id = readAscii(bytes, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+    const frameSize =
+      major === 2
+        ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+        : major === 4
+          ? readSyncsafe(bytes, offset + 4)
+          : readUint32BE(bytes, offset + 4);
+    const data = bytes.subarray(offset + headerLength, offset + headerLength + frameSize);
+    offset += headerLength + frameSize;
+    if (data.length === 0) continue;
+
+    if (id === 'TXXX' || id === 'TXX') {
+      const [description, value] = splitId3Text(data[0], data.subarray(1));
+      if (value) tags.push({ name: description || id, value });
+    } else if (id === 'COMM' || id === 'COM') {
+      // Encoding, three-letter language, short description, text
+      const [description, value] = splitId3Text(data[0], data.subarray(4));
+      if (value) tags.push({ name: description ? `Comment (${description})` : 'Comment', value });
+    } else if (id[0] === 'T') {
+      const value = decodeId3Text(data[0], data.subarray(1));
+      if (value) tags.push({ name: id, value });
+    }
+  }
+  return { version: `2.${major}`, size, tags };
+};
+
+const ENCODER_TAG_PATTERN = /(LAME|Lavc|Lavf|GOGO)[\d.]+[a-z\d.]*/;
+
+// Reads the whole stream up to MAX_SCANNED_BYTES and checks that every frame follows the last
+export const readMp3 = async (file: Blob): Promise<Mp3File | null> => {
+  const bytes = new Uint8Array(await file.slice(0, MAX_SCANNED_BYTES).arrayBuffer());
+  if (!isMp3(bytes)) return null;
+
+  const id3 = readId3Tag(bytes);
+  const mp3: Mp3File = {
+    id3Version: id3?.version ?? null,
+    tags: id3?.tags ?? [],
+    encoderTag: null,
+    frameCount: 0,
+    declaredFrames: null,
+    duration: 0,
+    sampleRate: null,
+    channels: null,
+    formatChanges: [],
+    resyncs: [],
+    truncated: file.size > MAX_SCANNED_BYTES
+  };
+
+  // A header counts as a frame only when the next frame starts where it says it ends
+  const isFrame = (offset: number) => {
+    const header = readMpegHeader(bytes, offset);
+    if (!header) return null;
+    const next = offset + header.frameLength;
+    return next >= bytes.length - 4 || readMpegHeader(bytes, next) ? header : null;
+  };
+
+  let offset = id3?.size ?? 0;
+  let previous: MpegHeader | null = null;
+  while (offset + 4 <= bytes.length) {
+    const header = isFrame(offset);
+    if (!header) {
+      if (offset + 128 === bytes.length && readAscii(bytes, offset, 3) === 'TAG') break;
+      const lostAt = offset;
+      while (offset + 4 <= bytes.length && !isFrame(offset)) offset++;
+      if (offset + 4 > bytes.length) break;
+      const embedded = readAscii(bytes, lostAt, offset - lostAt).includes('ID3') ? 'an ID3 tag' : `${offset - lostAt} bytes of non-audio data`;
+      mp3.resyncs.push({ time: mp3.duration, description: embedded });
+      continue;
+    }
+
+    const frame = bytes.subarray(offset, offset + Math.min(header.frameLength, 200));
+    const xingOffset = ['Xing', 'Info', 'VBRI'].map(tag => readAscii(frame, 0, frame.length).indexOf(tag)).find(index => index > 0);
+    if (xingOffset !== undefined) {
+      // The encoder's summary frame carries no audio
+      if (mp3.frameCount === 0 && mp3.resyncs.length === 0) {
+        const tag = readAscii(frame, xingOffset, 4);
+        const flags = readUint32BE(frame, xingOffset + 4);
+        if (tag === 'VBRI') mp3.declaredFrames = readUint32BE(frame, xingOffset + 14);
+        else if (flags & 1) mp3.declaredFrames = readUint32BE(frame, xingOffset + 8);
+        const encoder = readAscii(bytes, offset, Math.min(header.frameLength, bytes.length - offset)).match(ENCODER_TAG_PATTERN);
+        if (encoder) mp3.encoderTag = encoder[0];
+      } else {
+        mp3.resyncs.push({ time: mp3.duration, description: 'a second encoder header' });
+      }
+      offset += header.frameLength;
+      continue;
+    }
+
+    if (previous && (header.sampleRate !== previous.sampleRate || header.channels !== previous.channels)) {
+      mp3.formatChanges.push({
+        time: mp3.duration,
+        description:
+          `${previous.sampleRate} Hz ${previous.channels === 1 ? 'mono' : 'stereo'} → ` +
+          `${header.sampleRate} Hz ${header.channels === 1 ? 'mono' : 'stereo'}`
+      });
+    }
+    if (!previous) {
+      mp3.sampleRate = header.sampleRate;
+      mp3.channels = header.channels;
+    }
+    previous = header;
+    mp3.frameCount++;
+    mp3.duration += header.samplesPerFrame / header.sampleRate;
+    offset += header.frameLength;
+  }
+
+  return mp3;
+};
+
+// Vorbis comment block, shared by OpusTags and the Vorbis comment header
+const readVorbisComments = (data: Uint8Array, offset: number): { vendor: string; comments: AudioTag[] } => {
+  const vendorLength = readUint32LE(data, offset);
+  const vendor = readUtf8(data.subarray(offset + 4, offset + 4 + vendorLength));
+  let position = offset + 4 + vendorLength;
+  const count = readUint32LE(data, position);
+  position += 4;
+
+  const comments: AudioTag[] = [];
+  for (let i = 0; i < count && position + 4 <= data.length; i++) {
+    const length = readUint32LE(data, position);
+    const comment = readUtf8(data.subarray(position + 4, position + 4 + length));
+    const separator = comment.indexOf('=');
+    if (separator > 0) comments.push({ name: comment.slice(0, separator).toUpperCase(), value: comment.slice(separator + 1) });
+    position += 4 + length;
+  }
+  return { vendor, comments };
+};
+
+const readOggHeaders = (stream: OggStream, packets: Uint8Array[]) => {
+  const [identification, comment] = packets;
+  if (readAscii(identification, 0, 8) === 'OpusHead') {
+    stream.codec = 'Opus';
+    stream.channels = identification[9];
+    // Opus always decodes at 48 kHz; this is the rate of the original input
+    stream.sampleRate = readUint32LE(identification, 12) || 48000;
+    if (comment && readAscii(comment, 0, 8) === 'OpusTags') Object.assign(stream, readVorbisComments(comment, 8));
+  } else if (identification[0] === 1 && readAscii(identification, 1, 6) === 'vorbis') {
+    stream.codec = 'Vorbis';
+    stream.channels = identification[11];
+    stream.sampleRate = readUint32LE(identification, 12);
+    if (comment && comment[0] === 3 && readAscii(comment, 1, 6) === 'vorbis') Object.assign(stream, readVorbisComments(comment, 7));
+  } else if (readAscii(identification, 1, 4) === 'FLAC') {
+    stream.codec = 'FLAC';
+  }
+};
+
+export const readOgg = async (file: Blob): Promise<OggFile | null> => {
+  const bytes = new Uint8Array(await file.slice(0, MAX_SCANNED_BYTES).arrayBuffer());
+  if (!isOgg(bytes)) return null;
+
+  const ogg: OggFile = { streams: [], structure: [], truncated: file.size > MAX_SCANNED_BYTES };
+  const state = new Map<number, { stream: OggStream; sequence: number; granule: number; packets: Uint8Array[]; partial: number[] }>();
+
+  let offset = 0;
+  while (offset + 27 <= bytes.length && readAscii(bytes, offset, 4) === 'OggS') {
+    const headerType = bytes[offset + 5];
+    // Granule positions are 64-bit; the high word only matters past 24 hours of 48 kHz audio
+    const granuleLow = readUint32LE(bytes, offset + 6);
+    const granuleHigh = readUint32LE(bytes, offset + 10);
+    const granule = granuleHigh === 0xffffffff ? -1 : granuleHigh * 2 ** 32 + granuleLow;
+    const serial = readUint32LE(bytes, offset + 14);
+    const sequence = readUint32LE(bytes, offset + 18);
+    const segmentCount = bytes[offset + 26];
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let bodyOffset = offset + 27 + segmentCount;
+
+    let entry = state.get(serial);
+    if (!entry || headerType & 0x02) {
+      const stream: OggStream = {
+        serial,
+        codec: 'unknown',
+        vendor: null,
+        comments: [],
+        sampleRate: null,
+        channels: null,
+        duration: null,
+        pages: 0,
+        missingPages: 0,
+        granuleBackwards: 0,
+        chainIndex: ogg.streams.length
+      };
+      entry = { stream, sequence: sequence - 1, granule: -1, packets: [], partial: [] };
+      state.set(serial, entry);
+      ogg.streams.push(stream);
+      ogg.structure.push(`stream ${serial.toString(16)}`);
+    }
+
+    const { stream } = entry;
+    stream.pages++;
+    if (sequence !== entry.sequence + 1) stream.missingPages += Math.max(sequence - entry.sequence - 1, 1);
+    entry.sequence = sequence;
+    if (granule >= 0) {
+      if (granule < entry.granule) stream.granuleBackwards++;
+      entry.granule = granule;
+      const rate = stream.codec === 'Opus' ? 48000 : stream.sampleRate;
+      if (rate && granule > 0) stream.duration = granule / rate;
+    }
+
+    // Collect the identification and comment packets; a 255 lacing value continues the packet
+    for (const length of lacing) {
+      if (entry.packets.length < 2) {
+        for (let i = 0; i < length; i++) entry.partial.push(bytes[bodyOffset + i]);
+        if (length < 255) {
+          entry.packets.push(Uint8Array.from(entry.partial));
+          entry.partial = [];
+          if (entry.packets.length === 2 || stream.codec === 'unknown') readOggHeaders(stream, entry.packets);
+        }
+      }
+      bodyOffset += length;
+    }
+    if (headerType & 0x04) ogg.structure.push(`end ${serial.toString(16)}`);
+    offset = bodyOffset;
+  }
+  return ogg;
+};
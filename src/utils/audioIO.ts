@@ -0,0 +1,31 @@
+// Web Audio helpers for moving between encoded audio (or the audio track of a video) and raw samples
+
+export interface DecodedAudio {
+  // Mono mix of all channels at `sampleRate`
+  samples: Float32Array;
+  sampleRate: number;
+  channels: number;
+  duration: number;
+}
+
+// 32 kHz keeps everything below 16 kHz, which covers the band limits of common speech synthesis rates
+export const ANALYSIS_SAMPLE_RATE = 32000;
+
+// decodeAudioData resamples to the rate of the context it is called on
+export const decodeAudioBlob = async (blob: Blob, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<DecodedAudio> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    throw new Error('No decodable audio track');
+  }
+
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+  }
+
+  return { samples, sampleRate: buffer.sampleRate, channels: buffer.numberOfChannels, duration: buffer.duration };
+};
@@ -1,3 +1,4 @@
+import SeededRandom, { hashSeed } from './seededRandom';
 
 interface UserBehaviorPattern {
   username: string;
@@ -6,7 +7,9 @@ interface UserBehaviorPattern {
   engagementVelocity: number;
   followerFollowingRatio: number;
   linguisticSimilarity: number;
+  structureScore: number;
   temporalPatterns: number[];
+  temporalRegularity: number;
   suspiciousActivities: string[];
 }
 
@@ -51,7 +54,14 @@ class BehavioralAnalyzer {
     }
   };
 
-  async analyzeBehavioralPatterns(username: string, platform: 'telegram' | 'twitter' | 'instagram'): Promise<UserBehaviorPattern> {
+  // The activity metrics are simulated until platform APIs are wired in; they are drawn from
+  // `seed`, which defaults to a hash of the account so repeated lookups agree
+  async analyzeBehavioralPatterns(
+    username: string,
+    platform: 'telegram' | 'twitter' | 'instagram',
+    seed = hashSeed(`${platform}:${username}`)
+  ): Promise<UserBehaviorPattern> {
+    const random = new SeededRandom(seed);
     return new Promise((resolve) => {
       setTimeout(() => {
         const patterns = this.botPatterns[platform];
@@ -66,20 +76,22 @@ class BehavioralAnalyzer {
         const patternScore = this.analyzePatternMatching(username, patterns);
         
         // Simulate posting frequency analysis
-        const postingFrequency = this.simulatePostingFrequency();
+        const postingFrequency = this.simulatePostingFrequency(random);
         
         // Simulate engagement analysis
-        const engagementVelocity = this.simulateEngagementVelocity();
+        const engagementVelocity = this.simulateEngagementVelocity(random);
         
         // Simulate follower ratio analysis
-        const followerFollowingRatio = this.simulateFollowerRatio();
+        const followerFollowingRatio = this.simulateFollowerRatio(random);
         
         // Generate temporal patterns
-        const temporalPatterns = this.generateTemporalPatterns();
+        const temporalPatterns = this.generateTemporalPatterns(random);
+        const temporalRegularity = this.calculateTemporalRegularity(temporalPatterns);
         
         // Identify suspicious activities
         const suspiciousActivities = this.identifySuspiciousActivities(
-          structureScore, linguisticScore, patternScore, platform
+          structureScore, linguisticScore, patternScore, platform,
+          { postingFrequency, engagementVelocity, followerFollowingRatio }
         );
         
         resolve({
@@ -89,10 +101,12 @@ class BehavioralAnalyzer {
           engagementVelocity,
           followerFollowingRatio,
           linguisticSimilarity: linguisticScore,
+          structureScore,
           temporalPatterns,
+          temporalRegularity,
           suspiciousActivities
         });
-      }, 1000 + Math.random() * 1500);
+      }, 1000);
     });
   }
 
@@ -109,7 +123,7 @@ class BehavioralAnalyzer {
         const suspiciousConnections = this.identifySuspiciousConnections(usernames);
         
         // Calculate network centrality
-        const networkCentrality = Math.random() * 100;
+        const networkCentrality = this.calculateNetworkCentrality(usernames);
         
         resolve({
           coordinatedBehavior,
@@ -210,35 +224,44 @@ class BehavioralAnalyzer {
     return entropy;
   }
 
-  private simulatePostingFrequency(): number {
+  private simulatePostingFrequency(random: SeededRandom): number {
     // Simulate posts per hour analysis
-    return Math.random() * 50 + 1;
+    return random.range(1, 51);
   }
 
-  private simulateEngagementVelocity(): number {
+  private simulateEngagementVelocity(random: SeededRandom): number {
     // Simulate engagement speed analysis
-    return Math.random() * 100;
+    return random.range(0, 100);
   }
 
-  private simulateFollowerRatio(): number {
+  private simulateFollowerRatio(random: SeededRandom): number {
     // Simulate follower to following ratio
-    return Math.random() * 10 + 0.1;
+    return random.range(0.1, 10.1);
   }
 
-  private generateTemporalPatterns(): number[] {
+  private generateTemporalPatterns(random: SeededRandom): number[] {
     // Generate 24-hour activity pattern
     const pattern = [];
     for (let i = 0; i < 24; i++) {
-      pattern.push(Math.random() * 100);
+      pattern.push(random.range(0, 100));
     }
     return pattern;
   }
 
+  private calculateTemporalRegularity(pattern: number[]): number {
+    // People sleep; activity spread evenly over all 24 hours points to scheduling
+    const mean = pattern.reduce((sum, value) => sum + value, 0) / pattern.length;
+    if (mean === 0) return 0;
+    const variance = pattern.reduce((sum, value) => sum + (value - mean) ** 2, 0) / pattern.length;
+    return Math.max(0, Math.min((1 - Math.sqrt(variance) / mean) * 100, 100));
+  }
+
   private identifySuspiciousActivities(
     structureScore: number, 
     linguisticScore: number, 
     patternScore: number, 
-    platform: string
+    platform: string,
+    activity: { postingFrequency: number; engagementVelocity: number; followerFollowingRatio: number }
   ): string[] {
     const activities = [];
     
@@ -255,15 +278,15 @@ class BehavioralAnalyzer {
     }
     
     // Platform-specific activities
-    if (platform === 'telegram' && Math.random() > 0.7) {
+    if (platform === 'telegram' && activity.postingFrequency > 36) {
       activities.push('Automated messaging patterns detected');
     }
     
-    if (platform === 'twitter' && Math.random() > 0.8) {
+    if (platform === 'twitter' && activity.engagementVelocity > 80) {
       activities.push('Coordinated retweeting behavior');
     }
     
-    if (platform === 'instagram' && Math.random() > 0.75) {
+    if (platform === 'instagram' && activity.followerFollowingRatio > 7.6) {
       activities.push('Artificial engagement patterns');
     }
     
@@ -284,6 +307,27 @@ class BehavioralAnalyzer {
     return Math.min(coordination, 100);
   }
 
+  private calculateNetworkCentrality(usernames: string[]): number {
+    // Share of accounts that closely resemble at least one other account in the set
+    if (usernames.length < 2) return 0;
+    const connected = usernames.filter((username, i) =>
+      usernames.some((other, j) => i !== j && this.calculateUsernameSimilarity(username, other) > 0.6)
+    ).length;
+    return (connected / usernames.length) * 100;
+  }
+
+  private calculateGroupSimilarity(usernames: string[]): number {
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < usernames.length - 1; i++) {
+      for (let j = i + 1; j < usernames.length; j++) {
+        total += this.calculateUsernameSimilarity(usernames[i], usernames[j]);
+        pairs++;
+      }
+    }
+    return pairs > 0 ? total / pairs : 0;
+  }
+
   private calculateUsernameSimilarity(username1: string, username2: string): number {
     // Simple Levenshtein distance-based similarity
     const distance = this.levenshteinDistance(username1, username2);
@@ -328,7 +372,7 @@ class BehavioralAnalyzer {
       clusters.push({
         id: i,
         members: usernames.slice(i * 3, (i + 1) * 3),
-        suspicionLevel: Math.random() * 100,
+        suspicionLevel: this.calculateGroupSimilarity(usernames.slice(i * 3, (i + 1) * 3)) * 100,
         characteristics: [
           'Similar naming patterns',
           'Coordinated activity timing',
@@ -345,7 +389,7 @@ class BehavioralAnalyzer {
     const suspicious = [];
     
     for (let i = 0; i < Math.min(usernames.length, 5); i++) {
-      if (Math.random() > 0.6) {
+      if (this.calculateUsernameSimilarity(usernames[i], usernames[(i + 1) % usernames.length]) > 0.6) {
         suspicious.push(`${usernames[i]} shows coordinated behavior with ${usernames[(i + 1) % usernames.length]}`);
       }
     }
@@ -0,0 +1,18 @@
+// Certificates accepted as C2PA trust anchors. A manifest is trusted when its
+// x5chain either contains one of these certificates or ends in a certificate
+// issued by one, with every signature along the way verifying, every
+// certificate inside its validity period, every issuer a CA within its path
+// length and the signer carrying a C2PA extended key usage.
+//
+// The list ships empty: paste the PEM of each anchor your organisation accepts
+// (e.g. from the C2PA conformance trust list) as `certificate`. Manifests whose
+// signatures verify but whose chain reaches none of these are reported as
+// valid but untrusted, and score like unverified ones.
+
+export interface TrustAnchor {
+  name: string;
+  // PEM, or bare base64 of the DER certificate
+  certificate: string;
+}
+
+export const C2PA_TRUST_ANCHORS: TrustAnchor[] = [];
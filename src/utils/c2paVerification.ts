@@ -0,0 +1,700 @@
+import { C2PA_TRUST_ANCHORS } from './c2paTrustList';
+import { CborValue, concatBytes, decodeCbor, encodeCbor, isCborTagged } from './cbor';
+import {
+  isJpeg,
+  isPng,
+  readAscii,
+  readIsoBoxes,
+  readJpegSegments,
+  readPngChunks,
+  readUint16BE,
+  readUint32BE,
+  readUtf8
+} from './fileFormats';
+
+export type ProvenanceStatus = 'valid' | 'tampered' | 'absent' | 'unverified';
+
+export interface ProvenanceAction {
+  action: string;
+  softwareAgent?: string;
+  digitalSourceType?: string;
+  when?: string;
+}
+
+export interface SignerInfo {
+  commonName?: string;
+  organization?: string;
+  issuer?: string;
+  notBefore?: string;
+  notAfter?: string;
+  fingerprint: string;
+}
+
+export interface ProvenanceResult {
+  status: ProvenanceStatus;
+  trusted: boolean;
+  manifestCount: number;
+  claimGenerator?: string;
+  title?: string;
+  signer?: SignerInfo;
+  signatureAlgorithm?: string;
+  signatureValid?: boolean;
+  hashBindingValid?: boolean;
+  assertionHashesValid?: boolean;
+  assertions: string[];
+  actions: ProvenanceAction[];
+  aiGenerated: boolean;
+  errors: string[];
+  // Why the signer chain doesn't reach a trust anchor
+  trustIssues: string[];
+  score: number;
+}
+
+interface JumbfBox {
+  type: string;
+  label: string;
+  // Superbox payload without its own 8-byte header, and the whole box
+  payload: Uint8Array;
+  box: Uint8Array;
+  children: JumbfBox[];
+  content: { type: string; data: Uint8Array }[];
+}
+
+interface DerNode {
+  tag: number;
+  bytes: Uint8Array;
+  content: Uint8Array;
+}
+
+interface ParsedCertificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  signatureAlgorithm: DerNode;
+  signature: Uint8Array;
+  // Raw DER names, compared byte for byte when linking a certificate to its issuer
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  spki: DerNode;
+  notBefore?: Date;
+  notAfter?: Date;
+  // basicConstraints; pathLength is undefined when unlimited
+  ca: boolean;
+  pathLength?: number;
+  // Undefined when the certificate has no keyUsage or extKeyUsage extension
+  keyUsage?: { digitalSignature: boolean; keyCertSign: boolean };
+  extendedKeyUsage?: string[];
+  info: Omit<SignerInfo, 'fingerprint'>;
+}
+
+type CborMap = { [key: string]: CborValue };
+
+const COSE_ALGORITHMS: Record<number, { name: string; params: (EcKeyImportParams | RsaHashedImportParams | Algorithm); verify: Algorithm | EcdsaParams | RsaPssParams }> = {
+  [-7]: { name: 'ES256', params: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+  [-35]: { name: 'ES384', params: { name: 'ECDSA', namedCurve: 'P-384' }, verify: { name: 'ECDSA', hash: 'SHA-384' } },
+  [-36]: { name: 'ES512', params: { name: 'ECDSA', namedCurve: 'P-521' }, verify: { name: 'ECDSA', hash: 'SHA-512' } },
+  [-37]: { name: 'PS256', params: { name: 'RSA-PSS', hash: 'SHA-256' }, verify: { name: 'RSA-PSS', saltLength: 32 } },
+  [-38]: { name: 'PS384', params: { name: 'RSA-PSS', hash: 'SHA-384' }, verify: { name: 'RSA-PSS', saltLength: 48 } },
+  [-39]: { name: 'PS512', params: { name: 'RSA-PSS', hash: 'SHA-512' }, verify: { name: 'RSA-PSS', saltLength: 64 } },
+  [-8]: { name: 'Ed25519', params: { name: 'Ed25519' }, verify: { name: 'Ed25519' } }
+};
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512'
+};
+
+// X.509 signature algorithms, keyed by the hex of the OID content bytes. RSA-PSS
+// takes its hash and salt length from the algorithm parameters instead.
+const CERTIFICATE_ALGORITHMS: Record<string, { name: string; hash?: string }> = {
+  '2a8648ce3d040302': { name: 'ECDSA', hash: 'SHA-256' },
+  '2a8648ce3d040303': { name: 'ECDSA', hash: 'SHA-384' },
+  '2a8648ce3d040304': { name: 'ECDSA', hash: 'SHA-512' },
+  '2a864886f70d01010b': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  '2a864886f70d01010c': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+  '2a864886f70d01010d': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  '2a864886f70d01010a': { name: 'RSA-PSS' },
+  '2b6570': { name: 'Ed25519' }
+};
+
+// Named curves of EC public keys, with the byte length of r and s
+const EC_CURVES: Record<string, { namedCurve: string; size: number }> = {
+  '2a8648ce3d030107': { namedCurve: 'P-256', size: 32 },
+  '2b81040022': { namedCurve: 'P-384', size: 48 },
+  '2b81040023': { namedCurve: 'P-521', size: 66 }
+};
+
+const DIGEST_OIDS: Record<string, string> = {
+  '2b0e03021a': 'SHA-1',
+  '608648016503040201': 'SHA-256',
+  '608648016503040202': 'SHA-384',
+  '608648016503040203': 'SHA-512'
+};
+
+const OID_BASIC_CONSTRAINTS = '551d13';
+const OID_KEY_USAGE = '551d0f';
+const OID_EXTENDED_KEY_USAGE = '551d25';
+
+// Extended key usages C2PA accepts on a claim signer: emailProtection,
+// documentSigning, Microsoft C2PA signing and c2pa-kp-claimSigning
+const SIGNER_KEY_USAGES = ['2b06010505070304', '2b06010505070324', '2b0601040182374c3b0109', '2b0601040183e85e0201'];
+
+const AI_SOURCE_TYPES = /trainedAlgorithmicMedia|compositeWithTrainedAlgorithmicMedia|algorithmicMedia/;
+
+const OID_COMMON_NAME = '550403';
+const OID_ORGANIZATION = '55040a';
+
+const isMap = (value: CborValue): value is CborMap =>
+  typeof value === 'object' && value !== null && !(value instanceof Uint8Array) && !Array.isArray(value) && !isCborTagged(value);
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+// Accepts PEM or bare base64
+const decodeCertificate = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-----[^-]+-----|\s/g, '')), char => char.charCodeAt(0));
+
+const certificateName = (certificate: ParsedCertificate): string =>
+  certificate.info.commonName ?? certificate.info.organization ?? 'unnamed certificate';
+
+class ContentCredentialsVerifier {
+  async verify(bytes: Uint8Array): Promise<ProvenanceResult> {
+    const result: ProvenanceResult = {
+      status: 'absent',
+      trusted: false,
+      manifestCount: 0,
+      assertions: [],
+      actions: [],
+      aiGenerated: false,
+      errors: [],
+      trustIssues: [],
+      score: 0
+    };
+
+    const store = this.extractManifestStore(bytes);
+    if (!store) return result;
+
+    try {
+      const root = this.parseJumbf(store);
+      const manifests = root?.children.filter(child => child.type === 'c2ma') ?? [];
+      result.manifestCount = manifests.length;
+      if (!root || manifests.length === 0) {
+        result.status = 'unverified';
+        result.errors.push('JUMBF present but contains no C2PA manifest');
+        return this.finalize(result);
+      }
+
+      // The active manifest is the last one in the store
+      await this.verifyManifest(manifests[manifests.length - 1], bytes, result);
+    } catch (error) {
+      result.errors.push(`Manifest could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return this.finalize(result);
+  }
+
+  private finalize(result: ProvenanceResult): ProvenanceResult {
+    const checks = [result.signatureValid, result.hashBindingValid, result.assertionHashesValid];
+
+    if (result.manifestCount === 0 && result.errors.length === 0) {
+      result.status = 'absent';
+    } else if (checks.some(check => check === false)) {
+      result.status = 'tampered';
+    } else if (checks.every(check => check === true)) {
+      result.status = 'valid';
+    } else {
+      result.status = 'unverified';
+    }
+
+    // An intact manifest from a signer nobody vouches for says no more than an unverifiable one
+    if (result.aiGenerated) result.score = 95;
+    else if (result.status === 'tampered') result.score = 70;
+    else if (result.status === 'unverified' || !result.trusted) result.score = 30;
+    else result.score = 0;
+
+    return result;
+  }
+
+  private extractManifestStore(bytes: Uint8Array): Uint8Array | null {
+    if (isPng(bytes)) {
+      return readPngChunks(bytes).find(chunk => chunk.type === 'caBX')?.data ?? null;
+    }
+    if (!isJpeg(bytes)) return null;
+
+    // JUMBF is split across APP11 segments: 'JP', box instance, sequence
+    // number, then the payload. Continuation packets repeat the 8-byte
+    // superbox header, which has to be dropped when reassembling.
+    const packets = new Map<number, { sequence: number; data: Uint8Array }[]>();
+    for (const segment of readJpegSegments(bytes)) {
+      if (segment.marker !== 0xeb || readAscii(segment.data, 0, 2) !== 'JP') continue;
+      const instance = readUint16BE(segment.data, 2);
+      const sequence = readUint32BE(segment.data, 4);
+      const list = packets.get(instance) ?? [];
+      list.push({ sequence, data: segment.data.subarray(8) });
+      packets.set(instance, list);
+    }
+
+    for (const list of packets.values()) {
+      list.sort((a, b) => a.sequence - b.sequence);
+      const assembled = concatBytes(list.map((packet, index) => (index === 0 ? packet.data : packet.data.subarray(8))));
+      const label = this.parseJumbf(assembled)?.label;
+      if (label === 'c2pa') return assembled;
+    }
+
+    return null;
+  }
+
+  private parseJumbf(bytes: Uint8Array): JumbfBox | null {
+    const box = readIsoBoxes(bytes).find(candidate => candidate.type === 'jumb');
+    if (!box) return null;
+    return this.parseSuperbox(bytes.subarray(box.offset, box.offset + box.size), box.data);
+  }
+
+  private parseSuperbox(box: Uint8Array, payload: Uint8Array): JumbfBox {
+    const children = readIsoBoxes(payload);
+    const description = children[0]?.type === 'jumd' ? children[0].data : null;
+
+    let type = '';
+    let label = '';
+    if (description) {
+      type = readAscii(description, 0, 4);
+      const toggles = description[16];
+      if (toggles & 0x02) {
+        const end = description.indexOf(0, 17);
+        label = readUtf8(description.subarray(17, end < 0 ? description.length : end));
+      }
+    }
+
+    const superbox: JumbfBox = { type, label, payload, box, children: [], content: [] };
+    for (const child of children.slice(description ? 1 : 0)) {
+      if (child.type === 'jumb') {
+        superbox.children.push(this.parseSuperbox(payload.subarray(child.offset, child.offset + child.size), child.data));
+      } else {
+        superbox.content.push({ type: child.type, data: child.data });
+      }
+    }
+    return superbox;
+  }
+
+  private readContent(box: JumbfBox | undefined): CborValue {
+    const content = box?.content[0];
+    if (!content) return undefined;
+    if (content.type === 'cbor') return decodeCbor(content.data);
+    if (content.type === 'json') return JSON.parse(readUtf8(content.data));
+    return content.data;
+  }
+
+  private async verifyManifest(manifest: JumbfBox, bytes: Uint8Array, result: ProvenanceResult) {
+    const assertionStore = manifest.children.find(child => child.type === 'c2as');
+    const claimBox = manifest.children.find(child => child.type === 'c2cl');
+    const signatureBox = manifest.children.find(child => child.type === 'c2cs');
+
+    const assertions = assertionStore?.children ?? [];
+    result.assertions = assertions.map(assertion => assertion.label);
+
+    if (!claimBox || !signatureBox) {
+      result.errors.push('Manifest is missing its claim or signature');
+      return;
+    }
+
+    const claimBytes = claimBox.content.find(content => content.type === 'cbor')?.data;
+    const claim = this.readContent(claimBox);
+    if (!claimBytes || !isMap(claim)) {
+      result.errors.push('Claim is not valid CBOR');
+      return;
+    }
+
+    const generatorInfo = claim['claim_generator_info'];
+    result.claimGenerator =
+      (typeof claim['claim_generator'] === 'string' ? claim['claim_generator'] : undefined) ??
+      (Array.isArray(generatorInfo) && isMap(generatorInfo[0]) ? String(generatorInfo[0]['name']) : undefined);
+    result.title = typeof claim['dc:title'] === 'string' ? claim['dc:title'] : undefined;
+
+    const defaultAlg = typeof claim['alg'] === 'string' ? claim['alg'] : 'sha256';
+
+    for (const assertion of assertions) {
+      if (!assertion.label.startsWith('c2pa.actions')) continue;
+      const content = this.readContent(assertion);
+      const actions = isMap(content) && Array.isArray(content['actions']) ? content['actions'] : [];
+      for (const action of actions) {
+        if (!isMap(action)) continue;
+        const agent = action['softwareAgent'];
+        const entry: ProvenanceAction = {
+          action: String(action['action'] ?? 'unknown'),
+          softwareAgent: typeof agent === 'string' ? agent : isMap(agent) ? String(agent['name'] ?? '') : undefined,
+          digitalSourceType: typeof action['digitalSourceType'] === 'string' ? action['digitalSourceType'] : undefined,
+          when: typeof action['when'] === 'string' ? action['when'] : undefined
+        };
+        result.actions.push(entry);
+        if (entry.digitalSourceType && AI_SOURCE_TYPES.test(entry.digitalSourceType)) result.aiGenerated = true;
+      }
+    }
+
+    result.assertionHashesValid = await this.verifyAssertionHashes(claim, assertions, defaultAlg, result);
+
+    const dataHash = assertions.find(assertion => assertion.label.startsWith('c2pa.hash.data'));
+    if (dataHash) {
+      result.hashBindingValid = await this.verifyDataHash(this.readContent(dataHash), bytes, defaultAlg);
+      if (!result.hashBindingValid) result.errors.push('Image bytes do not match the hard-binding hash');
+    } else {
+      result.errors.push('No c2pa.hash.data hard binding to verify');
+    }
+
+    await this.verifySignature(this.readContent(signatureBox), claimBytes, result);
+  }
+
+  private async verifyAssertionHashes(
+    claim: CborMap,
+    assertions: JumbfBox[],
+    defaultAlg: string,
+    result: ProvenanceResult
+  ): Promise<boolean> {
+    const references = [claim['assertions'], claim['created_assertions'], claim['gathered_assertions']]
+      .filter(Array.isArray)
+      .flat();
+
+    for (const reference of references) {
+      if (!isMap(reference) || typeof reference['url'] !== 'string' || !(reference['hash'] instanceof Uint8Array)) continue;
+
+      const label = reference['url'].split('/').pop() ?? '';
+      const assertion = assertions.find(candidate => candidate.label === label);
+      if (!assertion) {
+        result.errors.push(`Claim references missing assertion ${label}`);
+        return false;
+      }
+
+      const algorithmName = typeof reference['alg'] === 'string' ? reference['alg'] : defaultAlg;
+      const algorithm = HASH_ALGORITHMS[algorithmName];
+      if (!algorithm) {
+        result.errors.push(`Assertion ${label} is hashed with unsupported algorithm ${algorithmName}`);
+        return false;
+      }
+
+      // The spec hashes the superbox contents; some writers include the box header
+      const expected = reference['hash'];
+      const payloadHash = new Uint8Array(await crypto.subtle.digest(algorithm, assertion.payload));
+      if (bytesEqual(payloadHash, expected)) continue;
+      const boxHash = new Uint8Array(await crypto.subtle.digest(algorithm, assertion.box));
+      if (bytesEqual(boxHash, expected)) continue;
+
+      result.errors.push(`Assertion ${label} was modified after signing`);
+      return false;
+    }
+
+    return true;
+  }
+
+  private async verifyDataHash(assertion: CborValue, bytes: Uint8Array, defaultAlg: string): Promise<boolean> {
+    if (!isMap(assertion) || !(assertion['hash'] instanceof Uint8Array)) return false;
+
+    const algorithm = HASH_ALGORITHMS[typeof assertion['alg'] === 'string' ? assertion['alg'] : defaultAlg];
+    if (!algorithm) return false;
+
+    const exclusions = (Array.isArray(assertion['exclusions']) ? assertion['exclusions'] : [])
+      .filter(isMap)
+      .map(range => ({ start: Number(range['start']), length: Number(range['length']) }))
+      .sort((a, b) => a.start - b.start);
+
+    const parts: Uint8Array[] = [];
+    let position = 0;
+    for (const { start, length } of exclusions) {
+      if (start > position) parts.push(bytes.subarray(position, start));
+      position = Math.max(position, start + length);
+    }
+    if (position < bytes.length) parts.push(bytes.subarray(position));
+
+    const digest = new Uint8Array(await crypto.subtle.digest(algorithm, concatBytes(parts)));
+    return bytesEqual(digest, assertion['hash']);
+  }
+
+  private async verifySignature(signature: CborValue, claimBytes: Uint8Array, result: ProvenanceResult) {
+    const sign1 = isCborTagged(signature) ? signature.value : signature;
+    if (!Array.isArray(sign1) || sign1.length !== 4 || !(sign1[0] instanceof Uint8Array) || !(sign1[3] instanceof Uint8Array)) {
+      result.errors.push('Signature is not a COSE_Sign1 structure');
+      return;
+    }
+
+    const [protectedBytes, unprotectedHeader, , signatureBytes] = sign1;
+    const protectedHeader = protectedBytes.length > 0 ? decodeCbor(protectedBytes) : {};
+    const headers = [protectedHeader, unprotectedHeader].filter(isMap);
+
+    const algorithmId = Number(headers.find(header => header['1'] !== undefined)?.['1']);
+    const algorithm = COSE_ALGORITHMS[algorithmId];
+    result.signatureAlgorithm = algorithm?.name ?? `COSE ${algorithmId}`;
+
+    const chainValue = headers.find(header => header['33'] !== undefined)?.['33'];
+    const chain = (Array.isArray(chainValue) ? chainValue : [chainValue]).filter(
+      (cert): cert is Uint8Array => cert instanceof Uint8Array
+    );
+    if (chain.length === 0) {
+      result.errors.push('Signature carries no x5chain certificate');
+      return;
+    }
+
+    let spki: Uint8Array;
+    try {
+      const certificate = this.parseCertificate(chain[0]);
+      spki = certificate.spki.bytes;
+      result.signer = { ...certificate.info, fingerprint: toHex(await crypto.subtle.digest('SHA-256', chain[0])) };
+    } catch (error) {
+      result.errors.push('Signing certificate could not be parsed');
+      return;
+    }
+
+    try {
+      result.trusted = await this.verifyChain(chain, result);
+    } catch (error) {
+      result.trustIssues.push(`Certificate chain could not be checked: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!algorithm) {
+      result.errors.push(`Unsupported signature algorithm ${result.signatureAlgorithm}`);
+      return;
+    }
+
+    const sigStructure = encodeCbor(['Signature1', protectedBytes, new Uint8Array(0), claimBytes]);
+    try {
+      const key = await crypto.subtle.importKey('spki', spki, algorithm.params, false, ['verify']);
+      result.signatureValid = await crypto.subtle.verify(algorithm.verify, key, signatureBytes, sigStructure);
+      if (!result.signatureValid) result.errors.push('Claim signature does not verify');
+    } catch (error) {
+      result.errors.push(`${algorithm.name} signatures are not supported by this browser`);
+    }
+  }
+
+  // Walks the x5chain from the signer up until a certificate is, or is issued by, a
+  // trust anchor. Validity is checked against the current time: the RFC 3161
+  // timestamp that could vouch for an earlier signing time isn't parsed.
+  private async verifyChain(chain: Uint8Array[], result: ProvenanceResult): Promise<boolean> {
+    const certificates = chain.map(der => this.parseCertificate(der));
+    const anchors = C2PA_TRUST_ANCHORS.map(anchor => this.parseCertificate(decodeCertificate(anchor.certificate)));
+    const now = Date.now();
+    const isCurrent = (certificate: ParsedCertificate) =>
+      (!certificate.notBefore || certificate.notBefore.getTime() <= now) &&
+      (!certificate.notAfter || now <= certificate.notAfter.getTime());
+
+    const signer = certificates[0];
+    if (!signer.extendedKeyUsage?.some(usage => SIGNER_KEY_USAGES.includes(usage))) {
+      result.trustIssues.push(`Signing certificate "${certificateName(signer)}" lacks a C2PA signer extended key usage`);
+      return false;
+    }
+    if (signer.keyUsage && !signer.keyUsage.digitalSignature) {
+      result.trustIssues.push(`Signing certificate "${certificateName(signer)}" is not allowed to make digital signatures`);
+      return false;
+    }
+
+    // An issuer must be a CA allowed to sign certificates, with no more CAs below it than its pathLen
+    const canIssue = (issuer: ParsedCertificate, depth: number): string | null => {
+      if (!issuer.ca) return `"${certificateName(issuer)}" is not a CA certificate`;
+      if (!issuer.keyUsage?.keyCertSign) return `"${certificateName(issuer)}" is not allowed to sign certificates`;
+      if (issuer.pathLength !== undefined && depth > issuer.pathLength) {
+        return `"${certificateName(issuer)}" allows ${issuer.pathLength} intermediate CAs below it, the chain has ${depth}`;
+      }
+      return null;
+    };
+
+    for (let i = 0; i < certificates.length; i++) {
+      const certificate = certificates[i];
+      if (!isCurrent(certificate)) {
+        result.trustIssues.push(
+          `Certificate "${certificateName(certificate)}" is outside its validity period ` +
+          `(${certificate.info.notBefore ?? '?'} to ${certificate.info.notAfter ?? '?'})`
+        );
+        return false;
+      }
+      if (anchors.some(anchor => bytesEqual(anchor.der, certificate.der))) return true;
+
+      let anchorConstraint: string | null = null;
+      for (const anchor of anchors) {
+        if (!bytesEqual(anchor.subject, certificate.issuer) || !isCurrent(anchor)) continue;
+        anchorConstraint = canIssue(anchor, i);
+        if (!anchorConstraint && await this.isIssuedBy(certificate, anchor)) return true;
+      }
+
+      const issuer = certificates[i + 1];
+      if (!issuer || !bytesEqual(issuer.subject, certificate.issuer)) {
+        result.trustIssues.push(anchorConstraint
+          ? `Certificate chain is invalid: ${anchorConstraint}`
+          : `Certificate chain ends at "${certificateName(certificate)}" without reaching a trust anchor`);
+        return false;
+      }
+      const constraint = canIssue(issuer, i);
+      if (constraint) {
+        result.trustIssues.push(`Certificate chain is invalid: ${constraint}`);
+        return false;
+      }
+      if (!(await this.isIssuedBy(certificate, issuer))) {
+        result.trustIssues.push(`Certificate "${certificateName(certificate)}" is not signed by "${certificateName(issuer)}"`);
+        return false;
+      }
+    }
+
+    return false;
+  }
+
+  private async isIssuedBy(certificate: ParsedCertificate, issuer: ParsedCertificate): Promise<boolean> {
+    const [oid, parameters] = this.derChildren(certificate.signatureAlgorithm);
+    const algorithm = CERTIFICATE_ALGORITHMS[toHex(oid.content)];
+    if (!algorithm) throw new Error(`unsupported signature algorithm on "${certificateName(certificate)}"`);
+
+    let importParams: Algorithm | EcKeyImportParams | RsaHashedImportParams = { name: algorithm.name };
+    let verifyParams: Algorithm | EcdsaParams | RsaPssParams = { name: algorithm.name };
+    let signature = certificate.signature;
+
+    if (algorithm.name === 'ECDSA') {
+      const [, curveOid] = this.derChildren(this.derChildren(issuer.spki)[0]);
+      const curve = curveOid ? EC_CURVES[toHex(curveOid.content)] : undefined;
+      if (!curve) throw new Error(`unsupported curve on "${certificateName(issuer)}"`);
+      importParams = { name: 'ECDSA', namedCurve: curve.namedCurve };
+      verifyParams = { name: 'ECDSA', hash: algorithm.hash };
+      signature = this.ecdsaRawSignature(signature, curve.size);
+    } else if (algorithm.name === 'RSASSA-PKCS1-v1_5') {
+      importParams = { name: algorithm.name, hash: algorithm.hash };
+    } else if (algorithm.name === 'RSA-PSS') {
+      // RSASSA-PSS-params: [0] hash, [1] mask generation, [2] salt length; defaults SHA-1 and 20
+      let hash = 'SHA-1';
+      let saltLength = 20;
+      for (const field of parameters?.tag === 0x30 ? this.derChildren(parameters) : []) {
+        const [value] = this.derChildren(field);
+        if (field.tag === 0xa0) hash = DIGEST_OIDS[toHex(this.derChildren(value)[0].content)];
+        if (field.tag === 0xa2) saltLength = value.content.reduce((total, byte) => total * 256 + byte, 0);
+      }
+      if (!hash) throw new Error(`unsupported RSA-PSS hash on "${certificateName(certificate)}"`);
+      importParams = { name: 'RSA-PSS', hash };
+      verifyParams = { name: 'RSA-PSS', saltLength };
+    }
+
+    const key = await crypto.subtle.importKey('spki', issuer.spki.bytes, importParams, false, ['verify']);
+    return crypto.subtle.verify(verifyParams, key, signature, certificate.tbs);
+  }
+
+  // X.509 stores ECDSA signatures as DER SEQUENCE { r, s }; Web Crypto wants r || s at the curve size
+  private ecdsaRawSignature(der: Uint8Array, size: number): Uint8Array {
+    const raw = new Uint8Array(size * 2);
+    this.derChildren(this.readDer(der)).forEach((integer, index) => {
+      const value = integer.content.subarray(Math.max(0, integer.content.length - size));
+      raw.set(value, (index + 1) * size - value.length);
+    });
+    return raw;
+  }
+
+  private readDer(bytes: Uint8Array, offset = 0): DerNode {
+    const tag = bytes[offset];
+    let length = bytes[offset + 1];
+    let headerLength = 2;
+    if (length & 0x80) {
+      const lengthBytes = length & 0x7f;
+      length = 0;
+      for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[offset + 2 + i];
+      headerLength += lengthBytes;
+    }
+    return {
+      tag,
+      bytes: bytes.subarray(offset, offset + headerLength + length),
+      content: bytes.subarray(offset + headerLength, offset + headerLength + length)
+    };
+  }
+
+  private derChildren(node: DerNode): DerNode[] {
+    const children: DerNode[] = [];
+    let offset = 0;
+    while (offset < node.content.length) {
+      const child = this.readDer(node.content, offset);
+      children.push(child);
+      offset += child.bytes.length;
+    }
+    return children;
+  }
+
+  private parseCertificate(der: Uint8Array): ParsedCertificate {
+    const [tbs, signatureAlgorithm, signatureValue] = this.derChildren(this.readDer(der));
+    if (!signatureValue) throw new Error('Truncated certificate');
+    const fields = this.derChildren(tbs);
+    if (fields[0]?.tag === 0xa0) fields.shift();
+    const [, , issuer, validity, subject, spki, ...optional] = fields;
+    if (!spki) throw new Error('Truncated certificate');
+
+    let ca = false;
+    let pathLength: number | undefined;
+    let keyUsage: ParsedCertificate['keyUsage'];
+    let extendedKeyUsage: string[] | undefined;
+    const readInteger = (node: DerNode) => node.content.reduce((total, byte) => total * 256 + byte, 0);
+    // [3] EXPLICIT wraps the SEQUENCE of extensions
+    const extensionField = optional.find(field => field.tag === 0xa3);
+    const extensions = extensionField ? this.derChildren(this.derChildren(extensionField)[0]) : [];
+    for (const extension of extensions) {
+      const [oid, ...rest] = this.derChildren(extension);
+      // extnValue is an OCTET STRING wrapping the DER value, after an optional critical flag
+      const value = this.readDer(rest[rest.length - 1].content);
+      const id = toHex(oid.content);
+      if (id === OID_BASIC_CONSTRAINTS) {
+        for (const field of this.derChildren(value)) {
+          if (field.tag === 0x01) ca = field.content[0] !== 0;
+          if (field.tag === 0x02) pathLength = readInteger(field);
+        }
+      } else if (id === OID_KEY_USAGE) {
+        // Bit 0 (digitalSignature) is the first byte's top bit, bit 5 (keyCertSign) is 0x04
+        const bits = value.content[1] ?? 0;
+        keyUsage = { digitalSignature: (bits & 0x80) !== 0, keyCertSign: (bits & 0x04) !== 0 };
+      } else if (id === OID_EXTENDED_KEY_USAGE) {
+        extendedKeyUsage = this.derChildren(value).map(usage => toHex(usage.content));
+      }
+    }
+
+    const readName = (name: DerNode) => {
+      const values: Record<string, string> = {};
+      for (const set of this.derChildren(name)) {
+        for (const attribute of this.derChildren(set)) {
+          const [oid, value] = this.derChildren(attribute);
+          if (oid && value) values[toHex(oid.content)] = readUtf8(value.content);
+        }
+      }
+      return values;
+    };
+
+    // UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ)
+    const readTime = (node: DerNode) => {
+      const text = readAscii(node.content, 0, node.content.length);
+      const full = node.tag === 0x17 ? `${Number(text.slice(0, 2)) < 50 ? '20' : '19'}${text}` : text;
+      const [year, month, day, hour, minute, second] = [0, 4, 6, 8, 10, 12].map((start, index) =>
+        Number(full.slice(start, index === 0 ? 4 : start + 2))
+      );
+      return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    };
+
+    const subjectName = readName(subject);
+    const issuerName = readName(issuer);
+    const [notBefore, notAfter] = this.derChildren(validity).map(readTime);
+
+    return {
+      der,
+      tbs: tbs.bytes,
+      signatureAlgorithm,
+      // Skip the BIT STRING's unused-bits byte
+      signature: signatureValue.content.subarray(1),
+      issuer: issuer.bytes,
+      subject: subject.bytes,
+      spki,
+      notBefore,
+      notAfter,
+      ca,
+      pathLength,
+      keyUsage,
+      extendedKeyUsage,
+      info: {
+        commonName: subjectName[OID_COMMON_NAME],
+        organization: subjectName[OID_ORGANIZATION],
+        issuer: issuerName[OID_COMMON_NAME] ?? issuerName[OID_ORGANIZATION],
+        notBefore: notBefore?.toISOString().slice(0, 10),
+        notAfter: notAfter?.toISOString().slice(0, 10)
+      }
+    };
+  }
+}
+
+export default ContentCredentialsVerifier;
@@ -0,0 +1,186 @@
+// Minimal CBOR (RFC 8949) codec covering what C2PA manifests and COSE
+// signatures use. Maps decode to plain objects keyed by the stringified key.
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | CborTagged
+  | { [key: string]: CborValue };
+
+export interface CborTagged {
+  tag: number;
+  value: CborValue;
+}
+
+export const isCborTagged = (value: CborValue): value is CborTagged =>
+  typeof value === 'object' && value !== null && !(value instanceof Uint8Array) && !Array.isArray(value) &&
+  'tag' in value && 'value' in value && Object.keys(value).length === 2;
+
+class CborDecoder {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  decode(): CborValue {
+    if (this.offset >= this.bytes.length) throw new Error('Unexpected end of CBOR data');
+
+    const initial = this.bytes[this.offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) return this.decodeSimple(info);
+
+    const length = this.readLength(info);
+
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return typeof length === 'bigint' ? -1n - length : -1 - length;
+      case 2:
+        return length === -1 ? this.readIndefiniteBytes() : this.readBytes(Number(length));
+      case 3:
+        return new TextDecoder().decode(length === -1 ? this.readIndefiniteBytes() : this.readBytes(Number(length)));
+      case 4: {
+        const items: CborValue[] = [];
+        if (length === -1) {
+          while (this.bytes[this.offset] !== 0xff) items.push(this.decode());
+          this.offset++;
+        } else {
+          for (let i = 0; i < Number(length); i++) items.push(this.decode());
+        }
+        return items;
+      }
+      case 5: {
+        const map: { [key: string]: CborValue } = {};
+        const readEntry = () => {
+          const key = this.decode();
+          map[String(key)] = this.decode();
+        };
+        if (length === -1) {
+          while (this.bytes[this.offset] !== 0xff) readEntry();
+          this.offset++;
+        } else {
+          for (let i = 0; i < Number(length); i++) readEntry();
+        }
+        return map;
+      }
+      case 6:
+        return { tag: Number(length), value: this.decode() };
+      default:
+        throw new Error(`Unsupported CBOR major type ${major}`);
+    }
+  }
+
+  private readLength(info: number): number | bigint {
+    if (info < 24) return info;
+    if (info === 24) return this.bytes[this.offset++];
+    if (info === 25) {
+      const value = this.view.getUint16(this.offset);
+      this.offset += 2;
+      return value;
+    }
+    if (info === 26) {
+      const value = this.view.getUint32(this.offset);
+      this.offset += 4;
+      return value;
+    }
+    if (info === 27) {
+      const value = this.view.getBigUint64(this.offset);
+      this.offset += 8;
+      return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+    }
+    if (info === 31) return -1;
+    throw new Error(`Invalid CBOR additional info ${info}`);
+  }
+
+  private decodeSimple(info: number): CborValue {
+    if (info === 20) return false;
+    if (info === 21) return true;
+    if (info === 22) return null;
+    if (info === 23) return undefined;
+    if (info === 25) {
+      const half = this.view.getUint16(this.offset);
+      this.offset += 2;
+      return this.decodeHalf(half);
+    }
+    if (info === 26) {
+      const value = this.view.getFloat32(this.offset);
+      this.offset += 4;
+      return value;
+    }
+    if (info === 27) {
+      const value = this.view.getFloat64(this.offset);
+      this.offset += 8;
+      return value;
+    }
+    if (info < 24) return info;
+    throw new Error(`Unsupported CBOR simple value ${info}`);
+  }
+
+  private decodeHalf(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 31) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+  }
+
+  private readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error('CBOR string exceeds buffer');
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private readIndefiniteBytes(): Uint8Array {
+    const parts: Uint8Array[] = [];
+    while (this.bytes[this.offset] !== 0xff) {
+      const initial = this.bytes[this.offset++];
+      parts.push(this.readBytes(Number(this.readLength(initial & 0x1f))));
+    }
+    this.offset++;
+    return concatBytes(parts);
+  }
+}
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+export const decodeCbor = (bytes: Uint8Array): CborValue => new CborDecoder(bytes).decode();
+
+const encodeHead = (major: number, length: number): Uint8Array => {
+  if (length < 24) return Uint8Array.of((major << 5) | length);
+  if (length < 0x100) return Uint8Array.of((major << 5) | 24, length);
+  if (length < 0x10000) return Uint8Array.of((major << 5) | 25, length >> 8, length & 0xff);
+  return Uint8Array.of((major << 5) | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+};
+
+// Encodes the subset needed to rebuild COSE Sig_structures: arrays, text and byte strings
+export const encodeCbor = (value: string | Uint8Array | (string | Uint8Array)[]): Uint8Array => {
+  if (typeof value === 'string') {
+    const text = new TextEncoder().encode(value);
+    return concatBytes([encodeHead(3, text.length), text]);
+  }
+  if (value instanceof Uint8Array) {
+    return concatBytes([encodeHead(2, value.length), value]);
+  }
+  return concatBytes([encodeHead(4, value.length), ...value.map(item => encodeCbor(item))]);
+};
@@ -1,117 +1,375 @@
+import { decodeImageBlob, encodeImageData, imageDataToUrl } from './imageIO';
+import CopyMoveDetector, { CopyMoveResult } from './copyMoveDetection';
+import SpectralAnalyzer, { SpectralOptions, SpectralResult } from './spectralAnalysis';
+import FaceAnalyzer, { FaceAnalysisResult } from './faceAnalysis';
+import FaceTracker, { FaceObservation, FaceTrackingResult } from './faceTracking';
+import LipSyncAnalyzer, { LipSyncResult } from './lipSync';
+import SceneCutDetector, { FrameSignature, SceneAnalysis } from './sceneCuts';
+import TimingIntegrityAnalyzer, { TimingIntegrityResult } from './timingIntegrity';
+import SensorNoiseAnalyzer, { CameraFingerprint, NoiseResidual, PrnuCorrelationResult } from './sensorNoise';
+import VideoFrameExtractor, { DEFAULT_FRAME_SAMPLING, FrameExtractionInfo, FrameSampling } from './videoFrames';
+
+
+export interface ElaResult {
+  quality: number;
+  heatmap: string;
+  width: number;
+  height: number;
+  meanError: number;
+  maxError: number;
+  inconsistencyScore: number;
+}
 
 interface ImageAnalysisResult {
   artifacts: number;
-  compression: number;
+  edges: number;
   metadata: any;
-  faceRegions: any[];
+  faces: FaceAnalysisResult;
+  ela: ElaResult | null;
+  copyMove: CopyMoveResult | null;
+  spectrum: SpectralResult | null;
+  manipulationScore: number;
+}
+
+// One point of the per-frame timeline; the overlays are kept so a frame picked on the
+// timeline can be inspected the same way as a still image
+export interface VideoFrameScore {
+  index: number;
+  time: number;
+  keyframe: boolean;
+  width: number;
+  height: number;
   manipulationScore: number;
+  ela: ElaResult | null;
+  copyMove: CopyMoveResult | null;
+  faces: FaceAnalysisResult;
 }
 
-interface VideoAnalysisResult {
+export interface VideoAnalysisResult {
   frameConsistency: number;
   temporalArtifacts: number;
-  compressionArtifacts: number;
   manipulationScore: number;
   suspiciousFrames: number[];
+  frames: VideoFrameScore[];
+  faceTracks: FaceTrackingResult;
+  // Null when the check could not run at all (decoding failed)
+  lipSync: LipSyncResult | null;
+  scenes: SceneAnalysis | null;
+  timing: TimingIntegrityResult | null;
+  extraction: FrameExtractionInfo;
 }
 
+interface ShotStatistics {
+  mean: number;
+  deviation: number;
+  // Mean absolute score change between neighbouring sampled frames
+  jump: number;
+  median: number;
+  spread: number;
+}
+
+const SUSPICIOUS_FRAME_SCORE = 60;
+const OUTLIER_MIN_SCORE = 30;
+const OUTLIER_DEVIATIONS = 3;
+
 class ComputerVisionAnalyzer {
-  async analyzeImageForManipulation(imageData: ImageData): Promise<ImageAnalysisResult> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Simulate advanced computer vision analysis
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        
-        if (ctx) {
-          ctx.putImageData(imageData, 0, 0);
-          
-          // Analyze compression artifacts
-          const compressionScore = this.detectCompressionArtifacts(imageData);
-          
-          // Detect resampling artifacts
-          const resamplingScore = this.detectResamplingArtifacts(imageData);
-          
-          // Edge analysis for splicing detection
-          const edgeAnomalies = this.detectEdgeAnomalies(imageData);
-          
-          // Color histogram analysis
-          const colorAnomalies = this.analyzeColorDistribution(imageData);
-          
-          const manipulationScore = (compressionScore + resamplingScore + edgeAnomalies + colorAnomalies) / 4;
-          
-          resolve({
-            artifacts: resamplingScore,
-            compression: compressionScore,
-            metadata: { width: imageData.width, height: imageData.height },
-            faceRegions: this.detectFaceRegions(imageData),
-            manipulationScore
-          });
-        } else {
-          resolve({
-            artifacts: 15,
-            compression: 20,
-            metadata: {},
-            faceRegions: [],
-            manipulationScore: 25
-          });
-        }
-      }, 1500 + Math.random() * 1000);
+  private copyMoveDetector = new CopyMoveDetector();
+  private spectralAnalyzer = new SpectralAnalyzer();
+  private faceAnalyzer = new FaceAnalyzer();
+  private faceTracker = new FaceTracker();
+  private lipSyncAnalyzer = new LipSyncAnalyzer();
+  private sceneCutDetector = new SceneCutDetector();
+  private timingAnalyzer = new TimingIntegrityAnalyzer();
+  private sensorNoiseAnalyzer = new SensorNoiseAnalyzer();
+  private frameExtractor = new VideoFrameExtractor();
+
+  async analyzeImageForManipulation(
+    imageData: ImageData,
+    spectralOptions: SpectralOptions = {}
+  ): Promise<ImageAnalysisResult> {
+    const ela = await this.performErrorLevelAnalysis(imageData).catch((error) => {
+      console.warn('Error level analysis failed:', error);
+      return null;
     });
+
+    let copyMove: CopyMoveResult | null = null;
+    try {
+      copyMove = this.copyMoveDetector.detect(imageData);
+    } catch (error) {
+      console.warn('Copy-move detection failed:', error);
+    }
+
+    let spectrum: SpectralResult | null = null;
+    try {
+      spectrum = this.spectralAnalyzer.analyze(imageData, spectralOptions);
+    } catch (error) {
+      console.warn('Spectral analysis failed:', error);
+    }
+
+    const faces = await this.faceAnalyzer.analyze(imageData);
+
+    // Detect resampling artifacts
+    const resamplingScore = this.detectResamplingArtifacts(imageData);
+    
+    // Edge analysis for splicing detection
+    const edgeAnomalies = this.detectEdgeAnomalies(imageData);
+    
+    // Color histogram analysis
+    const colorAnomalies = this.analyzeColorDistribution(imageData);
+    
+    // Compression is judged from the JPEG quantization tables (jpegForensics), not from pixels
+    const scores = [resamplingScore, edgeAnomalies, colorAnomalies];
+    if (ela) scores.push(ela.inconsistencyScore);
+    if (copyMove) scores.push(copyMove.score);
+    if (spectrum) scores.push(spectrum.score);
+    if (faces.faces.length > 0) scores.push(faces.score);
+    const manipulationScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    
+    return {
+      artifacts: resamplingScore,
+      edges: edgeAnomalies,
+      metadata: { width: imageData.width, height: imageData.height },
+      faces,
+      ela,
+      copyMove,
+      spectrum,
+      manipulationScore
+    };
   }
 
-  async analyzeVideoForManipulation(videoFile: File): Promise<VideoAnalysisResult> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Simulate advanced video analysis
-        const frameCount = Math.floor(Math.random() * 50) + 20;
-        const suspiciousFrames: number[] = [];
-        
-        // Simulate frame-by-frame analysis
-        for (let i = 0; i < frameCount; i++) {
-          if (Math.random() > 0.8) {
-            suspiciousFrames.push(i);
-          }
-        }
-        
-        const frameConsistency = 85 + Math.random() * 10;
-        const temporalArtifacts = Math.random() * 30;
-        const compressionArtifacts = Math.random() * 25;
-        
-        const manipulationScore = (
-          (100 - frameConsistency) + 
-          temporalArtifacts + 
-          compressionArtifacts + 
-          (suspiciousFrames.length / frameCount * 100)
-        ) / 4;
-        
-        resolve({
-          frameConsistency,
-          temporalArtifacts,
-          compressionArtifacts,
-          manipulationScore,
-          suspiciousFrames
-        });
-      }, 3000 + Math.random() * 2000);
+  // Every sampled frame goes through the same pixel forensics as a still image
+  async analyzeVideoForManipulation(
+    videoFile: File,
+    sampling: FrameSampling = DEFAULT_FRAME_SAMPLING
+  ): Promise<VideoAnalysisResult> {
+    const frames: VideoFrameScore[] = [];
+    const faceObservations: FaceObservation[][] = [];
+    const signatures: FrameSignature[] = [];
+    const extraction = await this.frameExtractor.extract(videoFile, sampling, async (frame) => {
+      // Video codecs quantize on a block grid too, so its spectral peaks are expected
+      const analysis = await this.analyzeImageForManipulation(frame.imageData, { ignoreBlockGrid: true });
+      frames.push({
+        index: frame.index,
+        time: frame.time,
+        keyframe: frame.keyframe,
+        width: frame.imageData.width,
+        height: frame.imageData.height,
+        manipulationScore: analysis.manipulationScore,
+        ela: analysis.ela,
+        copyMove: analysis.copyMove,
+        faces: analysis.faces
+      });
+      faceObservations.push(await this.faceTracker.observe(frame, analysis.faces.faces));
+      signatures.push(this.sceneCutDetector.describe(frame.imageData, frame.index, frame.time));
+    });
+    if (frames.length === 0) throw new Error('No frames could be decoded from the video');
+    const faceTracks = this.faceTracker.track(faceObservations);
+    const lipSync = await this.lipSyncAnalyzer.analyze(videoFile, faceTracks).catch((error) => {
+      console.warn('Lip-sync analysis failed:', error);
+      return null;
+    });
+
+    const scenes = await this.sceneCutDetector.detect(videoFile, signatures, extraction.frameRate, extraction.frameCount).catch((error) => {
+      console.warn('Scene cut detection failed:', error);
+      return null;
+    });
+    const timing = await this.timingAnalyzer.analyze(videoFile, extraction.frameRate, extraction.duration).catch((error) => {
+      console.warn('Timing integrity check failed:', error);
+      return null;
+    });
+
+    // Each shot is judged on its own: a camera cut changes the picture, so score jumps and
+    // spread across one say nothing about manipulation
+    const shots = scenes ? scenes.segments.map(segment => frames.filter(frame => segment.frames.includes(frame.index))) : [frames];
+    const shotStatistics = shots.map(shot => this.shotStatistics(shot));
+    const statisticsOf = new Map<number, ShotStatistics>();
+    shots.forEach((shot, i) => shot.forEach(frame => statisticsOf.set(frame.index, shotStatistics[i])));
+
+    // A frame is suspicious when it scores high on its own, stands out from the rest of its shot,
+    // a face track jumps in appearance, tone or blending there, the lips fall out of sync, or it
+    // opens a shot spliced in from different footage
+    const trackJumps = new Set(faceTracks.tracks.flatMap(track => track.flaggedFrames));
+    const splices = new Set(
+      (scenes?.cuts ?? [])
+        .filter(cut => cut.classification === 'suspicious')
+        .map(cut => frames.find(frame => frame.time >= cut.time)?.index)
+    );
+    const isOutlier = (frame: VideoFrameScore) => {
+      const statistics = statisticsOf.get(frame.index);
+      return !!statistics && frame.manipulationScore > OUTLIER_MIN_SCORE &&
+        (frame.manipulationScore - statistics.median) / (statistics.spread + 1) > OUTLIER_DEVIATIONS;
+    };
+    const isSuspicious = (frame: VideoFrameScore) =>
+      frame.manipulationScore >= SUSPICIOUS_FRAME_SCORE ||
+      isOutlier(frame) ||
+      trackJumps.has(frame.index) ||
+      splices.has(frame.index) ||
+      !!lipSync?.segments.some(segment => frame.time >= segment.start && frame.time <= segment.end);
+    const suspiciousFrames = frames.filter(isSuspicious).map(frame => frame.index);
+
+    // Deviations and jumps are pooled over the shots, weighted by their frame counts
+    const pooled = (value: (statistics: ShotStatistics, shot: VideoFrameScore[]) => number, weight: (shot: VideoFrameScore[]) => number) => {
+      const total = shots.reduce((sum, shot) => sum + weight(shot), 0);
+      return total > 0 ? shots.reduce((sum, shot, i) => sum + value(shotStatistics[i], shot) * weight(shot), 0) / total : 0;
+    };
+    const meanScore = frames.reduce((sum, frame) => sum + frame.manipulationScore, 0) / frames.length;
+    const deviation = Math.sqrt(pooled(statistics => statistics.deviation ** 2, shot => shot.length));
+    const jump = pooled(statistics => statistics.jump, shot => shot.length - 1);
+
+    const frameConsistency = Math.max(100 - deviation * 2, 0);
+    const temporalArtifacts = Math.min(jump * 2, 100);
+
+    const components = [
+      100 - frameConsistency,
+      temporalArtifacts,
+      meanScore,
+      suspiciousFrames.length / frames.length * 100
+    ];
+    if (faceTracks.tracks.length > 0) components.push(faceTracks.score);
+    if (lipSync?.assessed) components.push(lipSync.score);
+    if (scenes && scenes.cuts.length > 0) components.push(scenes.score);
+    if (timing) components.push(100 - timing.integrity);
+    const manipulationScore = components.reduce((sum, score) => sum + score, 0) / components.length;
+
+    scenes?.segments.forEach((segment, i) => {
+      const statistics = shotStatistics[i];
+      const flagged = shots[i].filter(isSuspicious).length;
+      segment.score = (
+        Math.min(statistics.deviation * 2, 100) +
+        Math.min(statistics.jump * 2, 100) +
+        statistics.mean +
+        (shots[i].length > 0 ? flagged / shots[i].length * 100 : 0)
+      ) / 4;
     });
+
+    return {
+      frameConsistency,
+      temporalArtifacts,
+      manipulationScore,
+      suspiciousFrames,
+      frames,
+      faceTracks,
+      lipSync,
+      scenes,
+      timing,
+      extraction
+    };
   }
 
-  private detectCompressionArtifacts(imageData: ImageData): number {
-    // Simulate JPEG compression artifact detection
-    const data = imageData.data;
-    let artifacts = 0;
-    
-    // Check for 8x8 block artifacts typical of JPEG compression
-    for (let y = 0; y < imageData.height - 8; y += 8) {
-      for (let x = 0; x < imageData.width - 8; x += 8) {
-        const blockVariance = this.calculateBlockVariance(data, x, y, imageData.width);
-        if (blockVariance < 10) artifacts++;
+  private shotStatistics(shot: VideoFrameScore[]): ShotStatistics {
+    const scores = shot.map(frame => frame.manipulationScore);
+    if (scores.length === 0) return { mean: 0, deviation: 0, jump: 0, median: 0, spread: 0 };
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const sorted = [...scores].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    let jumps = 0;
+    for (let i = 1; i < scores.length; i++) jumps += Math.abs(scores[i] - scores[i - 1]);
+    return {
+      mean,
+      deviation: Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length),
+      jump: scores.length > 1 ? jumps / (scores.length - 1) : 0,
+      median,
+      spread: 1.4826 * scores.map(score => Math.abs(score - median)).sort((a, b) => a - b)[Math.floor(scores.length / 2)]
+    };
+  }
+
+  extractNoiseResidual(imageData: ImageData): NoiseResidual {
+    return this.sensorNoiseAnalyzer.extractResidual(imageData);
+  }
+
+  // Reference images must be unedited, full-resolution shots from the claimed camera
+  buildCameraFingerprint(referenceImages: ImageData[]): CameraFingerprint {
+    return this.sensorNoiseAnalyzer.buildFingerprint(referenceImages);
+  }
+
+  compareWithCameraFingerprint(imageData: ImageData, fingerprint: CameraFingerprint): PrnuCorrelationResult {
+    return this.sensorNoiseAnalyzer.correlate(imageData, fingerprint);
+  }
+
+  async performErrorLevelAnalysis(imageData: ImageData, quality = 0.9): Promise<ElaResult> {
+    // Re-save at a known JPEG quality; regions edited after the last save
+    // recompress differently from the rest of the image and light up.
+    const recompressed = await decodeImageBlob(await encodeImageData(imageData, 'image/jpeg', quality));
+    const { width, height } = imageData;
+    const original = imageData.data;
+    const resaved = recompressed.data;
+
+    const errors = new Float32Array(width * height);
+    let sum = 0;
+    let maxError = 0;
+
+    for (let i = 0; i < errors.length; i++) {
+      const idx = i * 4;
+      const error = Math.max(
+        Math.abs(original[idx] - resaved[idx]),
+        Math.abs(original[idx + 1] - resaved[idx + 1]),
+        Math.abs(original[idx + 2] - resaved[idx + 2])
+      );
+      errors[i] = error;
+      sum += error;
+      if (error > maxError) maxError = error;
+    }
+
+    const meanError = sum / errors.length;
+
+    // Normalise against the 99th percentile so a few hot pixels don't wash out the map
+    const sorted = Float32Array.from(errors).sort();
+    const scale = 255 / Math.max(sorted[Math.floor(sorted.length * 0.99)], 8);
+
+    const heatmap = new ImageData(width, height);
+    for (let i = 0; i < errors.length; i++) {
+      const value = Math.min(errors[i] * scale, 255);
+      const [r, g, b] = this.heatColor(value / 255);
+      const idx = i * 4;
+      heatmap.data[idx] = r;
+      heatmap.data[idx + 1] = g;
+      heatmap.data[idx + 2] = b;
+      heatmap.data[idx + 3] = value;
+    }
+
+    return {
+      quality,
+      heatmap: imageDataToUrl(heatmap),
+      width,
+      height,
+      meanError,
+      maxError,
+      inconsistencyScore: this.calculateElaInconsistency(errors, width, height)
+    };
+  }
+
+  private calculateElaInconsistency(errors: Float32Array, width: number, height: number): number {
+    // A uniformly noisy ELA map is normal; isolated bright blocks are what indicate splicing
+    const blockSize = 16;
+    const blockMeans: number[] = [];
+
+    for (let y = 0; y + blockSize <= height; y += blockSize) {
+      for (let x = 0; x + blockSize <= width; x += blockSize) {
+        let sum = 0;
+        for (let by = y; by < y + blockSize; by++) {
+          for (let bx = x; bx < x + blockSize; bx++) {
+            sum += errors[by * width + bx];
+          }
+        }
+        blockMeans.push(sum / (blockSize * blockSize));
       }
     }
-    
-    return Math.min(artifacts / ((imageData.width / 8) * (imageData.height / 8)) * 100, 100);
+
+    if (blockMeans.length < 4) return 0;
+
+    const mean = blockMeans.reduce((sum, value) => sum + value, 0) / blockMeans.length;
+    const std = Math.sqrt(blockMeans.reduce((sum, value) => sum + (value - mean) ** 2, 0) / blockMeans.length);
+    const outliers = blockMeans.filter(value => value > mean + 3 * std && value > 2).length;
+
+    return Math.min((outliers / blockMeans.length) * 1000, 100);
+  }
+
+  private heatColor(t: number): [number, number, number] {
+    // black -> red -> yellow -> white
+    const r = Math.min(t * 3, 1);
+    const g = Math.min(Math.max(t * 3 - 1, 0), 1);
+    const b = Math.min(Math.max(t * 3 - 2, 0), 1);
+    return [r * 255, g * 255, b * 255];
   }
 
   private detectResamplingArtifacts(imageData: ImageData): number {
@@ -143,13 +401,14 @@ class ComputerVisionAnalyzer {
         const gy = this.sobelY(data, x, y, imageData.width);
         const magnitude = Math.sqrt(gx * gx + gy * gy);
         
-        if (magnitude > 128 && Math.random() > 0.95) {
+        if (magnitude > 128) {
           edgeAnomalies++;
         }
       }
     }
     
-    return Math.min(edgeAnomalies / (imageData.width * imageData.height) * 10000, 100);
+    // Saturates once a fifth of the frame is strong edges
+    return Math.min(edgeAnomalies / (imageData.width * imageData.height) * 500, 100);
   }
 
   private analyzeColorDistribution(imageData: ImageData): number {
@@ -173,51 +432,6 @@ class ComputerVisionAnalyzer {
     return Math.min(peaks * 5, 100);
   }
 
-  private detectFaceRegions(imageData: ImageData): any[] {
-    // Simulate face detection (would use actual face detection model in production)
-    const faces = [];
-    const numFaces = Math.floor(Math.random() * 3);
-    
-    for (let i = 0; i < numFaces; i++) {
-      faces.push({
-        x: Math.random() * imageData.width * 0.5,
-        y: Math.random() * imageData.height * 0.5,
-        width: 50 + Math.random() * 100,
-        height: 60 + Math.random() * 120,
-        confidence: 0.7 + Math.random() * 0.3
-      });
-    }
-    
-    return faces;
-  }
-
-  private calculateBlockVariance(data: Uint8ClampedArray, startX: number, startY: number, width: number): number {
-    let sum = 0;
-    let count = 0;
-    
-    for (let y = startY; y < startY + 8; y++) {
-      for (let x = startX; x < startX + 8; x++) {
-        const idx = (y * width + x) * 4;
-        const gray = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-        sum += gray;
-        count++;
-      }
-    }
-    
-    const mean = sum / count;
-    let variance = 0;
-    
-    for (let y = startY; y < startY + 8; y++) {
-      for (let x = startX; x < startX + 8; x++) {
-        const idx = (y * width + x) * 4;
-        const gray = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-        variance += Math.pow(gray - mean, 2);
-      }
-    }
-    
-    return variance / count;
-  }
-
   private sobelX(data: Uint8ClampedArray, x: number, y: number, width: number): number {
     const kernel = [[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]];
     let sum = 0;
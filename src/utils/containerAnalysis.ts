@@ -0,0 +1,839 @@
+import {
+  findIsoBox,
+  readAscii,
+  readInt32BE,
+  readIsoBoxes,
+  readUint16BE,
+  readUint32BE,
+  readUint64BE,
+  readUtf8,
+  IsoBox
+} from './fileFormats';
+import { isMp3, isOgg, isWav, readMp3, readOgg, readWav, Mp3File, OggFile, WavFile } from './audioContainer';
+import { isEbml } from './ebml';
+import { MetadataCheck } from './metadataAnalysis';
+import { readBoxPayload, readMatroska, readTimeToSample, readTopLevelBoxes, MatroskaFile } from './videoContainer';
+
+export interface EditListEntry {
+  // Seconds of presentation time covered by the edit
+  segmentDuration: number;
+  // Start of the edit in media time (seconds); null for an empty edit (inserted delay)
+  mediaTime: number | null;
+  rate: number;
+}
+
+export interface ContainerTrack {
+  id: number;
+  kind: 'video' | 'audio' | 'subtitle' | 'other';
+  codec: string;
+  duration: number | null;
+  handlerName: string | null;
+  language: string | null;
+  width: number | null;
+  height: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  frameCount: number | null;
+  edits: EditListEntry[];
+}
+
+export interface ContainerField {
+  group: string;
+  name: string;
+  value: string;
+}
+
+export interface ContainerResult {
+  format: 'mp4' | 'mov' | 'webm' | 'matroska' | 'wav' | 'mp3' | 'ogg' | 'unknown';
+  brands: string[];
+  encoder: string | null;
+  creationTime: Date | null;
+  modificationTime: Date | null;
+  duration: number | null;
+  tracks: ContainerTrack[];
+  structure: string[];
+  fields: ContainerField[];
+  checks: MetadataCheck[];
+  score: number;
+}
+
+// QuickTime/MP4 dates count seconds from 1904-01-01T00:00:00Z
+const MAC_EPOCH = Date.UTC(1904, 0, 1);
+
+const SEVERITY_WEIGHTS: Record<MetadataCheck['severity'], number> = { low: 5, medium: 15, high: 30 };
+
+const EDITOR_PATTERN = /premiere|after effects|adobe|mainconcept|final cut|imovie|davinci|resolve|capcut|kinemaster|inshot|filmora|vegas|shotcut|openshot|avid|media composer|lightworks|clipchamp|vn video|powerdirector|camtasia|handbrake|audacity|audition|reaper|ocenaudio|wavepad|garageband|pro tools|izotope|sound forge|wavelab|logic pro|soundtrap/i;
+const TRANSCODER_PATTERN = /lavf|lavc|libavformat|ffmpeg|mencoder|gstreamer|mkvmerge|mp4box|gpac|bento4|libwebm|sox\b/i;
+// Text-to-speech and voice-conversion tools that tag their output
+const VOICE_SYNTHESIS_PATTERN = /elevenlabs|eleven labs|resemble|descript|murf|play\.?ht|speechify|coqui|tortoise|\bbark\b|\brvc\b|so-vits|voicemod|wellsaid|uberduck|xtts|piper tts/i;
+const BROWSER_RECORDER_PATTERN = /^(chrome|firefox|safari)$|whammy|QTmuxingAppLibWebM/i;
+
+const HANDLER_KINDS: Record<string, ContainerTrack['kind']> = { vide: 'video', soun: 'audio', sbtl: 'subtitle', text: 'subtitle', subt: 'subtitle' };
+
+const QUICKTIME_TEXT_TAGS: Record<string, string> = {
+  '©too': 'Encoder',
+  '©swr': 'Software',
+  '©enc': 'Encoded by',
+  '©day': 'Date',
+  '©mak': 'Make',
+  '©mod': 'Model',
+  '©xyz': 'Location',
+  '©nam': 'Title',
+  '©cmt': 'Comment'
+};
+
+// Durations disagreeing by less than this are rounding or priming samples
+const DURATION_TOLERANCE = 0.5;
+
+const macDate = (seconds: number): Date | null => (seconds > 0 ? new Date(MAC_EPOCH + seconds * 1000) : null);
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const durationsDisagree = (a: number, b: number) => Math.abs(a - b) > Math.max(DURATION_TOLERANCE, Math.max(a, b) * 0.05);
+
+class ContainerAnalyzer {
+  async analyze(file: Blob): Promise<ContainerResult> {
+    const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+
+    let result: ContainerResult;
+    if (isEbml(head)) {
+      const matroska = await readMatroska(file);
+      result = matroska ? this.analyzeMatroska(matroska) : this.unknown('The EBML header could not be parsed');
+    } else if (head.length >= 12 && readAscii(head, 4, 4) === 'ftyp') {
+      result = await this.analyzeIsoBmff(file);
+    } else if (isWav(head)) {
+      result = this.analyzeWav((await readWav(file))!);
+    } else if (isOgg(head)) {
+      result = this.analyzeOgg((await readOgg(file))!);
+    } else if (isMp3(head)) {
+      result = this.analyzeMp3((await readMp3(file))!);
+    } else {
+      result = this.unknown(
+        'Container format not supported for structural analysis (only MP4, MOV, WebM, MKV, WAV, MP3 and Ogg are parsed)'
+      );
+    }
+
+    result.score = Math.min(result.checks.reduce((sum, check) => sum + SEVERITY_WEIGHTS[check.severity], 0), 100);
+    return result;
+  }
+
+  private unknown(message: string): ContainerResult {
+    return {
+      format: 'unknown',
+      brands: [],
+      encoder: null,
+      creationTime: null,
+      modificationTime: null,
+      duration: null,
+      tracks: [],
+      structure: [],
+      fields: [],
+      checks: [{ id: 'unsupported-container', severity: 'low', message }],
+      score: 0
+    };
+  }
+
+  private async analyzeIsoBmff(file: Blob): Promise<ContainerResult> {
+    const topLevel = await readTopLevelBoxes(file);
+    const fields: ContainerField[] = [];
+    const checks: MetadataCheck[] = [];
+    const software: string[] = [];
+
+    const ftyp = topLevel.find(box => box.type === 'ftyp');
+    const ftypData = ftyp ? await readBoxPayload(file, ftyp) : new Uint8Array(0);
+    const majorBrand = readAscii(ftypData, 0, 4).trim();
+    const brands = [majorBrand];
+    for (let offset = 8; offset + 4 <= ftypData.length; offset += 4) {
+      const brand = readAscii(ftypData, offset, 4).trim();
+      if (brand && !brands.includes(brand)) brands.push(brand);
+    }
+    fields.push({ group: 'File', name: 'Brands', value: brands.join(', ') });
+
+    const result: ContainerResult = {
+      format: majorBrand === 'qt' ? 'mov' : 'mp4',
+      brands,
+      encoder: null,
+      creationTime: null,
+      modificationTime: null,
+      duration: null,
+      tracks: [],
+      structure: topLevel.map(box => box.type),
+      fields,
+      checks,
+      score: 0
+    };
+
+    const moovBoxes = topLevel.filter(box => box.type === 'moov');
+    const firstMdat = topLevel.findIndex(box => box.type === 'mdat');
+    if (moovBoxes.length === 0) {
+      checks.push({ id: 'moov-missing', severity: 'high', message: 'No movie header (moov): the file is truncated or was assembled by hand' });
+      return result;
+    }
+    if (moovBoxes.length > 1) {
+      checks.push({ id: 'moov-duplicate', severity: 'high', message: `${moovBoxes.length} movie headers (moov) found: content was appended to an existing file` });
+    }
+    if (firstMdat >= 0 && topLevel.indexOf(moovBoxes[0]) < firstMdat) {
+      checks.push({
+        id: 'moov-first',
+        severity: 'low',
+        message: 'Movie header placed before the media data (fast start): typical of re-muxed or exported files rather than camera originals'
+      });
+    }
+
+    // XMP packets live in a top-level uuid box (Adobe) or in udta/XMP_ (QuickTime)
+    for (const box of topLevel.filter(box => box.type === 'uuid' && box.size < 4 * 1024 * 1024)) {
+      software.push(...this.readXmpSoftware(readUtf8(await readBoxPayload(file, box)), fields));
+    }
+
+    const moov = readIsoBoxes(await readBoxPayload(file, moovBoxes[0]));
+    const mvhd = moov.find(box => box.type === 'mvhd');
+    let movieTimescale = 0;
+    if (mvhd) {
+      const v1 = mvhd.data[0] === 1;
+      const creation = v1 ? readUint64BE(mvhd.data, 4) : readUint32BE(mvhd.data, 4);
+      const modification = v1 ? readUint64BE(mvhd.data, 12) : readUint32BE(mvhd.data, 8);
+      movieTimescale = v1 ? readUint32BE(mvhd.data, 20) : readUint32BE(mvhd.data, 12);
+      const duration = v1 ? readUint64BE(mvhd.data, 24) : readUint32BE(mvhd.data, 16);
+
+      result.creationTime = macDate(creation);
+      result.modificationTime = macDate(modification);
+      result.duration = movieTimescale > 0 ? duration / movieTimescale : null;
+      if (result.creationTime) fields.push({ group: 'Movie', name: 'Created', value: result.creationTime.toISOString() });
+      if (result.modificationTime) fields.push({ group: 'Movie', name: 'Modified', value: result.modificationTime.toISOString() });
+      if (result.duration !== null) fields.push({ group: 'Movie', name: 'Duration', value: formatSeconds(result.duration) });
+    }
+
+    const trackDates: { id: number; creation: Date | null }[] = [];
+    for (const trak of moov.filter(box => box.type === 'trak')) {
+      const { track, creation } = this.readIsoTrack(trak, movieTimescale);
+      result.tracks.push(track);
+      trackDates.push({ id: track.id, creation });
+      if (track.handlerName) software.push(track.handlerName);
+    }
+
+    const udta = moov.find(box => box.type === 'udta');
+    if (udta) software.push(...this.readUserData(udta, fields));
+    const meta = moov.find(box => box.type === 'meta');
+    if (meta) software.push(...this.readMetadataKeys(meta, fields));
+
+    this.checkDates(result, checks);
+    const { creationTime } = result;
+    if (creationTime) {
+      const driftingTracks = trackDates.filter(
+        entry => entry.creation && Math.abs(entry.creation.getTime() - creationTime.getTime()) > 60 * 1000
+      );
+      if (driftingTracks.length > 0) {
+        checks.push({
+          id: 'track-dates',
+          severity: 'medium',
+          message: `Track ${driftingTracks.map(entry => entry.id).join(', ')} was created at a different time than the movie: tracks were combined from separate recordings`
+        });
+      }
+    }
+
+    this.checkIsoDurations(result, checks);
+    this.checkSoftware(result, software, checks);
+    return result;
+  }
+
+  private readIsoTrack(trak: IsoBox, movieTimescale: number): { track: ContainerTrack; creation: Date | null } {
+    const boxes = readIsoBoxes(trak.data);
+    const tkhd = boxes.find(box => box.type === 'tkhd');
+    const mdhd = findIsoBox(boxes, ['mdia', 'mdhd']);
+    const hdlr = findIsoBox(boxes, ['mdia', 'hdlr']);
+    const stbl = findIsoBox(boxes, ['mdia', 'minf', 'stbl']);
+    const elst = findIsoBox(boxes, ['edts', 'elst']);
+
+    const track: ContainerTrack = {
+      id: 0,
+      kind: 'other',
+      codec: 'unknown',
+      duration: null,
+      handlerName: null,
+      language: null,
+      width: null,
+      height: null,
+      sampleRate: null,
+      channels: null,
+      frameCount: null,
+      edits: []
+    };
+    let creation: Date | null = null;
+
+    if (tkhd) {
+      const v1 = tkhd.data[0] === 1;
+      creation = macDate(v1 ? readUint64BE(tkhd.data, 4) : readUint32BE(tkhd.data, 4));
+      track.id = v1 ? readUint32BE(tkhd.data, 20) : readUint32BE(tkhd.data, 12);
+      track.width = Math.round(readUint32BE(tkhd.data, tkhd.data.length - 8) / 65536) || null;
+      track.height = Math.round(readUint32BE(tkhd.data, tkhd.data.length - 4) / 65536) || null;
+    }
+
+    let mediaTimescale = 0;
+    if (mdhd) {
+      const v1 = mdhd.data[0] === 1;
+      mediaTimescale = v1 ? readUint32BE(mdhd.data, 20) : readUint32BE(mdhd.data, 12);
+      const duration = v1 ? readUint64BE(mdhd.data, 24) : readUint32BE(mdhd.data, 16);
+      if (mediaTimescale > 0) track.duration = duration / mediaTimescale;
+
+      // ISO-639-2/T code packed as three 5-bit letters
+      const packed = readUint16BE(mdhd.data, v1 ? 32 : 20);
+      const language = String.fromCharCode(((packed >> 10) & 31) + 0x60, ((packed >> 5) & 31) + 0x60, (packed & 31) + 0x60);
+      if (/^[a-z]{3}$/.test(language) && language !== 'und') track.language = language;
+    }
+
+    if (hdlr) {
+      track.kind = HANDLER_KINDS[readAscii(hdlr.data, 8, 4)] ?? 'other';
+      track.handlerName = this.readHandlerName(hdlr.data.subarray(24));
+    }
+
+    if (stbl) {
+      const tables = readIsoBoxes(stbl.data);
+      const stsd = tables.find(box => box.type === 'stsd');
+      if (stsd && stsd.data.length >= 16) {
+        track.codec = readAscii(stsd.data, 12, 4);
+        if (track.kind === 'audio' && stsd.data.length >= 44) {
+          track.channels = readUint16BE(stsd.data, 32);
+          track.sampleRate = readUint32BE(stsd.data, 40) / 65536;
+        }
+      }
+      const stts = tables.find(box => box.type === 'stts');
+      if (stts && track.kind === 'video') {
+        track.frameCount = readTimeToSample(stts.data).reduce((sum, entry) => sum + entry.count, 0);
+      }
+    }
+
+    if (elst && movieTimescale > 0 && mediaTimescale > 0) {
+      const v1 = elst.data[0] === 1;
+      const entrySize = v1 ? 20 : 12;
+      const count = readUint32BE(elst.data, 4);
+      for (let i = 0; i < count && 8 + (i + 1) * entrySize <= elst.data.length; i++) {
+        const offset = 8 + i * entrySize;
+        const segmentDuration = v1 ? readUint64BE(elst.data, offset) : readUint32BE(elst.data, offset);
+        const mediaTime = v1
+          ? readInt32BE(elst.data, offset + 8) * 2 ** 32 + readUint32BE(elst.data, offset + 12)
+          : readInt32BE(elst.data, offset + 4);
+        const rate = readInt32BE(elst.data, offset + (v1 ? 16 : 8)) / 65536;
+        track.edits.push({
+          segmentDuration: segmentDuration / movieTimescale,
+          mediaTime: mediaTime < 0 ? null : mediaTime / mediaTimescale,
+          rate
+        });
+      }
+    }
+
+    return { track, creation };
+  }
+
+  // ISO handler names are C strings; QuickTime writes Pascal strings
+  private readHandlerName(data: Uint8Array): string | null {
+    if (data.length === 0) return null;
+    const pascal = data[0] > 0 && data[0] === data.length - 1;
+    const text = readUtf8(pascal ? data.subarray(1) : data).replace(/\0.*$/s, '').trim();
+    return text || null;
+  }
+
+  private readUserData(udta: IsoBox, fields: ContainerField[]): string[] {
+    const software: string[] = [];
+    for (const box of readIsoBoxes(udta.data)) {
+      const label = QUICKTIME_TEXT_TAGS[box.type];
+      if (label && box.data.length > 4) {
+        // QuickTime text atoms: 16-bit length, 16-bit language, then the text
+        const length = readUint16BE(box.data, 0);
+        const value = readUtf8(box.data.subarray(4, 4 + length)).trim();
+        fields.push({ group: 'User data', name: label, value });
+        if (box.type === '©too' || box.type === '©swr' || box.type === '©enc') software.push(value);
+      } else if (box.type === 'meta') {
+        software.push(...this.readItemList(readIsoBoxes(box.data, 4), fields));
+      } else if (box.type === 'XMP_') {
+        software.push(...this.readXmpSoftware(readUtf8(box.data), fields));
+      }
+    }
+    return software;
+  }
+
+  // iTunes-style metadata: each item holds a `data` box with a type and locale before the value
+  private readItemList(metaBoxes: IsoBox[], fields: ContainerField[], keys: string[] = []): string[] {
+    const software: string[] = [];
+    const ilst = metaBoxes.find(box => box.type === 'ilst');
+    if (!ilst) return software;
+
+    for (const item of readIsoBoxes(ilst.data)) {
+      const data = readIsoBoxes(item.data).find(box => box.type === 'data');
+      // Only UTF-8 text values (type indicator 1); artwork and numbers are skipped
+      if (!data || data.data.length < 8 || (readUint32BE(data.data, 0) & 0xffffff) !== 1) continue;
+      const value = readUtf8(data.data.subarray(8)).replace(/\0+$/, '').trim();
+      if (!value) continue;
+
+      // mdta items are numbered by their 1-based index into the keys box
+      const keyIndex = readUint32BE(ilst.data, item.offset + 4);
+      const name = keys.length > 0 ? keys[keyIndex - 1] ?? item.type : QUICKTIME_TEXT_TAGS[item.type] ?? item.type;
+      fields.push({ group: 'Metadata', name, value });
+      if (/©too|©swr|software|encoder/i.test(name)) software.push(value);
+    }
+    return software;
+  }
+
+  private readMetadataKeys(meta: IsoBox, fields: ContainerField[]): string[] {
+    // QuickTime's moov/meta is a plain box, MP4's a full box
+    const boxes = readAscii(meta.data, 4, 4) === 'hdlr' ? readIsoBoxes(meta.data) : readIsoBoxes(meta.data, 4);
+    const keysBox = boxes.find(box => box.type === 'keys');
+    const keys: string[] = [];
+    if (keysBox) {
+      let offset = 8;
+      const count = readUint32BE(keysBox.data, 4);
+      for (let i = 0; i < count && offset + 8 <= keysBox.data.length; i++) {
+        const size = readUint32BE(keysBox.data, offset);
+        if (size < 8) break;
+        keys.push(readUtf8(keysBox.data.subarray(offset + 8, offset + size)));
+        offset += size;
+      }
+    }
+    return this.readItemList(boxes, fields, keys);
+  }
+
+  private readXmpSoftware(xmp: string, fields: ContainerField[]): string[] {
+    const software: string[] = [];
+    const creatorTool = xmp.match(/xmp:CreatorTool(?:="|>)([^"<]+)/);
+    if (creatorTool) {
+      fields.push({ group: 'XMP', name: 'CreatorTool', value: creatorTool[1] });
+      software.push(creatorTool[1]);
+    }
+    for (const agent of xmp.matchAll(/stEvt:softwareAgent(?:="|>)([^"<]+)/g)) {
+      if (!software.includes(agent[1])) {
+        fields.push({ group: 'XMP', name: 'History software', value: agent[1] });
+        software.push(agent[1]);
+      }
+    }
+    return software;
+  }
+
+  private checkDates(result: ContainerResult, checks: MetadataCheck[]) {
+    const { creationTime, modificationTime } = result;
+    if (!creationTime) {
+      checks.push({
+        id: 'no-creation-time',
+        severity: 'low',
+        message: 'No creation time in the container: typical of files written by FFmpeg or online converters'
+      });
+      return;
+    }
+    if (creationTime.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+      checks.push({ id: 'future-date', severity: 'medium', message: `Creation time ${creationTime.toISOString()} lies in the future` });
+    }
+    if (modificationTime) {
+      if (creationTime.getTime() > modificationTime.getTime()) {
+        checks.push({ id: 'date-order', severity: 'high', message: 'Creation time is later than modification time' });
+      } else if (modificationTime.getTime() - creationTime.getTime() > 60 * 1000) {
+        checks.push({ id: 'modified-after-creation', severity: 'low', message: 'Container was modified after it was created' });
+      }
+    }
+  }
+
+  private checkIsoDurations(result: ContainerResult, checks: MetadataCheck[]) {
+    for (const track of result.tracks) {
+      const edits = track.edits.filter(edit => edit.mediaTime !== null);
+      const leadingDelay = track.edits.length > 0 && track.edits[0].mediaTime === null ? track.edits[0].segmentDuration : 0;
+
+      // A single edit trimming encoder priming is normal; more than one splices the timeline
+      if (edits.length > 1) {
+        checks.push({
+          id: 'edit-list-splice',
+          severity: 'high',
+          message: `Track ${track.id} has an edit list with ${edits.length} segments: parts of the media are skipped or repeated without re-encoding`
+        });
+      }
+      if (edits.some(edit => edit.rate !== 1)) {
+        checks.push({ id: 'edit-list-rate', severity: 'high', message: `Track ${track.id} edit list changes playback speed` });
+      }
+      if (leadingDelay > DURATION_TOLERANCE) {
+        checks.push({
+          id: 'edit-list-delay',
+          severity: 'low',
+          message: `Track ${track.id} starts ${formatSeconds(leadingDelay)} late through an empty edit`
+        });
+      }
+
+      if (result.duration !== null && track.duration !== null && edits.length === 0 && durationsDisagree(result.duration, track.duration)) {
+        checks.push({
+          id: 'track-duration',
+          severity: 'medium',
+          message: `Track ${track.id} lasts ${formatSeconds(track.duration)} but the movie header says ${formatSeconds(result.duration)}`
+        });
+      }
+    }
+    this.checkAudioVideoDurations(result.tracks, checks);
+  }
+
+  private checkAudioVideoDurations(tracks: ContainerTrack[], checks: MetadataCheck[]) {
+    const video = tracks.find(track => track.kind === 'video' && track.duration !== null);
+    const audio = tracks.find(track => track.kind === 'audio' && track.duration !== null);
+    if (video && audio && Math.abs(video.duration! - audio.duration!) > 1) {
+      checks.push({
+        id: 'av-duration',
+        severity: 'medium',
+        message: `Video (${formatSeconds(video.duration!)}) and audio (${formatSeconds(audio.duration!)}) durations differ: one of the streams was cut or replaced`
+      });
+    }
+  }
+
+  private checkSoftware(result: ContainerResult, software: string[], checks: MetadataCheck[]) {
+    const unique = [...new Set(software.filter(Boolean))];
+    result.encoder = unique.find(value => EDITOR_PATTERN.test(value) || TRANSCODER_PATTERN.test(value)) ?? unique[0] ?? null;
+
+    const editors = unique.filter(value => EDITOR_PATTERN.test(value));
+    if (editors.length > 0) {
+      checks.push({ id: 'editing-software', severity: 'high', message: `Container written by editing software: ${editors.join(', ')}` });
+    }
+    const transcoders = unique.filter(value => TRANSCODER_PATTERN.test(value) && !EDITOR_PATTERN.test(value));
+    if (transcoders.length > 0) {
+      checks.push({
+        id: 'transcoded',
+        severity: 'medium',
+        message: `Container written by ${transcoders.join(', ')}: re-encoded or re-muxed after recording`
+      });
+    }
+    const synthesizers = unique.filter(value => VOICE_SYNTHESIS_PATTERN.test(value));
+    if (synthesizers.length > 0) {
+      checks.push({ id: 'voice-synthesis', severity: 'high', message: `Tagged by voice synthesis software: ${synthesizers.join(', ')}` });
+    }
+    const recorders = unique.filter(value => BROWSER_RECORDER_PATTERN.test(value));
+    if (recorders.length > 0) {
+      checks.push({ id: 'browser-recording', severity: 'low', message: `Recorded in a web browser (${recorders.join(', ')})` });
+    }
+  }
+
+  private analyzeMatroska(matroska: MatroskaFile): ContainerResult {
+    const fields: ContainerField[] = [{ group: 'File', name: 'DocType', value: matroska.docType }];
+    const checks: MetadataCheck[] = [];
+    const software = [matroska.muxingApp, matroska.writingApp].filter((value): value is string => !!value);
+
+    if (matroska.muxingApp) fields.push({ group: 'Info', name: 'MuxingApp', value: matroska.muxingApp });
+    if (matroska.writingApp) fields.push({ group: 'Info', name: 'WritingApp', value: matroska.writingApp });
+    if (matroska.title) fields.push({ group: 'Info', name: 'Title', value: matroska.title });
+    if (matroska.dateUtc) fields.push({ group: 'Info', name: 'DateUTC', value: matroska.dateUtc.toISOString() });
+    if (matroska.duration !== null) fields.push({ group: 'Info', name: 'Duration', value: formatSeconds(matroska.duration) });
+
+    for (const tag of matroska.tags) {
+      fields.push({ group: tag.trackNumber ? `Track ${tag.trackNumber} tags` : 'Tags', name: tag.name, value: tag.value });
+      if (/^(encoder|encoded_by|writing_app|software)$/i.test(tag.name)) software.push(tag.value);
+    }
+
+    const tracks: ContainerTrack[] = matroska.tracks.map(track => {
+      const blocks = matroska.blocks.get(track.number);
+      const durationTag = matroska.tags.find(tag => tag.trackNumber === track.number && tag.name.toUpperCase() === 'DURATION');
+      let duration: number | null = null;
+      const tagged = durationTag?.value.match(/^(\d+):(\d+):([\d.]+)$/);
+      if (tagged) {
+        duration = Number(tagged[1]) * 3600 + Number(tagged[2]) * 60 + Number(tagged[3]);
+      } else if (blocks && blocks.times.length > 0) {
+        duration = Math.max(...blocks.times) - Math.min(...blocks.times) + (track.defaultDuration ?? 0);
+      }
+
+      return {
+        id: track.number,
+        kind: track.type,
+        codec: track.codec,
+        duration,
+        handlerName: track.name,
+        language: track.language,
+        width: track.width,
+        height: track.height,
+        sampleRate: track.sampleRate,
+        channels: track.channels,
+        frameCount: track.type === 'video' && blocks ? blocks.times.length : null,
+        edits: []
+      };
+    });
+
+    const result: ContainerResult = {
+      format: matroska.docType === 'webm' ? 'webm' : 'matroska',
+      brands: [matroska.docType],
+      encoder: null,
+      creationTime: matroska.dateUtc,
+      modificationTime: null,
+      duration: matroska.duration,
+      tracks,
+      structure: matroska.structure,
+      fields,
+      checks,
+      score: 0
+    };
+
+    if (matroska.truncated) {
+      checks.push({ id: 'truncated-parse', severity: 'low', message: 'Only the first 256 MB of the file were parsed' });
+    }
+    if (matroska.duration === null) {
+      checks.push({
+        id: 'no-duration',
+        severity: 'low',
+        message: 'No segment duration: the file was written live (screen or browser recording) and never finalised'
+      });
+    }
+    if (matroska.dateUtc && matroska.dateUtc.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+      checks.push({ id: 'future-date', severity: 'medium', message: `DateUTC ${matroska.dateUtc.toISOString()} lies in the future` });
+    }
+
+    const backwards = matroska.clusterTimes.filter((time, i) => i > 0 && time < matroska.clusterTimes[i - 1]).length;
+    if (backwards > 0) {
+      checks.push({
+        id: 'cluster-order',
+        severity: 'high',
+        message: `Cluster timestamps jump backwards ${backwards} time(s): separately recorded segments were concatenated`
+      });
+    }
+
+    const video = matroska.tracks.find(track => track.type === 'video');
+    const videoTimes = video ? [...(matroska.blocks.get(video.number)?.times ?? [])].sort((a, b) => a - b) : [];
+    if (videoTimes.length > 2) {
+      const deltas = videoTimes.slice(1).map((time, i) => time - videoTimes[i]);
+      const median = [...deltas].sort((a, b) => a - b)[Math.floor(deltas.length / 2)];
+      const gaps = deltas.filter(delta => delta > 1 && delta > median * 10);
+      if (gaps.length > 0) {
+        checks.push({
+          id: 'timestamp-gap',
+          severity: 'medium',
+          message: `${gaps.length} gap(s) of up to ${formatSeconds(Math.max(...gaps))} in the video timestamps: footage was cut out`
+        });
+      }
+    }
+
+    if (matroska.duration !== null) {
+      for (const track of tracks) {
+        if (track.duration !== null && durationsDisagree(track.duration, matroska.duration)) {
+          checks.push({
+            id: 'track-duration',
+            severity: 'medium',
+            message: `Track ${track.id} lasts ${formatSeconds(track.duration)} but the segment says ${formatSeconds(matroska.duration)}`
+          });
+        }
+      }
+    }
+    this.checkAudioVideoDurations(tracks, checks);
+    this.checkSoftware(result, software, checks);
+    return result;
+  }
+
+  private audioResult(format: ContainerResult['format'], track: Partial<ContainerTrack>, structure: string[], fields: ContainerField[]): ContainerResult {
+    return {
+      format,
+      brands: [],
+      encoder: null,
+      creationTime: null,
+      modificationTime: null,
+      duration: track.duration ?? null,
+      tracks: [
+        {
+          id: 1,
+          kind: 'audio',
+          codec: 'unknown',
+          duration: null,
+          handlerName: null,
+          language: null,
+          width: null,
+          height: null,
+          sampleRate: null,
+          channels: null,
+          frameCount: null,
+          edits: [],
+          ...track
+        }
+      ],
+      structure,
+      fields,
+      checks: [],
+      score: 0
+    };
+  }
+
+  private analyzeWav(wav: WavFile): ContainerResult {
+    const fields: ContainerField[] = [
+      ...wav.info.map(tag => ({ group: 'INFO', ...tag })),
+      ...wav.broadcast.map(tag => ({ group: 'Broadcast WAV', ...tag }))
+    ];
+    const result = this.audioResult(
+      'wav',
+      { codec: wav.codec, duration: wav.duration, sampleRate: wav.sampleRate, channels: wav.channels },
+      wav.chunks.map(chunk => chunk.id.trim()),
+      fields
+    );
+    const { checks } = result;
+    if (wav.bitsPerSample) fields.unshift({ group: 'Format', name: 'Bits per sample', value: String(wav.bitsPerSample) });
+
+    const software = [
+      ...wav.info.filter(tag => tag.name === 'Software').map(tag => tag.value),
+      ...wav.broadcast.filter(tag => tag.name === 'Originator' || tag.name === 'Coding history').map(tag => tag.value)
+    ];
+    if (wav.xmp) software.push(...this.readXmpSoftware(wav.xmp, fields));
+
+    const dates = [...wav.info.filter(tag => tag.name === 'Created'), ...wav.broadcast.filter(tag => tag.name === 'Origination date')];
+    const created = dates.map(tag => new Date(tag.value)).find(date => !Number.isNaN(date.getTime()));
+    if (created) {
+      result.creationTime = created;
+      this.checkDates(result, checks);
+    }
+
+    const dataChunks = wav.chunks.filter(chunk => chunk.id === 'data');
+    if (dataChunks.length === 0) {
+      checks.push({ id: 'no-audio-data', severity: 'high', message: 'No data chunk: the file holds no audio' });
+    } else if (dataChunks.length > 1) {
+      checks.push({
+        id: 'data-duplicate',
+        severity: 'high',
+        message: `${dataChunks.length} data chunks: audio from separate files was joined without rewriting the header`
+      });
+    }
+    if (wav.chunks.findIndex(chunk => chunk.id === 'fmt ') > wav.chunks.findIndex(chunk => chunk.id === 'data')) {
+      checks.push({ id: 'fmt-after-data', severity: 'medium', message: 'Format chunk comes after the audio data: written by a non-standard tool' });
+    }
+    if (wav.riffSize + 8 !== wav.fileSize && wav.riffSize !== 0xffffffff) {
+      checks.push({
+        id: 'riff-size',
+        severity: wav.riffSize + 8 > wav.fileSize ? 'low' : 'medium',
+        message:
+          wav.riffSize + 8 > wav.fileSize
+            ? 'File is shorter than its RIFF header says: truncated or still being recorded'
+            : `${wav.fileSize - wav.riffSize - 8} bytes after the end of the RIFF data: content was appended to the file`
+      });
+    }
+    // Recorders and editors write INFO or bext chunks; bare PCM is what TTS services and audio libraries return
+    if (wav.chunks.every(chunk => chunk.id === 'fmt ' || chunk.id === 'data' || chunk.id === 'fact')) {
+      checks.push({
+        id: 'bare-wav',
+        severity: 'low',
+        message: 'Only format and sample data: written by an audio library or API rather than a recorder or editor'
+      });
+    }
+
+    this.checkSoftware(result, software, checks);
+    return result;
+  }
+
+  private analyzeMp3(mp3: Mp3File): ContainerResult {
+    const fields: ContainerField[] = mp3.tags.map(tag => ({ group: `ID3v${mp3.id3Version}`, ...tag }));
+    if (mp3.encoderTag) fields.push({ group: 'Encoder header', name: 'Encoder', value: mp3.encoderTag });
+    fields.push({ group: 'Stream', name: 'Frames', value: String(mp3.frameCount) });
+
+    const structure = [...(mp3.id3Version ? ['ID3'] : []), ...(mp3.declaredFrames !== null ? ['Xing'] : []), 'frames'];
+    const result = this.audioResult(
+      'mp3',
+      { codec: 'MP3', duration: mp3.duration, sampleRate: mp3.sampleRate, channels: mp3.channels, frameCount: mp3.frameCount },
+      structure,
+      fields
+    );
+    const { checks } = result;
+
+    // TSSE (encoder settings) and TENC (encoded by) name the software; some tools use TXXX
+    const software = mp3.tags.filter(tag => /^(TSSE|TSS|TENC|TEN)$|software|encoder/i.test(tag.name)).map(tag => tag.value);
+    if (mp3.encoderTag) software.push(mp3.encoderTag);
+    const date = mp3.tags.find(tag => /^(TDRC|TDEN|TYER|TYE)$/.test(tag.name));
+    if (date) fields.push({ group: 'Stream', name: 'Tagged date', value: date.value });
+
+    if (mp3.truncated) {
+      checks.push({ id: 'truncated-parse', severity: 'low', message: 'Only the first 128 MB of the file were parsed' });
+    }
+    if (mp3.frameCount === 0) {
+      checks.push({ id: 'no-audio-data', severity: 'high', message: 'No MPEG audio frames found' });
+    }
+    for (const change of mp3.formatChanges) {
+      checks.push({
+        id: 'format-change',
+        severity: 'high',
+        message: `Audio format changes at ${formatSeconds(change.time)} (${change.description}): streams from different sources were joined`
+      });
+    }
+    for (const resync of mp3.resyncs) {
+      checks.push({
+        id: 'frame-resync',
+        severity: 'high',
+        message: `Frame sequence interrupted at ${formatSeconds(resync.time)} by ${resync.description}: separate MP3 files were concatenated`
+      });
+    }
+    if (mp3.declaredFrames !== null && !mp3.truncated && Math.abs(mp3.declaredFrames - mp3.frameCount) > Math.max(mp3.declaredFrames * 0.01, 2)) {
+      checks.push({
+        id: 'frame-count',
+        severity: 'medium',
+        message: `Encoder header declares ${mp3.declaredFrames} frames but the stream has ${mp3.frameCount}: frames were cut or added after encoding`
+      });
+    }
+
+    this.checkSoftware(result, software, checks);
+    return result;
+  }
+
+  private analyzeOgg(ogg: OggFile): ContainerResult {
+    const fields: ContainerField[] = [];
+    const software: string[] = [];
+    const tracks: ContainerTrack[] = ogg.streams.map(stream => {
+      const group = `Stream ${stream.chainIndex + 1}`;
+      if (stream.vendor) {
+        fields.push({ group, name: 'Vendor', value: stream.vendor });
+        software.push(stream.vendor);
+      }
+      for (const comment of stream.comments) {
+        fields.push({ group, ...comment });
+        if (/^(ENCODER|ENCODED_BY|SOFTWARE)$/.test(comment.name)) software.push(comment.value);
+      }
+      return {
+        id: stream.chainIndex + 1,
+        kind: 'audio',
+        codec: stream.codec,
+        duration: stream.duration,
+        handlerName: null,
+        language: null,
+        width: null,
+        height: null,
+        sampleRate: stream.sampleRate,
+        channels: stream.channels,
+        frameCount: null,
+        edits: []
+      };
+    });
+
+    const result: ContainerResult = {
+      format: 'ogg',
+      brands: [...new Set(ogg.streams.map(stream => stream.codec))],
+      encoder: null,
+      creationTime: null,
+      modificationTime: null,
+      duration: tracks.reduce((sum, track) => sum + (track.duration ?? 0), 0) || null,
+      tracks,
+      structure: ogg.structure,
+      fields,
+      checks: [],
+      score: 0
+    };
+    const { checks } = result;
+
+    if (ogg.truncated) {
+      checks.push({ id: 'truncated-parse', severity: 'low', message: 'Only the first 128 MB of the file were parsed' });
+    }
+    if (ogg.streams.length > 1) {
+      checks.push({
+        id: 'chained-streams',
+        severity: 'high',
+        message: `${ogg.streams.length} logical streams chained one after another: separately encoded recordings were joined`
+      });
+    }
+    for (const stream of ogg.streams) {
+      if (stream.missingPages > 0) {
+        checks.push({
+          id: 'page-sequence',
+          severity: 'high',
+          message: `Stream ${stream.chainIndex + 1} skips ${stream.missingPages} page(s) in its sequence numbers: pages were cut out`
+        });
+      }
+      if (stream.granuleBackwards > 0) {
+        checks.push({
+          id: 'granule-order',
+          severity: 'high',
+          message: `Stream ${stream.chainIndex + 1} sample positions jump backwards ${stream.granuleBackwards} time(s): pages were reordered or repeated`
+        });
+      }
+    }
+
+    this.checkSoftware(result, software, checks);
+    return result;
+  }
+}
+
+export default ContainerAnalyzer;
@@ -0,0 +1,231 @@
+import { resizeImageData, toGrayscale } from './imageIO';
+
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CopyMovePair {
+  source: RegionBox;
+  target: RegionBox;
+  shift: { dx: number; dy: number };
+  matchedBlocks: number;
+}
+
+export interface CopyMoveResult {
+  width: number;
+  height: number;
+  pairs: CopyMovePair[];
+  blocksAnalyzed: number;
+  score: number;
+}
+
+interface BlockFeature {
+  x: number;
+  y: number;
+  key: Int16Array;
+  values: Float32Array;
+}
+
+const MAX_DIMENSION = 384;
+const BLOCK_SIZE = 16;
+const STEP = 2;
+// Low-frequency DCT coefficients (u + v <= 3) describe a block while tolerating recompression noise
+const COEFFICIENTS: [number, number][] = [];
+for (let sum = 0; sum <= 3; sum++) {
+  for (let u = 0; u <= sum; u++) COEFFICIENTS.push([u, sum - u]);
+}
+const QUANTIZATION = 6;
+const MATCH_DISTANCE = 4;
+const SORT_WINDOW = 4;
+// Flat regions (sky, walls) match everywhere and say nothing about cloning
+const MIN_BLOCK_STD = 4;
+const MIN_SHIFT = BLOCK_SIZE * 1.5;
+const MIN_REGION_BLOCKS = 24;
+const MAX_PAIRS = 8;
+
+const COSINES = Array.from({ length: 4 }, (_, u) =>
+  Float32Array.from({ length: BLOCK_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * BLOCK_SIZE)))
+);
+
+class CopyMoveDetector {
+  detect(imageData: ImageData): CopyMoveResult {
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(imageData.width, imageData.height));
+    const width = Math.max(Math.round(imageData.width * scale), 1);
+    const height = Math.max(Math.round(imageData.height * scale), 1);
+    const resized = scale < 1 ? resizeImageData(imageData, width, height) : imageData;
+    const gray = toGrayscale(resized);
+
+    const features = this.extractFeatures(gray, width, height);
+    const shifts = this.matchBlocks(features);
+    const pairs = this.buildPairs(shifts, 1 / scale, imageData.width, imageData.height);
+
+    return {
+      width: imageData.width,
+      height: imageData.height,
+      pairs,
+      blocksAnalyzed: features.length,
+      score: Math.min(pairs.length * 40, 100)
+    };
+  }
+
+  private extractFeatures(gray: Float32Array, width: number, height: number): BlockFeature[] {
+    const features: BlockFeature[] = [];
+    const rowDot = new Float32Array(BLOCK_SIZE * 4);
+
+    for (let y = 0; y + BLOCK_SIZE <= height; y += STEP) {
+      for (let x = 0; x + BLOCK_SIZE <= width; x += STEP) {
+        let sum = 0;
+        let sumSq = 0;
+        for (let by = 0; by < BLOCK_SIZE; by++) {
+          const row = (y + by) * width + x;
+          for (let u = 0; u < 4; u++) rowDot[by * 4 + u] = 0;
+          for (let bx = 0; bx < BLOCK_SIZE; bx++) {
+            const value = gray[row + bx];
+            sum += value;
+            sumSq += value * value;
+            for (let u = 0; u < 4; u++) rowDot[by * 4 + u] += COSINES[u][bx] * value;
+          }
+        }
+
+        const count = BLOCK_SIZE * BLOCK_SIZE;
+        const variance = sumSq / count - (sum / count) ** 2;
+        if (variance < MIN_BLOCK_STD * MIN_BLOCK_STD) continue;
+
+        const values = new Float32Array(COEFFICIENTS.length);
+        COEFFICIENTS.forEach(([u, v], index) => {
+          let coefficient = 0;
+          for (let by = 0; by < BLOCK_SIZE; by++) coefficient += COSINES[v][by] * rowDot[by * 4 + u];
+          values[index] = coefficient / BLOCK_SIZE;
+        });
+
+        features.push({ x, y, values, key: Int16Array.from(values, value => Math.round(value / QUANTIZATION)) });
+      }
+    }
+
+    return features;
+  }
+
+  // Lexicographic sort brings near-identical blocks next to each other; each match votes for its shift vector
+  private matchBlocks(features: BlockFeature[]): Map<string, BlockFeature[]> {
+    const sorted = [...features].sort((a, b) => {
+      for (let i = 0; i < a.key.length; i++) {
+        if (a.key[i] !== b.key[i]) return a.key[i] - b.key[i];
+      }
+      return 0;
+    });
+
+    const shifts = new Map<string, BlockFeature[]>();
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < Math.min(i + 1 + SORT_WINDOW, sorted.length); j++) {
+        const a = sorted[i];
+        const b = sorted[j];
+        if (this.featureDistance(a.values, b.values) > MATCH_DISTANCE) continue;
+
+        // Orient every shift the same way so A->B and B->A land in the same bucket
+        const [source, target] = a.y < b.y || (a.y === b.y && a.x < b.x) ? [a, b] : [b, a];
+        const dx = target.x - source.x;
+        const dy = target.y - source.y;
+        if (Math.hypot(dx, dy) < MIN_SHIFT) continue;
+
+        const key = `${dx},${dy}`;
+        const bucket = shifts.get(key);
+        if (bucket) bucket.push(source);
+        else shifts.set(key, [source]);
+      }
+    }
+
+    return shifts;
+  }
+
+  private buildPairs(shifts: Map<string, BlockFeature[]>, upscale: number, width: number, height: number): CopyMovePair[] {
+    const pairs: CopyMovePair[] = [];
+
+    for (const [key, sources] of shifts) {
+      if (sources.length < MIN_REGION_BLOCKS) continue;
+      const [dx, dy] = key.split(',').map(Number);
+
+      // Repetitive texture produces the same shift scattered across the frame; a clone is one connected patch
+      const region = this.largestConnectedRegion(sources);
+      if (region.length < MIN_REGION_BLOCKS) continue;
+
+      const minX = Math.min(...region.map(block => block.x));
+      const minY = Math.min(...region.map(block => block.y));
+      const maxX = Math.max(...region.map(block => block.x)) + BLOCK_SIZE;
+      const maxY = Math.max(...region.map(block => block.y)) + BLOCK_SIZE;
+
+      const toBox = (offsetX: number, offsetY: number): RegionBox => {
+        const x = Math.max(Math.round((minX + offsetX) * upscale), 0);
+        const y = Math.max(Math.round((minY + offsetY) * upscale), 0);
+        return {
+          x,
+          y,
+          width: Math.min(Math.round((maxX - minX) * upscale), width - x),
+          height: Math.min(Math.round((maxY - minY) * upscale), height - y)
+        };
+      };
+
+      pairs.push({
+        source: toBox(0, 0),
+        target: toBox(dx, dy),
+        shift: { dx: Math.round(dx * upscale), dy: Math.round(dy * upscale) },
+        matchedBlocks: region.length
+      });
+    }
+
+    return pairs
+      .sort((a, b) => b.matchedBlocks - a.matchedBlocks)
+      .filter((pair, index, all) => !all.slice(0, index).some(other => this.overlaps(pair, other)))
+      .slice(0, MAX_PAIRS);
+  }
+
+  private largestConnectedRegion(blocks: BlockFeature[]): BlockFeature[] {
+    const byPosition = new Map(blocks.map(block => [`${block.x},${block.y}`, block]));
+    const visited = new Set<string>();
+    let largest: BlockFeature[] = [];
+
+    for (const start of blocks) {
+      const startKey = `${start.x},${start.y}`;
+      if (visited.has(startKey)) continue;
+
+      const region: BlockFeature[] = [];
+      const queue = [start];
+      visited.add(startKey);
+      while (queue.length > 0) {
+        const block = queue.pop() as BlockFeature;
+        region.push(block);
+        for (let ny = -2; ny <= 2; ny++) {
+          for (let nx = -2; nx <= 2; nx++) {
+            const key = `${block.x + nx * STEP},${block.y + ny * STEP}`;
+            const neighbour = byPosition.get(key);
+            if (neighbour && !visited.has(key)) {
+              visited.add(key);
+              queue.push(neighbour);
+            }
+          }
+        }
+      }
+
+      if (region.length > largest.length) largest = region;
+    }
+
+    return largest;
+  }
+
+  // Neighbouring shift vectors of the same clone show up as separate buckets; keep the strongest
+  private overlaps(a: CopyMovePair, b: CopyMovePair): boolean {
+    const intersects = (p: RegionBox, q: RegionBox) =>
+      p.x < q.x + q.width && q.x < p.x + p.width && p.y < q.y + q.height && q.y < p.y + p.height;
+    return intersects(a.source, b.source) && intersects(a.target, b.target);
+  }
+
+  private featureDistance(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return Math.sqrt(sum);
+  }
+}
+
+export default CopyMoveDetector;
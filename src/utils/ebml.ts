@@ -0,0 +1,103 @@
+// Minimal EBML reader (the binary format underneath Matroska and WebM)
+
+export interface EbmlElement {
+  id: number;
+  offset: number;
+  headerSize: number;
+  // -1 for elements written with an unknown size (live recordings)
+  size: number;
+  data: Uint8Array;
+}
+
+export const EBML_MAGIC = 0x1a45dfa3;
+
+export const isEbml = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 && bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3;
+
+// Variable-length integer; element IDs keep their length marker, sizes drop it
+export const readVint = (bytes: Uint8Array, offset: number, keepMarker = false): { value: number; length: number } | null => {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  // A size with every value bit set means "unknown"
+  if (!keepMarker && allOnes) return { value: -1, length };
+  return { value, length };
+};
+
+// Reads the elements directly inside [start, end). An unknown-size element runs to
+// `end` unless `isSibling` recognises the ID of an element that follows it.
+export const readEbmlElements = (
+  bytes: Uint8Array,
+  start = 0,
+  end = bytes.length,
+  isSibling: (id: number) => boolean = () => false
+): EbmlElement[] => {
+  const elements: EbmlElement[] = [];
+
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    if (!id) break;
+    const size = readVint(bytes, offset + id.length);
+    if (!size) break;
+
+    const headerSize = id.length + size.length;
+    const dataStart = offset + headerSize;
+    let dataEnd = size.value < 0 ? end : Math.min(dataStart + size.value, end);
+
+    if (size.value < 0) {
+      // Scan forward for the next sibling to find where this element stops
+      let scan = dataStart;
+      while (scan < end) {
+        const childId = readVint(bytes, scan, true);
+        if (!childId) break;
+        if (isSibling(childId.value)) {
+          dataEnd = scan;
+          break;
+        }
+        const childSize = readVint(bytes, scan + childId.length);
+        if (!childSize || childSize.value < 0) break;
+        scan += childId.length + childSize.length + childSize.value;
+      }
+    }
+
+    elements.push({ id: id.value, offset, headerSize, size: size.value, data: bytes.subarray(dataStart, dataEnd) });
+    offset = dataEnd;
+  }
+
+  return elements;
+};
+
+export const findEbmlElement = (elements: EbmlElement[], id: number): EbmlElement | undefined =>
+  elements.find(element => element.id === id);
+
+export const readEbmlUint = (data: Uint8Array): number => {
+  let value = 0;
+  for (let i = 0; i < data.length; i++) value = value * 256 + data[i];
+  return value;
+};
+
+export const readEbmlInt = (data: Uint8Array): number => {
+  const unsigned = readEbmlUint(data);
+  return data.length > 0 && data[0] & 0x80 ? unsigned - 2 ** (data.length * 8) : unsigned;
+};
+
+export const readEbmlFloat = (data: Uint8Array): number => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length === 4) return view.getFloat32(0);
+  if (data.length === 8) return view.getFloat64(0);
+  return 0;
+};
+
+export const readEbmlString = (data: Uint8Array): string =>
+  new TextDecoder('utf-8').decode(data).replace(/\0+$/, '');
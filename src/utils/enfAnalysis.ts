@@ -0,0 +1,422 @@
+import { decodeAudioBlob, DecodedAudio } from './audioIO';
+import { fft, hannWindow } from './fft';
+
+// Electrical Network Frequency: mains hum picked up by a recorder follows the grid frequency,
+// which wanders around 50 or 60 Hz in the same way for every recording on the same grid.
+// Matching the extracted track against logged grid frequency dates the recording.
+
+export interface EnfHarmonic {
+  // Nominal frequency of the harmonic (Hz)
+  frequency: number;
+  // Median peak-to-background ratio over the recording (dB)
+  snr: number;
+  used: boolean;
+}
+
+export interface EnfResult {
+  detected: boolean;
+  nominal: 50 | 60 | null;
+  harmonics: EnfHarmonic[];
+  // Grid frequency estimate once per `step` seconds; null where the hum was too weak
+  frequencies: (number | null)[];
+  // Recording time (seconds) of the first estimate
+  startOffset: number;
+  step: number;
+  coverage: number;
+  duration: number;
+  findings: string[];
+}
+
+export interface EnfReference {
+  name: string;
+  start: Date;
+  // One value per second from `start`; NaN inside gaps in the log
+  frequencies: Float64Array;
+}
+
+export interface EnfMatchPoint {
+  time: number;
+  recording: number | null;
+  reference: number | null;
+}
+
+export interface EnfMatch {
+  reference: string;
+  // Grid time at which the recording starts
+  start: Date;
+  correlation: number;
+  // Best correlation at any offset that does not overlap the best match
+  runnerUp: number;
+  // Root-mean-square difference to the reference (Hz)
+  rmse: number;
+  overlap: number;
+  strength: 'strong' | 'weak' | 'none';
+  points: EnfMatchPoint[];
+}
+
+// Decoding at 8 kHz lets the browser do the first anti-alias filtering; a FIR low-pass then
+// takes the rate down to 1 kHz, which still holds the fourth harmonic of 60 Hz
+const ENF_DECODE_RATE = 8000;
+const DECIMATION = 8;
+const LOWPASS_CUTOFF = 400;
+const LOWPASS_TAPS = 129;
+
+// 8 s windows with 4x zero padding resolve the hum to a few mHz after peak interpolation
+const WINDOW_SECONDS = 8;
+const STEP_SECONDS = 1;
+const FFT_SIZE = 32768;
+const HARMONICS = [1, 2, 3, 4];
+// Grids stay well within half a hertz of nominal
+const SEARCH_HZ = 0.5;
+const BACKGROUND_HZ = 3;
+// Noise alone puts the strongest bin of the search band about 7 dB over the background
+const MIN_HARMONIC_SNR = 10;
+const MIN_FRAME_SNR = 3;
+const MAX_HARMONIC_DISAGREEMENT = 0.05;
+const MIN_DURATION_SECONDS = 20;
+const MIN_COVERAGE = 0.5;
+
+// Reference log gaps longer than this are not interpolated across
+const MAX_REFERENCE_GAP = 5;
+const MIN_MATCH_SECONDS = 60;
+const MAX_CHART_POINTS = 600;
+// The slow wander of a grid is similar from hour to hour; its faster fluctuations identify the moment
+const DETREND_RADIUS = 60;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : NaN;
+};
+
+// Centred moving average, skipping NaN gaps
+const movingAverage = (values: ArrayLike<number>, radius: number): Float64Array => {
+  const sums = new Float64Array(values.length + 1);
+  const counts = new Float64Array(values.length + 1);
+  for (let i = 0; i < values.length; i++) {
+    const valid = !Number.isNaN(values[i]);
+    sums[i + 1] = sums[i] + (valid ? values[i] : 0);
+    counts[i + 1] = counts[i] + (valid ? 1 : 0);
+  }
+  const result = new Float64Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    const low = Math.max(i - radius, 0);
+    const high = Math.min(i + radius + 1, values.length);
+    result[i] = Number.isNaN(values[i]) ? NaN : (sums[high] - sums[low]) / (counts[high] - counts[low]);
+  }
+  return result;
+};
+
+const detrend = (values: ArrayLike<number>, radius: number): Float64Array => {
+  const trend = movingAverage(values, radius);
+  return trend.map((value, i) => values[i] - value);
+};
+
+class EnfAnalyzer {
+  async analyze(file: Blob): Promise<EnfResult> {
+    return this.extract(await decodeAudioBlob(file, ENF_DECODE_RATE));
+  }
+
+  extract(audio: DecodedAudio): EnfResult {
+    const { samples, rate } = this.decimate(audio);
+    const windowLength = WINDOW_SECONDS * rate;
+    const hop = STEP_SECONDS * rate;
+    const frameCount = samples.length >= windowLength ? Math.floor((samples.length - windowLength) / hop) + 1 : 0;
+    const binHz = rate / FFT_SIZE;
+
+    const result: EnfResult = {
+      detected: false,
+      nominal: null,
+      harmonics: [],
+      frequencies: [],
+      startOffset: WINDOW_SECONDS / 2,
+      step: STEP_SECONDS,
+      coverage: 0,
+      duration: audio.duration,
+      findings: []
+    };
+    if (audio.duration < MIN_DURATION_SECONDS || frameCount === 0) {
+      result.findings.push(`Recording is shorter than ${MIN_DURATION_SECONDS}s: too short to follow the mains frequency`);
+      return result;
+    }
+
+    // Peak frequency and SNR of every candidate harmonic in every window
+    const candidates = [50, 60].flatMap(nominal => HARMONICS.map(harmonic => ({ nominal, harmonic })));
+    const peaks = candidates.map(() => ({ frequency: new Float64Array(frameCount), snr: new Float64Array(frameCount) }));
+    const window = hannWindow(windowLength);
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    for (let t = 0; t < frameCount; t++) {
+      re.fill(0);
+      im.fill(0);
+      for (let i = 0; i < windowLength; i++) re[i] = samples[t * hop + i] * window[i];
+      fft(re, im);
+      candidates.forEach(({ nominal, harmonic }, c) => {
+        const peak = this.findPeak(re, im, nominal * harmonic, harmonic, binHz);
+        peaks[c].frequency[t] = peak.frequency / harmonic;
+        peaks[c].snr[t] = peak.snr;
+      });
+    }
+
+    // The grid is whichever nominal frequency carries more hum over all its harmonics
+    const medianSnr = peaks.map(peak => median(Array.from(peak.snr)));
+    const strength = (nominal: number) =>
+      candidates.reduce((sum, candidate, c) => sum + (candidate.nominal === nominal ? Math.max(medianSnr[c] - MIN_HARMONIC_SNR, 0) : 0), 0);
+    const nominal = strength(50) >= strength(60) ? 50 : 60;
+    result.harmonics = candidates
+      .map((candidate, c) => ({ candidate, c }))
+      .filter(({ candidate }) => candidate.nominal === nominal)
+      .map(({ candidate, c }) => ({ frequency: nominal * candidate.harmonic, snr: medianSnr[c], used: medianSnr[c] >= MIN_HARMONIC_SNR }));
+
+    const used = candidates
+      .map((candidate, c) => ({ candidate, c }))
+      .filter(({ candidate, c }) => candidate.nominal === nominal && medianSnr[c] >= MIN_HARMONIC_SNR)
+      .sort((a, b) => medianSnr[b.c] - medianSnr[a.c]);
+    if (used.length === 0) {
+      result.findings.push('No mains hum found at 50 or 60 Hz or their harmonics: the recorder was battery powered or filtered it out');
+      return result;
+    }
+
+    // Harmonic h measures the fundamental h times more finely, so estimates are weighted by
+    // SNR·h² (inverse variance); the strongest audible harmonic anchors each window and
+    // harmonics that disagree with it are ignored
+    for (let t = 0; t < frameCount; t++) {
+      const audible = used.filter(({ c }) => peaks[c].snr[t] >= MIN_FRAME_SNR);
+      if (audible.length === 0) {
+        result.frequencies.push(null);
+        continue;
+      }
+      const anchor = peaks[audible[0].c].frequency[t];
+      let sum = 0;
+      let weight = 0;
+      for (const { candidate, c } of audible) {
+        const frequency = peaks[c].frequency[t];
+        if (Math.abs(frequency - anchor) > MAX_HARMONIC_DISAGREEMENT) continue;
+        const w = 10 ** (medianSnr[c] / 10) * candidate.harmonic ** 2;
+        sum += frequency * w;
+        weight += w;
+      }
+      result.frequencies.push(sum / weight);
+    }
+
+    const valid = result.frequencies.filter((value): value is number => value !== null);
+    result.coverage = valid.length / frameCount;
+    result.nominal = nominal;
+    result.detected = result.coverage >= MIN_COVERAGE;
+    const harmonicList = used.map(({ candidate }) => `${nominal * candidate.harmonic} Hz`).join(', ');
+    if (result.detected) {
+      const spread = Math.max(...valid) - Math.min(...valid);
+      result.findings.push(
+        `Mains hum of a ${nominal} Hz grid found at ${harmonicList}, traceable for ${(result.coverage * 100).toFixed(0)}% of the recording ` +
+        `(range ${(spread * 1000).toFixed(0)} mHz)`
+      );
+    } else {
+      result.findings.push(`Weak ${nominal} Hz hum at ${harmonicList}: only ${(result.coverage * 100).toFixed(0)}% of the recording can be tracked`);
+    }
+    return result;
+  }
+
+  // Parses a grid frequency log: one row per sample with a timestamp (ISO date, separate date
+  // and time columns, or Unix seconds/milliseconds) and a frequency in Hz. Timestamps without a
+  // zone are taken as UTC.
+  parseReference(text: string, name: string): EnfReference {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      (lines[0]?.split(candidate).length ?? 0) > (lines[0]?.split(best).length ?? 0) ? candidate : best
+    );
+
+    const samples: { time: number; frequency: number }[] = [];
+    let layout: { time: number[]; frequency: number } | null = null;
+    for (const line of lines) {
+      // Semicolon- and tab-separated logs usually come with decimal commas
+      const cells = line
+        .split(delimiter)
+        .map(cell => cell.trim().replace(/^"|"$/g, ''))
+        .map(cell => (delimiter !== ',' && /^-?\d+,\d+$/.test(cell) ? cell.replace(',', '.') : cell));
+      layout ??= this.detectColumns(cells);
+      if (!layout) continue;
+      const time = this.parseTimestamp(layout.time.map(index => cells[index]).join(' '));
+      const frequency = Number(cells[layout.frequency]);
+      if (time !== null && frequency > 40 && frequency < 70) samples.push({ time, frequency });
+    }
+    if (samples.length < 2) throw new Error(`${name}: no timestamp and frequency columns found`);
+
+    samples.sort((a, b) => a.time - b.time);
+    const start = Math.ceil(samples[0].time);
+    const length = Math.floor(samples[samples.length - 1].time) - start + 1;
+    const frequencies = new Float64Array(length).fill(NaN);
+    let j = 0;
+    for (let i = 0; i < length; i++) {
+      const time = start + i;
+      while (j + 1 < samples.length && samples[j + 1].time <= time) j++;
+      const before = samples[j];
+      const after = samples[Math.min(j + 1, samples.length - 1)];
+      if (before.time === time) {
+        frequencies[i] = before.frequency;
+      } else if (after.time > before.time && after.time - before.time <= MAX_REFERENCE_GAP) {
+        frequencies[i] = before.frequency + ((after.frequency - before.frequency) * (time - before.time)) / (after.time - before.time);
+      }
+    }
+    return { name, start: new Date(start * 1000), frequencies };
+  }
+
+  // Slides the recording's track along the reference and keeps the offset with the highest
+  // correlation of the detrended tracks. The level is left out because a recorder's clock
+  // error shifts every frequency it measures.
+  match(enf: EnfResult, reference: EnfReference): EnfMatch {
+    const track = enf.frequencies;
+    const validTrack = track.filter(value => value !== null).length;
+    if (!enf.nominal || validTrack * enf.step < MIN_MATCH_SECONDS) {
+      throw new Error(`At least ${MIN_MATCH_SECONDS}s of mains hum are needed for a timestamp match`);
+    }
+    const referenceValues = Array.from(reference.frequencies).filter(value => !Number.isNaN(value));
+    const referenceNominal = Math.abs(median(referenceValues) - 50) < Math.abs(median(referenceValues) - 60) ? 50 : 60;
+    if (referenceNominal !== enf.nominal) {
+      throw new Error(`${reference.name} logs a ${referenceNominal} Hz grid but the recording carries ${enf.nominal} Hz hum`);
+    }
+    if (reference.frequencies.length < track.length) throw new Error(`${reference.name} is shorter than the recording`);
+
+    const detrendedTrack = detrend(track.map(value => value ?? NaN), DETREND_RADIUS / enf.step);
+    const indices = track.map((value, i) => (value === null ? -1 : i)).filter(i => i >= 0);
+    const values = indices.map(i => detrendedTrack[i]);
+    // Each track value averages a whole analysis window, so the reference is averaged the same way
+    const ref = detrend(movingAverage(reference.frequencies, WINDOW_SECONDS / 2), DETREND_RADIUS);
+    const offsets = ref.length - track.length + 1;
+    const correlations = new Float64Array(offsets).fill(-1);
+    const minOverlap = Math.max(indices.length * 0.8, MIN_MATCH_SECONDS / enf.step);
+
+    for (let offset = 0; offset < offsets; offset++) {
+      let n = 0;
+      let sx = 0;
+      let sy = 0;
+      let sxx = 0;
+      let syy = 0;
+      let sxy = 0;
+      for (let k = 0; k < indices.length; k++) {
+        const y = ref[offset + indices[k]];
+        if (Number.isNaN(y)) continue;
+        const x = values[k];
+        n++;
+        sx += x;
+        sy += y;
+        sxx += x * x;
+        syy += y * y;
+        sxy += x * y;
+      }
+      if (n < minOverlap) continue;
+      const covariance = sxy - (sx * sy) / n;
+      const variance = (sxx - (sx * sx) / n) * (syy - (sy * sy) / n);
+      if (variance > 0) correlations[offset] = covariance / Math.sqrt(variance);
+    }
+
+    let best = 0;
+    for (let offset = 1; offset < offsets; offset++) if (correlations[offset] > correlations[best]) best = offset;
+    let runnerUp = -1;
+    for (let offset = 0; offset < offsets; offset++) {
+      if (Math.abs(offset - best) >= track.length) runnerUp = Math.max(runnerUp, correlations[offset]);
+    }
+
+    let squared = 0;
+    let overlap = 0;
+    const points: EnfMatchPoint[] = [];
+    const chartStep = Math.max(1, Math.ceil(track.length / MAX_CHART_POINTS));
+    track.forEach((value, i) => {
+      const y = reference.frequencies[best + i];
+      if (value !== null && !Number.isNaN(y)) {
+        squared += (value - y) ** 2;
+        overlap++;
+      }
+      if (i % chartStep === 0) {
+        points.push({ time: enf.startOffset + i * enf.step, recording: value, reference: Number.isNaN(y) ? null : y });
+      }
+    });
+
+    const correlation = correlations[best];
+    // A match only counts when it clearly beats every other placement of the recording
+    const strength =
+      correlation >= 0.8 && correlation - runnerUp >= 0.15 ? 'strong' : correlation >= 0.5 && correlation > runnerUp ? 'weak' : 'none';
+    return {
+      reference: reference.name,
+      start: new Date(reference.start.getTime() + (best - enf.startOffset) * 1000),
+      correlation,
+      runnerUp,
+      rmse: overlap > 0 ? Math.sqrt(squared / overlap) : NaN,
+      overlap: overlap * enf.step,
+      strength,
+      points
+    };
+  }
+
+  // Windowed-sinc low-pass, evaluated only at the kept samples
+  private decimate(audio: DecodedAudio): { samples: Float32Array; rate: number } {
+    const factor = Math.max(1, Math.round(audio.sampleRate / (ENF_DECODE_RATE / DECIMATION)));
+    const cutoff = LOWPASS_CUTOFF / audio.sampleRate;
+    const taps = new Float64Array(LOWPASS_TAPS);
+    const middle = (LOWPASS_TAPS - 1) / 2;
+    let gain = 0;
+    for (let i = 0; i < LOWPASS_TAPS; i++) {
+      const x = i - middle;
+      const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      taps[i] = sinc * (0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (LOWPASS_TAPS - 1)));
+      gain += taps[i];
+    }
+
+    const input = audio.samples;
+    const samples = new Float32Array(Math.floor(input.length / factor));
+    for (let o = 0; o < samples.length; o++) {
+      const centre = o * factor;
+      let sum = 0;
+      for (let i = 0; i < LOWPASS_TAPS; i++) sum += (input[centre + i - middle] ?? 0) * taps[i];
+      samples[o] = sum / gain;
+    }
+    return { samples, rate: audio.sampleRate / factor };
+  }
+
+  // Strongest bin within the search band around a harmonic, refined by parabolic
+  // interpolation of the log magnitude, against the median level of the surrounding band
+  private findPeak(re: Float64Array, im: Float64Array, centre: number, harmonic: number, binHz: number): { frequency: number; snr: number } {
+    const power = (k: number) => re[k] * re[k] + im[k] * im[k] + 1e-20;
+    const low = Math.floor((centre - SEARCH_HZ * harmonic) / binHz);
+    const high = Math.ceil((centre + SEARCH_HZ * harmonic) / binHz);
+    let peak = low;
+    for (let k = low + 1; k <= high; k++) if (power(k) > power(peak)) peak = k;
+
+    const background: number[] = [];
+    const backgroundLow = Math.floor((centre - BACKGROUND_HZ * harmonic) / binHz);
+    const backgroundHigh = Math.ceil((centre + BACKGROUND_HZ * harmonic) / binHz);
+    for (let k = backgroundLow; k <= backgroundHigh; k++) background.push(power(k));
+
+    const a = Math.log(power(peak - 1));
+    const b = Math.log(power(peak));
+    const c = Math.log(power(peak + 1));
+    const denominator = a - 2 * b + c;
+    const shift = denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+    return { frequency: (peak + shift) * binHz, snr: 10 * Math.log10(power(peak) / median(background)) };
+  }
+
+  private detectColumns(cells: string[]): { time: number[]; frequency: number } | null {
+    const frequency = cells.findIndex(cell => cell !== '' && Number(cell) > 40 && Number(cell) < 70);
+    if (frequency < 0) return null;
+    for (let i = 0; i < cells.length; i++) {
+      if (i === frequency) continue;
+      if (this.parseTimestamp(cells[i]) !== null && !/^\d{4}-\d{2}-\d{2}$/.test(cells[i])) return { time: [i], frequency };
+      // Date and time in neighbouring columns
+      if (i + 1 < cells.length && i + 1 !== frequency && this.parseTimestamp(`${cells[i]} ${cells[i + 1]}`) !== null) {
+        return { time: [i, i + 1], frequency };
+      }
+    }
+    return null;
+  }
+
+  // Seconds since the Unix epoch
+  private parseTimestamp(value: string): number | null {
+    if (/^\d{9,10}(\.\d+)?$/.test(value)) return Number(value);
+    if (/^\d{12,13}$/.test(value)) return Number(value) / 1000;
+    const match = value.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2}|UTC)?$/i);
+    if (!match) return null;
+    const zone = !match[3] || /^utc$/i.test(match[3]) ? 'Z' : match[3];
+    const time = Date.parse(`${match[1]}T${match[2].replace(/^(\d):/, '0$1:')}${zone}`);
+    return Number.isNaN(time) ? null : time / 1000;
+  }
+}
+
+export default EnfAnalyzer;
@@ -0,0 +1,390 @@
+import { RawImage } from '@huggingface/transformers';
+import AIModelManager from './aiModels';
+import { cropImageData, extractRotatedPatch, imageDataToUrl, resizeImageData, toGrayscale } from './imageIO';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceLandmarks {
+  leftEye?: Point;
+  rightEye?: Point;
+  nose?: Point;
+  mouth?: Point;
+}
+
+export interface DetectedFace {
+  box: FaceBox;
+  landmarks: FaceLandmarks;
+  confidence: number;
+  roll: number;
+  alignedFace: string;
+  // log2 of face / surrounding ratios; 0 means the face matches its surroundings
+  noiseRatio: number;
+  sharpnessRatio: number;
+  manipulationScore: number;
+  findings: string[];
+}
+
+export interface FaceAnalysisResult {
+  width: number;
+  height: number;
+  modelAvailable: boolean;
+  faces: DetectedFace[];
+  score: number;
+}
+
+interface FaceCandidate {
+  box: FaceBox;
+  landmarks: FaceLandmarks;
+  confidence: number;
+}
+
+type SegmentMasks = Map<string, Uint8ClampedArray | Uint8Array>;
+
+// CelebAMask-HQ labels produced by the face-parsing model
+const FACE_LABELS = ['skin', 'nose', 'eye_g', 'l_eye', 'r_eye', 'l_brow', 'r_brow', 'mouth', 'u_lip', 'l_lip'];
+const EYE_LABELS = ['l_eye', 'r_eye'];
+const MOUTH_LABELS = ['mouth', 'u_lip', 'l_lip'];
+
+const DETECTION_SIZE = 1024;
+const REFINE_SIZE = 512;
+const MAX_REFINED_FACES = 6;
+const MIN_FACE_AREA = 0.0008;
+const ALIGNED_SIZE = 224;
+
+// Beyond these log2 ratios (roughly 2.3x and 2.8x) a face no longer matches the noise
+// and sharpness of the pixels around it
+const NOISE_TOLERANCE = 1.2;
+const SHARPNESS_TOLERANCE = 1.5;
+const GROUP_OUTLIER_Z = 3;
+
+// Upright crop centred between the eyes and mouth; falls back to the bounding box when an eye is missing
+export const alignFace = (
+  imageData: ImageData,
+  box: FaceBox,
+  landmarks: FaceLandmarks,
+  size = ALIGNED_SIZE
+): { patch: ImageData; roll: number } => {
+  const { leftEye, rightEye, mouth } = landmarks;
+  const roll = leftEye && rightEye ? Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x) : 0;
+  const eyeCentre = leftEye && rightEye ? { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 } : null;
+  const centre = eyeCentre && mouth
+    ? { x: (eyeCentre.x + mouth.x) / 2, y: (eyeCentre.y + mouth.y) / 2 }
+    : { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const patchSize = leftEye && rightEye
+    ? Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y) * 2.4
+    : Math.max(box.width, box.height) * 1.2;
+  return { patch: extractRotatedPatch(imageData, centre.x, centre.y, patchSize, roll, size), roll };
+};
+
+class FaceAnalyzer {
+  private modelManager = AIModelManager.getInstance();
+
+  async analyze(imageData: ImageData): Promise<FaceAnalysisResult> {
+    let candidates: FaceCandidate[];
+    try {
+      candidates = await this.detect(imageData);
+    } catch (error) {
+      console.warn('Face parsing model unavailable:', error);
+      return { width: imageData.width, height: imageData.height, modelAvailable: false, faces: [], score: 0 };
+    }
+
+    const gray = toGrayscale(imageData);
+    const faces = candidates.map(candidate => this.scoreFace(imageData, gray, candidate));
+    this.compareAcrossFaces(faces);
+
+    return {
+      width: imageData.width,
+      height: imageData.height,
+      modelAvailable: true,
+      faces,
+      score: faces.reduce((max, face) => Math.max(max, face.manipulationScore), 0)
+    };
+  }
+
+  private async detect(imageData: ImageData): Promise<FaceCandidate[]> {
+    const scale = Math.min(1, DETECTION_SIZE / Math.max(imageData.width, imageData.height));
+    const small = scale < 1
+      ? resizeImageData(imageData, Math.round(imageData.width * scale), Math.round(imageData.height * scale))
+      : imageData;
+
+    const masks = await this.segment(small);
+    const candidates = this.findFaces(masks, small.width, small.height)
+      .map(candidate => this.transform(candidate, 1 / scale, 0, 0))
+      .sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+
+    // Faces in group photos cover a few hundred pixels of the full-frame pass;
+    // re-parse them from a native-resolution crop for usable landmarks
+    const refined: FaceCandidate[] = [];
+    for (const [index, candidate] of candidates.entries()) {
+      const isSmall = Math.max(candidate.box.width, candidate.box.height) < Math.max(imageData.width, imageData.height) * 0.3;
+      refined.push(index < MAX_REFINED_FACES && isSmall ? await this.refine(imageData, candidate) : candidate);
+    }
+    return refined;
+  }
+
+  private async refine(imageData: ImageData, candidate: FaceCandidate): Promise<FaceCandidate> {
+    const { box } = candidate;
+    const side = Math.max(box.width, box.height) * 1.6;
+    const left = Math.max(box.x + box.width / 2 - side / 2, 0);
+    const top = Math.max(box.y + box.height / 2 - side / 2, 0);
+    const crop = cropImageData(imageData, left, top, side, side);
+
+    const scale = Math.min(1, REFINE_SIZE / Math.max(crop.width, crop.height));
+    const input = scale < 1 ? resizeImageData(crop, Math.round(crop.width * scale), Math.round(crop.height * scale)) : crop;
+    const faces = this.findFaces(await this.segment(input), input.width, input.height);
+
+    // Keep the face nearest the crop centre; neighbours may intrude at the edges
+    const centre = { x: input.width / 2, y: input.height / 2 };
+    const best = faces.sort((a, b) => this.distanceToCentre(a.box, centre) - this.distanceToCentre(b.box, centre))[0];
+    return best && best.confidence >= candidate.confidence
+      ? this.transform(best, 1 / scale, Math.floor(left), Math.floor(top))
+      : candidate;
+  }
+
+  private async segment(imageData: ImageData): Promise<SegmentMasks> {
+    const segmenter = await this.modelManager.load('face-parsing');
+    const output: { label: string | null; mask: RawImage }[] = await segmenter(
+      new RawImage(imageData.data, imageData.width, imageData.height, 4)
+    );
+
+    const masks: SegmentMasks = new Map();
+    for (const segment of output) {
+      if (segment.label) masks.set(segment.label, segment.mask.data);
+    }
+    return masks;
+  }
+
+  // Connected regions of facial classes, kept when they contain at least two of eyes, nose and mouth
+  private findFaces(masks: SegmentMasks, width: number, height: number): FaceCandidate[] {
+    const faceMask = new Uint8Array(width * height);
+    for (const label of FACE_LABELS) {
+      const mask = masks.get(label);
+      if (!mask) continue;
+      for (let i = 0; i < faceMask.length; i++) if (mask[i]) faceMask[i] = 1;
+    }
+
+    const components = new Int32Array(width * height);
+    const minArea = Math.max(150, width * height * MIN_FACE_AREA);
+    const candidates: FaceCandidate[] = [];
+    let nextLabel = 0;
+
+    for (let start = 0; start < faceMask.length; start++) {
+      if (!faceMask[start] || components[start]) continue;
+
+      const label = ++nextLabel;
+      const stack = [start];
+      components[start] = label;
+      let area = 0;
+      let minX = width;
+      let minY = height;
+      let maxX = 0;
+      let maxY = 0;
+
+      while (stack.length > 0) {
+        const index = stack.pop() as number;
+        const x = index % width;
+        const y = (index - x) / width;
+        area++;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+
+        const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+        for (const neighbour of neighbours) {
+          if (neighbour >= 0 && neighbour < faceMask.length && faceMask[neighbour] && !components[neighbour]) {
+            components[neighbour] = label;
+            stack.push(neighbour);
+          }
+        }
+      }
+
+      if (area < minArea) continue;
+
+      const centroid = (labels: string[]): Point | undefined => {
+        let sumX = 0;
+        let sumY = 0;
+        let count = 0;
+        for (const partLabel of labels) {
+          const mask = masks.get(partLabel);
+          if (!mask) continue;
+          for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+              const index = y * width + x;
+              if (mask[index] && components[index] === label) {
+                sumX += x;
+                sumY += y;
+                count++;
+              }
+            }
+          }
+        }
+        return count > 0 ? { x: sumX / count, y: sumY / count } : undefined;
+      };
+
+      // The model's l_eye/r_eye are the subject's eyes; order them by image position instead
+      const eyes = EYE_LABELS.map(eye => centroid([eye])).filter((point): point is Point => !!point).sort((a, b) => a.x - b.x);
+      const landmarks: FaceLandmarks = {
+        leftEye: eyes.length === 2 ? eyes[0] : undefined,
+        rightEye: eyes.length === 2 ? eyes[1] : undefined,
+        nose: centroid(['nose']),
+        mouth: centroid(MOUTH_LABELS)
+      };
+      const parts = [eyes.length > 0, !!landmarks.nose, !!landmarks.mouth].filter(Boolean).length;
+      if (parts < 2) continue;
+
+      candidates.push({
+        box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+        landmarks,
+        confidence: (eyes.length + (landmarks.nose ? 1 : 0) + (landmarks.mouth ? 1 : 0)) / 4
+      });
+    }
+
+    return candidates;
+  }
+
+  private scoreFace(imageData: ImageData, gray: Float32Array, candidate: FaceCandidate): DetectedFace {
+    const { box, landmarks } = candidate;
+    const { patch: aligned, roll } = alignFace(imageData, box, landmarks);
+
+    // Compare the face interior against a ring of surrounding pixels
+    const inner = this.scaleBox(box, 0.8, imageData.width, imageData.height);
+    const outer = this.scaleBox(box, 1.8, imageData.width, imageData.height);
+    const exclude = this.scaleBox(box, 1.1, imageData.width, imageData.height);
+    const faceStats = this.regionStatistics(gray, imageData.width, inner);
+    const ringStats = this.regionStatistics(gray, imageData.width, outer, exclude);
+
+    const noiseRatio = Math.log2((faceStats.noise + 0.1) / (ringStats.noise + 0.1));
+    const sharpnessRatio = Math.log2((faceStats.sharpness + 0.1) / (ringStats.sharpness + 0.1));
+
+    const findings: string[] = [];
+    const noiseExcess = Math.max(Math.abs(noiseRatio) - NOISE_TOLERANCE, 0);
+    const sharpnessExcess = Math.max(Math.abs(sharpnessRatio) - SHARPNESS_TOLERANCE, 0);
+    if (noiseExcess > 0) {
+      findings.push(`Noise level ${noiseRatio > 0 ? 'higher' : 'lower'} than the surrounding area (${(2 ** Math.abs(noiseRatio)).toFixed(1)}x)`);
+    }
+    if (sharpnessExcess > 0) {
+      findings.push(`Face is ${sharpnessRatio > 0 ? 'sharper' : 'blurrier'} than its surroundings (${(2 ** Math.abs(sharpnessRatio)).toFixed(1)}x)`);
+    }
+
+    return {
+      box: {
+        x: Math.round(box.x),
+        y: Math.round(box.y),
+        width: Math.round(box.width),
+        height: Math.round(box.height)
+      },
+      landmarks,
+      confidence: candidate.confidence,
+      roll: (roll * 180) / Math.PI,
+      alignedFace: imageDataToUrl(aligned),
+      noiseRatio,
+      sharpnessRatio,
+      manipulationScore: Math.min(noiseExcess * 35 + sharpnessExcess * 25, 100),
+      findings
+    };
+  }
+
+  // In a group photo the genuine faces share one camera pipeline; a swapped face stands out from them
+  private compareAcrossFaces(faces: DetectedFace[]) {
+    if (faces.length < 3) return;
+
+    const features: { name: string; value: (face: DetectedFace) => number }[] = [
+      { name: 'noise level', value: face => face.noiseRatio },
+      { name: 'sharpness', value: face => face.sharpnessRatio }
+    ];
+
+    for (const feature of features) {
+      const values = faces.map(feature.value);
+      const median = this.median(values);
+      const mad = this.median(values.map(value => Math.abs(value - median)));
+      faces.forEach((face, index) => {
+        const z = Math.abs(values[index] - median) / (1.4826 * mad + 0.15);
+        if (z < GROUP_OUTLIER_Z) return;
+        face.findings.push(`${feature.name[0].toUpperCase()}${feature.name.slice(1)} differs from the other ${faces.length - 1} faces`);
+        face.manipulationScore = Math.min(face.manipulationScore + 25 + (z - GROUP_OUTLIER_Z) * 5, 100);
+      });
+    }
+  }
+
+  // Noise: robust sigma of the Laplacian residual. Sharpness: 90th percentile gradient magnitude.
+  private regionStatistics(gray: Float32Array, width: number, region: FaceBox, exclude?: FaceBox) {
+    const height = gray.length / width;
+    const stride = Math.max(1, Math.ceil(Math.sqrt((region.width * region.height) / 40000)));
+    const laplacians: number[] = [];
+    const gradients: number[] = [];
+
+    for (let y = Math.max(region.y, 1); y < Math.min(region.y + region.height, height - 1); y += stride) {
+      for (let x = Math.max(region.x, 1); x < Math.min(region.x + region.width, width - 1); x += stride) {
+        if (exclude && x >= exclude.x && x < exclude.x + exclude.width && y >= exclude.y && y < exclude.y + exclude.height) continue;
+        const index = y * width + x;
+        const centre = gray[index];
+        const left = gray[index - 1];
+        const right = gray[index + 1];
+        const up = gray[index - width];
+        const down = gray[index + width];
+        laplacians.push(Math.abs(left + right + up + down - 4 * centre));
+        gradients.push(Math.hypot(right - left, down - up));
+      }
+    }
+
+    if (laplacians.length === 0) return { noise: 0, sharpness: 0 };
+    gradients.sort((a, b) => a - b);
+    return {
+      noise: 1.4826 * this.median(laplacians),
+      sharpness: gradients[Math.floor(gradients.length * 0.9)]
+    };
+  }
+
+  private scaleBox(box: FaceBox, factor: number, width: number, height: number): FaceBox {
+    const x = Math.max(Math.round(box.x + (box.width * (1 - factor)) / 2), 0);
+    const y = Math.max(Math.round(box.y + (box.height * (1 - factor)) / 2), 0);
+    return {
+      x,
+      y,
+      width: Math.min(Math.round(box.width * factor), width - x),
+      height: Math.min(Math.round(box.height * factor), height - y)
+    };
+  }
+
+  private transform(candidate: FaceCandidate, scale: number, offsetX: number, offsetY: number): FaceCandidate {
+    const point = (p?: Point) => (p ? { x: p.x * scale + offsetX, y: p.y * scale + offsetY } : undefined);
+    return {
+      box: {
+        x: candidate.box.x * scale + offsetX,
+        y: candidate.box.y * scale + offsetY,
+        width: candidate.box.width * scale,
+        height: candidate.box.height * scale
+      },
+      landmarks: {
+        leftEye: point(candidate.landmarks.leftEye),
+        rightEye: point(candidate.landmarks.rightEye),
+        nose: point(candidate.landmarks.nose),
+        mouth: point(candidate.landmarks.mouth)
+      },
+      confidence: candidate.confidence
+    };
+  }
+
+  private distanceToCentre(box: FaceBox, centre: Point): number {
+    return Math.hypot(box.x + box.width / 2 - centre.x, box.y + box.height / 2 - centre.y);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
+
+export default FaceAnalyzer;
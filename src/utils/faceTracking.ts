@@ -0,0 +1,316 @@
+import { RawImage } from '@huggingface/transformers';
+import AIModelManager from './aiModels';
+import { alignFace, DetectedFace, FaceBox, Point } from './faceAnalysis';
+import { imageDataToUrl, resizeImageData, toGrayscale } from './imageIO';
+
+// Links the faces found in sampled video frames into tracks and looks for frames where a
+// track's appearance, skin tone or boundary blending departs from the rest of the track.
+// Face swaps are rendered frame by frame, so they tend to flicker in exactly these.
+// Appearance is compared with generic image features, so a swap that holds steady across
+// frames goes unnoticed: nothing here checks that the identity stays the same.
+
+export interface FaceObservation {
+  frameIndex: number;
+  time: number;
+  box: FaceBox;
+  // Mouth landmark in frame coordinates, when the face parser found one
+  mouth: Point | null;
+  thumbnail: string;
+  // Generic image features of the aligned crop; null when the model could not be loaded
+  embedding: Float32Array | null;
+  // Normalised low-resolution crop, used as the embedding when the model is unavailable
+  pixels: Float32Array;
+  // Mean Cb/Cr chroma of the central face area
+  skinTone: [number, number];
+  // log2 of gradient energy on the face outline relative to the face interior
+  boundary: number;
+  manipulationScore: number;
+}
+
+export interface FaceTrackPoint {
+  frameIndex: number;
+  time: number;
+  box: FaceBox;
+  mouth: Point | null;
+  thumbnail: string;
+  // Deviations from the track's own typical values
+  appearanceShift: number;
+  toneShift: number;
+  boundaryShift: number;
+  manipulationScore: number;
+  flagged: boolean;
+}
+
+export interface FaceTrack {
+  id: number;
+  points: FaceTrackPoint[];
+  flaggedFrames: number[];
+  findings: string[];
+  score: number;
+}
+
+export interface FaceTrackingResult {
+  embedding: 'model' | 'pixels';
+  tracks: FaceTrack[];
+  score: number;
+}
+
+interface OpenTrack {
+  observations: FaceObservation[];
+  lastSeen: number;
+}
+
+const THUMBNAIL_SIZE = 64;
+const PIXEL_EMBEDDING_SIZE = 32;
+
+// A face may move up to one face-width between sampled frames and still belong to the track
+const MAX_LINK_DISTANCE = 1;
+// Sampled frames a track may miss (occlusion, detector misses) before it is closed
+const MAX_TRACK_GAP = 2;
+const MIN_TRACK_LENGTH = 3;
+const JUMP_DEVIATIONS = 3;
+
+// Deviations below these are ordinary pose, lighting and compression changes
+const MIN_APPEARANCE_SHIFT = { model: 0.1, pixels: 0.25 };
+const MIN_TONE_SHIFT = 6;
+const MIN_BOUNDARY_SHIFT = 0.5;
+
+const cosineDistance = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return 1 - dot / (Math.sqrt(normA * normB) || 1);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const formatTimes = (points: FaceTrackPoint[]) => points.map(point => `${point.time.toFixed(2)}s`).join(', ');
+
+class FaceTracker {
+  private modelManager = AIModelManager.getInstance();
+
+  async observe(frame: { index: number; time: number; imageData: ImageData }, faces: DetectedFace[]): Promise<FaceObservation[]> {
+    const { imageData } = frame;
+    const gray = faces.length > 0 ? toGrayscale(imageData) : null;
+    const observations: FaceObservation[] = [];
+
+    for (const face of faces) {
+      const { patch } = alignFace(imageData, face.box, face.landmarks);
+      observations.push({
+        frameIndex: frame.index,
+        time: frame.time,
+        box: face.box,
+        mouth: face.landmarks.mouth ?? null,
+        thumbnail: imageDataToUrl(resizeImageData(patch, THUMBNAIL_SIZE, THUMBNAIL_SIZE)),
+        embedding: await this.embed(patch),
+        pixels: this.pixelEmbedding(patch),
+        skinTone: this.skinTone(patch),
+        boundary: this.boundaryContrast(gray!, imageData.width, imageData.height, face.box),
+        manipulationScore: face.manipulationScore
+      });
+    }
+    return observations;
+  }
+
+  // `frames` holds the observations of each sampled frame in playback order
+  track(frames: FaceObservation[][]): FaceTrackingResult {
+    const all = frames.flat();
+    const embedding = all.length > 0 && all.every(observation => observation.embedding) ? 'model' : 'pixels';
+    const vector = (observation: FaceObservation) => (embedding === 'model' ? observation.embedding! : observation.pixels);
+
+    const open: OpenTrack[] = [];
+    const closed: OpenTrack[] = [];
+    frames.forEach((observations, frameNumber) => {
+      for (let i = open.length - 1; i >= 0; i--) {
+        if (frameNumber - open[i].lastSeen > MAX_TRACK_GAP + 1) closed.push(...open.splice(i, 1));
+      }
+
+      // Greedy assignment on position, with appearance breaking ties between nearby faces
+      const pairs: { track: OpenTrack; observation: FaceObservation; cost: number }[] = [];
+      for (const track of open) {
+        const last = track.observations[track.observations.length - 1];
+        for (const observation of observations) {
+          const distance = this.centreDistance(last.box, observation.box);
+          if (distance > MAX_LINK_DISTANCE) continue;
+          pairs.push({ track, observation, cost: distance + cosineDistance(vector(last), vector(observation)) });
+        }
+      }
+      pairs.sort((a, b) => a.cost - b.cost);
+
+      const usedTracks = new Set<OpenTrack>();
+      const usedObservations = new Set<FaceObservation>();
+      for (const pair of pairs) {
+        if (usedTracks.has(pair.track) || usedObservations.has(pair.observation)) continue;
+        pair.track.observations.push(pair.observation);
+        pair.track.lastSeen = frameNumber;
+        usedTracks.add(pair.track);
+        usedObservations.add(pair.observation);
+      }
+      for (const observation of observations) {
+        if (!usedObservations.has(observation)) open.push({ observations: [observation], lastSeen: frameNumber });
+      }
+    });
+    closed.push(...open);
+
+    const tracks = closed
+      .sort((a, b) => a.observations[0].time - b.observations[0].time)
+      .map((track, index) => this.scoreTrack(index + 1, track.observations, vector, MIN_APPEARANCE_SHIFT[embedding]));
+
+    return {
+      embedding,
+      tracks,
+      score: tracks.reduce((max, track) => Math.max(max, track.score), 0)
+    };
+  }
+
+  private scoreTrack(
+    id: number,
+    observations: FaceObservation[],
+    vector: (observation: FaceObservation) => Float32Array,
+    minAppearanceShift: number
+  ): FaceTrack {
+    // Appearance is compared with the track's mean embedding so an odd frame is blamed on itself,
+    // not on both of its neighbours
+    const dimensions = vector(observations[0]).length;
+    const centroid = new Float32Array(dimensions);
+    for (const observation of observations) {
+      const values = vector(observation);
+      for (let i = 0; i < dimensions; i++) centroid[i] += values[i] / observations.length;
+    }
+    const toneCentre: [number, number] = [
+      median(observations.map(observation => observation.skinTone[0])),
+      median(observations.map(observation => observation.skinTone[1]))
+    ];
+    const boundaryCentre = median(observations.map(observation => observation.boundary));
+
+    const points: FaceTrackPoint[] = observations.map(observation => ({
+      frameIndex: observation.frameIndex,
+      time: observation.time,
+      box: observation.box,
+      mouth: observation.mouth,
+      thumbnail: observation.thumbnail,
+      appearanceShift: cosineDistance(vector(observation), centroid),
+      toneShift: Math.hypot(observation.skinTone[0] - toneCentre[0], observation.skinTone[1] - toneCentre[1]),
+      boundaryShift: Math.abs(observation.boundary - boundaryCentre),
+      manipulationScore: observation.manipulationScore,
+      flagged: false
+    }));
+
+    const findings: string[] = [];
+    if (points.length >= MIN_TRACK_LENGTH) {
+      const features: { name: string; value: (point: FaceTrackPoint) => number; minimum: number }[] = [
+        { name: 'Face crop appearance jumps', value: point => point.appearanceShift, minimum: minAppearanceShift },
+        { name: 'Skin tone shifts', value: point => point.toneShift, minimum: MIN_TONE_SHIFT },
+        { name: 'Face boundary blending changes', value: point => point.boundaryShift, minimum: MIN_BOUNDARY_SHIFT }
+      ];
+      for (const feature of features) {
+        const values = points.map(feature.value);
+        const centre = median(values);
+        const spread = 1.4826 * median(values.map(value => Math.abs(value - centre)));
+        const outliers = points.filter((point, index) =>
+          values[index] > feature.minimum && (values[index] - centre) / (spread + feature.minimum / 4) > JUMP_DEVIATIONS
+        );
+        if (outliers.length === 0) continue;
+        outliers.forEach(point => { point.flagged = true; });
+        findings.push(`${feature.name} at ${formatTimes(outliers)}`);
+      }
+    }
+
+    const flagged = points.filter(point => point.flagged);
+    const jumpScore = Math.min((flagged.length / points.length) * 250, 100);
+    return {
+      id,
+      points,
+      flaggedFrames: flagged.map(point => point.frameIndex),
+      findings,
+      score: Math.max(jumpScore, median(points.map(point => point.manipulationScore)))
+    };
+  }
+
+  private async embed(patch: ImageData): Promise<Float32Array | null> {
+    try {
+      const extractor = await this.modelManager.load('image-embedding');
+      const output = await extractor(new RawImage(patch.data, patch.width, patch.height, 4));
+      // The first token of the last hidden state summarises the whole crop. It is a generic
+      // image embedding, so it tracks how the face looks, not whose face it is
+      const hidden = output.dims[output.dims.length - 1];
+      return Float32Array.from(output.data.slice(0, hidden));
+    } catch (error) {
+      console.warn('Image embedding model unavailable:', error);
+      return null;
+    }
+  }
+
+  private pixelEmbedding(patch: ImageData): Float32Array {
+    const small = toGrayscale(resizeImageData(patch, PIXEL_EMBEDDING_SIZE, PIXEL_EMBEDDING_SIZE));
+    const mean = small.reduce((sum, value) => sum + value, 0) / small.length;
+    return small.map(value => value - mean);
+  }
+
+  // The central half of the aligned crop is cheeks, nose and mouth, with little hair or background
+  private skinTone(patch: ImageData): [number, number] {
+    const { width, height, data } = patch;
+    let cb = 0;
+    let cr = 0;
+    let count = 0;
+    for (let y = Math.floor(height / 4); y < Math.floor((height * 3) / 4); y++) {
+      for (let x = Math.floor(width / 4); x < Math.floor((width * 3) / 4); x++) {
+        const index = (y * width + x) * 4;
+        const r = data[index];
+        const g = data[index + 1];
+        const b = data[index + 2];
+        cb += 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+        cr += 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+        count++;
+      }
+    }
+    return count > 0 ? [cb / count, cr / count] : [128, 128];
+  }
+
+  // A pasted face leaves either a hard seam or a blurred band along its outline
+  private boundaryContrast(gray: Float32Array, width: number, height: number, box: FaceBox): number {
+    const gradient = (x: number, y: number) => {
+      const index = y * width + x;
+      return Math.hypot(gray[index + 1] - gray[index - 1], gray[index + width] - gray[index - width]);
+    };
+    const centreX = box.x + box.width / 2;
+    const centreY = box.y + box.height / 2;
+
+    let edge = 0;
+    let edgeCount = 0;
+    let inner = 0;
+    let innerCount = 0;
+    const stride = Math.max(1, Math.floor(Math.max(box.width, box.height) / 100));
+    for (let y = Math.max(Math.floor(box.y - box.height * 0.1), 1); y < Math.min(box.y + box.height * 1.1, height - 1); y += stride) {
+      for (let x = Math.max(Math.floor(box.x - box.width * 0.1), 1); x < Math.min(box.x + box.width * 1.1, width - 1); x += stride) {
+        // Elliptical distance from the centre; 1 is the outline of the face box
+        const r = Math.hypot((x - centreX) / (box.width / 2), (y - centreY) / (box.height / 2));
+        if (r > 0.9 && r < 1.1) {
+          edge += gradient(x, y);
+          edgeCount++;
+        } else if (r < 0.6) {
+          inner += gradient(x, y);
+          innerCount++;
+        }
+      }
+    }
+    if (edgeCount === 0 || innerCount === 0) return 0;
+    return Math.log2((edge / edgeCount + 0.1) / (inner / innerCount + 0.1));
+  }
+
+  private centreDistance(a: FaceBox, b: FaceBox): number {
+    const size = Math.sqrt(Math.max(a.width * a.height, 1));
+    return Math.hypot(a.x + a.width / 2 - b.x - b.width / 2, a.y + a.height / 2 - b.y - b.height / 2) / size;
+  }
+}
+
+export default FaceTracker;
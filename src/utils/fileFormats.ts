@@ -0,0 +1,229 @@
+// Low-level readers for the container formats we inspect byte-by-byte.
+// These only split files into their segments/chunks/boxes; interpreting
+// the contents is left to the individual forensic analyzers.
+
+export interface JpegSegment {
+  marker: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+export const readUint16BE = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] << 8) | bytes[offset + 1];
+
+export const readUint32BE = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+
+export const readUint64BE = (bytes: Uint8Array, offset: number): number =>
+  readUint32BE(bytes, offset) * 2 ** 32 + readUint32BE(bytes, offset + 4);
+
+export const readInt32BE = (bytes: Uint8Array, offset: number): number => readUint32BE(bytes, offset) | 0;
+
+export const readAscii = (bytes: Uint8Array, offset: number, length: number): string => {
+  let result = '';
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+};
+
+export const isJpeg = (bytes: Uint8Array): boolean =>
+  bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+// Walks the marker segments of a JPEG up to and including the first SOS.
+// For SOS the segment data is the scan header; the entropy-coded data starts
+// right after it at `offset + 4 + data.length`.
+export const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  if (!isJpeg(bytes)) return segments;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers carry no length field
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9) break;
+
+    const length = readUint16BE(bytes, offset + 2);
+    if (length < 2 || offset + 2 + length > bytes.length) break;
+
+    segments.push({
+      marker,
+      offset,
+      data: bytes.subarray(offset + 4, offset + 2 + length)
+    });
+
+    if (marker === 0xda) break;
+    offset += 2 + length;
+  }
+
+  return segments;
+};
+
+export interface PngChunk {
+  type: string;
+  offset: number;
+  data: Uint8Array;
+}
+
+export interface RiffChunk {
+  id: string;
+  offset: number;
+  data: Uint8Array;
+}
+
+export interface IsoBox {
+  type: string;
+  offset: number;
+  size: number;
+  data: Uint8Array;
+}
+
+export const readUint16LE = (bytes: Uint8Array, offset: number): number =>
+  bytes[offset] | (bytes[offset + 1] << 8);
+
+export const readUint32LE = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)) + ((bytes[offset + 3] << 24) >>> 0);
+
+export const readLatin1 = (bytes: Uint8Array): string => readAscii(bytes, 0, bytes.length);
+
+export const readUtf8 = (bytes: Uint8Array): string => new TextDecoder('utf-8').decode(bytes);
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length > 8 && bytes[0] === 0x89 && readAscii(bytes, 1, 3) === 'PNG';
+
+export const isWebp = (bytes: Uint8Array): boolean =>
+  bytes.length > 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP';
+
+export const isIsoBmff = (bytes: Uint8Array): boolean =>
+  bytes.length > 12 && readAscii(bytes, 4, 4) === 'ftyp';
+
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  if (!isPng(bytes)) return chunks;
+
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    if (offset + 12 + length > bytes.length) break;
+
+    chunks.push({ type, offset, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  return chunks;
+};
+
+export const readRiffChunks = (bytes: Uint8Array, start = 12, end = bytes.length): RiffChunk[] => {
+  const chunks: RiffChunk[] = [];
+
+  let offset = start;
+  while (offset + 8 <= end) {
+    const id = readAscii(bytes, offset, 4);
+    const size = readUint32LE(bytes, offset + 4);
+    if (offset + 8 + size > end) break;
+
+    chunks.push({ id, offset, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+
+  return chunks;
+};
+
+// Reads the ISO-BMFF boxes directly inside [start, end). Full-box
+// version/flags are left in `data`; callers skip them where relevant.
+export const readIsoBoxes = (bytes: Uint8Array, start = 0, end = bytes.length): IsoBox[] => {
+  const boxes: IsoBox[] = [];
+
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = readUint32BE(bytes, offset + 8) * 2 ** 32 + readUint32BE(bytes, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+
+    const boxEnd = Math.min(offset + size, end);
+    boxes.push({ type, offset, size, data: bytes.subarray(offset + headerSize, boxEnd) });
+    offset += size;
+  }
+
+  return boxes;
+};
+
+export const findIsoBox = (boxes: IsoBox[], path: string[], fullBoxes: string[] = ['meta']): IsoBox | undefined => {
+  let current: IsoBox | undefined;
+  let level = boxes;
+
+  for (const type of path) {
+    current = level.find(box => box.type === type);
+    if (!current) return undefined;
+    const skip = fullBoxes.includes(type) ? 4 : 0;
+    level = readIsoBoxes(current.data, skip);
+  }
+
+  return current;
+};
+
+export const inflate = async (bytes: Uint8Array, format: 'deflate' | 'deflate-raw' = 'deflate'): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export interface PngTextEntry {
+  keyword: string;
+  text: string;
+}
+
+// Collects tEXt (Latin-1), zTXt (deflated Latin-1) and iTXt (UTF-8, optionally
+// deflated) chunks in file order. Corrupt compressed chunks are skipped.
+export const readPngTextChunks = async (bytes: Uint8Array): Promise<PngTextEntry[]> => {
+  const entries: PngTextEntry[] = [];
+
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'zTXt' && chunk.type !== 'iTXt') continue;
+
+    const keywordEnd = chunk.data.indexOf(0);
+    if (keywordEnd <= 0) continue;
+    const keyword = readLatin1(chunk.data.subarray(0, keywordEnd));
+
+    try {
+      if (chunk.type === 'tEXt') {
+        entries.push({ keyword, text: readLatin1(chunk.data.subarray(keywordEnd + 1)) });
+      } else if (chunk.type === 'zTXt') {
+        entries.push({ keyword, text: readLatin1(await inflate(chunk.data.subarray(keywordEnd + 2))) });
+      } else {
+        const compressed = chunk.data[keywordEnd + 1] === 1;
+        // Skip the language tag and translated keyword, both null-terminated
+        const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = languageEnd < 0 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+        if (translatedEnd < 0) continue;
+        const body = chunk.data.subarray(translatedEnd + 1);
+        entries.push({ keyword, text: readUtf8(compressed ? await inflate(body) : body) });
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return entries;
+};
@@ -0,0 +1,405 @@
+import { readPngChunks } from './fileFormats';
+import { JpegForensicsResult } from './jpegForensics';
+import { MetadataResult } from './metadataAnalysis';
+import { ProvenanceResult } from './c2paVerification';
+
+export type GeneratorMarkerStrength = 'strong' | 'weak';
+
+export interface GeneratorMarker {
+  strength: GeneratorMarkerStrength;
+  source: string;
+  description: string;
+}
+
+export interface GeneratorFingerprint {
+  detected: boolean;
+  generator?: string;
+  prompt?: string;
+  negativePrompt?: string;
+  seed?: string;
+  model?: string;
+  parameters: Record<string, string>;
+  markers: GeneratorMarker[];
+  score: number;
+}
+
+export interface GeneratorContext {
+  width: number;
+  height: number;
+  metadata: MetadataResult;
+  provenance?: ProvenanceResult;
+  jpeg?: JpegForensicsResult | null;
+}
+
+type ComfyNode = { class_type?: string; inputs?: Record<string, unknown> };
+
+// Tool names that appear in Software, CreatorTool, C2PA claim generators and similar fields.
+// Names that are also ordinary words or other products (Imagen, Gemini, Flux, Runway) only
+// match in the forms the tools themselves write
+const GENERATOR_PATTERNS: { pattern: RegExp; name: string }[] = [
+  { pattern: /midjourney/i, name: 'Midjourney' },
+  { pattern: /\bdall[\s·.-]?e(?![a-z])/i, name: 'DALL·E' },
+  { pattern: /chatgpt|openai/i, name: 'OpenAI (ChatGPT / DALL·E)' },
+  { pattern: /firefly/i, name: 'Adobe Firefly' },
+  { pattern: /bing image creator|microsoft designer/i, name: 'Microsoft Designer / Bing Image Creator' },
+  { pattern: /google\s+(imagen|gemini)|\bimagen\s?[2-4]\b|\bimagefx\b|\bgemini\s+(\d|flash|pro|image)|made with google ai/i, name: 'Google Imagen' },
+  { pattern: /meta ai|imagine with meta/i, name: 'Meta AI' },
+  { pattern: /novelai/i, name: 'NovelAI' },
+  { pattern: /comfyui/i, name: 'ComfyUI' },
+  { pattern: /invokeai/i, name: 'InvokeAI' },
+  { pattern: /fooocus/i, name: 'Fooocus' },
+  { pattern: /automatic1111|stable[\s-]?diffusion[\s-]?web[\s-]?ui/i, name: 'Stable Diffusion web UI (A1111)' },
+  { pattern: /dreamstudio|stability\.?ai|stable[\s-]?diffusion/i, name: 'Stable Diffusion' },
+  { pattern: /leonardo\.?ai/i, name: 'Leonardo.Ai' },
+  { pattern: /ideogram/i, name: 'Ideogram' },
+  { pattern: /black forest labs|\bflux(\.1|[\s.-]?(1|2|pro|dev|schnell|kontext)\b)/i, name: 'FLUX' },
+  { pattern: /playground\s?(ai|v\d)/i, name: 'Playground' },
+  { pattern: /nightcafe|craiyon|artbreeder|dreamina|krea\.ai|runwayml|runway\s+(gen-?\d|frames|ml)/i, name: 'Online image generator' }
+];
+
+// Output sizes that SD 1.x/2.x, SDXL buckets, DALL·E and Midjourney default to
+const GENERATOR_DIMENSIONS = new Set([
+  '512x512', '512x768', '768x512', '768x768', '640x640',
+  '1024x1024', '1024x1792', '1792x1024', '1024x1536', '1536x1024',
+  '832x1216', '1216x832', '896x1152', '1152x896', '768x1344', '1344x768', '640x1536', '1536x640',
+  '1456x816', '816x1456', '1232x928', '928x1232', '2048x2048'
+]);
+
+// Chunks that cameras, editors and OS screenshot tools usually add but generator backends (PIL, sharp) do not
+const ANCILLARY_PNG_CHUNKS = ['pHYs', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'tIME', 'eXIf', 'bKGD'];
+
+const TRAINED_MEDIA_PATTERN = /trainedAlgorithmicMedia|compositeSynthetic|algorithmicMedia/i;
+
+class GenerativeFingerprintDetector {
+  analyze(bytes: Uint8Array, context: GeneratorContext): GeneratorFingerprint {
+    const result: GeneratorFingerprint = { detected: false, parameters: {}, markers: [], score: 0 };
+    const { metadata } = context;
+    const text = new Map(metadata.pngText.map(entry => [entry.keyword, entry.text]));
+
+    this.parseA1111Parameters(text.get('parameters') ?? metadata.exifTags.UserComment, result);
+    this.parseComfyWorkflow(text.get('prompt'), text.get('workflow'), result);
+    this.parseInvokeMetadata(text, result);
+    this.parseNovelAi(text, result);
+    this.parseMidjourney(
+      text.get('Description') ?? metadata.exifTags.ImageDescription ?? this.findXmp(metadata, 'description'),
+      result
+    );
+    this.matchSoftwareFields(context, text, result);
+    this.checkDigitalSourceType(context, result);
+    this.checkWeakSignals(bytes, context, result);
+
+    const strong = result.markers.filter(marker => marker.strength === 'strong').length;
+    const weak = result.markers.length - strong;
+    result.detected = strong > 0;
+    result.score = strong > 0
+      ? Math.min(85 + strong * 5, 100)
+      : Math.min(weak * 15, 30);
+
+    return result;
+  }
+
+  // A1111 / Forge / SD.Next: prompt lines, optional "Negative prompt:" block, then a
+  // comma-separated "Key: value" settings line starting with "Steps:"
+  private parseA1111Parameters(parameters: string | undefined, result: GeneratorFingerprint) {
+    if (!parameters) return;
+
+    if (parameters.trim().startsWith('{')) {
+      this.parseFooocusParameters(parameters, result);
+      return;
+    }
+
+    const lines = parameters.replace(/\r/g, '').split('\n');
+    const settingsIndex = lines.findIndex(line => /^Steps: \d+/.test(line.trim()));
+    if (settingsIndex < 0) return;
+
+    const body = lines.slice(0, settingsIndex).join('\n');
+    const negativeIndex = body.indexOf('Negative prompt:');
+    const prompt = (negativeIndex >= 0 ? body.slice(0, negativeIndex) : body).trim();
+    const negativePrompt = negativeIndex >= 0 ? body.slice(negativeIndex + 16).trim() : undefined;
+
+    const settings: Record<string, string> = {};
+    const settingPattern = /\s*([\w ./()-]+?):\s*("(?:\\.|[^"\\])*"|[^,]*)\s*(?:,|$)/g;
+    for (const match of lines.slice(settingsIndex).join(', ').matchAll(settingPattern)) {
+      if (match[1]) settings[match[1].trim()] = match[2].replace(/^"|"$/g, '').trim();
+    }
+
+    const generator = settings.Version?.startsWith('f') ? 'Stable Diffusion WebUI Forge' : 'Stable Diffusion web UI (A1111)';
+    this.record(result, {
+      generator,
+      prompt,
+      negativePrompt,
+      seed: settings.Seed,
+      model: settings.Model ?? settings['Model hash'],
+      parameters: settings
+    });
+    result.markers.push({ strength: 'strong', source: 'parameters', description: `${generator} generation parameters` });
+  }
+
+  private parseFooocusParameters(json: string, result: GeneratorFingerprint) {
+    const data = this.parseJson(json);
+    if (!data) return;
+
+    const get = (...keys: string[]) => {
+      const key = Object.keys(data).find(name => keys.includes(name.toLowerCase().replace(/[\s_]+/g, '')));
+      return key !== undefined && data[key] !== null ? String(data[key]) : undefined;
+    };
+
+    const prompt = get('prompt', 'fullprompt');
+    if (!prompt) return;
+
+    this.record(result, {
+      generator: /fooocus/i.test(json) ? 'Fooocus' : 'Stable Diffusion (JSON parameters)',
+      prompt,
+      negativePrompt: get('negativeprompt', 'fullnegativeprompt'),
+      seed: get('seed'),
+      model: get('basemodel', 'model'),
+      parameters: this.flatten(data)
+    });
+    result.markers.push({ strength: 'strong', source: 'parameters', description: 'JSON generation parameters' });
+  }
+
+  // ComfyUI saves the executed node graph as `prompt` and the editor graph as `workflow`
+  private parseComfyWorkflow(promptJson: string | undefined, workflowJson: string | undefined, result: GeneratorFingerprint) {
+    const graph = promptJson ? this.parseJson(promptJson) as Record<string, ComfyNode> | null : null;
+    const hasWorkflow = !!workflowJson && !!this.parseJson(workflowJson);
+    if (!hasWorkflow && !(graph && Object.values(graph).some(node => node?.class_type))) return;
+
+    let prompt: string | undefined;
+    let negativePrompt: string | undefined;
+    let seed: string | undefined;
+    let model: string | undefined;
+    const parameters: Record<string, string> = {};
+
+    if (graph) {
+      const nodes = Object.values(graph).filter(node => node && typeof node === 'object');
+      const resolveText = (link: unknown): string | undefined => {
+        if (!Array.isArray(link)) return undefined;
+        const node = graph[String(link[0])];
+        const value = node?.inputs?.text ?? node?.inputs?.text_g;
+        if (typeof value === 'string') return value;
+        // Follow one level of conditioning combiners
+        return resolveText(node?.inputs?.conditioning ?? node?.inputs?.conditioning_1);
+      };
+
+      const sampler = nodes.find(node => /KSampler|SamplerCustom/.test(node.class_type ?? ''));
+      if (sampler?.inputs) {
+        const seedInput = sampler.inputs.seed ?? sampler.inputs.noise_seed;
+        if (typeof seedInput === 'number' || typeof seedInput === 'string') seed = String(seedInput);
+        prompt = resolveText(sampler.inputs.positive);
+        negativePrompt = resolveText(sampler.inputs.negative);
+        ['steps', 'cfg', 'sampler_name', 'scheduler', 'denoise'].forEach(key => {
+          const value = sampler.inputs?.[key];
+          if (typeof value === 'number' || typeof value === 'string') parameters[key] = String(value);
+        });
+      }
+      if (!seed) {
+        const noise = nodes.find(node => node.class_type === 'RandomNoise');
+        if (noise?.inputs?.noise_seed !== undefined) seed = String(noise.inputs.noise_seed);
+      }
+      if (!prompt) {
+        const encoder = nodes.find(node => /CLIPTextEncode/.test(node.class_type ?? '') && typeof node.inputs?.text === 'string');
+        prompt = encoder?.inputs?.text as string | undefined;
+      }
+
+      const loader = nodes.find(node => typeof (node.inputs?.ckpt_name ?? node.inputs?.unet_name) === 'string');
+      model = (loader?.inputs?.ckpt_name ?? loader?.inputs?.unet_name) as string | undefined;
+      parameters.nodes = String(nodes.length);
+    }
+
+    this.record(result, { generator: 'ComfyUI', prompt, negativePrompt, seed, model, parameters });
+    result.markers.push({
+      strength: 'strong',
+      source: graph ? 'prompt' : 'workflow',
+      description: 'ComfyUI node graph embedded in PNG text chunks'
+    });
+  }
+
+  private parseInvokeMetadata(text: Map<string, string>, result: GeneratorFingerprint) {
+    const current = text.get('invokeai_metadata');
+    const legacy = text.get('sd-metadata');
+    const dream = text.get('Dream');
+
+    if (current) {
+      const data = this.parseJson(current);
+      if (!data) return;
+      const model = data.model as { model_name?: string; name?: string } | string | undefined;
+      this.record(result, {
+        generator: 'InvokeAI',
+        prompt: data.positive_prompt as string | undefined,
+        negativePrompt: data.negative_prompt as string | undefined,
+        seed: data.seed !== undefined ? String(data.seed) : undefined,
+        model: typeof model === 'string' ? model : model?.model_name ?? model?.name,
+        parameters: this.flatten(data)
+      });
+      result.markers.push({ strength: 'strong', source: 'invokeai_metadata', description: 'InvokeAI generation metadata' });
+    } else if (legacy) {
+      const data = this.parseJson(legacy);
+      if (!data) return;
+      const image = (data.image ?? {}) as { prompt?: { prompt: string }[] | string; seed?: number };
+      const prompt = Array.isArray(image.prompt) ? image.prompt.map(part => part.prompt).join(' ') : image.prompt;
+      this.record(result, {
+        generator: 'InvokeAI',
+        prompt,
+        seed: image.seed !== undefined ? String(image.seed) : undefined,
+        model: data.model_weights as string | undefined,
+        parameters: this.flatten(image as Record<string, unknown>)
+      });
+      result.markers.push({ strength: 'strong', source: 'sd-metadata', description: 'InvokeAI (legacy) generation metadata' });
+    } else if (dream) {
+      // `"a prompt" -s 50 -S 1234 -W 512 -H 512 -C 7.5 -A k_lms`
+      const prompt = dream.match(/^"((?:\\.|[^"\\])*)"/)?.[1];
+      this.record(result, {
+        generator: 'InvokeAI',
+        prompt,
+        seed: dream.match(/\s-S\s*(\d+)/)?.[1],
+        parameters: { command: dream }
+      });
+      result.markers.push({ strength: 'strong', source: 'Dream', description: 'InvokeAI dream command' });
+    }
+  }
+
+  private parseNovelAi(text: Map<string, string>, result: GeneratorFingerprint) {
+    if (!/novelai/i.test(text.get('Software') ?? '') && !/novelai/i.test(text.get('Source') ?? '')) return;
+
+    const comment = this.parseJson(text.get('Comment') ?? '');
+    this.record(result, {
+      generator: 'NovelAI',
+      prompt: (comment?.prompt as string | undefined) ?? text.get('Description'),
+      negativePrompt: comment?.uc as string | undefined,
+      seed: comment?.seed !== undefined ? String(comment.seed) : undefined,
+      model: text.get('Source'),
+      parameters: comment ? this.flatten(comment) : {}
+    });
+    result.markers.push({ strength: 'strong', source: 'Software', description: 'NovelAI software tag and generation comment' });
+  }
+
+  // Midjourney writes the prompt, flags and "Job ID: <uuid>" into the description fields
+  private parseMidjourney(description: string | undefined, result: GeneratorFingerprint) {
+    if (!description) return;
+
+    const jobId = description.match(/Job ID:\s*([0-9a-f-]{36})/i)?.[1];
+    if (!jobId) return;
+
+    const promptEnd = description.search(/\s--\w+|\s*Job ID:/i);
+    const prompt = description.slice(0, promptEnd).trim();
+    const parameters: Record<string, string> = { 'Job ID': jobId };
+    for (const [, flag, value] of description.matchAll(/--(\w+)\s+([^\s-][^\s]*)/g)) parameters[flag] = value;
+
+    this.record(result, {
+      generator: 'Midjourney',
+      prompt: prompt || undefined,
+      seed: parameters.seed,
+      model: parameters.v ? `v${parameters.v}` : parameters.niji ? `niji ${parameters.niji}` : undefined,
+      parameters
+    });
+    result.markers.push({ strength: 'strong', source: 'Description', description: `Midjourney job ${jobId}` });
+  }
+
+  private matchSoftwareFields(context: GeneratorContext, text: Map<string, string>, result: GeneratorFingerprint) {
+    const { metadata, provenance } = context;
+    const sources: [string, string | undefined][] = [
+      ['EXIF Software', metadata.exifTags.Software],
+      ['EXIF Make', metadata.exifTags.Make],
+      ['XMP CreatorTool', this.findXmp(metadata, 'CreatorTool')],
+      ['XMP Credit', this.findXmp(metadata, 'Credit')],
+      ['PNG Software', text.get('Software')],
+      ['PNG Source', text.get('Source')],
+      ['C2PA claim generator', provenance?.claimGenerator],
+      ...(provenance?.actions ?? []).map(action => ['C2PA action agent', action.softwareAgent] as [string, string | undefined]),
+      ...metadata.xmpHistory.map(entry => ['XMP history agent', entry.softwareAgent] as [string, string | undefined])
+    ];
+
+    for (const [source, value] of sources) {
+      if (!value) continue;
+      const match = GENERATOR_PATTERNS.find(({ pattern }) => pattern.test(value));
+      if (!match || result.markers.some(marker => marker.source === source)) continue;
+      this.record(result, { generator: match.name });
+      result.markers.push({ strength: 'strong', source, description: `${source} names ${match.name} ("${value}")` });
+    }
+  }
+
+  // IPTC digital source type, used by Adobe, Google, Meta, OpenAI and Midjourney exports
+  private checkDigitalSourceType(context: GeneratorContext, result: GeneratorFingerprint) {
+    const xmpSourceType = this.findXmp(context.metadata, 'DigitalSourceType');
+    const c2paSourceType = context.provenance?.actions.find(action => action.digitalSourceType)?.digitalSourceType;
+
+    for (const [source, value] of [['XMP DigitalSourceType', xmpSourceType], ['C2PA digitalSourceType', c2paSourceType]]) {
+      if (!value || !TRAINED_MEDIA_PATTERN.test(value)) continue;
+      result.markers.push({
+        strength: 'strong',
+        source,
+        description: `Declared as ${value.split('/').pop()}`
+      });
+    }
+  }
+
+  private checkWeakSignals(bytes: Uint8Array, context: GeneratorContext, result: GeneratorFingerprint) {
+    const { width, height, metadata, jpeg } = context;
+    const hasCameraData = !!(metadata.exifTags.Make || metadata.exifTags.Model);
+
+    if (GENERATOR_DIMENSIONS.has(`${width}x${height}`) && !hasCameraData) {
+      result.markers.push({
+        strength: 'weak',
+        source: 'Dimensions',
+        description: `${width}×${height} matches a default diffusion model output size`
+      });
+    }
+
+    if (metadata.format === 'png') {
+      const chunkTypes = new Set(readPngChunks(bytes).map(chunk => chunk.type));
+      if (!ANCILLARY_PNG_CHUNKS.some(type => chunkTypes.has(type))) {
+        result.markers.push({
+          strength: 'weak',
+          source: 'PNG chunks',
+          description: 'PNG carries no colour, resolution or timestamp chunks, typical of generator backends'
+        });
+      }
+    }
+
+    // Pillow's default save (IJG quality 75, 4:2:0, JFIF only) is the usual JPEG path out of Python pipelines
+    if (jpeg && jpeg.standardTables && jpeg.estimatedQuality === 75 && jpeg.subsampling === '4:2:0' && !hasCameraData &&
+      metadata.checks.some(check => check.id === 'no-exif')) {
+      result.markers.push({
+        strength: 'weak',
+        source: 'JPEG encoder',
+        description: 'Encoded with libjpeg defaults (quality 75, no EXIF) as used by Python imaging pipelines'
+      });
+    }
+  }
+
+  // Fills fields that earlier, more specific parsers have not already set
+  private record(result: GeneratorFingerprint, values: Partial<Omit<GeneratorFingerprint, 'markers' | 'detected' | 'score'>>) {
+    result.generator ??= values.generator;
+    result.prompt ??= values.prompt || undefined;
+    result.negativePrompt ??= values.negativePrompt || undefined;
+    result.seed ??= values.seed || undefined;
+    result.model ??= values.model || undefined;
+    if (values.parameters) result.parameters = { ...values.parameters, ...result.parameters };
+  }
+
+  private findXmp(metadata: MetadataResult, localName: string): string | undefined {
+    const key = Object.keys(metadata.xmpProperties).find(name => name.split(':').pop() === localName);
+    return key ? metadata.xmpProperties[key] : undefined;
+  }
+
+  private parseJson(text: string): Record<string, unknown> | null {
+    try {
+      const value = JSON.parse(text);
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private flatten(data: Record<string, unknown>): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (value === null || value === undefined || /prompt|^uc$/i.test(key)) continue;
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      if (text.length <= 200) values[key] = text;
+    }
+    return values;
+  }
+}
+
+export default GenerativeFingerprintDetector;
@@ -0,0 +1,136 @@
+// Canvas helpers for moving between encoded images and raw pixel data
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return ctx;
+};
+
+export const decodeImageBlob = (blob: Blob): Promise<ImageData> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      try {
+        const ctx = createContext(img.width, img.height);
+        ctx.drawImage(img, 0, 0);
+        resolve(ctx.getImageData(0, 0, img.width, img.height));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to decode image'));
+    };
+    img.src = url;
+  });
+};
+
+export const encodeImageData = (imageData: ImageData, type = 'image/png', quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const ctx = createContext(imageData.width, imageData.height);
+    ctx.putImageData(imageData, 0, 0);
+    ctx.canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Encoding to ${type} failed`))),
+      type,
+      quality
+    );
+  });
+};
+
+export const imageDataToUrl = (imageData: ImageData): string => {
+  const ctx = createContext(imageData.width, imageData.height);
+  ctx.putImageData(imageData, 0, 0);
+  return ctx.canvas.toDataURL('image/png');
+};
+
+export const resizeImageData = (imageData: ImageData, width: number, height: number): ImageData => {
+  const source = createContext(imageData.width, imageData.height);
+  source.putImageData(imageData, 0, 0);
+
+  const target = createContext(width, height);
+  target.drawImage(source.canvas, 0, 0, width, height);
+  return target.getImageData(0, 0, width, height);
+};
+
+export const toGrayscale = (imageData: ImageData): Float32Array => {
+  const { data } = imageData;
+  const gray = new Float32Array(imageData.width * imageData.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Samples a square patch of `size` source pixels centred on (cx, cy), rotated by
+// `angle` radians so that the patch axes follow the rotated frame
+export const extractRotatedPatch = (
+  imageData: ImageData,
+  cx: number,
+  cy: number,
+  size: number,
+  angle: number,
+  outputSize: number
+): ImageData => {
+  const source = createContext(imageData.width, imageData.height);
+  source.putImageData(imageData, 0, 0);
+
+  const target = createContext(outputSize, outputSize);
+  const scale = outputSize / size;
+  target.translate(outputSize / 2, outputSize / 2);
+  target.scale(scale, scale);
+  target.rotate(-angle);
+  target.translate(-cx, -cy);
+  target.drawImage(source.canvas, 0, 0);
+  return target.getImageData(0, 0, outputSize, outputSize);
+};
+
+export const cropImageData = (imageData: ImageData, x: number, y: number, width: number, height: number): ImageData => {
+  const left = Math.max(Math.floor(x), 0);
+  const top = Math.max(Math.floor(y), 0);
+  const cropWidth = Math.max(Math.min(Math.floor(width), imageData.width - left), 1);
+  const cropHeight = Math.max(Math.min(Math.floor(height), imageData.height - top), 1);
+
+  const crop = new ImageData(cropWidth, cropHeight);
+  for (let row = 0; row < cropHeight; row++) {
+    const start = ((top + row) * imageData.width + left) * 4;
+    crop.data.set(imageData.data.subarray(start, start + cropWidth * 4), row * cropWidth * 4);
+  }
+  return crop;
+};
+
+// Applies an EXIF Orientation value (0x0112, 1-8) the way browsers do when decoding,
+// for images such as EXIF thumbnails whose pixels arrive without the tag
+export const applyExifOrientation = (imageData: ImageData, orientation: number): ImageData => {
+  if (!Number.isInteger(orientation) || orientation < 2 || orientation > 8) return imageData;
+
+  const { width, height } = imageData;
+  const transposed = orientation >= 5;
+  const oriented = new ImageData(transposed ? height : width, transposed ? width : height);
+  const target = (x: number, y: number): [number, number] => {
+    switch (orientation) {
+      case 2: return [width - 1 - x, y];
+      case 3: return [width - 1 - x, height - 1 - y];
+      case 4: return [x, height - 1 - y];
+      case 5: return [y, x];
+      case 6: return [height - 1 - y, x];
+      case 7: return [height - 1 - y, width - 1 - x];
+      default: return [y, width - 1 - x];
+    }
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [targetX, targetY] = target(x, y);
+      const source = (y * width + x) * 4;
+      oriented.data.set(imageData.data.subarray(source, source + 4), (targetY * oriented.width + targetX) * 4);
+    }
+  }
+  return oriented;
+};
@@ -0,0 +1,671 @@
+import { isJpeg, readAscii, readJpegSegments, readUint16BE, JpegSegment } from './fileFormats';
+import { md5 } from './md5';
+import { CAMERA_QUANTIZATION_DIGESTS, EDITOR_QUANTIZATION_DIGESTS } from './quantizationDigests';
+
+// 'encoder' names generic settings many tools share; it identifies no particular one
+export type SignatureCategory = 'camera' | 'editor' | 'platform' | 'library' | 'encoder';
+
+export interface EncoderSignature {
+  name: string;
+  category: SignatureCategory;
+  evidence: string;
+}
+
+export interface QuantizationTable {
+  id: number;
+  values: number[];
+}
+
+export interface DoubleCompressionResult {
+  analyzed: boolean;
+  detected: boolean;
+  score: number;
+  periodicFrequencies: number;
+  note?: string;
+}
+
+export interface JpegForensicsResult {
+  encoding: 'baseline' | 'extended' | 'progressive' | 'lossless' | 'unknown';
+  width: number;
+  height: number;
+  subsampling: string;
+  quantizationTables: QuantizationTable[];
+  estimatedQuality: number | null;
+  standardTables: boolean;
+  signatures: EncoderSignature[];
+  doubleCompression: DoubleCompressionResult;
+  findings: string[];
+  score: number;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  tq: number;
+}
+
+interface FrameHeader {
+  marker: number;
+  width: number;
+  height: number;
+  components: FrameComponent[];
+}
+
+interface HuffmanTable {
+  codes: Map<number, number>;
+}
+
+// Zigzag scan index -> natural (row-major) index
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+];
+
+// ITU-T T.81 Annex K tables, the base for libjpeg's quality scaling
+const STANDARD_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+];
+
+const STANDARD_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99
+];
+
+// Comment strings written by common encoders
+const COMMENT_SIGNATURES: { pattern: RegExp; name: string; category: SignatureCategory }[] = [
+  { pattern: /gd-jpeg/i, name: 'PHP GD library', category: 'library' },
+  { pattern: /GIMP/, name: 'GIMP', category: 'editor' },
+  { pattern: /Lav[cf]\d/, name: 'FFmpeg (libavcodec)', category: 'library' },
+  { pattern: /Photoshop/i, name: 'Adobe Photoshop', category: 'editor' },
+  { pattern: /LEAD Technologies/i, name: 'LEADTOOLS', category: 'library' },
+  { pattern: /Intel\(R\) JPEG Library/i, name: 'Intel JPEG Library', category: 'library' },
+  { pattern: /Optimized by JPEGmini/i, name: 'JPEGmini', category: 'editor' }
+];
+
+const XMP_TOOL_SIGNATURES: { pattern: RegExp; name: string }[] = [
+  { pattern: /Adobe Photoshop/i, name: 'Adobe Photoshop' },
+  { pattern: /Lightroom/i, name: 'Adobe Lightroom' },
+  { pattern: /GIMP/, name: 'GIMP' },
+  { pattern: /Affinity Photo/i, name: 'Affinity Photo' },
+  { pattern: /Pixelmator/i, name: 'Pixelmator' },
+  { pattern: /Snapseed/i, name: 'Snapseed' },
+  { pattern: /Canva/i, name: 'Canva' }
+];
+
+const MAX_DECODED_BLOCKS = 40000;
+
+class JpegForensicsAnalyzer {
+  analyze(bytes: Uint8Array): JpegForensicsResult | null {
+    if (!isJpeg(bytes)) return null;
+
+    const segments = readJpegSegments(bytes);
+    const quantizationTables = this.parseQuantizationTables(segments);
+    const frame = this.parseFrameHeader(segments);
+
+    const luminance = quantizationTables.find(table => table.id === (frame?.components[0]?.tq ?? 0));
+    const chrominance = quantizationTables.find(table => table.id !== luminance?.id);
+    const { quality, exact } = luminance
+      ? this.estimateQuality(luminance.values, chrominance?.values)
+      : { quality: null, exact: false };
+
+    const signatures = this.matchSignatures(segments, frame, quality, exact);
+    const doubleCompression = frame
+      ? this.detectDoubleQuantization(bytes, segments, frame, quantizationTables)
+      : { analyzed: false, detected: false, score: 0, periodicFrequencies: 0, note: 'No frame header found' };
+
+    const findings: string[] = [];
+    let score = 0;
+
+    for (const signature of signatures) {
+      if (signature.category === 'editor') {
+        findings.push(`Re-saved by ${signature.name} (${signature.evidence})`);
+        score += 35;
+      } else if (signature.category === 'platform') {
+        findings.push(`Recompressed by ${signature.name} (${signature.evidence})`);
+        score += 15;
+      } else if (signature.category === 'library') {
+        findings.push(`Encoded by ${signature.name} (${signature.evidence})`);
+        score += 10;
+      } else if (signature.category === 'encoder') {
+        findings.push(`Encoded with ${signature.name} (${signature.evidence})`);
+      }
+    }
+
+    if (doubleCompression.detected) {
+      findings.push(`Double JPEG quantization detected in ${doubleCompression.periodicFrequencies} DCT frequencies`);
+      score += 40;
+    }
+
+    if (quality !== null && quality < 60) {
+      findings.push(`Low JPEG quality (~${quality}) limits forensic reliability`);
+      score += 5;
+    }
+
+    return {
+      encoding: this.describeEncoding(frame?.marker),
+      width: frame?.width ?? 0,
+      height: frame?.height ?? 0,
+      subsampling: frame ? this.describeSubsampling(frame) : 'unknown',
+      quantizationTables,
+      estimatedQuality: quality,
+      standardTables: exact,
+      signatures,
+      doubleCompression,
+      findings,
+      score: Math.min(score, 100)
+    };
+  }
+
+  private parseQuantizationTables(segments: JpegSegment[]): QuantizationTable[] {
+    const tables: QuantizationTable[] = [];
+
+    for (const segment of segments.filter(s => s.marker === 0xdb)) {
+      const data = segment.data;
+      let offset = 0;
+
+      while (offset < data.length) {
+        const precision = data[offset] >> 4;
+        const id = data[offset] & 0x0f;
+        offset++;
+
+        const values = new Array(64).fill(0);
+        for (let k = 0; k < 64; k++) {
+          values[ZIGZAG[k]] = precision ? readUint16BE(data, offset + k * 2) : data[offset + k];
+        }
+        offset += precision ? 128 : 64;
+
+        // Later definitions replace earlier ones with the same id
+        const existing = tables.findIndex(table => table.id === id);
+        if (existing >= 0) tables[existing] = { id, values };
+        else tables.push({ id, values });
+      }
+    }
+
+    return tables;
+  }
+
+  private parseFrameHeader(segments: JpegSegment[]): FrameHeader | null {
+    const segment = segments.find(s =>
+      s.marker >= 0xc0 && s.marker <= 0xcf && s.marker !== 0xc4 && s.marker !== 0xc8 && s.marker !== 0xcc
+    );
+    if (!segment) return null;
+
+    const data = segment.data;
+    const components: FrameComponent[] = [];
+    for (let i = 0; i < data[5]; i++) {
+      const offset = 6 + i * 3;
+      components.push({
+        id: data[offset],
+        h: data[offset + 1] >> 4,
+        v: data[offset + 1] & 0x0f,
+        tq: data[offset + 2]
+      });
+    }
+
+    return {
+      marker: segment.marker,
+      height: readUint16BE(data, 1),
+      width: readUint16BE(data, 3),
+      components
+    };
+  }
+
+  private describeEncoding(marker?: number): JpegForensicsResult['encoding'] {
+    if (marker === 0xc0) return 'baseline';
+    if (marker === 0xc1) return 'extended';
+    if (marker === 0xc2 || marker === 0xc6 || marker === 0xca || marker === 0xce) return 'progressive';
+    if (marker === 0xc3 || marker === 0xc7 || marker === 0xcb || marker === 0xcf) return 'lossless';
+    return 'unknown';
+  }
+
+  private describeSubsampling(frame: FrameHeader): string {
+    if (frame.components.length === 1) return 'grayscale';
+
+    const [luma, ...chroma] = frame.components;
+    const h = luma.h / (chroma[0]?.h || 1);
+    const v = luma.v / (chroma[0]?.v || 1);
+    if (h === 1 && v === 1) return '4:4:4';
+    if (h === 2 && v === 1) return '4:2:2';
+    if (h === 2 && v === 2) return '4:2:0';
+    if (h === 1 && v === 2) return '4:4:0';
+    if (h === 4 && v === 1) return '4:1:1';
+    return `${luma.h}x${luma.v}`;
+  }
+
+  private scaleStandardTable(base: number[], quality: number): number[] {
+    const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+    return base.map(value => Math.min(Math.max(Math.floor((value * scale + 50) / 100), 1), 255));
+  }
+
+  private estimateQuality(luminance: number[], chrominance?: number[]): { quality: number; exact: boolean } {
+    let bestQuality = 50;
+    let bestDistance = Infinity;
+
+    for (let quality = 1; quality <= 100; quality++) {
+      const expectedLuma = this.scaleStandardTable(STANDARD_LUMINANCE, quality);
+      let distance = 0;
+      for (let i = 0; i < 64; i++) distance += Math.abs(expectedLuma[i] - luminance[i]);
+
+      if (chrominance) {
+        const expectedChroma = this.scaleStandardTable(STANDARD_CHROMINANCE, quality);
+        for (let i = 0; i < 64; i++) distance += Math.abs(expectedChroma[i] - chrominance[i]);
+      }
+
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestQuality = quality;
+      }
+    }
+
+    return { quality: bestQuality, exact: bestDistance === 0 };
+  }
+
+  private matchSignatures(
+    segments: JpegSegment[],
+    frame: FrameHeader | null,
+    quality: number | null,
+    standardTables: boolean
+  ): EncoderSignature[] {
+    const signatures: EncoderSignature[] = [];
+    const add = (signature: EncoderSignature) => {
+      if (!signatures.some(existing => existing.name === signature.name)) signatures.push(signature);
+    };
+
+    const app = (marker: number, prefix: string) =>
+      segments.filter(segment => segment.marker === marker && readAscii(segment.data, 0, prefix.length) === prefix);
+
+    const photoshopIrb = app(0xed, 'Photoshop 3.0');
+    const adobeApp14 = app(0xee, 'Adobe');
+    const exif = app(0xe1, 'Exif');
+    const xmp = app(0xe1, 'http://ns.adobe.com/xap/1.0/');
+    const icc = app(0xe2, 'ICC_PROFILE');
+
+    if (photoshopIrb.some(segment => readAscii(segment.data, 0, segment.data.length).includes('FBMD'))) {
+      add({ name: 'Facebook / Instagram', category: 'platform', evidence: 'FBMD tracking reference in IPTC block' });
+    }
+
+    if (photoshopIrb.length > 0 && adobeApp14.length > 0 && !standardTables) {
+      add({ name: 'Adobe Photoshop', category: 'editor', evidence: 'Photoshop IRB and Adobe APP14 markers with Adobe quantization tables' });
+    }
+
+    for (const segment of xmp) {
+      const packet = readAscii(segment.data, 0, segment.data.length);
+      const tool = packet.match(/CreatorTool(?:="|>)([^"<]+)/)?.[1] ?? '';
+      const history = packet.match(/softwareAgent(?:="|>)([^"<]+)/g)?.join(' ') ?? '';
+      for (const { pattern, name } of XMP_TOOL_SIGNATURES) {
+        if (pattern.test(tool) || pattern.test(history)) {
+          add({ name, category: 'editor', evidence: 'XMP CreatorTool / edit history' });
+        }
+      }
+    }
+
+    for (const segment of segments.filter(s => s.marker === 0xfe)) {
+      const comment = readAscii(segment.data, 0, segment.data.length);
+      for (const { pattern, name, category } of COMMENT_SIGNATURES) {
+        if (pattern.test(comment)) {
+          add({ name, category, evidence: `COM marker "${comment.trim().slice(0, 60)}"` });
+        }
+      }
+    }
+
+    const known = this.lookupTableDigest(segments, frame);
+    if (known) {
+      const name = known.label.split(/,| Quality/)[0];
+      add({ name, category: known.category, evidence: `quantization tables are ${known.label} (ExifTool JPEGDigest)` });
+    }
+
+    if (exif.length > 0 && !standardTables && signatures.every(s => s.category !== 'editor' && s.category !== 'camera')) {
+      add({ name: 'Camera firmware', category: 'camera', evidence: 'EXIF present with non-libjpeg quantization tables' });
+    }
+
+    // Stock libjpeg settings without metadata: what a messaging app's re-encode
+    // looks like, but equally a plain save from any libjpeg-based tool.
+    const strippedMetadata = exif.length === 0 && xmp.length === 0 && icc.length === 0 && photoshopIrb.length === 0;
+    if (
+      strippedMetadata &&
+      standardTables &&
+      quality !== null && quality >= 70 && quality <= 92 &&
+      frame && this.describeSubsampling(frame) === '4:2:0' &&
+      signatures.length === 0
+    ) {
+      add({
+        name: 'stock libjpeg settings',
+        category: 'encoder',
+        evidence: `no metadata, IJG standard tables at quality ${quality}, 4:2:0 chroma`
+      });
+    }
+
+    return signatures;
+  }
+
+  // ExifTool's JPEGDigest key: MD5 of the DQT payloads in table-index order joined by zero bytes,
+  // with the components' sampling factors appended for tables that are shared between encoders
+  private lookupTableDigest(
+    segments: JpegSegment[],
+    frame: FrameHeader | null
+  ): { label: string; category: SignatureCategory } | null {
+    const byIndex: Uint8Array[] = [];
+    for (const segment of segments.filter(s => s.marker === 0xdb && s.data.length > 0)) {
+      const index = segment.data[0] & 0x0f;
+      if (index < 4) byIndex[index] = segment.data;
+    }
+    const payloads = byIndex.filter(Boolean);
+    if (payloads.length === 0) return null;
+
+    const joined = new Uint8Array(payloads.reduce((sum, payload) => sum + payload.length, 0) + payloads.length - 1);
+    let offset = 0;
+    for (const payload of payloads) {
+      joined.set(payload, offset);
+      offset += payload.length + 1;
+    }
+    const digest = md5(joined);
+    const sampling = frame?.components.map(component => ((component.h << 4) | component.v).toString(16).padStart(2, '0')).join('');
+
+    for (const key of sampling ? [digest, `${digest}:${sampling}`] : [digest]) {
+      if (EDITOR_QUANTIZATION_DIGESTS[key]) return { label: EDITOR_QUANTIZATION_DIGESTS[key], category: 'editor' };
+      if (CAMERA_QUANTIZATION_DIGESTS[key]) return { label: CAMERA_QUANTIZATION_DIGESTS[key], category: 'camera' };
+    }
+    return null;
+  }
+
+  private detectDoubleQuantization(
+    bytes: Uint8Array,
+    segments: JpegSegment[],
+    frame: FrameHeader,
+    tables: QuantizationTable[]
+  ): DoubleCompressionResult {
+    const notAnalyzed = (note: string): DoubleCompressionResult =>
+      ({ analyzed: false, detected: false, score: 0, periodicFrequencies: 0, note });
+
+    if (frame.marker !== 0xc0 && frame.marker !== 0xc1) {
+      return notAnalyzed('Only sequential Huffman JPEGs can be decoded for DCT analysis');
+    }
+
+    let coefficients: Int16Array[];
+    try {
+      coefficients = this.decodeLuminanceCoefficients(bytes, segments, frame);
+    } catch (error) {
+      console.warn('DCT coefficient decoding failed:', error);
+      return notAnalyzed('Entropy-coded data could not be decoded');
+    }
+
+    if (coefficients.length < 64) return notAnalyzed('Too few blocks for histogram analysis');
+
+    const lumaTable = tables.find(table => table.id === frame.components[0].tq);
+    let periodicFrequencies = 0;
+    let totalScore = 0;
+    let analyzedFrequencies = 0;
+
+    // Low-frequency AC coefficients have the widest histograms and carry the clearest periodicity
+    for (let k = 1; k <= 9; k++) {
+      const step = lumaTable?.values[ZIGZAG[k]] ?? 1;
+      const maxBin = Math.min(Math.floor(256 / step), 64);
+      if (maxBin < 12) continue;
+
+      const histogram = new Array(maxBin + 1).fill(0);
+      let samples = 0;
+      for (const block of coefficients) {
+        const value = Math.abs(block[k]);
+        if (value > 0 && value <= maxBin) {
+          histogram[value]++;
+          samples++;
+        }
+      }
+      if (samples < 200) continue;
+
+      const periodicity = this.histogramPeriodicity(histogram.slice(1));
+      analyzedFrequencies++;
+      totalScore += periodicity;
+      if (periodicity > 0.5) periodicFrequencies++;
+    }
+
+    if (analyzedFrequencies === 0) return notAnalyzed('Coefficient histograms too sparse');
+
+    const score = Math.min((totalScore / analyzedFrequencies) * 100, 100);
+    return {
+      analyzed: true,
+      detected: periodicFrequencies >= 3,
+      score,
+      periodicFrequencies
+    };
+  }
+
+  // Single-compressed coefficient histograms follow a smooth Laplacian.
+  // Quantizing twice leaves near-empty bins between populated ones and a
+  // periodic ripple on top of the envelope; either pattern scores high.
+  private histogramPeriodicity(histogram: number[]): number {
+    const peakCount = Math.max(...histogram);
+    let end = histogram.length;
+    while (end > 0 && histogram[end - 1] < peakCount * 0.02) end--;
+    const support = histogram.slice(0, end);
+    const n = support.length;
+    if (n < 6) return 0;
+
+    let gaps = 0;
+    for (let i = 1; i < n - 1; i++) {
+      const localMax = Math.max(...support.slice(Math.max(0, i - 3), Math.min(n, i + 4)));
+      if (localMax >= 20 && support[i] < localMax * 0.05) gaps++;
+    }
+    const gapScore = Math.min((gaps / (n - 2)) / 0.2, 1);
+
+    const residual = support.map((value, i) => {
+      let sum = 0;
+      let count = 0;
+      for (let j = Math.max(0, i - 2); j <= Math.min(n - 1, i + 2); j++) {
+        sum += support[j];
+        count++;
+      }
+      const smooth = sum / count;
+      return smooth > 0 ? value / smooth - 1 : 0;
+    });
+
+    const magnitudes: number[] = [];
+    for (let f = 2; f <= Math.floor(n / 2); f++) {
+      let re = 0;
+      let im = 0;
+      for (let i = 0; i < n; i++) {
+        const angle = (2 * Math.PI * f * i) / n;
+        re += residual[i] * Math.cos(angle);
+        im -= residual[i] * Math.sin(angle);
+      }
+      magnitudes.push(Math.sqrt(re * re + im * im));
+    }
+
+    const mean = magnitudes.reduce((sum, value) => sum + value, 0) / (magnitudes.length || 1);
+    // Peak/mean of ~2 is typical for noise; map 2..6 onto 0..1
+    const rippleScore = mean > 0 ? Math.min(Math.max((Math.max(...magnitudes) / mean - 2) / 4, 0), 1) : 0;
+
+    return Math.max(gapScore, rippleScore);
+  }
+
+  private decodeLuminanceCoefficients(bytes: Uint8Array, segments: JpegSegment[], frame: FrameHeader): Int16Array[] {
+    const dcTables = new Map<number, HuffmanTable>();
+    const acTables = new Map<number, HuffmanTable>();
+    let restartInterval = 0;
+
+    for (const segment of segments) {
+      if (segment.marker === 0xc4) {
+        const data = segment.data;
+        let offset = 0;
+        while (offset < data.length) {
+          const tableClass = data[offset] >> 4;
+          const id = data[offset] & 0x0f;
+          const counts = data.subarray(offset + 1, offset + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const symbols = data.subarray(offset + 17, offset + 17 + total);
+          (tableClass === 0 ? dcTables : acTables).set(id, this.buildHuffmanTable(counts, symbols));
+          offset += 17 + total;
+        }
+      } else if (segment.marker === 0xdd) {
+        restartInterval = readUint16BE(segment.data, 0);
+      }
+    }
+
+    const scan = segments.find(segment => segment.marker === 0xda);
+    if (!scan) throw new Error('No scan found');
+
+    const scanComponents: { index: number; dc: HuffmanTable; ac: HuffmanTable }[] = [];
+    for (let i = 0; i < scan.data[0]; i++) {
+      const id = scan.data[1 + i * 2];
+      const selectors = scan.data[2 + i * 2];
+      const index = frame.components.findIndex(component => component.id === id);
+      const dc = dcTables.get(selectors >> 4);
+      const ac = acTables.get(selectors & 0x0f);
+      if (index < 0 || !dc || !ac) throw new Error('Scan references undefined component or table');
+      scanComponents.push({ index, dc, ac });
+    }
+    if (!scanComponents.some(component => component.index === 0)) throw new Error('First scan has no luminance');
+
+    const reader = new EntropyReader(bytes, scan.offset + 4 + scan.data.length);
+    const maxH = Math.max(...frame.components.map(component => component.h));
+    const maxV = Math.max(...frame.components.map(component => component.v));
+
+    const interleaved = scanComponents.length > 1;
+    const mcuCount = interleaved
+      ? Math.ceil(frame.width / (8 * maxH)) * Math.ceil(frame.height / (8 * maxV))
+      : Math.ceil(Math.ceil((frame.width * frame.components[0].h) / maxH) / 8) *
+        Math.ceil(Math.ceil((frame.height * frame.components[0].v) / maxV) / 8);
+
+    const predictors = new Array(scanComponents.length).fill(0);
+    const blocks: Int16Array[] = [];
+
+    for (let mcu = 0; mcu < mcuCount && blocks.length < MAX_DECODED_BLOCKS; mcu++) {
+      if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+        reader.restart();
+        predictors.fill(0);
+      }
+
+      scanComponents.forEach((scanComponent, i) => {
+        const component = frame.components[scanComponent.index];
+        const blocksInMcu = interleaved ? component.h * component.v : 1;
+
+        for (let b = 0; b < blocksInMcu; b++) {
+          const block = new Int16Array(64);
+
+          const dcSize = reader.decode(scanComponent.dc);
+          predictors[i] += dcSize ? reader.receiveExtend(dcSize) : 0;
+          block[0] = predictors[i];
+
+          for (let k = 1; k < 64;) {
+            const rs = reader.decode(scanComponent.ac);
+            const run = rs >> 4;
+            const size = rs & 0x0f;
+            if (size === 0) {
+              if (run !== 15) break;
+              k += 16;
+              continue;
+            }
+            k += run;
+            if (k > 63) break;
+            block[k] = reader.receiveExtend(size);
+            k++;
+          }
+
+          if (scanComponent.index === 0) blocks.push(block);
+        }
+      });
+
+      if (reader.exhausted) break;
+    }
+
+    return blocks;
+  }
+
+  private buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+    const codes = new Map<number, number>();
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+      for (let i = 0; i < counts[length - 1]; i++) {
+        codes.set((length << 16) | code, symbols[k++]);
+        code++;
+      }
+      code <<= 1;
+    }
+    return { codes };
+  }
+}
+
+class EntropyReader {
+  private position: number;
+  private bitBuffer = 0;
+  private bitsLeft = 0;
+  exhausted = false;
+
+  constructor(private readonly bytes: Uint8Array, start: number) {
+    this.position = start;
+  }
+
+  private readBit(): number {
+    if (this.bitsLeft === 0) {
+      if (this.position >= this.bytes.length) {
+        this.exhausted = true;
+        return 0;
+      }
+      let byte = this.bytes[this.position];
+      if (byte === 0xff) {
+        const next = this.bytes[this.position + 1];
+        if (next === 0x00) {
+          this.position += 2;
+        } else {
+          // A marker inside the scan means the data ran out early
+          this.exhausted = true;
+          byte = 0;
+        }
+      } else {
+        this.position++;
+      }
+      this.bitBuffer = byte;
+      this.bitsLeft = 8;
+    }
+    this.bitsLeft--;
+    return (this.bitBuffer >> this.bitsLeft) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = (value << 1) | this.readBit();
+    return value;
+  }
+
+  receiveExtend(size: number): number {
+    const value = this.readBits(size);
+    return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      const symbol = table.codes.get((length << 16) | code);
+      if (symbol !== undefined) return symbol;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+
+  restart() {
+    this.bitsLeft = 0;
+    this.exhausted = false;
+    if (this.bytes[this.position] === 0xff && this.bytes[this.position + 1] >= 0xd0 && this.bytes[this.position + 1] <= 0xd7) {
+      this.position += 2;
+    }
+  }
+}
+
+export default JpegForensicsAnalyzer;
@@ -0,0 +1,385 @@
+import { decodeAudioBlob, DecodedAudio } from './audioIO';
+import { FaceBox } from './faceAnalysis';
+import { FaceTrack, FaceTrackingResult } from './faceTracking';
+import { fft, hannWindow } from './fft';
+import VideoFrameExtractor from './videoFrames';
+
+// Lip sync: a speaking mouth opens with the loudness of the speech and moves at its onsets.
+// Dubbed audio and puppeted faces lose this coupling, either for stretches of the clip or
+// everywhere, or keep it at a lag no camera would record.
+
+export interface MouthSeries {
+  trackId: number;
+  // Seconds on the lip-sync frame grid, consecutive grid steps
+  times: number[];
+  // Darkness of the mouth region relative to the surrounding skin; rises as the mouth opens
+  openness: number[];
+  // Mean change of the brightness-normalised mouth region since the previous frame
+  motion: number[];
+}
+
+export interface LipSyncTrack {
+  trackId: number;
+  start: number;
+  end: number;
+  speechSeconds: number;
+  assessed: boolean;
+  // Delay of the mouth behind the audio at the best correlation (s); negative when it leads
+  lag: number;
+  correlation: number;
+}
+
+export interface LipSyncSegment {
+  trackId: number;
+  start: number;
+  end: number;
+  // Lowest window correlation inside the segment, at the track's own lag
+  correlation: number;
+  description: string;
+}
+
+export interface LipSyncResult {
+  assessed: boolean;
+  frameRate: number;
+  tracks: LipSyncTrack[];
+  segments: LipSyncSegment[];
+  findings: string[];
+  notes: string[];
+  score: number;
+}
+
+// 12.5 fps resolves syllables (4-5 per second) and keeps a minute of video to 750 seeks
+const LIP_FRAME_RATE = 12.5;
+const MAX_LIP_FRAMES = 750;
+const LIP_DECODE_RATE = 16000;
+const MIN_TRACK_POINTS = 3;
+
+// The region is generous because boxes are interpolated between sparsely sampled frames
+const MOUTH_REGION = { width: 0.6, height: 0.35 };
+const DEFAULT_MOUTH_OFFSET = { x: 0.5, y: 0.78 };
+const PATCH_WIDTH = 32;
+const PATCH_HEIGHT = 20;
+
+const ENVELOPE_FFT_SIZE = 2048;
+const SPEECH_BAND: [number, number] = [200, 4000];
+
+// Audio-visual offsets beyond about 200 ms are noticeable to viewers and rare in camera recordings
+const MAX_LAG_SECONDS = 0.5;
+const MAX_NATURAL_LAG = 0.2;
+const WINDOW_SECONDS = 3;
+const MIN_SPEECH_FRACTION = 0.3;
+const MIN_TRACK_SPEECH_SECONDS = 4;
+const MIN_PAIRS = 8;
+// A mouth that never moves much more than compression noise belongs to a listener, not the speaker
+const MIN_MOTION_CONTRAST = 1.5;
+const SYNCED_CORRELATION = 0.25;
+const UNSYNCED_CORRELATION = 0.1;
+const MIN_WINDOW_CORRELATION = 0.05;
+
+const percentile = (values: ArrayLike<number>, fraction: number): number => {
+  const sorted = Float64Array.from(values).sort();
+  return sorted.length > 0 ? sorted[Math.min(Math.floor(sorted.length * fraction), sorted.length - 1)] : 0;
+};
+
+// Pearson correlation of video[i + lag] with audio[i] for audio indices in [from, to)
+const correlate = (video: ArrayLike<number>, audio: ArrayLike<number>, lag: number, from: number, to: number): number => {
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+  for (let i = Math.max(from, -lag); i < Math.min(to, video.length - lag, audio.length); i++) {
+    const x = video[i + lag];
+    const y = audio[i];
+    n++;
+    sumX += x;
+    sumY += y;
+    sumXX += x * x;
+    sumYY += y * y;
+    sumXY += x * y;
+  }
+  if (n < MIN_PAIRS) return NaN;
+  const varianceX = sumXX - (sumX * sumX) / n;
+  const varianceY = sumYY - (sumY * sumY) / n;
+  return varianceX > 1e-12 && varianceY > 1e-12 ? (sumXY - (sumX * sumY) / n) / Math.sqrt(varianceX * varianceY) : NaN;
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+class LipSyncAnalyzer {
+  private frameExtractor = new VideoFrameExtractor();
+
+  async analyze(file: Blob, faceTracks: FaceTrackingResult): Promise<LipSyncResult> {
+    const tracks = faceTracks.tracks.filter(track => track.points.length >= MIN_TRACK_POINTS);
+    if (tracks.length === 0) return this.unassessed(['No face was tracked long enough to compare its lips with the speech']);
+
+    let audio: DecodedAudio;
+    try {
+      audio = await decodeAudioBlob(file, LIP_DECODE_RATE);
+    } catch {
+      return this.unassessed(['The video has no decodable audio track to compare the lips with']);
+    }
+
+    const notes: string[] = [];
+    const spans = tracks.map(track => ({
+      track,
+      first: Math.ceil(track.points[0].time * LIP_FRAME_RATE),
+      last: Math.floor(track.points[track.points.length - 1].time * LIP_FRAME_RATE),
+      offset: this.mouthOffset(track)
+    }));
+    const needed = new Set<number>();
+    for (const span of spans) {
+      for (let index = span.first; index <= span.last; index++) needed.add(index);
+    }
+    let indices = Array.from(needed).sort((a, b) => a - b);
+    if (indices.length > MAX_LIP_FRAMES) {
+      notes.push(`Lip sync was checked on the first ${(MAX_LIP_FRAMES / LIP_FRAME_RATE).toFixed(0)}s of face footage`);
+      indices = indices.slice(0, MAX_LIP_FRAMES);
+    }
+
+    const mouths = spans.map(() => ({ series: null as MouthSeries | null, previous: null as Float32Array | null }));
+    await this.frameExtractor.extractAt(file, indices.map(index => index / LIP_FRAME_RATE), (time, imageData) => {
+      const index = Math.round(time * LIP_FRAME_RATE);
+      spans.forEach((span, i) => {
+        if (index < span.first || index > span.last) return;
+        const mouth = mouths[i];
+        if (!mouth.series) mouth.series = { trackId: span.track.id, times: [], openness: [], motion: [] };
+        const patch = this.mouthPatch(imageData, this.mouthRegion(span.track, span.offset, time));
+        mouth.series.times.push(time);
+        mouth.series.openness.push(this.openness(patch));
+        mouth.series.motion.push(mouth.previous ? this.motion(patch, mouth.previous) : 0);
+        mouth.previous = patch;
+      });
+    });
+
+    return this.measure(audio, mouths.flatMap(mouth => (mouth.series ? [mouth.series] : [])), notes);
+  }
+
+  measure(audio: DecodedAudio, mouths: MouthSeries[], notes: string[] = []): LipSyncResult {
+    const envelope = this.speechEnvelope(audio);
+    const floor = percentile(envelope, 0.1);
+    const speechThreshold = Math.max(floor + 15, percentile(envelope, 0.95) - 30, -60);
+
+    const tracks: LipSyncTrack[] = [];
+    const segments: LipSyncSegment[] = [];
+    const findings: string[] = [];
+    let score = 0;
+
+    for (const mouth of mouths) {
+      const count = mouth.times.length;
+      if (count < MIN_PAIRS) continue;
+      // Motion of the first frame has no predecessor
+      const motion = mouth.motion.map((value, i) => (i === 0 && count > 1 ? mouth.motion[1] : value));
+      const level = mouth.times.map(time => envelope[Math.min(Math.round(time * LIP_FRAME_RATE), envelope.length - 1)]);
+      const flux = level.map((value, i) => (i > 0 ? Math.abs(value - level[i - 1]) : 0));
+      const speech = level.map(value => value > speechThreshold);
+      const speechSeconds = speech.filter(Boolean).length / LIP_FRAME_RATE;
+
+      // Openness follows loudness, motion follows its changes
+      const coupling = (lag: number, from: number, to: number) => {
+        const values = [correlate(mouth.openness, level, lag, from, to), correlate(motion, flux, lag, from, to)].filter(value => !Number.isNaN(value));
+        return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : NaN;
+      };
+
+      const maxLag = Math.round(MAX_LAG_SECONDS * LIP_FRAME_RATE);
+      const curve = Array.from({ length: 2 * maxLag + 1 }, (_, i) => coupling(i - maxLag, 0, count));
+      let best = maxLag;
+      curve.forEach((value, i) => {
+        if (value > curve[best] || Number.isNaN(curve[best])) best = i;
+      });
+      const correlation = Number.isNaN(curve[best]) ? 0 : curve[best];
+      // Parabolic interpolation puts the lag between frames
+      let refinement = 0;
+      if (best > 0 && best < curve.length - 1) {
+        const [left, right] = [curve[best - 1], curve[best + 1]];
+        const denominator = left - 2 * correlation + right;
+        if (!Number.isNaN(denominator) && denominator < 0) refinement = Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator));
+      }
+      const lagFrames = best - maxLag;
+      const lag = (lagFrames + refinement) / LIP_FRAME_RATE;
+
+      const moving = percentile(motion, 0.9) >= MIN_MOTION_CONTRAST * percentile(motion, 0.5);
+      const assessed = speechSeconds >= MIN_TRACK_SPEECH_SECONDS && moving;
+      const track: LipSyncTrack = {
+        trackId: mouth.trackId,
+        start: mouth.times[0],
+        end: mouth.times[count - 1],
+        speechSeconds,
+        assessed,
+        lag,
+        correlation
+      };
+      tracks.push(track);
+      const label = `Face ${mouth.trackId}`;
+
+      if (!assessed) {
+        notes.push(speechSeconds < MIN_TRACK_SPEECH_SECONDS
+          ? `${label}: too little speech while the face is visible to check lip sync`
+          : `${label}: the mouth barely moves, so the face is probably not the speaker`);
+        continue;
+      }
+
+      if (correlation < UNSYNCED_CORRELATION) {
+        const description = `${label}: mouth movement does not follow the speech (best correlation ${correlation.toFixed(2)} over ${speechSeconds.toFixed(0)}s of speech)`;
+        segments.push({ trackId: mouth.trackId, start: track.start, end: track.end, correlation, description });
+        findings.push(description);
+        score = Math.max(score, 80);
+        continue;
+      }
+
+      let trackScore = 0;
+      if (Math.abs(lag) > MAX_NATURAL_LAG) {
+        findings.push(`${label}: mouth movement ${lag > 0 ? 'lags behind' : 'runs ahead of'} the audio by ${Math.round(Math.abs(lag) * 1000)} ms`);
+        trackScore += 25;
+      }
+
+      // Stretches that fall out of sync while the rest of the track keeps it
+      if (correlation >= SYNCED_CORRELATION) {
+        const windowLength = Math.round(WINDOW_SECONDS * LIP_FRAME_RATE);
+        const step = Math.round(LIP_FRAME_RATE);
+        let evaluated = 0;
+        let flagged = 0;
+        const open: { from: number; to: number; correlation: number; windows: number }[] = [];
+        for (let from = 0; from + windowLength <= count; from += step) {
+          const to = from + windowLength;
+          if (speech.slice(from, to).filter(Boolean).length < MIN_SPEECH_FRACTION * windowLength) continue;
+          evaluated++;
+          const windowCorrelation = coupling(lagFrames, from, to);
+          if (Number.isNaN(windowCorrelation) || windowCorrelation >= MIN_WINDOW_CORRELATION) continue;
+          flagged++;
+          const last = open[open.length - 1];
+          if (last && from <= last.to) {
+            last.to = to;
+            last.correlation = Math.min(last.correlation, windowCorrelation);
+            last.windows++;
+          } else {
+            open.push({ from, to, correlation: windowCorrelation, windows: 1 });
+          }
+        }
+        // A single window can drop on a breath or a held vowel
+        for (const run of open.filter(run => run.windows >= 2)) {
+          const start = mouth.times[run.from];
+          const end = mouth.times[run.to - 1];
+          const description = `${label}: lip motion and speech disagree from ${formatSeconds(start)} to ${formatSeconds(end)} (correlation ${run.correlation.toFixed(2)})`;
+          segments.push({ trackId: mouth.trackId, start, end, correlation: run.correlation, description });
+          findings.push(description);
+        }
+        if (evaluated > 0) trackScore += Math.min((flagged / evaluated) * 200, 100);
+      }
+      score = Math.max(score, Math.min(trackScore, 100));
+    }
+
+    return {
+      assessed: tracks.some(track => track.assessed),
+      frameRate: LIP_FRAME_RATE,
+      tracks,
+      segments: segments.sort((a, b) => a.start - b.start),
+      findings,
+      notes,
+      score
+    };
+  }
+
+  private unassessed(notes: string[]): LipSyncResult {
+    return { assessed: false, frameRate: LIP_FRAME_RATE, tracks: [], segments: [], findings: [], notes, score: 0 };
+  }
+
+  // Speech-band level (dB) at each step of the lip-sync frame grid
+  private speechEnvelope(audio: DecodedAudio): Float64Array {
+    const { samples, sampleRate } = audio;
+    const count = Math.floor((samples.length / sampleRate) * LIP_FRAME_RATE) + 1;
+    const window = hannWindow(ENVELOPE_FFT_SIZE);
+    const windowPower = window.reduce((sum, value) => sum + value * value, 0);
+    const low = Math.ceil((SPEECH_BAND[0] * ENVELOPE_FFT_SIZE) / sampleRate);
+    const high = Math.min(Math.floor((SPEECH_BAND[1] * ENVELOPE_FFT_SIZE) / sampleRate), ENVELOPE_FFT_SIZE / 2);
+    const re = new Float64Array(ENVELOPE_FFT_SIZE);
+    const im = new Float64Array(ENVELOPE_FFT_SIZE);
+
+    const envelope = new Float64Array(count);
+    for (let k = 0; k < count; k++) {
+      const start = Math.round((k / LIP_FRAME_RATE) * sampleRate) - ENVELOPE_FFT_SIZE / 2;
+      for (let i = 0; i < ENVELOPE_FFT_SIZE; i++) {
+        const index = start + i;
+        re[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+        im[i] = 0;
+      }
+      fft(re, im);
+      let power = 0;
+      for (let bin = low; bin <= high; bin++) power += re[bin] * re[bin] + im[bin] * im[bin];
+      // Parseval: both halves of the spectrum, normalised to the mean square of the windowed signal
+      envelope[k] = 10 * Math.log10((2 * power) / (ENVELOPE_FFT_SIZE * windowPower) + 1e-12);
+    }
+    return envelope;
+  }
+
+  // Mouth position relative to the face box, from the frames where the parser found it
+  private mouthOffset(track: FaceTrack): { x: number; y: number } {
+    const offsets = track.points
+      .filter(point => point.mouth)
+      .map(point => ({ x: (point.mouth!.x - point.box.x) / point.box.width, y: (point.mouth!.y - point.box.y) / point.box.height }));
+    if (offsets.length === 0) return DEFAULT_MOUTH_OFFSET;
+    return { x: percentile(offsets.map(offset => offset.x), 0.5), y: percentile(offsets.map(offset => offset.y), 0.5) };
+  }
+
+  // Face boxes are only known at the sampled frames; in between they are interpolated
+  private mouthRegion(track: FaceTrack, offset: { x: number; y: number }, time: number): FaceBox {
+    const { points } = track;
+    let next = points.findIndex(point => point.time >= time);
+    if (next <= 0) next = next === 0 ? 1 : points.length - 1;
+    const a = points[next - 1];
+    const b = points[next];
+    const t = Math.max(0, Math.min(1, (time - a.time) / (b.time - a.time || 1)));
+    const lerp = (from: number, to: number) => from + (to - from) * t;
+    const box = {
+      x: lerp(a.box.x, b.box.x),
+      y: lerp(a.box.y, b.box.y),
+      width: lerp(a.box.width, b.box.width),
+      height: lerp(a.box.height, b.box.height)
+    };
+    const width = box.width * MOUTH_REGION.width;
+    const height = box.height * MOUTH_REGION.height;
+    return {
+      x: box.x + box.width * offset.x - width / 2,
+      y: box.y + box.height * offset.y - height / 2,
+      width,
+      height
+    };
+  }
+
+  // Grey-level patch of the mouth region at a fixed size, averaging 2x2 samples per cell
+  private mouthPatch(imageData: ImageData, region: FaceBox): Float32Array {
+    const { width, height, data } = imageData;
+    const patch = new Float32Array(PATCH_WIDTH * PATCH_HEIGHT);
+    for (let py = 0; py < PATCH_HEIGHT; py++) {
+      for (let px = 0; px < PATCH_WIDTH; px++) {
+        let sum = 0;
+        for (const [dx, dy] of [[0.25, 0.25], [0.75, 0.25], [0.25, 0.75], [0.75, 0.75]]) {
+          const x = Math.max(0, Math.min(width - 1, Math.floor(region.x + ((px + dx) / PATCH_WIDTH) * region.width)));
+          const y = Math.max(0, Math.min(height - 1, Math.floor(region.y + ((py + dy) / PATCH_HEIGHT) * region.height)));
+          const index = (y * width + x) * 4;
+          sum += 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+        }
+        patch[py * PATCH_WIDTH + px] = sum / 4;
+      }
+    }
+    return patch;
+  }
+
+  // The open mouth shows as dark pixels against lips and skin, whatever the exposure
+  private openness(patch: Float32Array): number {
+    const skin = Math.max(percentile(patch, 0.75), 1);
+    return patch.reduce((sum, value) => sum + Math.max(0, 1 - value / skin), 0) / patch.length;
+  }
+
+  private motion(patch: Float32Array, previous: Float32Array): number {
+    const mean = (values: Float32Array) => Math.max(values.reduce((sum, value) => sum + value, 0) / values.length, 1);
+    const scale = mean(patch);
+    const previousScale = mean(previous);
+    let change = 0;
+    for (let i = 0; i < patch.length; i++) change += Math.abs(patch[i] / scale - previous[i] / previousScale);
+    return change / patch.length;
+  }
+}
+
+export default LipSyncAnalyzer;
@@ -0,0 +1,619 @@
+import {
+  findIsoBox,
+  isIsoBmff,
+  isJpeg,
+  isPng,
+  isWebp,
+  readAscii,
+  readIsoBoxes,
+  readJpegSegments,
+  readLatin1,
+  readPngChunks,
+  readPngTextChunks,
+  readRiffChunks,
+  readUint16BE,
+  readUint32BE,
+  readUtf8,
+  PngTextEntry
+} from './fileFormats';
+import { applyExifOrientation, decodeImageBlob, resizeImageData, toGrayscale } from './imageIO';
+
+export type MetadataGroup = 'File' | 'EXIF' | 'GPS' | 'Thumbnail' | 'XMP' | 'IPTC' | 'PNG';
+
+export interface MetadataField {
+  group: MetadataGroup;
+  name: string;
+  value: string;
+}
+
+export interface MetadataCheck {
+  id: string;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+}
+
+export interface XmpHistoryEntry {
+  action: string;
+  softwareAgent?: string;
+  when?: string;
+}
+
+export interface MetadataResult {
+  format: 'jpeg' | 'png' | 'webp' | 'heic' | 'unknown';
+  fields: MetadataField[];
+  exifTags: Record<string, string>;
+  pngText: PngTextEntry[];
+  xmpProperties: Record<string, string>;
+  xmpHistory: XmpHistoryEntry[];
+  checks: MetadataCheck[];
+  score: number;
+}
+
+interface RawMetadata {
+  tiff: Uint8Array | null;
+  xmp: string | null;
+  iptc: Uint8Array | null;
+  text: PngTextEntry[];
+}
+
+type TagValue = string | number | number[];
+
+interface ExifData {
+  tags: Map<string, TagValue>;
+  thumbnail: Uint8Array | null;
+}
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'ModifyDate',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x8769: 'ExifIFD',
+  0x8825: 'GPSIFD'
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'CreateDate',
+  0x9010: 'OffsetTime',
+  0x9011: 'OffsetTimeOriginal',
+  0x9286: 'UserComment',
+  0x920a: 'FocalLength',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa420: 'ImageUniqueID',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel'
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x001d: 'GPSDateStamp'
+};
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  25: 'Keywords',
+  55: 'DateCreated',
+  60: 'TimeCreated',
+  62: 'DigitalCreationDate',
+  65: 'OriginatingProgram',
+  80: 'By-line',
+  90: 'City',
+  101: 'Country',
+  103: 'OriginalTransmissionReference',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  120: 'Caption'
+};
+
+const EDITOR_PATTERN = /photoshop|gimp|lightroom|affinity|pixelmator|snapseed|picsart|facetune|canva|paint\.net|luminar|capture one|darktable|photopea|fotor|meitu|remini|faceapp/i;
+
+const SEVERITY_WEIGHTS: Record<MetadataCheck['severity'], number> = { low: 5, medium: 15, high: 30 };
+
+class MetadataAnalyzer {
+  async analyze(bytes: Uint8Array, imageData?: ImageData): Promise<MetadataResult> {
+    const format = this.detectFormat(bytes);
+    const raw = await this.extractRaw(bytes, format);
+
+    const exif = raw.tiff ? this.parseTiff(raw.tiff) : null;
+    const xmpProperties = raw.xmp ? this.parseXmpProperties(raw.xmp) : {};
+    const xmpHistory = raw.xmp ? this.parseXmpHistory(raw.xmp) : [];
+    const iptc = raw.iptc ? this.parseIptc(raw.iptc) : new Map<string, string>();
+
+    const fields: MetadataField[] = [{ group: 'File', name: 'Format', value: format.toUpperCase() }];
+    if (imageData) {
+      fields.push({ group: 'File', name: 'Decoded Size', value: `${imageData.width} x ${imageData.height}` });
+    }
+    exif?.tags.forEach((value, name) => {
+      fields.push({ group: name.startsWith('GPS') ? 'GPS' : 'EXIF', name, value: this.formatValue(value) });
+    });
+    if (exif?.thumbnail) {
+      fields.push({ group: 'Thumbnail', name: 'Embedded JPEG', value: `${exif.thumbnail.length} bytes` });
+    }
+    Object.entries(xmpProperties).forEach(([name, value]) => fields.push({ group: 'XMP', name, value }));
+    xmpHistory.forEach((entry, index) => {
+      fields.push({
+        group: 'XMP',
+        name: `History[${index}]`,
+        value: [entry.action, entry.softwareAgent, entry.when].filter(Boolean).join(' · ')
+      });
+    });
+    iptc.forEach((value, name) => fields.push({ group: 'IPTC', name, value }));
+    raw.text
+      .filter(entry => entry.keyword !== 'XML:com.adobe.xmp')
+      .forEach(entry => fields.push({ group: 'PNG', name: entry.keyword, value: entry.text.slice(0, 500) }));
+
+    const exifTags: Record<string, string> = {};
+    exif?.tags.forEach((value, name) => {
+      exifTags[name] = this.formatValue(value);
+    });
+
+    const checks = await this.runChecks(exif, xmpProperties, xmpHistory, iptc, imageData);
+    const score = Math.min(checks.reduce((sum, check) => sum + SEVERITY_WEIGHTS[check.severity], 0), 100);
+
+    return { format, fields, exifTags, pngText: raw.text, xmpProperties, xmpHistory, checks, score };
+  }
+
+  private detectFormat(bytes: Uint8Array): MetadataResult['format'] {
+    if (isJpeg(bytes)) return 'jpeg';
+    if (isPng(bytes)) return 'png';
+    if (isWebp(bytes)) return 'webp';
+    if (isIsoBmff(bytes) && /hei[cx]|mif1|msf1|heim|heis|avif/.test(readAscii(bytes, 8, 4))) return 'heic';
+    return 'unknown';
+  }
+
+  private async extractRaw(bytes: Uint8Array, format: MetadataResult['format']): Promise<RawMetadata> {
+    const raw: RawMetadata = { tiff: null, xmp: null, iptc: null, text: [] };
+
+    if (format === 'jpeg') {
+      for (const segment of readJpegSegments(bytes)) {
+        if (segment.marker === 0xe1 && readAscii(segment.data, 0, 6) === 'Exif\0\0') {
+          raw.tiff = segment.data.subarray(6);
+        } else if (segment.marker === 0xe1 && readAscii(segment.data, 0, 29) === 'http://ns.adobe.com/xap/1.0/\0') {
+          raw.xmp = readUtf8(segment.data.subarray(29));
+        } else if (segment.marker === 0xed && readAscii(segment.data, 0, 14) === 'Photoshop 3.0\0') {
+          raw.iptc = this.extractIptcFromIrb(segment.data.subarray(14));
+        }
+      }
+    } else if (format === 'png') {
+      raw.tiff = readPngChunks(bytes).find(chunk => chunk.type === 'eXIf')?.data ?? null;
+      raw.text = await readPngTextChunks(bytes);
+      raw.xmp = raw.text.find(entry => entry.keyword === 'XML:com.adobe.xmp')?.text ?? null;
+    } else if (format === 'webp') {
+      for (const chunk of readRiffChunks(bytes)) {
+        if (chunk.id === 'EXIF') {
+          raw.tiff = readAscii(chunk.data, 0, 6) === 'Exif\0\0' ? chunk.data.subarray(6) : chunk.data;
+        } else if (chunk.id === 'XMP ') {
+          raw.xmp = readUtf8(chunk.data);
+        }
+      }
+    } else if (format === 'heic') {
+      Object.assign(raw, this.extractHeifItems(bytes));
+    }
+
+    return raw;
+  }
+
+  // Exif and XMP live as items in the HEIF `meta` box, located through iinf/iloc
+  private extractHeifItems(bytes: Uint8Array): Partial<RawMetadata> {
+    const result: Partial<RawMetadata> = {};
+    const top = readIsoBoxes(bytes);
+    const meta = findIsoBox(top, ['meta']);
+    if (!meta) return result;
+
+    const metaChildren = readIsoBoxes(meta.data, 4);
+    const iinf = metaChildren.find(box => box.type === 'iinf');
+    const iloc = metaChildren.find(box => box.type === 'iloc');
+    if (!iinf || !iloc) return result;
+
+    const items = new Map<number, { type: string; contentType?: string }>();
+    const iinfVersion = iinf.data[0];
+    const entriesStart = iinfVersion === 0 ? 6 : 8;
+    for (const infe of readIsoBoxes(iinf.data, entriesStart).filter(box => box.type === 'infe')) {
+      const version = infe.data[0];
+      if (version < 2) continue;
+      const id = version === 2 ? readUint16BE(infe.data, 4) : readUint32BE(infe.data, 4);
+      const typeOffset = version === 2 ? 8 : 10;
+      const type = readAscii(infe.data, typeOffset, 4);
+      let contentType: string | undefined;
+      if (type === 'mime') {
+        const rest = readLatin1(infe.data.subarray(typeOffset + 4));
+        contentType = rest.split('\0')[1];
+      }
+      items.set(id, { type, contentType });
+    }
+
+    const locations = this.parseIloc(iloc.data);
+    for (const [id, item] of items) {
+      const location = locations.get(id);
+      if (!location) continue;
+      const data = bytes.subarray(location.offset, location.offset + location.length);
+
+      if (item.type === 'Exif' && data.length > 4) {
+        const tiffOffset = readUint32BE(data, 0);
+        result.tiff = data.subarray(4 + tiffOffset);
+      } else if (item.type === 'mime' && item.contentType?.includes('rdf+xml')) {
+        result.xmp = readUtf8(data);
+      }
+    }
+
+    return result;
+  }
+
+  private parseIloc(data: Uint8Array): Map<number, { offset: number; length: number }> {
+    const locations = new Map<number, { offset: number; length: number }>();
+    const version = data[0];
+    const offsetSize = data[4] >> 4;
+    const lengthSize = data[4] & 0x0f;
+    const baseOffsetSize = data[5] >> 4;
+    const indexSize = version === 1 || version === 2 ? data[5] & 0x0f : 0;
+
+    const readSized = (offset: number, size: number) =>
+      size === 0 ? 0 : size === 2 ? readUint16BE(data, offset) : size === 4 ? readUint32BE(data, offset)
+        : readUint32BE(data, offset) * 2 ** 32 + readUint32BE(data, offset + 4);
+
+    let offset = 6;
+    const itemCount = version < 2 ? readUint16BE(data, offset) : readUint32BE(data, offset);
+    offset += version < 2 ? 2 : 4;
+
+    for (let i = 0; i < itemCount && offset < data.length; i++) {
+      const id = version < 2 ? readUint16BE(data, offset) : readUint32BE(data, offset);
+      offset += version < 2 ? 2 : 4;
+      if (version === 1 || version === 2) offset += 2; // construction_method
+      offset += 2; // data_reference_index
+      const baseOffset = readSized(offset, baseOffsetSize);
+      offset += baseOffsetSize;
+      const extentCount = readUint16BE(data, offset);
+      offset += 2;
+
+      for (let e = 0; e < extentCount; e++) {
+        offset += indexSize;
+        const extentOffset = readSized(offset, offsetSize);
+        offset += offsetSize;
+        const extentLength = readSized(offset, lengthSize);
+        offset += lengthSize;
+        // Only the first extent is used; metadata items are never fragmented in practice
+        if (e === 0) locations.set(id, { offset: baseOffset + extentOffset, length: extentLength });
+      }
+    }
+
+    return locations;
+  }
+
+  private extractIptcFromIrb(irb: Uint8Array): Uint8Array | null {
+    let offset = 0;
+    while (offset + 12 <= irb.length && readAscii(irb, offset, 4) === '8BIM') {
+      const resourceId = readUint16BE(irb, offset + 4);
+      const nameLength = irb[offset + 6];
+      // Pascal string padded so that length byte + name is even
+      let dataOffset = offset + 7 + nameLength;
+      if ((nameLength + 1) % 2) dataOffset++;
+      const size = readUint32BE(irb, dataOffset);
+      dataOffset += 4;
+
+      if (resourceId === 0x0404) return irb.subarray(dataOffset, dataOffset + size);
+      offset = dataOffset + size + (size % 2);
+    }
+    return null;
+  }
+
+  private parseIptc(data: Uint8Array): Map<string, string> {
+    const values = new Map<string, string>();
+    let offset = 0;
+
+    while (offset + 5 <= data.length && data[offset] === 0x1c) {
+      const record = data[offset + 1];
+      const dataset = data[offset + 2];
+      const size = readUint16BE(data, offset + 3);
+      const value = readUtf8(data.subarray(offset + 5, offset + 5 + size)).trim();
+      const name = IPTC_DATASETS[dataset];
+
+      if (record === 2 && name && value) {
+        values.set(name, values.has(name) ? `${values.get(name)}, ${value}` : value);
+      }
+      offset += 5 + size;
+    }
+
+    return values;
+  }
+
+  private parseTiff(tiff: Uint8Array): ExifData | null {
+    if (tiff.length < 8) return null;
+    const little = readAscii(tiff, 0, 2) === 'II';
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const u16 = (offset: number) => view.getUint16(offset, little);
+    const u32 = (offset: number) => view.getUint32(offset, little);
+
+    if (u16(2) !== 42) return null;
+
+    const tags = new Map<string, TagValue>();
+    let thumbnail: Uint8Array | null = null;
+
+    const readValue = (type: number, count: number, valueOffset: number): TagValue | null => {
+      const sizes: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+      const unit = sizes[type];
+      if (!unit) return null;
+      const offset = unit * count > 4 ? u32(valueOffset) : valueOffset;
+      if (offset + unit * count > tiff.length) return null;
+
+      if (type === 2) return readAscii(tiff, offset, count).replace(/\0+$/, '').trim();
+      if (type === 7) return count <= 32 ? Array.from(tiff.subarray(offset, offset + count)) : `${count} bytes`;
+
+      const values: number[] = [];
+      for (let i = 0; i < Math.min(count, 16); i++) {
+        const at = offset + i * unit;
+        if (type === 1) values.push(tiff[at]);
+        else if (type === 3) values.push(u16(at));
+        else if (type === 4) values.push(u32(at));
+        else if (type === 9) values.push(view.getInt32(at, little));
+        else if (type === 5 || type === 10) {
+          const numerator = type === 5 ? u32(at) : view.getInt32(at, little);
+          const denominator = type === 5 ? u32(at + 4) : view.getInt32(at + 4, little);
+          values.push(denominator ? numerator / denominator : 0);
+        }
+      }
+      return values.length === 1 ? values[0] : values;
+    };
+
+    // UserComment is UNDEFINED bytes behind an 8-byte character code header
+    const readUserComment = (count: number, valueOffset: number): TagValue | null => {
+      const offset = count > 4 ? u32(valueOffset) : valueOffset;
+      if (count <= 8 || offset + count > tiff.length) return null;
+      const code = readAscii(tiff, offset, 8).replace(/\0+$/, '');
+      const body = tiff.subarray(offset + 8, offset + count);
+      const text = code === 'UNICODE'
+        ? new TextDecoder(little ? 'utf-16le' : 'utf-16be').decode(body)
+        : readUtf8(body);
+      return text.replace(/\0+$/, '').trim() || null;
+    };
+
+    const readIfd = (offset: number, names: Record<number, string>, target?: Map<number, TagValue>): number => {
+      if (offset + 2 > tiff.length) return 0;
+      const count = u16(offset);
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > tiff.length) break;
+        const tag = u16(entry);
+        const value = tag === 0x9286
+          ? readUserComment(u32(entry + 4), entry + 8)
+          : readValue(u16(entry + 2), u32(entry + 4), entry + 8);
+        if (value === null) continue;
+        target?.set(tag, value);
+        if (names[tag]) tags.set(names[tag], value);
+      }
+      const next = offset + 2 + count * 12;
+      return next + 4 <= tiff.length ? u32(next) : 0;
+    };
+
+    const ifd0 = new Map<number, TagValue>();
+    const ifd1Offset = readIfd(u32(4), IFD0_TAGS, ifd0);
+
+    const exifOffset = ifd0.get(0x8769);
+    if (typeof exifOffset === 'number') readIfd(exifOffset, EXIF_TAGS);
+    const gpsOffset = ifd0.get(0x8825);
+    if (typeof gpsOffset === 'number') readIfd(gpsOffset, GPS_TAGS);
+    tags.delete('ExifIFD');
+    tags.delete('GPSIFD');
+
+    if (ifd1Offset > 0 && ifd1Offset < tiff.length) {
+      const ifd1 = new Map<number, TagValue>();
+      readIfd(ifd1Offset, {}, ifd1);
+      const start = ifd1.get(0x0201);
+      const length = ifd1.get(0x0202);
+      if (typeof start === 'number' && typeof length === 'number' && start + length <= tiff.length) {
+        thumbnail = tiff.subarray(start, start + length);
+      }
+    }
+
+    return { tags, thumbnail };
+  }
+
+  private parseXmpDocument(xmp: string): Document | null {
+    const start = xmp.indexOf('<x:xmpmeta');
+    const end = xmp.lastIndexOf('</x:xmpmeta>');
+    const packet = start >= 0 && end > start ? xmp.slice(start, end + 12) : xmp;
+    const doc = new DOMParser().parseFromString(packet, 'application/xml');
+    return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+  }
+
+  private parseXmpProperties(xmp: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    const doc = this.parseXmpDocument(xmp);
+    if (!doc) return properties;
+
+    const skipPrefixes = ['rdf', 'x', 'xmlns', 'stEvt', 'stRef'];
+    for (const element of Array.from(doc.getElementsByTagName('*'))) {
+      const prefix = element.prefix ?? '';
+      if (prefix === 'rdf' && element.localName === 'Description') {
+        for (const attribute of Array.from(element.attributes)) {
+          if (!skipPrefixes.includes(attribute.prefix ?? 'xmlns')) properties[attribute.name] = attribute.value;
+        }
+      } else if (!skipPrefixes.includes(prefix) && prefix) {
+        // Simple and alternative/bag values are stored as element text
+        const text = Array.from(element.getElementsByTagName('rdf:li')).map(li => li.textContent?.trim()).filter(Boolean);
+        const value = text.length > 0 ? text.join(', ') : element.children.length === 0 ? element.textContent?.trim() : '';
+        if (value && element.parentElement?.localName === 'Description') properties[element.tagName] = value;
+      }
+    }
+
+    return properties;
+  }
+
+  private parseXmpHistory(xmp: string): XmpHistoryEntry[] {
+    const doc = this.parseXmpDocument(xmp);
+    if (!doc) return [];
+
+    const history = Array.from(doc.getElementsByTagName('*')).find(element => element.tagName === 'xmpMM:History');
+    if (!history) return [];
+
+    return Array.from(history.getElementsByTagName('rdf:li')).map(li => {
+      const read = (name: string) =>
+        li.getAttribute(`stEvt:${name}`) ??
+        Array.from(li.getElementsByTagName(`stEvt:${name}`))[0]?.textContent?.trim() ??
+        undefined;
+      return { action: read('action') ?? 'unknown', softwareAgent: read('softwareAgent'), when: read('when') };
+    });
+  }
+
+  private async runChecks(
+    exif: ExifData | null,
+    xmp: Record<string, string>,
+    history: XmpHistoryEntry[],
+    iptc: Map<string, string>,
+    imageData?: ImageData
+  ): Promise<MetadataCheck[]> {
+    const checks: MetadataCheck[] = [];
+    const tag = (name: string) => exif?.tags.get(name);
+
+    if (!exif) {
+      checks.push({
+        id: 'no-exif',
+        severity: 'medium',
+        message: 'No EXIF metadata: stripped by an editor or platform, or never written by a camera'
+      });
+    } else if (!tag('Make') || !tag('Model')) {
+      checks.push({ id: 'missing-camera', severity: 'medium', message: 'EXIF present but camera make/model missing' });
+    }
+
+    const software = [tag('Software'), xmp['xmp:CreatorTool'], iptc.get('OriginatingProgram')]
+      .filter((value): value is string => typeof value === 'string');
+    const editor = software.find(value => EDITOR_PATTERN.test(value));
+    if (editor) {
+      checks.push({ id: 'editor-software', severity: 'high', message: `Software tag names an image editor: "${editor}"` });
+    }
+
+    const editedBy = history.filter(entry => entry.softwareAgent && EDITOR_PATTERN.test(entry.softwareAgent));
+    if (editedBy.length > 0) {
+      checks.push({
+        id: 'xmp-edit-history',
+        severity: 'high',
+        message: `XMP history records ${editedBy.length} edit step(s) by ${[...new Set(editedBy.map(e => e.softwareAgent))].join(', ')}`
+      });
+    }
+
+    const original = this.parseExifDate(tag('DateTimeOriginal'));
+    const modified = this.parseExifDate(tag('ModifyDate'));
+    if (original && modified) {
+      if (original.getTime() > modified.getTime()) {
+        checks.push({ id: 'date-order', severity: 'high', message: 'DateTimeOriginal is later than ModifyDate' });
+      } else if (modified.getTime() - original.getTime() > 60 * 1000) {
+        checks.push({ id: 'modified-after-capture', severity: 'low', message: 'File was modified after capture' });
+      }
+    }
+
+    const xmpCreate = xmp['xmp:CreateDate'] ? new Date(xmp['xmp:CreateDate']) : null;
+    if (original && xmpCreate && !isNaN(xmpCreate.getTime())) {
+      // XMP dates may carry a timezone while EXIF ones don't; allow a day of slack
+      if (Math.abs(xmpCreate.getTime() - original.getTime()) > 26 * 60 * 60 * 1000) {
+        checks.push({ id: 'xmp-exif-date', severity: 'medium', message: 'XMP CreateDate disagrees with EXIF DateTimeOriginal' });
+      }
+    }
+
+    const exifWidth = tag('PixelXDimension');
+    const exifHeight = tag('PixelYDimension');
+    if (imageData && typeof exifWidth === 'number' && typeof exifHeight === 'number') {
+      const sameSize =
+        (exifWidth === imageData.width && exifHeight === imageData.height) ||
+        (exifWidth === imageData.height && exifHeight === imageData.width);
+      if (!sameSize) {
+        checks.push({
+          id: 'dimension-mismatch',
+          severity: 'medium',
+          message: `EXIF dimensions ${exifWidth}x${exifHeight} differ from the image (${imageData.width}x${imageData.height}): resized or cropped`
+        });
+      }
+    }
+
+    if (exif?.thumbnail && imageData) {
+      const orientation = tag('Orientation');
+      const thumbnailCheck = await this.compareThumbnail(exif.thumbnail, imageData, typeof orientation === 'number' ? orientation : 1);
+      if (thumbnailCheck) checks.push(thumbnailCheck);
+    }
+
+    return checks;
+  }
+
+  private async compareThumbnail(thumbnailBytes: Uint8Array, imageData: ImageData, orientation: number): Promise<MetadataCheck | null> {
+    let thumbnail: ImageData;
+    try {
+      thumbnail = await decodeImageBlob(new Blob([thumbnailBytes], { type: 'image/jpeg' }));
+    } catch {
+      return { id: 'thumbnail-corrupt', severity: 'low', message: 'Embedded EXIF thumbnail could not be decoded' };
+    }
+
+    // Browsers apply Orientation when decoding the main image but the thumbnail carries no
+    // tag of its own, so turn it the same way; the unturned thumbnail covers decoders that don't
+    const imageAspect = imageData.width / imageData.height;
+    const candidates = [...new Set([applyExifOrientation(thumbnail, orientation), thumbnail])]
+      .filter(candidate => Math.abs(candidate.width / candidate.height - imageAspect) <= 0.05);
+    if (candidates.length === 0) {
+      return { id: 'thumbnail-aspect', severity: 'high', message: 'Embedded thumbnail has a different aspect ratio than the image: cropped after capture' };
+    }
+
+    const correlation = Math.max(...candidates.map(candidate =>
+      this.correlate(toGrayscale(candidate), toGrayscale(resizeImageData(imageData, candidate.width, candidate.height)))
+    ));
+    if (correlation < 0.8) {
+      return {
+        id: 'thumbnail-content',
+        severity: 'high',
+        message: `Embedded thumbnail does not match the image content (correlation ${correlation.toFixed(2)})`
+      };
+    }
+    return null;
+  }
+
+  private correlate(a: Float32Array, b: Float32Array): number {
+    const n = Math.min(a.length, b.length);
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < n; i++) {
+      meanA += a[i];
+      meanB += b[i];
+    }
+    meanA /= n;
+    meanB /= n;
+
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (a[i] - meanA) * (b[i] - meanB);
+      varianceA += (a[i] - meanA) ** 2;
+      varianceB += (b[i] - meanB) ** 2;
+    }
+    return varianceA && varianceB ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+  }
+
+  private parseExifDate(value: TagValue | undefined): Date | null {
+    if (typeof value !== 'string') return null;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  private formatValue(value: TagValue): string {
+    if (Array.isArray(value)) return value.map(v => (Number.isInteger(v) ? v : v.toFixed(4))).join(', ');
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(4);
+    return value;
+  }
+}
+
+export default MetadataAnalyzer;
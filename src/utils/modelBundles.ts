@@ -0,0 +1,517 @@
+import { env } from '@huggingface/transformers';
+import type { DataType } from '@huggingface/transformers';
+import { isCommitRevision, MODEL_REGISTRY, ModelCapability, ModelDefinition } from './modelRegistry';
+import { gunzip, isGzip, readTar, TarEntry, writeTar } from './tarArchive';
+
+// Where model weights come from. 'remote' downloads from the Hugging Face Hub on
+// first use; 'directory' and 'archive' never touch the network and only run files
+// whose SHA-256 matches the bundle manifest.
+export type ModelSourceMode = 'remote' | 'directory' | 'archive';
+
+export interface ModelSourceSettings {
+  mode: ModelSourceMode;
+  // URL path the app serves the model directory from (e.g. public/models)
+  directory: string;
+}
+
+export interface BundleFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BundleModel {
+  model: string;
+  revision: string;
+  files: BundleFile[];
+}
+
+// manifest.json at the root of a model directory or bundle archive. Model files
+// live under "<model id>/<path>", the ONNX runtime under "runtime/<path>".
+export interface BundleManifest {
+  format: 1;
+  created: string;
+  runtimeVersion: string;
+  runtime: BundleFile[];
+  models: BundleModel[];
+}
+
+export interface InstalledModel {
+  capability: ModelCapability;
+  definition: ModelDefinition;
+  installed: boolean;
+  revision: string | null;
+  files: number;
+  size: number;
+}
+
+export interface BundleCheck {
+  name: string;
+  problems: string[];
+}
+
+const SETTINGS_KEY = 'deepguard.modelSource';
+const DEFAULT_SETTINGS: ModelSourceSettings = { mode: 'remote', directory: '/models/' };
+
+const MANIFEST_NAME = 'manifest.json';
+const BUNDLE_CACHE = 'model-bundles';
+const TRANSFORMERS_CACHE = 'transformers-cache';
+const RUNTIME_DIRECTORY = 'runtime';
+// onnxruntime-web build that transformers.js loads for both WebGPU and WASM
+const RUNTIME_FILES = ['ort-wasm-simd-threaded.jsep.mjs', 'ort-wasm-simd-threaded.jsep.wasm'];
+const RUNTIME_CDN = `https://cdn.jsdelivr.net/npm/@huggingface/transformers@${env.version}/dist/`;
+// Offline local model path. fetch can't load this scheme, so transformers.js only ever
+// gets files through the bundle cache, and a file the manifest doesn't list is not found.
+const BUNDLE_MODEL_PATH = 'model-bundle://verified/';
+
+// Files transformers.js may read besides the weights; absent ones are skipped on export
+const CONFIG_FILES = [
+  'config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  'special_tokens_map.json',
+  'preprocessor_config.json',
+  'processor_config.json',
+  'generation_config.json'
+];
+
+// Weight file suffixes transformers.js appends for each dtype
+const DTYPE_SUFFIX: Partial<Record<DataType, string>> = {
+  fp32: '',
+  fp16: '_fp16',
+  int8: '_int8',
+  uint8: '_uint8',
+  q8: '_quantized',
+  q4: '_q4',
+  q4f16: '_q4f16',
+  bnb4: '_bnb4'
+};
+
+const isWeightFile = (path: string): boolean => /\.onnx(_data(_\d+)?)?$/.test(path);
+
+// External weight files transformers.js fetches next to `<fileName><suffix>.onnx`. Its config's
+// `use_external_data_format` is a flag or chunk count, for all weights or keyed by file.
+const externalDataFiles = (format: unknown, fileName: string, weight: string): string[] => {
+  const baseName = weight.split('/').pop() ?? weight;
+  const setting = format && typeof format === 'object'
+    ? (baseName in format ? format[baseName] : fileName in format ? format[fileName] : false)
+    : format;
+  const chunks = Number(setting) || 0;
+  return Array.from({ length: chunks }, (_, i) => `${weight}_data${i === 0 ? '' : `_${i}`}`);
+};
+
+const sha256 = async (data: Blob): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await data.arrayBuffer()));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const normaliseDirectory = (directory: string): string => {
+  const trimmed = directory.trim() || DEFAULT_SETTINGS.directory;
+  return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+};
+
+const isBundleFile = (value: Partial<BundleFile> | null): value is BundleFile =>
+  !!value && typeof value.path === 'string' && typeof value.size === 'number' &&
+  typeof value.sha256 === 'string' && /^[0-9a-f]{64}$/.test(value.sha256);
+
+const parseManifest = (text: string): BundleManifest => {
+  let manifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error(`${MANIFEST_NAME} is not valid JSON`);
+  }
+  if (manifest?.format !== 1) throw new Error('Unsupported model bundle manifest format');
+  if (!Array.isArray(manifest.runtime) || !manifest.runtime.every(isBundleFile)) {
+    throw new Error('Model bundle manifest has an invalid runtime file list');
+  }
+  for (const model of manifest.models ?? []) {
+    if (typeof model?.model !== 'string' || typeof model.revision !== 'string' ||
+        !Array.isArray(model.files) || !model.files.every(isBundleFile)) {
+      throw new Error('Model bundle manifest has an invalid model entry');
+    }
+  }
+  return { ...manifest, models: manifest.models ?? [] };
+};
+
+// A response whose body fails to read: transformers.js swallows errors thrown by
+// cache lookups and would fall back to fetching, but a failing body aborts the load.
+const refusal = (error: Error): Response =>
+  new Response(new ReadableStream({ start: controller => controller.error(error) }));
+
+class ModelBundleStore {
+  private settings: ModelSourceSettings;
+  private manifestPromise: Promise<BundleManifest | null> | null = null;
+  private runtimePromise: Promise<void> | null = null;
+  private runtimeUrls: string[] = [];
+  private readonly defaultWasmPaths = env.backends.onnx.wasm?.wasmPaths;
+
+  constructor() {
+    this.settings = this.readSettings();
+  }
+
+  get source(): ModelSourceSettings {
+    return { ...this.settings };
+  }
+
+  get offline(): boolean {
+    return this.settings.mode !== 'remote';
+  }
+
+  configure(settings: ModelSourceSettings) {
+    this.settings = { mode: settings.mode, directory: normaliseDirectory(settings.directory) };
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Could not save model source settings:', error);
+    }
+    this.reset();
+    this.apply();
+  }
+
+  // Points transformers.js at the configured source
+  apply() {
+    env.localModelPath = this.settings.directory;
+    env.allowLocalModels = true;
+
+    if (!this.offline) {
+      env.allowRemoteModels = true;
+      env.useBrowserCache = true;
+      env.useCustomCache = false;
+      env.customCache = null;
+      if (env.backends.onnx.wasm) env.backends.onnx.wasm.wasmPaths = this.defaultWasmPaths;
+      return;
+    }
+
+    env.allowRemoteModels = false;
+    env.localModelPath = BUNDLE_MODEL_PATH;
+    // The browser cache holds unverified downloads, so only the bundle is consulted
+    env.useBrowserCache = false;
+    env.useCustomCache = true;
+    env.customCache = {
+      match: (key: string) => this.match(key),
+      put: async () => {}
+    };
+  }
+
+  // Called before a model is created; throws when offline and the bundle can't serve it
+  async prepare(definition: ModelDefinition) {
+    if (!isCommitRevision(definition.revision)) {
+      if (this.offline) throw new Error(`${definition.model} is not pinned to a commit in the model registry`);
+      console.warn(`${definition.model}@${definition.revision} is not pinned to a commit; results may change upstream`);
+      return;
+    }
+    if (!this.offline) return;
+
+    const manifest = await this.manifest();
+    if (!manifest) throw new Error(`No model bundle manifest found for ${this.describeSource()}`);
+
+    const entry = manifest.models.find(model => model.model === definition.model);
+    if (!entry) throw new Error(`${definition.model} is not in the offline model bundle`);
+    if (entry.revision !== definition.revision) {
+      throw new Error(`The bundle holds ${definition.model}@${entry.revision} but the registry pins ${definition.revision}`);
+    }
+
+    if (!this.runtimePromise) {
+      this.runtimePromise = this.prepareRuntime(manifest).catch(error => {
+        this.runtimePromise = null;
+        throw error;
+      });
+    }
+    await this.runtimePromise;
+  }
+
+  async manifest(): Promise<BundleManifest | null> {
+    if (!this.offline) return null;
+    if (!this.manifestPromise) {
+      this.manifestPromise = this.readFile(MANIFEST_NAME)
+        .then(async file => file ? parseManifest(await file.text()) : null)
+        .catch(error => {
+          this.manifestPromise = null;
+          throw error;
+        });
+    }
+    return this.manifestPromise;
+  }
+
+  async inventory(): Promise<InstalledModel[]> {
+    const capabilities = Object.keys(MODEL_REGISTRY) as ModelCapability[];
+
+    if (this.offline) {
+      const manifest = await this.manifest();
+      return capabilities.map(capability => {
+        const definition = MODEL_REGISTRY[capability];
+        const entry = manifest?.models.find(model => model.model === definition.model);
+        return {
+          capability,
+          definition,
+          installed: !!entry,
+          revision: entry?.revision ?? null,
+          files: entry?.files.length ?? 0,
+          size: entry?.files.reduce((sum, file) => sum + file.size, 0) ?? 0
+        };
+      });
+    }
+
+    // Online, "installed" means already downloaded into the transformers.js cache
+    const cache = typeof caches !== 'undefined' ? await caches.open(TRANSFORMERS_CACHE) : null;
+    const keys = cache ? await cache.keys() : [];
+    return Promise.all(capabilities.map(async capability => {
+      const definition = MODEL_REGISTRY[capability];
+      const prefix = this.remoteUrl(definition, '');
+      const cached = keys.filter(request => request.url.startsWith(prefix));
+      let size = 0;
+      for (const request of cached) {
+        const response = await cache.match(request);
+        const length = Number(response?.headers.get('content-length'));
+        size += Number.isFinite(length) && length > 0 ? length : (await response?.blob())?.size ?? 0;
+      }
+      return {
+        capability,
+        definition,
+        installed: cached.some(request => isWeightFile(request.url)),
+        revision: cached.length > 0 ? definition.revision : null,
+        files: cached.length,
+        size
+      };
+    }));
+  }
+
+  // Re-hashes every file the manifest lists
+  async verify(): Promise<BundleCheck[]> {
+    const manifest = await this.manifest();
+    if (!manifest) return [];
+
+    const check = async (name: string, root: string, files: BundleFile[]): Promise<BundleCheck> => {
+      const problems: string[] = [];
+      for (const file of files) {
+        try {
+          await this.readVerified(`${root}/${file.path}`, file);
+        } catch (error) {
+          problems.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+      return { name, problems };
+    };
+
+    const checks = [await check('ONNX runtime', RUNTIME_DIRECTORY, manifest.runtime)];
+    for (const model of manifest.models) {
+      checks.push(await check(model.model, model.model, model.files));
+    }
+    return checks;
+  }
+
+  // Verifies an archive against its own manifest and installs it as the bundle
+  async importArchive(archive: Blob): Promise<BundleManifest> {
+    const head = new Uint8Array(await archive.slice(0, 2).arrayBuffer());
+    const entries = await readTar(isGzip(head) ? await gunzip(archive) : archive);
+
+    // The manifest may sit at the root or inside a single top-level directory
+    const manifestEntry = entries
+      .filter(entry => entry.path === MANIFEST_NAME || entry.path.endsWith(`/${MANIFEST_NAME}`))
+      .sort((a, b) => a.path.length - b.path.length)[0];
+    if (!manifestEntry) throw new Error(`The archive has no ${MANIFEST_NAME}`);
+    const root = manifestEntry.path.slice(0, -MANIFEST_NAME.length);
+    const manifest = parseManifest(await manifestEntry.data.text());
+
+    const byPath = new Map<string, TarEntry>(entries.map(entry => [entry.path, entry]));
+    const listed: { path: string; file: BundleFile }[] = [
+      ...manifest.runtime.map(file => ({ path: `${RUNTIME_DIRECTORY}/${file.path}`, file })),
+      ...manifest.models.flatMap(model => model.files.map(file => ({ path: `${model.model}/${file.path}`, file })))
+    ];
+
+    const problems: string[] = [];
+    for (const { path, file } of listed) {
+      const entry = byPath.get(root + path);
+      if (!entry) problems.push(`${path} is missing from the archive`);
+      else if (entry.size !== file.size) problems.push(`${path} is ${entry.size} bytes, the manifest says ${file.size}`);
+      else if (await sha256(entry.data) !== file.sha256) problems.push(`${path} does not match its SHA-256`);
+    }
+    if (problems.length > 0) {
+      const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : '';
+      throw new Error(`Bundle rejected: ${problems[0]}${more}`);
+    }
+
+    await caches.delete(BUNDLE_CACHE);
+    const cache = await caches.open(BUNDLE_CACHE);
+    for (const { path } of listed) {
+      await cache.put(this.bundleKey(path), new Response(byPath.get(root + path).data));
+    }
+    // Written last so an interrupted import leaves no manifest behind
+    await cache.put(this.bundleKey(MANIFEST_NAME), new Response(manifestEntry.data));
+
+    this.reset();
+    return manifest;
+  }
+
+  // Downloads every registered model plus the ONNX runtime into one archive for
+  // machines without network access
+  async exportBundle(onFile?: (path: string) => void): Promise<Blob> {
+    if (this.offline) throw new Error('Switch the model source to remote to build a bundle');
+
+    const files: { path: string; data: Blob }[] = [];
+    const runtime: BundleFile[] = [];
+    const models: BundleModel[] = [];
+    const runtimeBase = typeof this.defaultWasmPaths === 'string' ? this.defaultWasmPaths : RUNTIME_CDN;
+
+    for (const name of RUNTIME_FILES) {
+      onFile?.(`${RUNTIME_DIRECTORY}/${name}`);
+      const data = await this.download(runtimeBase + name, true);
+      runtime.push({ path: name, size: data.size, sha256: await sha256(data) });
+      files.push({ path: `${RUNTIME_DIRECTORY}/${name}`, data });
+    }
+
+    const seen = new Set<string>();
+    const unpinned = Object.values(MODEL_REGISTRY).filter(definition => !isCommitRevision(definition.revision));
+    if (unpinned.length > 0) {
+      throw new Error(`Pin ${unpinned.map(definition => definition.model).join(', ')} to a commit in the model registry before building a bundle`);
+    }
+
+    for (const definition of Object.values(MODEL_REGISTRY)) {
+      if (seen.has(definition.model)) continue;
+      seen.add(definition.model);
+
+      const entry: BundleModel = { model: definition.model, revision: definition.revision, files: [] };
+      const add = async (path: string, required: boolean) => {
+        onFile?.(`${definition.model}/${path}`);
+        const data = await this.download(this.remoteUrl(definition, path), required);
+        if (!data) return null;
+        entry.files.push({ path, size: data.size, sha256: await sha256(data) });
+        files.push({ path: `${definition.model}/${path}`, data });
+        return data;
+      };
+
+      let config: { 'transformers.js_config'?: { use_external_data_format?: unknown } } = {};
+      for (const path of CONFIG_FILES) {
+        const data = await add(path, false);
+        if (data && path === 'config.json') config = JSON.parse(await data.text());
+      }
+
+      const weights = [...new Set(definition.devices.map(device => definition.dtype[device] ?? 'fp32'))]
+        .map(dtype => `onnx/model${DTYPE_SUFFIX[dtype] ?? ''}.onnx`);
+      const format = config['transformers.js_config']?.use_external_data_format;
+      for (const weight of weights) {
+        for (const path of [weight, ...externalDataFiles(format, 'model', weight)]) await add(path, true);
+      }
+      models.push(entry);
+    }
+
+    const manifest: BundleManifest = {
+      format: 1,
+      created: new Date().toISOString(),
+      runtimeVersion: env.version,
+      runtime,
+      models
+    };
+    const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+    return writeTar([{ path: MANIFEST_NAME, data: manifestBlob }, ...files]);
+  }
+
+  describeSource(): string {
+    return this.settings.mode === 'archive' ? 'the imported model bundle' : `the model directory ${this.settings.directory}`;
+  }
+
+  private readSettings(): ModelSourceSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+      if (stored && ['remote', 'directory', 'archive'].includes(stored.mode)) {
+        return { mode: stored.mode, directory: normaliseDirectory(String(stored.directory ?? '')) };
+      }
+    } catch (error) {
+      console.warn('Ignoring unreadable model source settings:', error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  private reset() {
+    this.manifestPromise = null;
+    this.runtimePromise = null;
+    for (const url of this.runtimeUrls) URL.revokeObjectURL(url);
+    this.runtimeUrls = [];
+  }
+
+  private bundleKey(path: string): string {
+    return new URL(`/__model-bundles__/${path}`, location.origin).toString();
+  }
+
+  private remoteUrl(definition: ModelDefinition, path: string): string {
+    const base = env.remoteHost.endsWith('/') ? env.remoteHost : `${env.remoteHost}/`;
+    return `${base}${definition.model}/resolve/${encodeURIComponent(definition.revision)}/${path}`;
+  }
+
+  // Reads a path relative to the bundle root from the configured offline source
+  private async readFile(path: string): Promise<Blob | null> {
+    if (this.settings.mode === 'archive') {
+      if (typeof caches === 'undefined') return null;
+      const response = await (await caches.open(BUNDLE_CACHE)).match(this.bundleKey(path));
+      return response ? response.blob() : null;
+    }
+    const response = await fetch(this.settings.directory + path);
+    return response.ok ? response.blob() : null;
+  }
+
+  private async readVerified(path: string, file: BundleFile): Promise<Blob> {
+    const data = await this.readFile(path);
+    if (!data) throw new Error(`${path} is missing from ${this.describeSource()}`);
+    if (data.size !== file.size) throw new Error(`${path} is ${data.size} bytes, the manifest says ${file.size}`);
+    if (await sha256(data) !== file.sha256) {
+      throw new Error(`${path} does not match its SHA-256 in the manifest; refusing to load it`);
+    }
+    return data;
+  }
+
+  // Serves the runtime from verified blob URLs instead of the CDN
+  private async prepareRuntime(manifest: BundleManifest) {
+    const urls: Record<string, string> = {};
+    for (const name of RUNTIME_FILES) {
+      const file = manifest.runtime.find(entry => entry.path === name);
+      if (!file) throw new Error(`The model bundle does not include the ONNX runtime file ${name}`);
+      const data = await this.readVerified(`${RUNTIME_DIRECTORY}/${name}`, file);
+      const type = name.endsWith('.wasm') ? 'application/wasm' : 'text/javascript';
+      const url = URL.createObjectURL(new Blob([data], { type }));
+      this.runtimeUrls.push(url);
+      urls[name.endsWith('.wasm') ? 'wasm' : 'mjs'] = url;
+    }
+    if (manifest.runtimeVersion !== env.version) {
+      console.warn(`Model bundle runtime was taken from transformers.js ${manifest.runtimeVersion}, the app uses ${env.version}`);
+    }
+    env.backends.onnx.wasm.wasmPaths = { mjs: urls.mjs, wasm: urls.wasm };
+  }
+
+  // transformers.js asks the cache for each file by local path, then by hub URL. Only files
+  // the manifest lists are served; anything else comes back undefined and, with no
+  // other source reachable, counts as missing.
+  private async match(key: string): Promise<Response | undefined> {
+    const manifest = await this.manifest().catch(() => null);
+    const relative = key.startsWith(env.localModelPath)
+      ? key.slice(env.localModelPath.length)
+      : key.replace(/^.*?:\/\/[^/]+\//, '').replace(/^(.+?)\/resolve\/[^/]+\//, '$1/');
+
+    const model = manifest?.models.find(entry => relative.startsWith(`${entry.model}/`));
+    const path = model ? relative.slice(model.model.length + 1) : relative;
+    const file = model?.files.find(entry => entry.path === path);
+
+    if (!file) {
+      // Optional files may be missing, but a missing weight file is worth a clear error
+      if (isWeightFile(path)) return refusal(new Error(`${relative} is not listed in the model bundle manifest`));
+      return undefined;
+    }
+    try {
+      return new Response(await this.readVerified(relative, file));
+    } catch (error) {
+      return refusal(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async download(url: string, required: boolean): Promise<Blob | null> {
+    const cached = typeof caches !== 'undefined' ? await (await caches.open(TRANSFORMERS_CACHE)).match(url) : undefined;
+    if (cached) return cached.blob();
+
+    const response = await fetch(url);
+    if (response.ok) return response.blob();
+    if (required) throw new Error(`Download failed (${response.status}): ${url}`);
+    return null;
+  }
+}
+
+export default ModelBundleStore;
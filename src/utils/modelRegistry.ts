@@ -0,0 +1,109 @@
+import type { DataType, DeviceType, PipelineType } from '@huggingface/transformers';
+
+// Every model the analyzers use, keyed by the capability they ask for.
+// Analyzers call `AIModelManager.load('<capability>')` and never name a model,
+// so swapping a model means editing its entry here and nothing else.
+//
+// `devices` is tried in order; the first backend that initialises wins.
+// `dtype` picks the weight precision per backend (transformers.js loads the
+// matching `onnx/model_<dtype>.onnx` file), and `revision` must be the full hub
+// commit SHA so an upstream push can't silently change results. An entry still
+// naming a branch loads with a warning, is flagged on the Models page and is
+// refused by the bundle export and the offline bundle check.
+
+export type ModelCapability =
+  | 'synthetic-image'
+  | 'zero-shot-image'
+  | 'sentiment'
+  | 'toxicity'
+  | 'text-embedding'
+  | 'face-parsing'
+  | 'image-embedding';
+
+// How a classifier's own labels map onto real vs generated. Matching ignores case.
+export interface LabelMapping {
+  synthetic: string[];
+  real: string[];
+}
+
+export interface ModelDefinition {
+  task: PipelineType;
+  model: string;
+  revision: string;
+  dtype: Partial<Record<DeviceType, DataType>>;
+  devices: DeviceType[];
+  purpose: string;
+  labels?: LabelMapping;
+}
+
+// Branches and tags can move; only a full commit SHA pins the weights
+export const isCommitRevision = (revision: string): boolean => /^[0-9a-f]{40}$/.test(revision);
+
+const GPU_FIRST: DeviceType[] = ['webgpu', 'wasm'];
+// transformers.js defaults: full precision on the GPU, 8-bit quantised on WASM
+const DEFAULT_DTYPE: Partial<Record<DeviceType, DataType>> = { webgpu: 'fp32', wasm: 'q8' };
+
+export const MODEL_REGISTRY: Record<ModelCapability, ModelDefinition> = {
+  'synthetic-image': {
+    task: 'image-classification',
+    // ViT fine-tuned on real photographs vs face-swapped and fully generated images
+    model: 'onnx-community/Deep-Fake-Detector-v2-Model-ONNX',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'Uncalibrated real-vs-generated label scores for an image and its main face, shown but not scored',
+    labels: {
+      synthetic: ['deepfake', 'fake', 'artificial', 'ai', 'ai-generated', 'generated', 'synthetic'],
+      real: ['realism', 'real', 'human', 'authentic', 'natural']
+    }
+  },
+  'zero-shot-image': {
+    task: 'zero-shot-image-classification',
+    model: 'Xenova/clip-vit-base-patch32',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'CLIP image-text similarity for the zero-shot "is this AI-generated" probe'
+  },
+  sentiment: {
+    task: 'sentiment-analysis',
+    model: 'cardiffnlp/twitter-roberta-base-sentiment-latest',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'Sentiment of usernames and posts in the social media analyzers'
+  },
+  toxicity: {
+    task: 'text-classification',
+    model: 'unitary/toxic-bert',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'Toxic and abusive language in social media profiles'
+  },
+  'text-embedding': {
+    task: 'feature-extraction',
+    model: 'sentence-transformers/all-MiniLM-L6-v2',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'Sentence embeddings for comparing account text'
+  },
+  'face-parsing': {
+    task: 'image-segmentation',
+    model: 'Xenova/face-parsing',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'Per-pixel face part masks for blending and boundary checks'
+  },
+  'image-embedding': {
+    task: 'image-feature-extraction',
+    // General ImageNet-21k ViT, not a face-recognition model: it can't tell identities apart
+    model: 'Xenova/vit-base-patch16-224-in21k',
+    revision: 'main',
+    dtype: DEFAULT_DTYPE,
+    devices: GPU_FIRST,
+    purpose: 'Generic image features of face crops for spotting frames where a face suddenly looks different'
+  }
+};
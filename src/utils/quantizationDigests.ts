@@ -0,0 +1,731 @@
+// Quantization table digests of known encoders, from ExifTool's Image::ExifTool::JPEGDigest
+// (v1.06, by Phil Harvey and Jens Duttke; free software under the same terms as Perl).
+// A key is the MD5 of the file's DQT segment payloads in table-index order, joined by zero
+// bytes, optionally followed by ':' and the hex sampling factors of each frame component.
+// The libjpeg (IJG) tables are left out because jpegForensics recognises those by value,
+// and so are the QuickTime video tables.
+
+export const EDITOR_QUANTIZATION_DIGESTS: Record<string, string> = {
+  '683506a889c78d9bc230a0c7ee5f62f3:221111': 'Adobe Photoshop, Quality 0',
+  'bc490651af6592cd1dbbbc4fa2cfa1fb:221111': 'Adobe Photoshop, Quality 1',
+  'ce4286d9f07999524c3c7472b065c5ab:221111': 'Adobe Photoshop, Quality 2',
+  'cbfbfef12aead8841585ef605c789b9f:221111': 'Adobe Photoshop, Quality 3',
+  'a0772e73dec2bdc4057c27da47bff376:221111': 'Adobe Photoshop, Quality 4',
+  '7ef06dbde538346b8b01c6b538ca70c6:221111': 'Adobe Photoshop, Quality 5',
+  '0ff225f58a214f79d1d85d78f6f5dab8:221111': 'Adobe Photoshop, Quality 6',
+  '8a8603650fa5ae5fdcf4b2eaf0b23638:111111': 'Adobe Photoshop, Quality 7',
+  '44f583ed6b65cb8ba915ec5df051616c:111111': 'Adobe Photoshop, Quality 8',
+  'de94c5591bafc7456ccaef430271b907:111111': 'Adobe Photoshop, Quality 9',
+  'a6841b35e9ffefa5d83a0445dddd2621:111111': 'Adobe Photoshop, Quality 10',
+  '6e3f6a3a5a1eae6155331d42d6f968dd:111111': 'Adobe Photoshop, Quality 11',
+  '5379e0133d4439b6f7c7039fc7f7734f:111111': 'Adobe Photoshop, Quality 12',
+  '8453391d3adf377c46a1a0cee08c35c3:221111': 'Adobe Lightroom, Quality 24% - 30%',
+  'f8ede291b1272576d1580e333d30103e:221111': 'Adobe Lightroom, Quality 31% - 38%',
+  'de0fb6d13e12e8df26140dd74691bf0f:221111': 'Adobe Lightroom, Quality 39% - 46%',
+  '0d5b0af72561f68c671731f22d9e41e2:221111': 'Adobe Lightroom, Quality 47% - 53%',
+  'b9fd15fd52408af5ea2a5045227233d8:111111': 'Adobe Lightroom, Quality 54% - 61%',
+  '27472e3714251402d5509438505611c3:111111': 'Adobe Lightroom, Quality 62% - 69%',
+  '34a599dff2b6aaed12143938b7374f2f:111111': 'Adobe Lightroom, Quality 70% - 76%',
+  '5c508e529d045b6f0c800e29ba2d6ab5:111111': 'Adobe Lightroom, Quality 77% - 84%',
+  '42bfe52476bf07f1ed0e6451903cc9ee:111111': 'Adobe Lightroom, Quality 85% - 92%',
+  '4c3c425b4024b68c0de03904a825bc35:111111': 'Adobe Lightroom, Quality 93% - 100%',
+  '3b0b5975a0e1c9d732c93e1b37a6978b:11': 'Adobe Photoshop, Quality 0',
+  'f4d19ed563e2d0519d6a547088771ddb:11': 'Adobe Photoshop, Quality 1',
+  'e9ef286567fd84a1f479b35ca00db43c:11': 'Adobe Photoshop, Quality 2',
+  'b39cafdb459a42749be3f6459a596677:11': 'Adobe Photoshop, Quality 3',
+  'b3f215deea48e982e205619af279205f:11': 'Adobe Photoshop, Quality 4',
+  'fccd63ce166e198065eaae05c8d78407:11': 'Adobe Photoshop, Quality 5',
+  '0a50266ad8d1dff11c90cd1480c0a2be:11': 'Adobe Photoshop, Quality 6',
+  '6579941db0216f41f0a20de9b626538a:11': 'Adobe Photoshop, Quality 7',
+  '57aa47876e10c6b4f35ecb8889e55ad9:11': 'Adobe Photoshop, Quality 8',
+  '076598d43c5186f6d7a1020b64b93625:11': 'Adobe Photoshop, Quality 9',
+  '37132e8ea81137fdf26ce30926ab8100:11': 'Adobe Photoshop, Quality 10',
+  '46f55ee294723cee9faa816549b3cfa7:11': 'Adobe Photoshop, Quality 11',
+  '7b83284f61decf47ab3f8f7361c18943:11': 'Adobe Photoshop, Quality 12',
+  '9ac881c536e509675e5cf3795a85d9de:221111': 'Adobe Photoshop, Save for web, Quality 0',
+  '3521d793fd9d2d9aac85dc4f0be40290:221111': 'Adobe Photoshop, Save for web, Quality 1',
+  '041c9e3cf0d34a8b89539e3115bca31b:221111': 'Adobe Photoshop, Save for web, Quality 2',
+  '029b3a6f0b92af6786d753788eafabfe:221111': 'Adobe Photoshop, Save for web, Quality 3',
+  '6cdd3762e346b16a59af4bddb213b07a:221111': 'Adobe Photoshop, Save for web, Quality 4',
+  '84a69c0b43505dd0cbc25d640873b5b9:221111': 'Adobe Photoshop, Save for web, Quality 5',
+  '7254c012821f2bc866d7d6dd7906c92d:221111': 'Adobe Photoshop, Save for web, Quality 6',
+  '428ba2c747ea4e495ff3c7ff44a988d2:221111': 'Adobe Photoshop, Save for web, Quality 7',
+  '42cb001aea7e24d239f6c2fcbd861862:221111': 'Adobe Photoshop, Save for web, Quality 8',
+  'a3698813ce90772a30b6eb9a7deb3f4a:221111': 'Adobe Photoshop, Save for web, Quality 9',
+  '301158b292e3232856a765486da26fa6:221111': 'Adobe Photoshop, Save for web, Quality 10',
+  '8d9edea9287aa919e433b620f61468dc:221111': 'Adobe Photoshop, Save for web, Quality 11',
+  'c1e0554d8a6ed003eb98e068429b56b9:221111': 'Adobe Photoshop, Save for web, Quality 12',
+  '0e0a151e0a52097cbd7683c9385e3a7c:221111': 'Adobe Photoshop, Save for web, Quality 13',
+  '911e66f21fe242cc74e0a5738b0330bd:221111': 'Adobe Photoshop, Save for web, Quality 14',
+  '028fafd94aa66ee269f58d800c89d838:221111': 'Adobe Photoshop, Save for web, Quality 15',
+  '866b8adb1ce7c9dc0e58b7c1e013280f:221111': 'Adobe Photoshop, Save for web, Quality 16',
+  '7f712aecf513621f635a007aadda61af:221111': 'Adobe Photoshop, Save for web, Quality 17',
+  '38f26622a54ba22accac05f7c0a3b307:221111': 'Adobe Photoshop, Save for web, Quality 18',
+  'd241d5165e64e98024b47dfbf76be88c:221111': 'Adobe Photoshop, Save for web, Quality 19',
+  'afb31cfed194d4e125bde8fd4755bb8a:221111': 'Adobe Photoshop, Save for web, Quality 20',
+  '0d501a036c984d2caf49fd298b2d0d16:221111': 'Adobe Photoshop, Save for web, Quality 21',
+  '9e992f35767c4aa023b8afd243b247bf:221111': 'Adobe Photoshop, Save for web, Quality 22',
+  '0a80e5bf01a9c5650384dfe1a428f61d:221111': 'Adobe Photoshop, Save for web, Quality 23',
+  '2501aad23cdf94b25c6df0ab6984b6e0:221111': 'Adobe Photoshop, Save for web, Quality 24',
+  '09c168d2e075070d3a2535e7f2e455df:221111': 'Adobe Photoshop, Save for web, Quality 25',
+  '63190207beeb805306f7d0bcc3898cb3:221111': 'Adobe Photoshop, Save for web, Quality 26',
+  'e47902bc7ba3037921010c568648c8c3:221111': 'Adobe Photoshop, Save for web, Quality 27',
+  '410ed63b6e5225d8b99da6272fd6069b:221111': 'Adobe Photoshop, Save for web, Quality 28',
+  'b40f3f3c46d70a560e2033fadd8c7bb5:221111': 'Adobe Photoshop, Save for web, Quality 29',
+  '45148ae63b12ccaa6fb5a487ca7620e9:221111': 'Adobe Photoshop, Save for web, Quality 30',
+  '5180e51bd58432c7b51a305ed0c24d1b:221111': 'Adobe Photoshop, Save for web, Quality 31',
+  'c5c472d899462bbe31da9aa8c072c0bc:221111': 'Adobe Photoshop, Save for web, Quality 32',
+  '28cdbc95898e02dd0ffc45ba48596ca7:221111': 'Adobe Photoshop, Save for web, Quality 33',
+  '42cd88e0eb3c14a705b952550ec2eacd:221111': 'Adobe Photoshop, Save for web, Quality 34',
+  '78a2a442aac5cca7fa2ef5a8bd96219e:221111': 'Adobe Photoshop, Save for web, Quality 35',
+  '96bce854134a2fccfcb68dca6687cd51:221111': 'Adobe Photoshop, Save for web, Quality 36',
+  'fefd00ec4610895e4294de690f5977e9:221111': 'Adobe Photoshop, Save for web, Quality 37',
+  'd71c8ddb9117920304d83a6f8b7832a4:221111': 'Adobe Photoshop, Save for web, Quality 38',
+  '1727e720300403e5f315b5e17ef84d3f:221111': 'Adobe Photoshop, Save for web, Quality 39',
+  '8fb05e3c3b0a7404ff6ca54f952d2a5e:221111': 'Adobe Photoshop, Save for web, Quality 40',
+  '328ab751ea48f5a8bc7c4b8628138ce0:221111': 'Adobe Photoshop, Save for web, Quality 41',
+  'd9653333a3af8842dd4b72856ac4ef4e:221111': 'Adobe Photoshop, Save for web, Quality 42',
+  '276da99e50e1b39134e13826789d655e:221111': 'Adobe Photoshop, Save for web, Quality 43',
+  '23f2bd2d96ec531815609503dae4a2b0:221111': 'Adobe Photoshop, Save for web, Quality 44',
+  'bafe2a89809f23bc7367e9a819570728:221111': 'Adobe Photoshop, Save for web, Quality 45',
+  '6bfdcd36327406f801be86d0e8ca6b60:221111': 'Adobe Photoshop, Save for web, Quality 46',
+  'eb8e5c42d31b916737ac21dffd6f012b:221111': 'Adobe Photoshop, Save for web, Quality 47',
+  'e57a9878be74473990343573c6585f79:221111': 'Adobe Photoshop, Save for web, Quality 48',
+  '91dfacd928ce717cb135c6da03afd907:221111': 'Adobe Photoshop, Save for web, Quality 49',
+  '16c443478b9417d44893f8748d49b790:221111': 'Adobe Photoshop, Save for web, Quality 50',
+  '84de345dcf710f937a39a0b631b87fc4:111111': 'Adobe Photoshop, Save for web, Quality 51',
+  'bdd6043e7f5a5f1512b99b2394a075e2:111111': 'Adobe Photoshop, Save for web, Quality 52',
+  'c7614d3d384a02630721be335062ef75:111111': 'Adobe Photoshop, Save for web, Quality 53',
+  '42d6f71aace3de2ccfdd8348b0198704:111111': 'Adobe Photoshop, Save for web, Quality 54',
+  '84d5f059ce3e1b78d91355e1e86e2d1a:111111': 'Adobe Photoshop, Save for web, Quality 55',
+  '5881004f575752d77ee00e767d848e51:111111': 'Adobe Photoshop, Save for web, Quality 56',
+  '0cb697537acde3d2e85078377461a8e0:111111': 'Adobe Photoshop, Save for web, Quality 57',
+  'b2762ffa5c0a1799fb2e9ad6dfd2171a:111111': 'Adobe Photoshop, Save for web, Quality 58',
+  '2b7a6a83259aa9967e098d3e70f1ee09:111111': 'Adobe Photoshop, Save for web, Quality 59',
+  '6123a3685e1012af5a0d024de1ce0304:111111': 'Adobe Photoshop, Save for web, Quality 60',
+  'd08c8435de33f2c186aa2dd9cba3e874:111111': 'Adobe Photoshop, Save for web, Quality 61',
+  'e69be2174dbbfb952e54576fbdfe6c14:111111': 'Adobe Photoshop, Save for web, Quality 62',
+  '2ec2d5c10641952fce5c435b331b8872:111111': 'Adobe Photoshop, Save for web, Quality 63',
+  '98201e1185b7069f1247ac3cdc56c824:111111': 'Adobe Photoshop, Save for web, Quality 64',
+  '8fc0325d05c9199bc1e2dec417c3a55e:111111': 'Adobe Photoshop, Save for web, Quality 65',
+  '016600f44a61cc5a5673c9bad85e23a3:111111': 'Adobe Photoshop, Save for web, Quality 66',
+  '91d7b4300c98c726aff7b19cbe098a3e:111111': 'Adobe Photoshop, Save for web, Quality 67',
+  'f9b83ba21b86a3d4ddb507e3edce490c:111111': 'Adobe Photoshop, Save for web, Quality 68',
+  'd312a23c8ecb3bf59bc11bbe17d79e55:111111': 'Adobe Photoshop, Save for web, Quality 69',
+  '240fffe5f8e2d8f3345b8175f9cb0a40:111111': 'Adobe Photoshop, Save for web, Quality 70',
+  'ba60a642bfb1a184c11e5561581d7115:111111': 'Adobe Photoshop, Save for web, Quality 71',
+  'c901580e589f58d309f8b50590cfe214:111111': 'Adobe Photoshop, Save for web, Quality 72',
+  'c244f94d84a016840c6ef06250c58ade:111111': 'Adobe Photoshop, Save for web, Quality 73',
+  '3589227bdd85f880f3337b492e895c5d:111111': 'Adobe Photoshop, Save for web, Quality 74',
+  'cae6fd91a423ff181d50bb9c26a0d392:111111': 'Adobe Photoshop, Save for web, Quality 75',
+  '7d8ee11ca66d2c22ff9ed1f778b5dbac:111111': 'Adobe Photoshop, Save for web, Quality 76',
+  'a16371762ce48953d42dfb5b77d1bfc6:111111': 'Adobe Photoshop, Save for web, Quality 77',
+  '204b111d4aaa85b430e86273a63fd004:111111': 'Adobe Photoshop, Save for web, Quality 78',
+  '6a243ac0b8575c2ed962070cd7d39e04:111111': 'Adobe Photoshop, Save for web, Quality 79',
+  '51879d6e5178d2282d5e8276ed4e2439:111111': 'Adobe Photoshop, Save for web, Quality 80',
+  'ca683ab6caaa3132bf661a0ebf32ef4e:111111': 'Adobe Photoshop, Save for web, Quality 81',
+  '5399adc3f21ecb30c96d6a94b38ab74c:111111': 'Adobe Photoshop, Save for web, Quality 82',
+  '43eb3b161279ccc1fb4f9cbe7b92398f:111111': 'Adobe Photoshop, Save for web, Quality 83',
+  '2d387641f4e94b6986908b3770fb762e:111111': 'Adobe Photoshop, Save for web, Quality 84',
+  '75ee5a0fd61559c6bf8e6ebc920c93b0:111111': 'Adobe Photoshop, Save for web, Quality 85',
+  '60d17e041a23d47b96c5aac86180a022:111111': 'Adobe Photoshop, Save for web, Quality 86',
+  '8e5290b1d12832ad259de92a53e1ef4e:111111': 'Adobe Photoshop, Save for web, Quality 87',
+  'dc19a48af9051bbdc54cf7e88c03f13e:111111': 'Adobe Photoshop, Save for web, Quality 88',
+  'c3fbc85c803ddc81c8882c03330b5b15:111111': 'Adobe Photoshop, Save for web, Quality 89',
+  '5e016a2d28f8ad3e7e27e4e2981031d2:111111': 'Adobe Photoshop, Save for web, Quality 90',
+  'ef4fa43f4d548e0687c4d4151a0bf1bd:111111': 'Adobe Photoshop, Save for web, Quality 91',
+  '00f03e367cd316b71de360c6e7af0e6b:111111': 'Adobe Photoshop, Save for web, Quality 92',
+  '982fc46fd167df238fbf23494a1ce761:111111': 'Adobe Photoshop, Save for web, Quality 93',
+  '6fd7b56ac6b58dc861e6021815fb5704:111111': 'Adobe Photoshop, Save for web, Quality 94',
+  'c6d9120293c8435cf6b40574b45756bb:111111': 'Adobe Photoshop, Save for web, Quality 95',
+  '1e133f4bf9f7c7c1e0accf44c0b1107d:111111': 'Adobe Photoshop, Save for web, Quality 96',
+  'fb91d6a8a1b72388d68130f551698865:111111': 'Adobe Photoshop, Save for web, Quality 97',
+  '4ea4e07900e04a3bd7572d4b59aa7a74:111111': 'Adobe Photoshop, Save for web, Quality 98',
+  '15e1d2321b96b355d4ad109a8d2fe882:111111': 'Adobe Photoshop, Save for web, Quality 99',
+  '234d8f310d75effc9f77beb1d3847f49:111111': 'Adobe Photoshop, Save for web, Quality 100',
+  'aeb34eb083acc888770d65e691497bcf:111111': 'Adobe Photoshop Express, Original Size',
+  'c44701e8185306f5e6d09be16a2b0fbd:221111': 'Nikon Capture NX, Quality 23',
+  '60cb2afa0cfa7395635a9360fc690b46:221111': 'Apple Aperture Quality 0',
+  '6b9be09d6ec6491a20c2827dbeb678c0:221111': 'Apple Aperture Quality 1',
+  'dbb17a02e661f2475411fc1dc37902ef:221111': 'Apple Aperture Quality 2',
+  '8a5df2b5337bf8251c3f66f6adbb5262:221111': 'Apple Aperture Quality 3',
+  '3841f0f3be30520a1a57f41c449588ee:221111': 'Apple Aperture Quality 4',
+  '2b1dba266c728a9f46d06e6e5c247953:221111': 'Apple Aperture Quality 5',
+  '93818f3a0e6d491500cb62e1f683da22:221111': 'Apple Aperture Quality 7',
+  '8c0c36696a99fd889e0f0c7d64824f3c:221111': 'Apple Aperture Quality 8',
+  '043645382c79035b6f2afc62d373a37f:221111': 'Apple Aperture Quality 9',
+  '558d017ce6d5b5282ce76727fe99b91e:221111': 'Apple Aperture Quality 10',
+  '0b52b82694040193aee10e8074cd7ad5:221111': 'Apple Aperture Quality 11',
+  '1c78c0daaa0bbfd4a1678b5569b0fa13': 'Corel Paint Shop Pro PHOTO, Quality 1',
+  '5ffdd2e918ec293efc79083703737290': 'Corel Paint Shop Pro PHOTO, Quality 2',
+  '4ed4751d772933938600c4e7560bf19c': 'Corel Paint Shop Pro PHOTO, Quality 3',
+  'f647f0fb4320c61f52e2a79d12bbc8cc': 'Corel Paint Shop Pro PHOTO, Quality 4',
+  '6194167174dfcb4a769cf26f5c7a018d': 'Corel Paint Shop Pro PHOTO, Quality 5',
+  '6120ded86d4cc42cd7ca2131b1f51fad': 'Corel Paint Shop Pro PHOTO, Quality 6',
+  'c07a6430e56ef16a0526673398e87ac6': 'Corel Paint Shop Pro PHOTO, Quality 7',
+  '507cc511e561916efa3b49228ffc8c9a': 'Corel Paint Shop Pro PHOTO, Quality 8',
+  '612941a50f2c0992938bc13106caf228': 'Corel Paint Shop Pro PHOTO, Quality 9',
+  '7624f08396d811fdb6f1ead575e67e58': 'Corel Paint Shop Pro PHOTO, Quality 10',
+  'e215df38e258b3d8bceb57aa64388d26': 'Corel Paint Shop Pro PHOTO, Quality 11',
+  '78f66ee0bc442950808e25daa02a2b02': 'Corel Paint Shop Pro PHOTO, Quality 12',
+  '14efb0bb5124910a37bcbd5f06de9aa9': 'Corel Paint Shop Pro PHOTO, Quality 13',
+  'd61168238621bd221ef1eb3dcbe270a3': 'Corel Paint Shop Pro PHOTO, Quality 14',
+  'e2d2755891b4e4bc5f7c8d76dcbb0d53': 'Corel Paint Shop Pro PHOTO, Quality 15',
+  'f6c4502144a2e5c82c07994d3cd01665': 'Corel Paint Shop Pro PHOTO, Quality 16',
+  '78801638505e95827c2f7cc0c7ef78f4': 'Corel Paint Shop Pro PHOTO, Quality 17',
+  'e8ff3d165b4c028c18ec8a8f940a12a1': 'Corel Paint Shop Pro PHOTO, Quality 18',
+  '984c359b9fbcc4d6f805946aa23ae708': 'Corel Paint Shop Pro PHOTO, Quality 19',
+  'd1dc48d911055bc533779d6e086f7242': 'Corel Paint Shop Pro PHOTO, Quality 20',
+  'd7437a18e86ac2832d73204acd82aa89': 'Corel Paint Shop Pro PHOTO, Quality 21',
+  'bceaee6c1a150006b3643de6942ccfa3': 'Corel Paint Shop Pro PHOTO, Quality 22',
+  'c448e6817efa9acdad225e60ed0013f9': 'Corel Paint Shop Pro PHOTO, Quality 23',
+  '904f231c98f390400ba7ae17c252813f': 'Corel Paint Shop Pro PHOTO, Quality 24',
+  'ccd6708ca1dbd66a23d40cee635a0f76': 'Corel Paint Shop Pro PHOTO, Quality 25',
+  '10d87624d888b75b29e156be8dad35f4': 'Corel Paint Shop Pro PHOTO, Quality 26',
+  '8558c6d41f03db192198dceefbd1e89b': 'Corel Paint Shop Pro PHOTO, Quality 27',
+  '058fc759cff9d615f91d9ffb4b46436a': 'Corel Paint Shop Pro PHOTO, Quality 28',
+  '5c606e0f7168a78fd8d0c91646c801a3': 'Corel Paint Shop Pro PHOTO, Quality 29',
+  'e9555e593a6fd9aeee399de16080cd61': 'Corel Paint Shop Pro PHOTO, Quality 30',
+  '2c2726484978a15d3d756d43b0baa290': 'Corel Paint Shop Pro PHOTO, Quality 31',
+  '8b1d11d31bc9445278cf9af55b0c156b': 'Corel Paint Shop Pro PHOTO, Quality 32',
+  'aa4a5528ae18ecd36ec052014b91f651': 'Corel Paint Shop Pro PHOTO, Quality 33',
+  '9a26194b114b7db253601ff80b03da9a': 'Corel Paint Shop Pro PHOTO, Quality 34',
+  '3fa780a3dff1d787f7d883585a46dcfb': 'Corel Paint Shop Pro PHOTO, Quality 35',
+  '0a899361ed0d51e224dc535ceb02f9a1': 'Corel Paint Shop Pro PHOTO, Quality 36',
+  '3a2ab96a6ad9612e1377ddc822f02ddd': 'Corel Paint Shop Pro PHOTO, Quality 37',
+  '315f4faadd967e72d730155091c4912f': 'Corel Paint Shop Pro PHOTO, Quality 38',
+  '5f6e3a66672d6e4c41b1689996ca57d3': 'Corel Paint Shop Pro PHOTO, Quality 39',
+  '9503a86793e86d1fca3d8797548fa243': 'Corel Paint Shop Pro PHOTO, Quality 40',
+  '3b95f11bd77cb8af977c09d5851131f8': 'Corel Paint Shop Pro PHOTO, Quality 41',
+  'ececf8dfa473110534b506db58d98f15': 'Corel Paint Shop Pro PHOTO, Quality 42',
+  'cfe3144d4f8048a0507269a9d8a85993': 'Corel Paint Shop Pro PHOTO, Quality 43',
+  'eb9d48d135b2c61c51fc3f23b0001b4d': 'Corel Paint Shop Pro PHOTO, Quality 44',
+  'b08313a6919d308e50b806f138a8a2a1': 'Corel Paint Shop Pro PHOTO, Quality 45',
+  '7c34e6e7fe2cc760fa5c3ed812a8b74c': 'Corel Paint Shop Pro PHOTO, Quality 46',
+  '90ece7123e8d614d9aab55eaba6dd7da': 'Corel Paint Shop Pro PHOTO, Quality 47',
+  '6d79fe623c4c5320bdbe4d3026f4e71a': 'Corel Paint Shop Pro PHOTO, Quality 48',
+  'a7e85552c3e5e40288891d225f308590': 'Corel Paint Shop Pro PHOTO, Quality 49',
+  '67b9a678d9f669167c5b4bf12422ad50': 'Corel Paint Shop Pro PHOTO, Quality 50',
+  '1fab112b17e94f53e94a9208e9091b7b': 'Corel Paint Shop Pro PHOTO, Quality 51',
+  '4971237e046795a030a99a0e8d2c5acb': 'Corel Paint Shop Pro PHOTO, Quality 52',
+  'f3e1672b93ff159231c51b1b157e45fd': 'Corel Paint Shop Pro PHOTO, Quality 53',
+  '6e9cfb8131373c3d1873e3f497e46b64': 'Corel Paint Shop Pro PHOTO, Quality 54',
+  '9155c8acf8322e8af898272c694fa1d6': 'Corel Paint Shop Pro PHOTO, Quality 55',
+  '52b20edc779f206f2aed50610971f181': 'Corel Paint Shop Pro PHOTO, Quality 56',
+  'ad801813f822ef9774801ab4d9145a61': 'Corel Paint Shop Pro PHOTO, Quality 57',
+  '07259679e2a842478df97c7f0ddd4df3': 'Corel Paint Shop Pro PHOTO, Quality 58',
+  '67db25c57803c34b065736f46f6afadb': 'Corel Paint Shop Pro PHOTO, Quality 59',
+  'c7498fc4b3802b290a452631dd1e1b63': 'Corel Paint Shop Pro PHOTO, Quality 60',
+  '3f7b04c7952f96d2624813ed9896f128': 'Corel Paint Shop Pro PHOTO, Quality 61',
+  'd5ec901d20f3887007d0f4cfb7d1460d': 'Corel Paint Shop Pro PHOTO, Quality 62',
+  '61bb38e23040b6a8b0e8721e6d6eff66': 'Corel Paint Shop Pro PHOTO, Quality 63',
+  '48fac53d9d168eab3ce9b6edc4b9fcb1': 'Corel Paint Shop Pro PHOTO, Quality 64',
+  '8cb101a5ae986e45cc31a9e19a35535d': 'Corel Paint Shop Pro PHOTO, Quality 65',
+  '0e08dc629e883530cb2ae78c90f125b3': 'Corel Paint Shop Pro PHOTO, Quality 66',
+  '5134762d2d4baac8711a52e76730591c': 'Corel Paint Shop Pro PHOTO, Quality 67',
+  '14b57dc6d5381fd0a743c7bd8b28bed1': 'Corel Paint Shop Pro PHOTO, Quality 68',
+  '9d398f1b1f40b7aaec1bd9cdb6922530': 'Corel Paint Shop Pro PHOTO, Quality 69',
+  'c7e68d88bee5c2ee4b61a11bc2e68c80': 'Corel Paint Shop Pro PHOTO, Quality 70',
+  '917fe67f6ded5decac1820642239622c': 'Corel Paint Shop Pro PHOTO, Quality 71',
+  '362c3e0c08f6951018cde7b412cd513f': 'Corel Paint Shop Pro PHOTO, Quality 72',
+  'd91cd4a2dcd1a29e6ef652ebcfdd58d7': 'Corel Paint Shop Pro PHOTO, Quality 73',
+  '11f5fbd5e74e5c5e305b95dbbc4356a8': 'Corel Paint Shop Pro PHOTO, Quality 74',
+  'bf010771f909049fc5fceedcaa0f917c': 'Corel Paint Shop Pro PHOTO, Quality 75',
+  'a455a3149812ba6951a016ee6114f9da': 'Corel Paint Shop Pro PHOTO, Quality 76',
+  '42e0c4082ec4d026c77d19a053a983f4': 'Corel Paint Shop Pro PHOTO, Quality 77',
+  '326bd5938e2db7de9250a9fb0efc6692': 'Corel Paint Shop Pro PHOTO, Quality 78',
+  'a3e2cc4ea95cda49501bc73c494e9420': 'Corel Paint Shop Pro PHOTO, Quality 79',
+  '8c89043f00678bb5c68ee90390c1b43b': 'Corel Paint Shop Pro PHOTO, Quality 80',
+  'fc5812ad9a4cd0122eb1c63f0ac3b5a3': 'Corel Paint Shop Pro PHOTO, Quality 81',
+  '84dbe33962674aab86e03681ac3bd35f': 'Corel Paint Shop Pro PHOTO, Quality 82',
+  'b6b80a78472dca05c9135702e96fdad9': 'Corel Paint Shop Pro PHOTO, Quality 83',
+  '01f997907a4c1dfd1e6b00aca9ff5d80': 'Corel Paint Shop Pro PHOTO, Quality 84',
+  '8431e86434062b325c519fd836353cd0': 'Corel Paint Shop Pro PHOTO, Quality 85',
+  '15f375a620952738ff21ff4aa496b8f7': 'Corel Paint Shop Pro PHOTO, Quality 86',
+  '7b0f02aa96271376d3f81658d98fb1df': 'Corel Paint Shop Pro PHOTO, Quality 87',
+  '86e7666b05bd1fc130fbf4b48f854288': 'Corel Paint Shop Pro PHOTO, Quality 88',
+  '6af05d547e8911fe2d1f2b4d968a477e': 'Corel Paint Shop Pro PHOTO, Quality 89',
+  '8baa876790518bf509dd09093759331d': 'Corel Paint Shop Pro PHOTO, Quality 90',
+  'eb7d90d291044d1bd8f40ca1b3ce0ddf': 'Corel Paint Shop Pro PHOTO, Quality 91',
+  '6f338385a8f2cd2dd3420a4f6138a206': 'Corel Paint Shop Pro PHOTO, Quality 92',
+  'b0a0fd1ec2dd366ad00d3e83d6dedec2': 'Corel Paint Shop Pro PHOTO, Quality 93',
+  'e09026128c9880b44ac71224f477cd3b': 'Corel Paint Shop Pro PHOTO, Quality 94',
+  'd0a8f50ff547da69a57eeb892e194cff': 'Corel Paint Shop Pro PHOTO, Quality 95',
+  '7849ba902d96273b5ac7b6eb98f4d009': 'Corel Paint Shop Pro PHOTO, Quality 96',
+  '379f9f196d4190298a732ab9a7031001': 'Corel Paint Shop Pro PHOTO, Quality 97',
+  'c3d1601f84ec3adfbc8ca17883ef6378': 'Corel Paint Shop Pro PHOTO, Quality 98',
+  '1f5e87bec674bdd7dff166c2ea9ca004': 'Corel Paint Shop Pro PHOTO, Quality 99',
+  '866dd04cb0fe2e00cda7395162480117': 'FixFoto, Quality 0 or 1',
+  '1e400ba25fa835e2771772bbfb15b94b': 'FixFoto, Quality 2',
+  '302ff1ad1a50d0f01a82cc88f286c649': 'FixFoto, Quality 3',
+  '1343a117f5fab26d556a3e7558366591': 'FixFoto, Quality 4',
+  '8fbb8cc5368224625689df80bf4d2a04': 'FixFoto, Quality 5',
+  'a371d1ffc8d85d502854a356f3b0ea74': 'FixFoto, Quality 6',
+  'a9a0a5000cd6fb322960a4c45cf1d032': 'FixFoto, Quality 7',
+  'aaac84043224d33e1d3a1723b653b0cd': 'FixFoto, Quality 8',
+  '701e4820f6d0b68e67b6a2b90a7baa0c': 'FixFoto, Quality 9',
+  '877d03a5abf5b6c4ad03c39afd97f4a2': 'FixFoto, Quality 10',
+  'b3d9bdc2090200537fb42f4d69631150': 'FixFoto, Quality 11',
+  '3cf156d54120b53057f56e9f38ee2896': 'FixFoto, Quality 12',
+  '69fe5c29b9d5e4c823f8a082ab7b3285': 'FixFoto, Quality 13',
+  'cf8573af40ced1793dcbc2346f969240': 'FixFoto, Quality 14',
+  '22944c3bc03d6adea8d6819f914452c3': 'FixFoto, Quality 15',
+  'd768df38fb51c4b9977e5d7185f97a6c': 'FixFoto, Quality 16',
+  '7ef2cd2b66d51fe80d94d5db427ee9ef': 'FixFoto, Quality 17',
+  'ed3d3b9ff9faf0009e44b9803f6295d7': 'FixFoto, Quality 18',
+  '70a0b15e2e5f97e0a9333a2011afe5cd': 'FixFoto, Quality 19',
+  'd798b707a6b83eb54664abe0833b46aa': 'FixFoto, Quality 20',
+  'bf68d1866b75cea8f99cf2fc46f9d686': 'FixFoto, Quality 21',
+  'b98b8adb8f1f78b65800efe6c329ceab': 'FixFoto, Quality 22',
+  'c063344185079018af9fcf161a3fdf98': 'FixFoto, Quality 23',
+  '0ef9d9f62ab68807eedf6cb8c2ec120b:221111': 'Nikon Capture NX, Quality 0',
+  'efbc50df45bc1d1fbbbd29c3e5de04b2:221111': 'Nikon Capture NX, Quality 1',
+  'cbde745c78fd546d6e83dd7512ebe863:221111': 'Nikon Capture NX, Quality 2',
+  '33731f743fc28e9d81e542f0ed7cdfba:221111': 'Nikon Capture NX, Quality 3',
+  '866fcb1296d7da02b4ad31afb242f25f:221111': 'Nikon Capture NX, Quality 4',
+  'cfbe44397240092d3a67241a23342528:221111': 'Nikon Capture NX, Quality 5',
+  'a4b8b3408ae302ae81f125e972901131:221111': 'Nikon Capture NX, Quality 6',
+  '3a6cefd4f43c513fdf0858f26afeab5a:221111': 'Nikon Capture NX, Quality 7',
+  '1e861ce223babf95bc795e18cbdb49d1:221111': 'Nikon Capture NX, Quality 8',
+  '4d5b512d8bc173f14e6a3cf8574f670a:221111': 'Nikon Capture NX, Quality 9',
+  '9b1e6d379d3030dfa313bcaedc1ef3c7:221111': 'Nikon Capture NX, Quality 10',
+  'e39b60fcecf3221d14c62dc13ddf4726:221111': 'Nikon Capture NX, Quality 11',
+  '3654bbf4a45e0c0758a82a075b3f77cc:221111': 'Nikon Capture NX, Quality 12',
+  '4f5889173779409ec604622a1894ab4a:221111': 'Nikon Capture NX, Quality 13',
+  '738685b86b80ff0e8b562102d1b58f71:221111': 'Nikon Capture NX, Quality 14',
+  '48a53035374c08e6490893d8113ed6b3:221111': 'Nikon Capture NX, Quality 15',
+  '03651ac1d15043f77949a63ac3762584:221111': 'Nikon Capture NX, Quality 16',
+  '27811b28d02bd417857904f0a9e1ed58:221111': 'Nikon Capture NX, Quality 17',
+  '03201bd5642a451d99b99bfd10fc42df:221111': 'Nikon Capture NX, Quality 18',
+  '67d5eb5f55c9a5baa0a67d42a841d77b:221111': 'Nikon Capture NX, Quality 19',
+  '18392b08bf8cf788a579f376297c3334:221111': 'Nikon Capture NX, Quality 20',
+  'de0c784b75953851dc370f4daecfa1a9:221111': 'Nikon Capture NX, Quality 21',
+  '75f260644b87a9779188126da8709e7f:221111': 'Nikon Capture NX, Quality 22',
+  '086e5ce1149e14efd9e424956734fe05:221111': 'Nikon Capture NX, Quality 24',
+  'aad1109d9c49b8170feac125148b2a50:221111': 'Nikon Capture NX, Quality 25',
+  'c97965ce5392623f668a386b30e41cee:221111': 'Nikon Capture NX, Quality 26',
+  'd9dadfb6f0a25765abe00e69857c5520:221111': 'Nikon Capture NX, Quality 27',
+  '0ee9ca02a1fe8a17b6e50a2e86d19a7c:221111': 'Nikon Capture NX, Quality 28',
+  '88b1726a20759f29eecfa2b129773127:221111': 'Nikon Capture NX, Quality 29',
+  '70a311935ed066da954897fad5079377:221111': 'Nikon Capture NX, Quality 30',
+  'aa2d374bbab2a30e00c1863264588a42:221111': 'Nikon Capture NX, Quality 31',
+  '097b684846696b3a8bbdf2bd2f9ded9c:221111': 'Nikon Capture NX, Quality 32',
+  'bb313d5398065376c7765092fc8ea0f0:221111': 'Nikon Capture NX, Quality 33',
+  'aa049fdc1387851a664143df0408f55c:221111': 'Nikon Capture NX, Quality 34',
+  '087c1c1a368adc82900d83235f432d3f:221111': 'Nikon Capture NX, Quality 35',
+  '7dec6568dbad7a70622c994a326957e2:221111': 'Nikon Capture NX, Quality 36',
+  'd2e14d8ba7d38f7544b569eea7221255:221111': 'Nikon Capture NX, Quality 37',
+  'ce6bcb98c5f9358594f5934e64b4ecc3:221111': 'Nikon Capture NX, Quality 38',
+  '4785aafc8471873402819e423b8969a9:221111': 'Nikon Capture NX, Quality 39',
+  '66ae78a749b520b35d4daf4531df8ae5:221111': 'Nikon Capture NX, Quality 40',
+  '946d9f9346a0c65eec478945ad3d6143:221111': 'Nikon Capture NX, Quality 41',
+  'f46e96afa026233c1662c9114feb61e9:221111': 'Nikon Capture NX, Quality 42',
+  '96a267e050b6d8a13439f8a9bb89722c:221111': 'Nikon Capture NX, Quality 43',
+  '27c301566e155f700b01906a43473ffe:221111': 'Nikon Capture NX, Quality 44',
+  'ceff136f6dd88242500bfd639cb0c003:221111': 'Nikon Capture NX, Quality 45',
+  '939b804eefc95158a934bb48e3f3b545:221111': 'Nikon Capture NX, Quality 46',
+  '06186292fe0ccaaeb5999319a366c4b4:221111': 'Nikon Capture NX, Quality 47',
+  'e456c998dc126c1efad013eb7b0186c1:221111': 'Nikon Capture NX, Quality 48',
+  'ef0cd1902fb1afe284468a67eaffd078:221111': 'Nikon Capture NX, Quality 49',
+  'f4693035f8db19e0788f41255c3c052e:221111': 'Nikon Capture NX, Quality 50',
+  '40c6f2886cdca8f19a654ce321ea993e:221111': 'Nikon Capture NX, Quality 51',
+  'e9387b4065bba8570375d6535ab2124b:221111': 'Nikon Capture NX, Quality 52',
+  'f3a55e422a4ab829b2c1f5a1784ce9f6:221111': 'Nikon Capture NX, Quality 53',
+  '2fff3c6e48247992d1543d9e5c679759:221111': 'Nikon Capture NX, Quality 54',
+  '5a1849b49122ff09949f1d355b4f9eaa:221111': 'Nikon Capture NX, Quality 55',
+  'a582968bb1890620ffbae916ebafcb64:221111': 'Nikon Capture NX, Quality 56',
+  '81597eb992e32e186d2b5565bbe4ae3a:221111': 'Nikon Capture NX, Quality 57',
+  '7364416ce4f2a9282efdbe052574527b:221111': 'Nikon Capture NX, Quality 58',
+  '5301c2bcae09fd4305e47ffc56b2c8a7:221111': 'Nikon Capture NX, Quality 59',
+  '5a1849b49122ff09949f1d355b4f9eaa:211111': 'Nikon Capture NX, Quality 60',
+  '9be2446f168941ff42d9fc7441f2429b:211111': 'Nikon Capture NX, Quality 61',
+  'bbba80e58afae43278e287021d4f1499:211111': 'Nikon Capture NX, Quality 62',
+  '2a9ae394dc32a418960522cbe9c6df24:211111': 'Nikon Capture NX, Quality 63',
+  '67fbe0dce139b6db1813e30bbbceccf3:211111': 'Nikon Capture NX, Quality 64',
+  '17bce376f588ebf2b3e9002a337c239d:211111': 'Nikon Capture NX, Quality 65',
+  'cd2c6c01d8eb8d985086b54e2269278a:211111': 'Nikon Capture NX, Quality 66',
+  '34b25782fc089616807bbbe7f7cd8413:211111': 'Nikon Capture NX, Quality 67',
+  '37b8bbab382a228eabb0dc64c0edcb0f:211111': 'Nikon Capture NX, Quality 68',
+  'b163f35baed567d70aa2536695558724:211111': 'Nikon Capture NX, Quality 69',
+  '251eb2d7903f63b168348ec483ba499a:211111': 'Nikon Capture NX, Quality 70',
+  '42e7cdf33b9067a7124dd27020704f9a:211111': 'Nikon Capture NX, Quality 71',
+  '032678d9de74e5530896c28079f666af:211111': 'Nikon Capture NX, Quality 72',
+  '30d7b6db02954dfc4ce47a089d0f40d9:211111': 'Nikon Capture NX, Quality 73',
+  '5c1a40094128ac76eab0405dcb4ae3c7:211111': 'Nikon Capture NX, Quality 74',
+  '2706b8b0cf6686148e285b6d3e44dd72:211111': 'Nikon Capture NX, Quality 75',
+  '6ca4a27cb36f35ab84b0e2df06bb32f4:211111': 'Nikon Capture NX, Quality 76',
+  '6f9cae52d3f47f514f7c927314455a5a:211111': 'Nikon Capture NX, Quality 77',
+  'c0204862b8aafa2c286c7b58d755c31f:211111': 'Nikon Capture NX, Quality 78',
+  'd8ef40736b072f09bead5f73f5ec1372:211111': 'Nikon Capture NX, Quality 79',
+  '8c389c29eca238b3b331f65f7e124a27:111111': 'Nikon Capture NX, Quality 80',
+  '6f9cae52d3f47f514f7c927314455a5a:111111': 'Nikon Capture NX, Quality 81',
+  '8e1ceace8fafe31282393d8677e76994:111111': 'Nikon Capture NX, Quality 82',
+  '60f75a915647ed50d1724179d50a35d2:111111': 'Nikon Capture NX, Quality 83',
+  'df54eb20ec90f41f1e6c37e241ee381c:111111': 'Nikon Capture NX, Quality 84',
+  '5522213c915e2af3ad01ee2ec27ee3ed:111111': 'Nikon Capture NX, Quality 85',
+  '08c063f0997262d9977df4b44e682d82:111111': 'Nikon Capture NX, Quality 86',
+  'd2e34c70872ac119dda6bdeeb36bf229:111111': 'Nikon Capture NX, Quality 87',
+  'e5abf48ce0cc2b4a3db7eca3a1112b7a:111111': 'Nikon Capture NX, Quality 88',
+  'b69dcb672088f296323d891219464ad8:111111': 'Nikon Capture NX, Quality 89',
+  'b6d1c6efb27ea721577888b5f981ad7b:111111': 'Nikon Capture NX, Quality 90',
+  'b023f424f81c8cbbab20119c06163dce:111111': 'Nikon Capture NX, Quality 91',
+  '77f680490d08697cb0f11ff3fe76b7e8:111111': 'Nikon Capture NX, Quality 92',
+  '1860106097672532e7ebc2026d7f9681:111111': 'Nikon Capture NX, Quality 93',
+  '0c7d4861b3bee5d766a93f2d34027bfa:111111': 'Nikon Capture NX, Quality 94',
+  '3adf9a0b85a4000243bbf833cd8e6966:111111': 'Nikon Capture NX, Quality 95',
+  '9530dfffc5574606841a597212ec25b4:111111': 'Nikon Capture NX, Quality 96',
+  'c7294290fe26155147072f9041705cfb:111111': 'Nikon Capture NX, Quality 97',
+  'c24c44a4dadd77c15e0b4c741a2d4bd5:111111': 'Nikon Capture NX, Quality 98',
+  '36016cd5527c505ef3bbba8b3e22f9db:111111': 'Nikon Capture NX, Quality 99',
+  'c9309ab058680151be5f97e6c54dc687:111111': 'Nikon Capture NX, Quality 100',
+  '2ab2f6a116ca6fc0bbf188b19b9de967': 'ACD Systems Digital Imaging, Quality 0 or 1',
+  'f4f9d5c07c78e8700a6f3def0782a18e': 'ACD Systems Digital Imaging, Quality 2',
+  '66fc410ab8f71a7fdef86fd70b742dc1': 'ACD Systems Digital Imaging, Quality 3',
+  '8e763b5b9255df1f4cb7b9732e99c210': 'ACD Systems Digital Imaging, Quality 4',
+  'fd3eed19f6667ab0bedfa3263390ce25': 'ACD Systems Digital Imaging, Quality 5 or 6',
+  'dc0dc92085037072e27247f64af0f22d': 'ACD Systems Digital Imaging, Quality 7',
+  '233ed690eb7e9008c20ed16e79aa3eb5': 'ACD Systems Digital Imaging, Quality 8',
+  '684649f6c1590f5a912a827a6d8bfc6b': 'ACD Systems Digital Imaging, Quality 9',
+  'ed6aec096e8776b483b2c2b3d7e15d76': 'ACD Systems Digital Imaging, Quality 10 or 11',
+  '9cd85933ddb1101d9b859a19e9a30334': 'ACD Systems Digital Imaging, Quality 12',
+  '222a8769205a592ec834b6f5fc654a21': 'ACD Systems Digital Imaging, Quality 13',
+  '29f957e2a0af0f44d271c3c4e27eec4b': 'ACD Systems Digital Imaging, Quality 14',
+  'c46c764191f9c3db2bfe8d134512bcd8': 'ACD Systems Digital Imaging, Quality 15 or 16',
+  '56caa684ce7eb0b1cf662e1c88ed1614': 'ACD Systems Digital Imaging, Quality 17',
+  'cedc5208c6e1cbffd8be0e47bfd76698': 'ACD Systems Digital Imaging, Quality 18',
+  'dec0717305bae8309a934e1d6a251d88': 'ACD Systems Digital Imaging, Quality 19',
+  '8c85e0e8f41257e2cd739a5b158ec218': 'ACD Systems Digital Imaging, Quality 20 or 21',
+  '6ae7ab4e6d5e0e67006cca59c70f843c': 'ACD Systems Digital Imaging, Quality 22',
+  '840be626ed18db6cdef3c5c357e24d34': 'ACD Systems Digital Imaging, Quality 23',
+  'd48c2b9e514e25fcc4b3f2408d168d72': 'ACD Systems Digital Imaging, Quality 24',
+  'b9eb63b89c80c71f4eac8c6e27d272f1': 'ACD Systems Digital Imaging, Quality 25 or 26',
+  'bcd4d36a9db91a51d1a571f71f8230d4': 'ACD Systems Digital Imaging, Quality 27',
+  'ac2f66ab2559019fcf021b9a32b049ab': 'ACD Systems Digital Imaging, Quality 28',
+  '4208fca702ec702bd5d41c8231883057': 'ACD Systems Digital Imaging, Quality 29',
+  'fa620c67ab09a4c0d1c5b8e65ade361e': 'ACD Systems Digital Imaging, Quality 30 or 31',
+  '679dea81c8d4563e07efac4fab6b89ca': 'ACD Systems Digital Imaging, Quality 32',
+  '43ceb0c1a5d94d55ee20dc3a168498b2': 'ACD Systems Digital Imaging, Quality 33',
+  'a9cc8a19ae25bc024c3d92d84c13c7a5': 'ACD Systems Digital Imaging, Quality 34',
+  'e3e7280c8a9e82d31e22d24d5b733580': 'ACD Systems Digital Imaging, Quality 35 or 36',
+  'a06d250213e349005897bd6fa5bebca8': 'ACD Systems Digital Imaging, Quality 37',
+  '40d08b823fa60b838dd9998d1e2b550a': 'ACD Systems Digital Imaging, Quality 38',
+  '4998abefc838e35cf0180395309e2e33': 'ACD Systems Digital Imaging, Quality 39',
+  '280205c47c8d3706c2f36b1986e9b149': 'ACD Systems Digital Imaging, Quality 40 or 41',
+  '8534b67f8115ddc0296623a1ed3fc8ec': 'ACD Systems Digital Imaging, Quality 42',
+  '292b83b37765408b65f496cddd3f96ea': 'ACD Systems Digital Imaging, Quality 43',
+  'cae0c8eb9a11a1f6eb7eca9651d8dbc0': 'ACD Systems Digital Imaging, Quality 44',
+  '078db0d0bffafa44def2e8b85eec26f6': 'ACD Systems Digital Imaging, Quality 45 or 46',
+  '6a26a11cc28df00e01d5979e2e0fb4f7': 'ACD Systems Digital Imaging, Quality 47',
+  'b41b3d226ba21244b8070ba719ec721a': 'ACD Systems Digital Imaging, Quality 48',
+  '9a8a54328e297faa0a546c46145c9aa8': 'ACD Systems Digital Imaging, Quality 49',
+  '256e617be51dade18503fcbbe87cd4a6': 'ACD Systems Digital Imaging, Quality 50 or 51',
+  '064f160a8504465551738c9071f3850f': 'ACD Systems Digital Imaging, Quality 52',
+  '5aef4c0bc6a5c8f1baded29946a56310': 'ACD Systems Digital Imaging, Quality 53',
+  'c20f4841a1ff7e393af8f6ea4124403c': 'ACD Systems Digital Imaging, Quality 54',
+  '14afe9b58e0eacef42db61e1d7fdd09c': 'ACD Systems Digital Imaging, Quality 55 or 56',
+  '147598404233439485574200e253f88e': 'ACD Systems Digital Imaging, Quality 57',
+  '17479c1e73d2c062872c871db80d949b': 'ACD Systems Digital Imaging, Quality 58',
+  'd237b1202f88ba8183bc1cb69dd4be66': 'ACD Systems Digital Imaging, Quality 59',
+  'fc923f2d38e0e549134e1ec86f58149a': 'ACD Systems Digital Imaging, Quality 60 or 61',
+  '93b4929d4a3b955f4996ab7e3b6fbe53': 'ACD Systems Digital Imaging, Quality 62',
+  '054f418c24a6a733186a27aa739dc93a': 'ACD Systems Digital Imaging, Quality 63',
+  '0df2be705ae86e5de1e508db95efb182': 'ACD Systems Digital Imaging, Quality 64',
+  'c1978a445de1173b5039b0cf8d8a91fe': 'ACD Systems Digital Imaging, Quality 65 or 66',
+  '3d8e25b74d0d9be662f26ec5fed6fe94': 'ACD Systems Digital Imaging, Quality 67',
+  '8887b718c97e0d80ed8d9a198387e2eb': 'ACD Systems Digital Imaging, Quality 68',
+  '8cdb9100cfbb246d440d469e72ce37a6': 'ACD Systems Digital Imaging, Quality 69',
+  '379efafa6e71a90ccfcb57073d0bc5c8': 'ACD Systems Digital Imaging, Quality 70 or 71',
+  'e1e122ebb2733a5ccdb5ff1cdce86d4d': 'ACD Systems Digital Imaging, Quality 72',
+  '41dd47887a2b87e22ad3bbacc022374e': 'ACD Systems Digital Imaging, Quality 73',
+  'a0a30c816d5d47a91c66e5645eb5fdb8': 'ACD Systems Digital Imaging, Quality 74',
+  '731f7ffedba80407d039c1db5a785f95': 'ACD Systems Digital Imaging, Quality 75 or 76',
+  '7cfd092a41a0e1c029e82467cb4c034f': 'ACD Systems Digital Imaging, Quality 77',
+  'f1b005980104aac41b49973beed9c8c2': 'ACD Systems Digital Imaging, Quality 78',
+  'ba12dbfbd652c9cde69822996bdb2139': 'ACD Systems Digital Imaging, Quality 79',
+  'd3784280d08a8df51e607bde8c8b5ead': 'ACD Systems Digital Imaging, Quality 80 or 81',
+  '7ed560efea0b44168d910a73fab9204c': 'ACD Systems Digital Imaging, Quality 82',
+  'deaa8bbd7c5414b93d8029aa14a76d3a': 'ACD Systems Digital Imaging, Quality 83',
+  '9ae3a57ce98290176c4700baaff5661f': 'ACD Systems Digital Imaging, Quality 84',
+  'cb99b9bd30ae36929755fee9208ab36b': 'ACD Systems Digital Imaging, Quality 85 or 86',
+  '75ff62bbf17aa1762dd15677e961ce67': 'ACD Systems Digital Imaging, Quality 87',
+  'd4f1922c71a6c96a530a9a8268fbc63b': 'ACD Systems Digital Imaging, Quality 88',
+  'ec994ef421efd6bc78671858b9f942ad': 'ACD Systems Digital Imaging, Quality 89',
+  '5ca52e1ffe2c84660d7377c33c88ad53': 'ACD Systems Digital Imaging, Quality 90 or 91',
+  '5522213c915e2af3ad01ee2ec27ee3ed': 'ACD Systems Digital Imaging, Quality 92',
+  '21aa1a0036251eecfffd24e37d7ce3dd': 'ACD Systems Digital Imaging, Quality 93',
+  '3233b63fc39fbbaa9af364e8a33862ff': 'ACD Systems Digital Imaging, Quality 94',
+  '1860106097672532e7ebc2026d7f9681': 'ACD Systems Digital Imaging, Quality 95 or 96',
+  '0c7d4861b3bee5d766a93f2d34027bfa': 'ACD Systems Digital Imaging, Quality 97',
+  'c9309ab058680151be5f97e6c54dc687': 'ACD Systems Digital Imaging, Quality 98',
+  'ffe6bb565b2c9008ab917c57ba94cd67': 'ACD Systems Digital Imaging, Quality 99',
+  'd6390cc36d2f03c1d2dd13d6910ca46b': 'ACD Systems Digital Imaging, Quality 100; Pentax K20D/OptioE60 Premium',
+  '185893c53196f6156d458a84e1135c43:111111': 'StereoPhoto Maker, No compression ghosting, Quality 1',
+  'b41ccbe66e41a05de5e68832c07969a7:111111': 'StereoPhoto Maker, No compression ghosting, Quality 2',
+  'efa024d741ecc5204e7edd4f590a7a25:111111': 'StereoPhoto Maker, No compression ghosting, Quality 3',
+  '3396344724a1868ada2330ebaeb9448e:111111': 'StereoPhoto Maker, No compression ghosting, Quality 4',
+  '14276fffb98deb42b7dbce30abb8425f:111111': 'StereoPhoto Maker, No compression ghosting, Quality 5',
+  'a99e2826c10d0922ce8942c5437f53a6:111111': 'StereoPhoto Maker, No compression ghosting, Quality 6',
+  '0d3de456aa5cbb8a2578208250aa9b88:111111': 'StereoPhoto Maker, No compression ghosting, Quality 7',
+  'fa987940fdedbe883cc0e9fcc907f89e:111111': 'StereoPhoto Maker, No compression ghosting, Quality 8',
+  '1c9bb67190ee64e82d3c67f7943bf4a4:111111': 'StereoPhoto Maker, No compression ghosting, Quality 9',
+  '57d20578d190b04c7667b10d3df241bb:111111': 'StereoPhoto Maker, No compression ghosting, Quality 10',
+  '619fd49197f0403ce13d86cffec46419:111111': 'StereoPhoto Maker, No compression ghosting, Quality 11',
+  '327f47dd8f999b2bbb3bb25c43cf5be5:111111': 'StereoPhoto Maker, No compression ghosting, Quality 12',
+  'e4e5bc705c40cfaffff6565f16fe98a9:111111': 'StereoPhoto Maker, No compression ghosting, Quality 13',
+  '6c64fa9ad302624a826f04ecc80459be:111111': 'StereoPhoto Maker, No compression ghosting, Quality 14',
+  '039a3f0e101f1bcdb6bb81478cf7ae6b:111111': 'StereoPhoto Maker, No compression ghosting, Quality 15',
+  'c23b08c94d7537c9447691d54ae1080c:111111': 'StereoPhoto Maker, No compression ghosting, Quality 16',
+  '200107bc0174104bbf1d4653c4b05058:111111': 'StereoPhoto Maker, No compression ghosting, Quality 17',
+  '72abfdc6e65b32ded2cd7ac77a04f447:111111': 'StereoPhoto Maker, No compression ghosting, Quality 18',
+  '1799a236c36da0b30729d9005ca7c7f9:111111': 'StereoPhoto Maker, No compression ghosting, Quality 19',
+  'c33a667bff7f590655d196010c5e39f3:111111': 'StereoPhoto Maker, No compression ghosting, Quality 20',
+  'b1dc98f6a2f8828f8432872da43e7d94:111111': 'StereoPhoto Maker, No compression ghosting, Quality 21',
+  '07318a0acfebe9086f0e04a4c4f5398a:111111': 'StereoPhoto Maker, No compression ghosting, Quality 22',
+  'a295b7163305f327a5a45ae177a0a19c:111111': 'StereoPhoto Maker, No compression ghosting, Quality 23',
+  'c741c1b134cf81ab69acc81f15a67137:111111': 'StereoPhoto Maker, No compression ghosting, Quality 24',
+  'a68893776502a591548c7b5bece13e1b:111111': 'StereoPhoto Maker, No compression ghosting, Quality 25',
+  '111848d9e41f6f408ef70841f90c0519:111111': 'StereoPhoto Maker, No compression ghosting, Quality 26',
+  '886374ceebcfd4dfed200b0b34b4baca:111111': 'StereoPhoto Maker, No compression ghosting, Quality 27',
+  '666dd95fd0e20f5c20bc44d78d528869:111111': 'StereoPhoto Maker, No compression ghosting, Quality 28',
+  '1aa58cb85dda84de2ddf436667124dcd:111111': 'StereoPhoto Maker, No compression ghosting, Quality 29',
+  '9d321ab2bdda6f3cb76d2d88838aa8c3:111111': 'StereoPhoto Maker, No compression ghosting, Quality 30',
+  '6ad87d648101c268f83fa379d4c773f2:111111': 'StereoPhoto Maker, No compression ghosting, Quality 31',
+  'cdf8e921300f27a4af7661a2de16e91a:111111': 'StereoPhoto Maker, No compression ghosting, Quality 32',
+  '3f48672e37b6dd2e571b222e4b7ff97d:111111': 'StereoPhoto Maker, No compression ghosting, Quality 33',
+  'a53a7d4cc86d01f4c1b867270c9c078f:111111': 'StereoPhoto Maker, No compression ghosting, Quality 34',
+  '09ec03f5096df106c692123f3fd34296:111111': 'StereoPhoto Maker, No compression ghosting, Quality 35',
+  'a946498fd1902c9de87a1f5182966742:111111': 'StereoPhoto Maker, No compression ghosting, Quality 36',
+  '5d650a1d38108fd79d4f336ba8e254c2:111111': 'StereoPhoto Maker, No compression ghosting, Quality 37',
+  '81d620f1b470fd535b26544b4ea20643:111111': 'StereoPhoto Maker, No compression ghosting, Quality 38',
+  '892788bdf8cbef5c6fbd7019a079bf8e:111111': 'StereoPhoto Maker, No compression ghosting, Quality 39',
+  'cf3929fd4c1e5c28b7f137f982178ad1:111111': 'StereoPhoto Maker, No compression ghosting, Quality 40',
+  '31f288945896ed839f1d936bff06fb03:111111': 'StereoPhoto Maker, No compression ghosting, Quality 41',
+  'e0c38f0c5e6562445d4e92bae51713be:111111': 'StereoPhoto Maker, No compression ghosting, Quality 42',
+  '18fa29d1164984883a6af76377b60d5a:111111': 'StereoPhoto Maker, No compression ghosting, Quality 43',
+  'eff737b226fbce48c42625c5bf9dabb6:111111': 'StereoPhoto Maker, No compression ghosting, Quality 44',
+  'b900f91ee8697255d5daebce858caaeb:111111': 'StereoPhoto Maker, No compression ghosting, Quality 45',
+  'ab2f8513823067af242f7e3c04a88a9c:111111': 'StereoPhoto Maker, No compression ghosting, Quality 46',
+  '60b682c4d412f5255efbaa32787c46ca:111111': 'StereoPhoto Maker, No compression ghosting, Quality 47',
+  'ea50813e06203c2ad1165252bcb99a1d:111111': 'StereoPhoto Maker, No compression ghosting, Quality 48',
+  'f6308a717437d3653b0751ebf511db0f:111111': 'StereoPhoto Maker, No compression ghosting, Quality 49',
+  '7c8242581553e818ef243fc680879a19:111111': 'StereoPhoto Maker, No compression ghosting, Quality 50',
+  'fc41ab8251718977bc6676f502f457e0:111111': 'StereoPhoto Maker, No compression ghosting, Quality 51',
+  '606c4c78c0226646bf4d3c5a5898fb17:111111': 'StereoPhoto Maker, No compression ghosting, Quality 52',
+  '0e6c6a5440d33d25f1c25836a45cfa69:111111': 'StereoPhoto Maker, No compression ghosting, Quality 53',
+  '7464b2361e5b5f5a9ba74a87475dda91:111111': 'StereoPhoto Maker, No compression ghosting, Quality 54',
+  'aeaa2ca48eabb3088ebb713b3c4e1a67:111111': 'StereoPhoto Maker, No compression ghosting, Quality 55',
+  '3f36450b0ba074578391e77f7340cef0:111111': 'StereoPhoto Maker, No compression ghosting, Quality 56',
+  'be232444027e83db6f8d8b79d078442e:111111': 'StereoPhoto Maker, No compression ghosting, Quality 57',
+  '712c145d6472a2b315b2ecfb916d1590:111111': 'StereoPhoto Maker, No compression ghosting, Quality 58',
+  'ae3dd4568cc71c47d068cf831c66b59d:111111': 'StereoPhoto Maker, No compression ghosting, Quality 59',
+  'b290e52c21a435fede4586636ef5e287:111111': 'StereoPhoto Maker, No compression ghosting, Quality 60',
+  'a09ca4c4391e0221396a08f229a65f9d:111111': 'StereoPhoto Maker, No compression ghosting, Quality 61',
+  '0818578fc5fc571b4f8d5ffefc9dc0d8:111111': 'StereoPhoto Maker, No compression ghosting, Quality 62',
+  '7c685e2916555eda34cb37a1e71adc6a:111111': 'StereoPhoto Maker, No compression ghosting, Quality 63',
+  '69c6b9440342adfc0db89a6c91aba332:111111': 'StereoPhoto Maker, No compression ghosting, Quality 64',
+  'd5d484b68e25b44288e67e699829695c:111111': 'StereoPhoto Maker, No compression ghosting, Quality 65',
+  'de8310d09116a7a62965f3e0e43ef525:111111': 'StereoPhoto Maker, No compression ghosting, Quality 66',
+  'e4735f63e88baf04599afc034e690845:111111': 'StereoPhoto Maker, No compression ghosting, Quality 67',
+  'b4ef810b14dee9c6d6d8cace98f799a6:111111': 'StereoPhoto Maker, No compression ghosting, Quality 68',
+  '52886ef80147c9a136e20b2bc3b76f52:111111': 'StereoPhoto Maker, No compression ghosting, Quality 69',
+  '9c62dbc848be82ef91219ba9843998be:111111': 'StereoPhoto Maker, No compression ghosting, Quality 70',
+  'bfe8c1c73eea84b85673487a82f67627:111111': 'StereoPhoto Maker, No compression ghosting, Quality 71',
+  'ea445840d29c51009a2a8cd49b96ccee:111111': 'StereoPhoto Maker, No compression ghosting, Quality 72',
+  '71c1a56890fff9b0a095fa5a1c96132b:111111': 'StereoPhoto Maker, No compression ghosting, Quality 73',
+  'f080b02331ac8adf03de2281042d2b49:111111': 'StereoPhoto Maker, No compression ghosting, Quality 74',
+  'd0eaa368737f17f6037757d393a22599:111111': 'StereoPhoto Maker, No compression ghosting, Quality 75',
+  '303663905d055b77bb547fe0b0beb9c5:111111': 'StereoPhoto Maker, No compression ghosting, Quality 76',
+  '5cdf1d5bbe19375ad5c7237273dddede:111111': 'StereoPhoto Maker, No compression ghosting, Quality 77',
+  'd64e7ff8292fd77131932864d3c9ce7c:111111': 'StereoPhoto Maker, No compression ghosting, Quality 78',
+  '12b4cc13891c5aef3dadb3405b6fa65d:111111': 'StereoPhoto Maker, No compression ghosting, Quality 79',
+  'b008cd63591f8fd366f77d2b224b9c9c:111111': 'StereoPhoto Maker, No compression ghosting, Quality 80',
+  '49b6e472c7d5ecead593c6009768e765:111111': 'StereoPhoto Maker, No compression ghosting, Quality 81',
+  'bce6fa61623ad4f65ff3fec1528cb026:111111': 'StereoPhoto Maker, No compression ghosting, Quality 82',
+  'c2b037bf9f5e5baba804d7bbbb2dc73b:111111': 'StereoPhoto Maker, No compression ghosting, Quality 83',
+  '7fe7b339c6ffc62b984eeab4b0df9168:111111': 'StereoPhoto Maker, No compression ghosting, Quality 84',
+  '274bbeb0ac3939f90c578ebb1f5a9eef:111111': 'StereoPhoto Maker, No compression ghosting, Quality 85',
+  '0a0268c655d616b0e4af2851533aa3af:111111': 'StereoPhoto Maker, No compression ghosting, Quality 86',
+  '52318e260c0d6b3dbee85c87f9b94e63:111111': 'StereoPhoto Maker, No compression ghosting, Quality 87',
+  'b64cc19a0f81a506ed5bcfb9c131c8fe:111111': 'StereoPhoto Maker, No compression ghosting, Quality 88',
+  'd8c54333eb475b8db9f32f11fe96337e:111111': 'StereoPhoto Maker, No compression ghosting, Quality 89',
+  '12fe6b9bfd20f4d7f0ac2a221c566c45:111111': 'StereoPhoto Maker, No compression ghosting, Quality 90',
+  '12aefbf7689633c83da714c9f0e90e05:111111': 'StereoPhoto Maker, No compression ghosting, Quality 91',
+  'a3a96add050fc51a2b3ce59a9a491034:111111': 'StereoPhoto Maker, No compression ghosting, Quality 92',
+  '7b0242bd9aaeab4962f5d5b39b9a4027:111111': 'StereoPhoto Maker, No compression ghosting, Quality 93',
+  '12fc29c1d8940c93a47ee9d927a17561:111111': 'StereoPhoto Maker, No compression ghosting, Quality 94',
+  'e1fedef5184beeb7b0f5c055c7ae1d31:111111': 'StereoPhoto Maker, No compression ghosting, Quality 95',
+  'ae9202355f603776794d3e62c43578d6:111111': 'StereoPhoto Maker, No compression ghosting, Quality 96',
+  '36da00bae6cd81d1f97e32748c07e33f:111111': 'StereoPhoto Maker, No compression ghosting, Quality 97',
+  '3a8a34631e388e39d13616d003f05957:211111': 'FinePixViewer, Basic',
+  'b6a2598792fd87b7eb0c094cbd52862f:211111': 'FinePixViewer, Fine',
+  '4ee61c39b97558a273f310e085d0bdd2:211111': 'FinePixViewer, Normal',
+  '252482232ff1c8cf77db4f0c6402f858:211111': 'Canon Digital Photo Professional, Quality 1',
+  'ec6c55677b94970bc09f70265f1d5b55:211111': 'Canon Digital Photo Professional, Quality 2',
+  'a1085c167f1cd610258fe38c8a84a8b9:211111': 'Canon Digital Photo Professional, Quality 3',
+  '8ab1119f4ed4941736cb8ec1796f5674:211111': 'Canon Digital Photo Professional, Quality 4',
+  'e66c03f97b19213f385136f014c78ac1:211111': 'Canon ZoomBrowser, Low',
+  'a2f4b6ac52f87791380bdfe38ae333e1:211111': 'Canon Digital Photo Professional, Quality 6',
+  'fe85b802c5779dcf45ea4bb7749ee886:211111': 'Canon Digital Photo Professional, Quality 7',
+  '35686967efa5fb333fb8f4844efc33a3:211111': 'Canon Digital Photo Professional, Quality 8',
+  'a5894172d7ec5f0c1550934c9e9385c9:211111': 'Canon Digital Photo Professional, Quality 9',
+  '524742ca0cff64ecc0c7d7413e7d4b8d:211111': 'Sony Image Data Suite, Quality 3',
+  'c44701e8185306f5e6d09be16a2b0fbd:211111': 'Sony Image Data Suite, Quality 4 (high compression)'
+};
+
+export const CAMERA_QUANTIZATION_DIGESTS: Record<string, string> = {
+  'd6390cc36d2f03c1d2dd13d6910ca46b:211111': 'Pentax *istDS, Best (edit in camera)',
+  'bf72e4d4aacbdaeb86fd3f67c8df2667:211111': 'Pentax K10D (Y)',
+  'aeb34eb083acc888770d65e691497bcf:211111': 'Pentax K10D (V)',
+  '76d958276bf2cac3c36b7d9a677094a7:211111': 'Pentax K10D (J)',
+  'fa8720d025f2a164542b6a8e31112991:211111': 'Pentax K10D/K100D',
+  'f3235a7d187d083b7b7ead949653f730:211111': 'Pentax K20D/K200D, Best (D)',
+  '0147c5088beb16642f9754f8671f13b3:211111': 'Canon PowerShot, Fine',
+  '586b40c7d4b95e11309636703e81fbe9:211111': 'Pentax K20D/K200D/Optio 230, Best; Canon EOS 10D/300D/350D, Fine',
+  '6640ae3bb6f646013769b182c74931b5:211111': 'Canon PowerShot, Normal',
+  '83d6d7dd7ace56feeeb65b88accae1bc:211111': 'Canon PowerShot, Normal Small',
+  'b8548a302585d78a0c269b54bff86541:211111': 'Canon PowerShot, Fine Small',
+  '9d125046484461bbc155d8eff6d4e8f0:211111': 'Canon PowerShot, Superfine (A430/A460)',
+  '0e618a0e79b4d540da1f6e07fcdce354:211111': 'Canon PowerShot, Superfine Small',
+  'd255f70a910a2d0039f4e792d2c01210:211111': 'Canon PowerShot, Superfine Medium2',
+  '8bc267b04a54c02fdee1f4fdf0bcce83:211111': 'Canon EOS 1DmkIII/5DmkII/40D/1000D, Fine',
+  '17cb779485969589a5c7eb07a5d53247:211111': 'Canon EOS 1DmkIII, Fine (pre-production)',
+  'ee1c033afaf4cd5263ff2b1c1ff8966c:211111': 'Canon PowerShot, Superfine',
+  'a92912eb3c81e5c873d49433264af842:211111': 'Canon EOS 30D/40D/50D/300D, Normal',
+  '0cec88a0cd8fe35720e78cdcdbdadef6:121111': 'Canon EOS 1DmkII, Fine (A)',
+  '72cdcc91e3ddc2c3d17c20173b75c5ef:211111': 'Canon EOS 1DmkII, Fine (B)',
+  '483b5288e4256aa8ff96d6ccb96eba43:211111': 'Canon EOS 1DmkII, Fine (C)',
+  'ea2f997a0261bab501bf122b04cbc859:211111': 'Canon EOS 1DSmkII, Fine',
+  '98af13526b7e4bbf73a9fb11a8fa789d:121111': 'Canon EOS 1DSmkII, Fine (vertical)',
+  '9e6abfb26d3b95b8cd2f710e78def947:121111': 'Canon EOS 300D, Fine (vertical)',
+  '4d6b36e81fe30c67dd53edb4d7c05422:121111': 'Canon EOS 40D, Fine (vertical)',
+  '92c1557deaa14f1cdaf92cf0531487f1:121111': 'Canon EOS 1D/1DS, Fine',
+  'db8d4df12405d0d69eb25f06a963ac5b:211111': 'Canon DV',
+  'eaead98bbdfde35210f48286662e8ad2:211111': 'Canon DV Hi-Res',
+  '74f0ef9476707be45f06951ca9a809ba:211111': 'Canon DV/Optura/Elura, Superfine',
+  'bf72e4d4aacbdaeb86fd3f67c8df2667:221111': 'HTC Touch Diamond P3700, Quality Unknown',
+  'b5c213a3785c4c62b25d8f8c30758593:211111': 'Konica/Minolta DYNAX 7D, Fine',
+  '118a60a90c56bcb363fdd93b911a3371:211111': 'Panasonic DMC-FZ50/TZ3, High (A)',
+  '457b05fd0787a8e29bd43cd65911d6ca:211111': 'Nikon D80, Basic',
+  '5701582a0da2e9e8dcd923a5cf877494:211111': 'Nikon D50, Fine',
+  '662bd7fb9dff6426e310f9261a3703d0:211111': 'Nikon D50, Fine',
+  'e06eb7848ec8766239ff014aa8b62e49:211111': 'Nikon D80, Normal',
+  '9e201a496a3700a77d9102c0dd0f8dbf:211111': 'Nikon D300, Basic',
+  '07d3cd227395b060a132411cbfc22593:211111': 'Panasonic DMC-FZ50, High (A)',
+  '1b8d04b1d56a4c0c811a0d3a68e86d06:211111': 'Panasonic DMC-FZ50, High (B)',
+  '1e619cbdee1f8ff196d34dad9140876f:211111': 'Panasonic DMC-FZ50, High (C)',
+  '493abc7f4b392a0341bfcac091edb8f8:211111': 'Panasonic DMC-FZ30, High (B)',
+  '4aa883c43840de7f0d090284120c69bc:211111': 'Panasonic DMC-FZ50, High (D)',
+  '7eafb9874384d391836e64911e912295:211111': 'Panasonic DMC-FZ50, High (E)',
+  '82b56237e4eccde035edff4a5abdba44:211111': 'Panasonic DMC-FZ50, High (F)',
+  '8335023e5a1ee8df80d52327b0556c44:211111': 'Panasonic DMC-FZ30, High (C)',
+  '8c105b3669931607853fa5ba4fffb839:211111': 'Panasonic DMC-FZ30, High (D)',
+  '8ecfb959bc76e5d6703f3f3bba2c5529:211111': 'Panasonic DMC-FZ30, High (E)',
+  '96eda111b2153648b3f27d6c1a9ec48f:211111': 'Panasonic DMC-FZ50/TZ3, High (B)',
+  '99f76923cfbd774febea883b603b8103:211111': 'Panasonic DMC-FZ30, High (F)',
+  '9b3475b865b9d31e433538460b75a588:211111': 'Panasonic DMC-FZ10, High',
+  '9eb7cdfd07099c1bb8e2c6c04b20b8ba:211111': 'Panasonic DMC-FZ30, High (G)',
+  '9fc030294fa5c4044dbb0cb461b0cf93:211111': 'Panasonic DMC-TZ5, High (A)',
+  'a8779af4cb8afa2def1d346a9b16e81a:211111': 'Panasonic DMC-TZ5, High (B)',
+  'bebd334aca511e2a2b6c60f43f9e6cf1:211111': 'Panasonic DMC-FZ30, High (H)',
+  'c871ce0851d4647f226b2dcfd49fe9a9:211111': 'Panasonic DMC-L1, Very High',
+  'eb625c64e32314f51dc4286564a71f7b:211111': 'Panasonic DMC-FZ10, High',
+  '1027a4af6a2a07e58bbd6df5b197d44e:211111': 'Pentax K10D (A)',
+  '17a77c2574ff5b72b3284f57977187f3:211111': 'Pentax K10D (B)',
+  '1aee684c7eb75320d988f6296c4c16ea:211111': 'Pentax K10D (C)',
+  '32386501afff88b45432b23fe41593e8:211111': 'Pentax K10D (D)',
+  '35ad02c3d8237a074b67423c39d3d61c:211111': 'Pentax K10D (E)',
+  '39d929c095f37a90e7d083db40e8642d:211111': 'Pentax K10D (F)',
+  '4127433151f74654762b1ef3293781f4:211111': 'Pentax K10D (G)',
+  '599a7794c32b9d60e80426909ed40a09:211111': 'Pentax K10D (H)',
+  '641812174c82d5b62ec86c33bd852204:211111': 'Pentax K10D (I)',
+  '79b07131be4827795315bf42c65212f2:211111': 'Pentax K10D (K)',
+  '836448ef538366adb50202927b53808a:211111': 'Pentax K10D (L)',
+  '8f70e4a31ad4584043ddc655eca17e89:211111': 'Pentax K10D (M)',
+  '90d3c964eaf6e4bd12cf5ca791a7d753:211111': 'Pentax K10D (N)',
+  '994a9f2060976d95719ca7064be3a99c:211111': 'Pentax K10D/K20D (P)',
+  '9971f02a466c47d640e8f20a2e4b55b9:211111': 'Pentax K10D (Q)',
+  'a16626c285e5a2290d331f99f4eec774:211111': 'Pentax K10D (R)',
+  'a64569d6387a118992e44e41aaeac27e:211111': 'Pentax K10D (S)',
+  'a8055a53fda7f9a0e387026c81960aa4:211111': 'Pentax K10D (T)',
+  'ab50a9f53a44ffecc54efe1cb7c6620a:211111': 'Pentax K10D (U)',
+  'af2a112c30fa29213a402dbd3c2b2d3a:211111': 'Pentax K10D (W)',
+  'bb4475a9e14464eb4682fd81cceb1f91:211111': 'Pentax K10D (X)',
+  '0a953ba56b59fa0bbbdac0162ea1c96b:211111': 'Pentax K10D (Z)',
+  '387354b46b9726f33da5c0c1a0c383a0:211111': 'Pentax K10D/K20D (AA)',
+  '4e7f4e5cd15f4fc089ab25890619dc60:211111': 'Pentax K10D (AB)',
+  '6518270228fd20730740a08cc8a171f6:211111': 'Pentax K10D (AC)',
+  '72bce7df55635509eb6468fc6406941d:211111': 'Pentax K10D (AD)',
+  '7cafc25f204fc4ddf39d86e2f0f07b62:211111': 'Pentax K10D (AE)',
+  '811e5b0229f0e8baf4b40cd2d8777550:211111': 'Pentax K10D (AF)',
+  '9282a1cec6bbd1232b3673091164d43d:211111': 'Pentax K10D (AG)',
+  'c59a4cf0beedbfd1b102dc3d3c8e73ac:211111': 'Pentax K10D (AH)',
+  'd97b27b45fdbe82a79364e0939adbf90:121111': 'Pentax K10D (AI)',
+  'db87a4c5c1d4e03dc6645bcf0535a930:211111': 'Pentax K10D (AJ)',
+  'f9a93cb70da7bbe87e35cd9980a5fd47:211111': 'Pentax K10D (AK)',
+  'ff6a158f803e42bfbf9f702c016b84b3:211111': 'Pentax K10D (AL)',
+  'ff6d4a4a60a1c5e032e7fb7d9c91f817:211111': 'Pentax K10D (AM)',
+  'dca5476d81d0ceca97f480fecd09b23c:211111': 'Pentax K10D (AN)',
+  'efbe7634221900639b3c072395c61bef:211111': 'Pentax K10D (AO)',
+  'f4dba22dd251350a21f8122f2777e7b0:211111': 'Pentax K10D (AP)',
+  'f90135fcff0e1720dda86e9ad718c0c0:211111': 'Pentax K10D (AQ)',
+  'fa3d7753be7b329ab9961657cbc65386:211111': 'Pentax K10D (AR)',
+  '2941d12ef34511d96b659ba30d682cd1:211111': 'Pentax K10D (AT)',
+  '2aa82b6717f1cdfe6b6d60a4486b5671:211111': 'Pentax K10D (AV)',
+  '3527616df6f26a3ab36b80a8d885fc07:211111': 'Pentax K10D (AY)',
+  '5ea9e766888399a41f3f1a3c5c15cd90:211111': 'Pentax K10D (AZ)',
+  'f83d978290d0699054eabb0a7811c7a4:211111': 'Pentax K10D (BB)',
+  'b73481179da895f3b9ecea1737054a9c:211111': 'Pentax K20D, Best (B)',
+  'b8fce00f93108e7db57a012c51fad341:211111': 'Pentax K20D, Best (C)',
+  '5ee766b90badc8fed5a5386e78a80783:211111': 'Pentax *istDS, Good (edit in camera)',
+  'd528fac9b63536ff52041745945dcb09:211111': 'Pentax *istDS, Better (edit in camera)',
+  'dc149d41f08d16cb9d52a5bdd487a67e:121111': 'Pentax *istD/K100Dsuper/Optio300GS, Best',
+  'e10030f09a14acdd647eff13c0bf333a:211111': 'Pentax *istD/DS/DS2/K100D/Optio330GS/33L, Best',
+  'ef0cd1902fb1afe284468a67eaffd078:211111': 'Pentax *istDS/K100D/K100Dsuper, Good',
+  'f1262dfcada6e6c2cd4b9fa7e881233b:211111': 'Pentax *istDL/DS, Better',
+  '6686cddc46088f0987e7476861fbfb47:211111': 'Pentax K2000, Best (A)',
+  '5910b8431fdd8ab93ce258f366c4b867:211111': 'Pentax K2000, Best (B)',
+  'c8bfcc60aeec937300405f59373be4ef:211111': 'Pentax K2000, Best (C)',
+  '689a0e3511f2aea75637f46e6af9fd9f:211111': 'Pentax Optio A40, Best (edit in camera)',
+  '8d14598ae9cc1b7f5357424a19d05a71:211111': 'Pentax Optio A30/A40, Good',
+  'a4cb8a3a000484b37c4373cde1170091:211111': 'Pentax Optio A30/A40/S10/S12, Best',
+  '0ac5cb651c496369d0e924ae070b7c53:211111': 'Pentax Optio A40, Better (edit in camera)',
+  '1068be028c278941bd8abf3b0021655e:211111': 'Pentax Optio A40, Good (edit in camera)',
+  '336eeeb78e386bf66fe6325b4a0fcfa6:211111': 'Pentax Optio A40, Better',
+  'ae2efaf1a96a4fdcfa9003b9aa963ae4:221111': 'Pentax Optio 330, Best (vertical)',
+  '3803d7f6b7aed64c658c21dbb2bc0797:221111': 'Pentax Optio 330, Best',
+  '353bf09900feb764885329e7bebfd95e:211111': 'Pentax Optio 330GS, Good',
+  '6c2bc41a4b6ad1e20655ffcc0dfd2c41:221111': 'Pentax Optio 330RS, Fine',
+  'e9206045838e9f5f9bd207744254e96d:221111': 'Pentax Optio 430, Best',
+  '759fb7011e13fa5f975bb668f5b94d8b:211111': 'Pentax Optio 550/750Z/M60/X, Best',
+  '637103ef9d8e84f8345f8218f158fc3c:211111': 'Pentax Optio 550/M10/T30/W30, Best',
+  '23f2a5970523c5f7fd2ab7fa3b09dff9:211111': 'Pentax Optio 550/555/M20/M30/W10/W20, Best',
+  '8d2f02a07bad6b5cec48466036fef319:121111': 'Pentax Optio 550, Better',
+  '27297008a89ee49804f0859ea6435878:211111': 'Pentax Optio MX, Best',
+  '6cfe3833aadd87487afc11129d8cb2aa:221111': 'Pentax Optio S, Better',
+  'fcef35c97674aeb26c67e539b726057f:221111': 'Pentax Optio S, Best (A)',
+  '13b2644cdad6f75767667e8ea5c218a3:221111': 'Pentax Optio S, Best (B)',
+  '310b70bc4fac884f64a07040a4b87468:221111': 'Pentax Optio S, Best (C)',
+  'aa05fbe795d86a1063c55865e8613536:221111': 'Pentax Optio S, Best (D)',
+  'd57ac6956e4fe86c386f0eef00a5e021:221111': 'Pentax Optio S, Best (E)',
+  '28782f5ee24fe983fe90b9438b39ae2e:221111': 'Pentax Optio S4, Best',
+  '804bd63907214e005f01fb65a2bb00e6:221111': 'Pentax Optio S4i, Best',
+  '84285f5b3248884488e5142b8c7210e2:211111': 'Pentax Optio S6, Good',
+  'e97694f0093de13987a335e131b30eb0:221111': 'Pentax Optio SVi, Best',
+  '037d043c8a8d5332c28d59f71a0dcfd2:211111': 'Pentax Optio E35',
+  'dd8ad8ce688c4248f924022c38d3228c:211111': 'Pentax Optio 43WR, Good',
+  'e55e0c1adbbca8b9d100881248050eb5:211111': 'Pentax Optio 43WR, Better',
+  '7770d784d852b3333f9213713e481125:211111': 'Pentax Optio 450, Best',
+  '61d311bde22762ae0e88b768e835eced:211111': 'Pentax Optio 33WR/M50, Best',
+  'bc066ff3fbea8a290c6f9882687945e0:221111': 'Pentax Optio 430RS, Fine',
+  'b6bd9f956309a20e3a56294077536391:211111': 'Pentax Optio A10/S7, Best',
+  'a4ecd6b77f06671530942783c3595aca:211111': 'Pentax Optio A20, Best',
+  '40f66b0a209f24716320636b776dda94:211111': 'Pentax Optio E30/E40, Best',
+  '59a868b3d11d9cdc87859c02757e13bb:211111': 'Pentax Optio E50, Best',
+  '9570584f017ed2c4f0fb91782b51faa9:211111': 'Pentax Optio M40/Z10, Best',
+  '5a74f09fb2586fa000c42e98e3b9f2d8:211111': 'Pentax Optio T10',
+  '0867bdf854d1fbb141411de518a66ba6:211111': 'Pentax Optio T20 (A)',
+  'f74b3853185743c111ccb13e6febdc21:211111': 'Pentax Optio T20 (B)',
+  'b6640d3879f9922708d23e6adb3d61c9:211111': 'Pentax Optio V10, Best',
+  '253467dc35dfbb32cb3d619fc635d689:211111': 'Pentax Optio V20/W60, Best',
+  '6bd350bf5df27ed1b5bf1d83fa9d021f:211111': 'Sony DSLR-A700, Fine'
+};
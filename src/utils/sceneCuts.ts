@@ -0,0 +1,439 @@
+import VideoFrameExtractor from './videoFrames';
+
+// Shot boundaries in the sampled frames. An ordinary camera cut changes the content but not the
+// camera or the encoding; a splice of footage from another source usually changes those as well,
+// so each cut is judged by what stays the same across it.
+
+// Fractions of the frame, with letterbox or pillarbox bars excluded
+export interface ActiveArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameSignature {
+  frameIndex: number;
+  time: number;
+  // 16 bins per RGB channel, each channel summing to 1
+  histogram: Float32Array;
+  // Edge map of a SIGNATURE_WIDTH-wide thumbnail
+  edges: Uint8Array;
+  edgeCount: number;
+  brightness: number;
+  contrast: number;
+  // Robust standard deviation of the sensor/compression noise (grey levels)
+  noise: number;
+  // log2 of fine-scale over coarse-scale detail; upscaled footage sits well below native
+  detail: number;
+  // Relative excess of luma steps on the 8-pixel coding grid
+  blockiness: number;
+  activeArea: ActiveArea;
+}
+
+export interface SceneCut {
+  // First frame of the new shot and the time it is shown
+  frameIndex: number;
+  time: number;
+  transition: 'hard' | 'fade';
+  classification: 'natural' | 'suspicious';
+  // What changes across the cut besides the picture
+  mismatches: string[];
+}
+
+export interface SceneSegment {
+  index: number;
+  start: number;
+  end: number;
+  // Sampled frame indices inside the shot
+  frames: number[];
+  noise: number;
+  detail: number;
+  blockiness: number;
+  activeArea: ActiveArea;
+  // Rate of distinct pictures next to the cuts; null where the shot was static or not measured
+  effectiveFrameRate: number | null;
+  // Filled in from the frame scores of this shot alone
+  score: number;
+}
+
+export interface SceneAnalysis {
+  cuts: SceneCut[];
+  segments: SceneSegment[];
+  findings: string[];
+  score: number;
+}
+
+interface Cadence {
+  rate: number | null;
+}
+
+const HISTOGRAM_BINS = 16;
+const SIGNATURE_WIDTH = 160;
+const EDGE_THRESHOLD = 48;
+const EDGE_RADIUS = 2;
+const MIN_EDGE_FRACTION = 0.01;
+
+// A large shift of the colour mass, or a smaller one with most edges appearing or vanishing;
+// both need a margin over the clip's typical change between samples so a shaky handheld shot
+// is not cut up
+const CUT_HISTOGRAM = 0.4;
+const CONFIRMED_HISTOGRAM = 0.2;
+const CUT_EDGE_CHANGE = 0.7;
+const CUT_OVER_MEDIAN = 3;
+const DARK_BRIGHTNESS = 20;
+const DARK_CONTRAST = 10;
+const BAR_BRIGHTNESS = 24;
+const BAR_VARIATION = 6;
+
+// Cuts beyond this are not located or checked for cadence; each costs about 25 seeks
+const MAX_EXAMINED_CUTS = 20;
+const CADENCE_FRAMES = 9;
+const DUPLICATE_DIFFERENCE = 0.6;
+const MOTION_DIFFERENCE = 2;
+const MIN_MOVING_PAIRS = 3;
+
+// Different shots from one camera differ in lighting, so only large changes count
+const NOISE_MISMATCH = 1.3;
+const DETAIL_MISMATCH = 1;
+const BLOCKINESS_MISMATCH = 0.2;
+const AREA_MISMATCH = 0.02;
+const FRAME_RATE_MISMATCH = 0.3;
+const SUSPICIOUS_CUT_SCORE = 40;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+const histogramDistance = (a: FrameSignature, b: FrameSignature): number => {
+  let distance = 0;
+  for (let i = 0; i < a.histogram.length; i++) distance += Math.abs(a.histogram[i] - b.histogram[i]);
+  // Each channel contributes at most 2
+  return distance / 6;
+};
+
+// Edge change ratio: the share of edges in one frame with no edge nearby in the other
+const edgeChange = (a: FrameSignature, b: FrameSignature): number | null => {
+  const total = a.edges.length;
+  if (a.edgeCount < total * MIN_EDGE_FRACTION || b.edgeCount < total * MIN_EDGE_FRACTION) return null;
+  const width = SIGNATURE_WIDTH;
+  const height = total / width;
+  const unmatched = (from: FrameSignature, to: FrameSignature) => {
+    let count = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!from.edges[y * width + x]) continue;
+        let found = false;
+        for (let dy = -EDGE_RADIUS; dy <= EDGE_RADIUS && !found; dy++) {
+          const yy = y + dy;
+          if (yy < 0 || yy >= height) continue;
+          for (let dx = -EDGE_RADIUS; dx <= EDGE_RADIUS; dx++) {
+            const xx = x + dx;
+            if (xx >= 0 && xx < width && to.edges[yy * width + xx]) {
+              found = true;
+              break;
+            }
+          }
+        }
+        if (!found) count++;
+      }
+    }
+    return count / from.edgeCount;
+  };
+  return Math.max(unmatched(a, b), unmatched(b, a));
+};
+
+const isDark = (signature: FrameSignature) => signature.brightness < DARK_BRIGHTNESS && signature.contrast < DARK_CONTRAST;
+
+const luma = (data: Uint8ClampedArray, pixel: number) =>
+  0.299 * data[pixel * 4] + 0.587 * data[pixel * 4 + 1] + 0.114 * data[pixel * 4 + 2];
+
+// Box-averaged grey thumbnail `targetWidth` pixels wide
+const thumbnail = (imageData: ImageData, targetWidth: number): { gray: Float32Array; width: number; height: number } => {
+  const { width, height, data } = imageData;
+  const scale = width / targetWidth;
+  const thumbHeight = Math.max(Math.round(height / scale), 1);
+  const gray = new Float32Array(targetWidth * thumbHeight);
+  for (let ty = 0; ty < thumbHeight; ty++) {
+    const y0 = Math.floor(ty * scale);
+    const y1 = Math.max(Math.min(Math.floor((ty + 1) * scale), height), y0 + 1);
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor(tx * scale);
+      const x1 = Math.max(Math.min(Math.floor((tx + 1) * scale), width), x0 + 1);
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += luma(data, y * width + x);
+      }
+      gray[ty * targetWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return { gray, width: targetWidth, height: thumbHeight };
+};
+
+// |I * N| for the 3x3 noise kernel N = [1 -2 1; -2 4 -2; 1 -2 1], whose response to white
+// noise of deviation s has deviation 6s (Immerkaer)
+const noiseResponse = (gray: Float32Array, width: number, height: number, step = 1): number[] => {
+  const responses: number[] = [];
+  for (let y = 1; y < height - 1; y += step) {
+    for (let x = 1; x < width - 1; x += step) {
+      const i = y * width + x;
+      const value =
+        gray[i - width - 1] - 2 * gray[i - width] + gray[i - width + 1] -
+        2 * gray[i - 1] + 4 * gray[i] - 2 * gray[i + 1] +
+        gray[i + width - 1] - 2 * gray[i + width] + gray[i + width + 1];
+      responses.push(Math.abs(value));
+    }
+  }
+  return responses;
+};
+
+class SceneCutDetector {
+  private frameExtractor = new VideoFrameExtractor();
+
+  describe(imageData: ImageData, frameIndex: number, time: number): FrameSignature {
+    const { width, height, data } = imageData;
+    const pixels = width * height;
+
+    const histogram = new Float32Array(3 * HISTOGRAM_BINS);
+    const gray = new Float32Array(pixels);
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < pixels; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        histogram[channel * HISTOGRAM_BINS + (data[i * 4 + channel] >> 4)] += 1 / pixels;
+      }
+      gray[i] = luma(data, i);
+      sum += gray[i];
+      sumSquares += gray[i] * gray[i];
+    }
+    const brightness = sum / pixels;
+
+    const small = thumbnail(imageData, SIGNATURE_WIDTH);
+    const edges = new Uint8Array(small.gray.length);
+    let edgeCount = 0;
+    for (let y = 1; y < small.height - 1; y++) {
+      for (let x = 1; x < small.width - 1; x++) {
+        const i = y * small.width + x;
+        const g = small.gray;
+        const gx = g[i - small.width + 1] + 2 * g[i + 1] + g[i + small.width + 1] - g[i - small.width - 1] - 2 * g[i - 1] - g[i + small.width - 1];
+        const gy = g[i + small.width - 1] + 2 * g[i + small.width] + g[i + small.width + 1] - g[i - small.width - 1] - 2 * g[i - small.width] - g[i - small.width + 1];
+        if (Math.hypot(gx, gy) > EDGE_THRESHOLD) {
+          edges[i] = 1;
+          edgeCount++;
+        }
+      }
+    }
+
+    // The median ignores edges and texture, which only touch a minority of pixels
+    const step = Math.max(1, Math.floor(Math.sqrt(pixels / 60000)));
+    const fine = noiseResponse(gray, width, height, step);
+    const noise = (1.4826 * median(fine)) / 6;
+    const half = thumbnail(imageData, Math.max(Math.floor(width / 2), 1));
+    const coarse = noiseResponse(half.gray, half.width, half.height, step);
+    const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / Math.max(values.length, 1);
+    const detail = Math.log2((mean(fine) + 0.01) / (mean(coarse) + 0.01));
+
+    return {
+      frameIndex,
+      time,
+      histogram,
+      edges,
+      edgeCount,
+      brightness,
+      contrast: Math.sqrt(Math.max(sumSquares / pixels - brightness * brightness, 0)),
+      noise,
+      detail,
+      blockiness: this.blockiness(gray, width, height),
+      activeArea: this.activeArea(gray, width, height)
+    };
+  }
+
+  async detect(file: Blob, signatures: FrameSignature[], frameRate: number, frameCount: number): Promise<SceneAnalysis> {
+    const cuts = this.findCuts(signatures);
+
+    // Locate each cut to the frame and measure the cadence on both sides of it
+    const cadences = new Map<SceneCut, [Cadence, Cadence]>();
+    const examined = cuts.slice(0, MAX_EXAMINED_CUTS);
+    if (examined.length > 0 && frameRate > 0) {
+      await this.frameExtractor.open(file, async (grab) => {
+        const frameTime = (index: number) => (index + 0.5) / frameRate;
+        for (const cut of examined) {
+          const after = signatures.find(signature => signature.frameIndex === cut.frameIndex)!;
+          const before = signatures.filter(signature => signature.time < after.time && !isDark(signature)).pop()!;
+          if (cut.transition === 'hard') {
+            let low = before.frameIndex;
+            let high = after.frameIndex;
+            while (high - low > 1) {
+              const middle = Math.floor((low + high) / 2);
+              const signature = this.describe(await grab(frameTime(middle)), middle, frameTime(middle));
+              if (histogramDistance(signature, before) < histogramDistance(signature, after)) low = middle;
+              else high = middle;
+            }
+            cut.frameIndex = high;
+            cut.time = frameTime(high);
+          }
+          const cadence = async (first: number): Promise<Cadence> => {
+            const indices = Array.from({ length: CADENCE_FRAMES }, (_, i) => first + i).filter(index => index >= 0 && index < frameCount);
+            const frames: Float32Array[] = [];
+            for (const index of indices) frames.push(thumbnail(await grab(frameTime(index)), 64).gray);
+            return this.cadence(frames, frameRate);
+          };
+          const end = cut.transition === 'hard' ? cut.frameIndex : before.frameIndex + 1;
+          cadences.set(cut, [await cadence(end - CADENCE_FRAMES), await cadence(cut.frameIndex)]);
+        }
+      });
+    }
+
+    // Dark fade frames belong to neither shot
+    const segments: SceneSegment[] = [];
+    let boundary = 0;
+    for (let c = 0; c <= cuts.length; c++) {
+      const next = c < cuts.length ? signatures.findIndex(signature => signature.time >= cuts[c].time) : signatures.length;
+      const shot = signatures.slice(boundary, next === -1 ? signatures.length : next);
+      const lit = shot.filter(signature => !isDark(signature));
+      const members = lit.length > 0 ? lit : shot;
+      boundary = next;
+      const areas = members.map(member => member.activeArea);
+      const cadence = cadences.get(cuts[c]);
+      const previous = c > 0 ? cadences.get(cuts[c - 1]) : undefined;
+      segments.push({
+        index: segments.length,
+        start: segments.length === 0 ? 0 : cuts[c - 1].time,
+        end: members[members.length - 1].time,
+        frames: members.map(member => member.frameIndex),
+        noise: median(members.map(member => member.noise)),
+        detail: median(members.map(member => member.detail)),
+        blockiness: median(members.map(member => member.blockiness)),
+        activeArea: {
+          x: median(areas.map(area => area.x)),
+          y: median(areas.map(area => area.y)),
+          width: median(areas.map(area => area.width)),
+          height: median(areas.map(area => area.height))
+        },
+        effectiveFrameRate: previous?.[1].rate ?? cadence?.[0].rate ?? null,
+        score: 0
+      });
+    }
+
+    const findings: string[] = [];
+    cuts.forEach((cut, c) => {
+      const before = segments[c];
+      const after = segments[c + 1];
+      if (!before || !after) return;
+      const cadence = cadences.get(cut);
+      if (Math.abs(Math.log2((after.noise + 0.1) / (before.noise + 0.1))) > NOISE_MISMATCH) {
+        cut.mismatches.push(`noise level (${before.noise.toFixed(1)} → ${after.noise.toFixed(1)})`);
+      }
+      const areaShift = Math.max(Math.abs(after.activeArea.width - before.activeArea.width), Math.abs(after.activeArea.height - before.activeArea.height));
+      if (areaShift > AREA_MISMATCH) cut.mismatches.push('picture area (letterboxing changes)');
+      if (Math.abs(after.detail - before.detail) > DETAIL_MISMATCH) cut.mismatches.push('effective resolution');
+      if (Math.abs(after.blockiness - before.blockiness) > BLOCKINESS_MISMATCH) cut.mismatches.push('compression blocking');
+      const [rateBefore, rateAfter] = cadence ? [cadence[0].rate, cadence[1].rate] : [null, null];
+      if (rateBefore && rateAfter && Math.abs(Math.log2(rateAfter / rateBefore)) > FRAME_RATE_MISMATCH) {
+        cut.mismatches.push(`frame rate (${rateBefore.toFixed(0)} → ${rateAfter.toFixed(0)} fps of distinct frames)`);
+      }
+      if (cut.mismatches.length > 0) {
+        cut.classification = 'suspicious';
+        findings.push(`${cut.transition === 'fade' ? 'Fade' : 'Cut'} at ${cut.time.toFixed(2)}s joins footage with a different ${cut.mismatches.join(', ')}`);
+      }
+    });
+    if (cuts.length > MAX_EXAMINED_CUTS) findings.push(`Only the first ${MAX_EXAMINED_CUTS} of ${cuts.length} cuts were checked for frame-rate changes`);
+
+    const suspicious = cuts.filter(cut => cut.classification === 'suspicious').length;
+    return { cuts, segments, findings, score: Math.min(suspicious * SUSPICIOUS_CUT_SCORE, 100) };
+  }
+
+  private findCuts(signatures: FrameSignature[]): SceneCut[] {
+    const histograms = signatures.map((signature, i) => (i > 0 ? histogramDistance(signatures[i - 1], signature) : 0));
+    const edges = signatures.map((signature, i) => (i > 0 ? edgeChange(signatures[i - 1], signature) : null));
+    const typicalHistogram = median(histograms.slice(1));
+    const typicalEdges = median(edges.filter((value): value is number => value !== null));
+    const isCut = (i: number) => {
+      if (histograms[i] < CUT_OVER_MEDIAN * typicalHistogram) return false;
+      if (histograms[i] >= CUT_HISTOGRAM) return true;
+      const edgeChanged = edges[i] !== null && edges[i]! >= CUT_EDGE_CHANGE && edges[i]! >= CUT_OVER_MEDIAN * typicalEdges;
+      return histograms[i] >= CONFIRMED_HISTOGRAM && edgeChanged;
+    };
+    const cuts: SceneCut[] = [];
+    const cut = (signature: FrameSignature, transition: SceneCut['transition']) =>
+      cuts.push({ frameIndex: signature.frameIndex, time: signature.time, transition, classification: 'natural', mismatches: [] });
+
+    for (let i = 1; i < signatures.length; i++) {
+      if (isDark(signatures[i])) {
+        // A fade through black; fades in from the start or out at the end are not cuts
+        let j = i;
+        while (j < signatures.length && isDark(signatures[j])) j++;
+        if (j < signatures.length && !isDark(signatures[i - 1])) cut(signatures[j], 'fade');
+        i = j - 1;
+        continue;
+      }
+      if (isDark(signatures[i - 1])) continue;
+      if (isCut(i)) cut(signatures[i], 'hard');
+    }
+    return cuts;
+  }
+
+  // Share of repeated pictures in a run of consecutive frames; a 24 fps source in a 30 fps
+  // stream repeats one frame in five, a 15 fps one every other frame
+  private cadence(frames: Float32Array[], frameRate: number): Cadence {
+    let duplicates = 0;
+    let moving = 0;
+    for (let i = 1; i < frames.length; i++) {
+      let difference = 0;
+      for (let p = 0; p < frames[i].length; p++) difference += Math.abs(frames[i][p] - frames[i - 1][p]);
+      difference /= frames[i].length;
+      if (difference < DUPLICATE_DIFFERENCE) duplicates++;
+      else if (difference > MOTION_DIFFERENCE) moving++;
+    }
+    const pairs = frames.length - 1;
+    if (moving < MIN_MOVING_PAIRS) return { rate: null };
+    return { rate: (frameRate * (pairs - duplicates)) / pairs };
+  }
+
+  private blockiness(gray: Float32Array, width: number, height: number): number {
+    let grid = 0;
+    let gridCount = 0;
+    let other = 0;
+    let otherCount = 0;
+    const rowStep = Math.max(1, Math.floor(height / 180));
+    for (let y = 0; y < height; y += rowStep) {
+      for (let x = 0; x < width - 1; x++) {
+        const step = Math.abs(gray[y * width + x + 1] - gray[y * width + x]);
+        if (x % 8 === 7) {
+          grid += step;
+          gridCount++;
+        } else {
+          other += step;
+          otherCount++;
+        }
+      }
+    }
+    if (gridCount === 0 || otherCount === 0) return 0;
+    return Math.max((grid / gridCount + 0.5) / (other / otherCount + 0.5) - 1, 0);
+  }
+
+  // Uniform dark rows and columns at the borders
+  private activeArea(gray: Float32Array, width: number, height: number): ActiveArea {
+    const isBar = (values: number[]) => {
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      return mean < BAR_BRIGHTNESS && Math.max(...values) - Math.min(...values) < BAR_VARIATION * 4 &&
+        Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length) < BAR_VARIATION;
+    };
+    const row = (y: number) => Array.from({ length: Math.ceil(width / 4) }, (_, i) => gray[y * width + i * 4]);
+    const column = (x: number) => Array.from({ length: Math.ceil(height / 4) }, (_, i) => gray[i * 4 * width + x]);
+
+    let top = 0;
+    while (top < height / 3 && isBar(row(top))) top++;
+    let bottom = height - 1;
+    while (bottom > (height * 2) / 3 && isBar(row(bottom))) bottom--;
+    let left = 0;
+    while (left < width / 3 && isBar(column(left))) left++;
+    let right = width - 1;
+    while (right > (width * 2) / 3 && isBar(column(right))) right--;
+
+    return { x: left / width, y: top / height, width: (right - left + 1) / width, height: (bottom - top + 1) / height };
+  }
+}
+
+export default SceneCutDetector;
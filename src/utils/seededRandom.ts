@@ -0,0 +1,62 @@
+// Deterministic pseudo-random source for the analysis steps that still sample or simulate.
+// Every result records the seed it was produced with, so re-running with that seed
+// reproduces the same numbers.
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+// Only the head of large files is hashed; together with the size this is enough to tell uploads apart
+const MAX_HASHED_BYTES = 4 * 1024 * 1024;
+
+// 32-bit FNV-1a hash, used to derive a default seed from the analyzed content
+export const hashSeed = (input: Uint8Array | string, initial = FNV_OFFSET): number => {
+  let hash = initial >>> 0;
+  if (typeof input === 'string') {
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, FNV_PRIME) >>> 0;
+    }
+  } else {
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input[i];
+      hash = Math.imul(hash, FNV_PRIME) >>> 0;
+    }
+  }
+  return hash;
+};
+
+export const seedFromBlob = async (blob: Blob): Promise<number> => {
+  const head = new Uint8Array(await blob.slice(0, MAX_HASHED_BYTES).arrayBuffer());
+  return hashSeed(String(blob.size), hashSeed(head));
+};
+
+// mulberry32: small, fast and good enough for sampling; not for anything cryptographic
+class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  pick<T>(values: readonly T[]): T {
+    return values[Math.floor(this.next() * values.length)];
+  }
+}
+
+export default SeededRandom;
@@ -0,0 +1,403 @@
+import { fft2d, nextPowerOfTwo } from './fft';
+import { imageDataToUrl, toGrayscale } from './imageIO';
+
+export interface NoiseResidual {
+  width: number;
+  height: number;
+  residual: Float32Array;
+  intensity: Float32Array;
+}
+
+export interface CameraFingerprint {
+  width: number;
+  height: number;
+  imageCount: number;
+  pattern: Float32Array;
+}
+
+export type FingerprintOrientation = 0 | 90 | 180 | 270;
+
+export interface PrnuCorrelationResult {
+  correlation: number;
+  pce: number;
+  matched: boolean;
+  orientation: FingerprintOrientation;
+  // Region of the questioned image (in its own pixel coordinates) that was compared
+  region: { x: number; y: number; width: number; height: number };
+  blockSize: number;
+  columns: number;
+  rows: number;
+  blockCorrelations: (number | null)[];
+  inconsistentBlocks: number;
+  mapImage: string;
+  findings: string[];
+  score: number;
+}
+
+// Processing is limited to a centre crop; PRNU is a per-pixel pattern, so the crop
+// stays aligned as long as every image has the camera's native resolution
+const MAX_CROP = 2048;
+// Variance of the noise the denoiser removes, in 8-bit grey levels squared (sigma 3)
+const NOISE_VARIANCE = 9;
+const WIENER_WINDOWS = [3, 5, 7, 9];
+// Peak-to-correlation-energy above which source attribution is usually accepted
+const PCE_THRESHOLD = 60;
+const PCE_CROP = 1024;
+const PCE_EXCLUSION = 5;
+const BLOCK_SIZE = 64;
+const LOCAL_CORRELATION_RATIO = 0.3;
+
+class SensorNoiseAnalyzer {
+  // Wiener-style denoiser: per pixel, the smallest local signal variance over several
+  // windows decides how much of the deviation from the local mean is treated as noise
+  extractResidual(imageData: ImageData): NoiseResidual {
+    const width = Math.min(imageData.width, MAX_CROP);
+    const height = Math.min(imageData.height, MAX_CROP);
+    const offsetX = Math.floor((imageData.width - width) / 2);
+    const offsetY = Math.floor((imageData.height - height) / 2);
+
+    const fullGray = toGrayscale(imageData);
+    const intensity = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      intensity.set(fullGray.subarray((y + offsetY) * imageData.width + offsetX, (y + offsetY) * imageData.width + offsetX + width), y * width);
+    }
+
+    const { sum, sumSq } = this.integralImages(intensity, width, height);
+    const residual = new Float32Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let signalVariance = Infinity;
+        let mean3 = 0;
+        for (const window of WIENER_WINDOWS) {
+          const radius = window >> 1;
+          const x0 = Math.max(x - radius, 0);
+          const y0 = Math.max(y - radius, 0);
+          const x1 = Math.min(x + radius + 1, width);
+          const y1 = Math.min(y + radius + 1, height);
+          const count = (x1 - x0) * (y1 - y0);
+          const mean = this.boxSum(sum, width, x0, y0, x1, y1) / count;
+          const variance = this.boxSum(sumSq, width, x0, y0, x1, y1) / count - mean * mean;
+          if (window === 3) mean3 = mean;
+          signalVariance = Math.min(signalVariance, Math.max(variance - NOISE_VARIANCE, 0));
+        }
+        const index = y * width + x;
+        residual[index] = ((intensity[index] - mean3) * NOISE_VARIANCE) / (signalVariance + NOISE_VARIANCE);
+      }
+    }
+
+    this.removeLinearPattern(residual, width, height);
+    return { width, height, residual, intensity };
+  }
+
+  // Maximum-likelihood PRNU estimate K = Σ W·I / Σ I² over images from one camera
+  buildFingerprint(images: ImageData[]): CameraFingerprint {
+    if (images.length === 0) throw new Error('At least one reference image is required');
+
+    const residuals = images.map(image => this.extractResidual(this.matchOrientation(image, images[0])));
+    const width = Math.min(...residuals.map(residual => residual.width));
+    const height = Math.min(...residuals.map(residual => residual.height));
+
+    const numerator = new Float32Array(width * height);
+    const denominator = new Float32Array(width * height);
+    for (const residual of residuals) {
+      const offsetX = Math.floor((residual.width - width) / 2);
+      const offsetY = Math.floor((residual.height - height) / 2);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const source = (y + offsetY) * residual.width + x + offsetX;
+          const target = y * width + x;
+          numerator[target] += residual.residual[source] * residual.intensity[source];
+          denominator[target] += residual.intensity[source] ** 2;
+        }
+      }
+    }
+
+    const pattern = new Float32Array(width * height);
+    for (let i = 0; i < pattern.length; i++) pattern[i] = denominator[i] > 0 ? numerator[i] / denominator[i] : 0;
+    this.removeLinearPattern(pattern, width, height);
+
+    return { width, height, imageCount: images.length, pattern };
+  }
+
+  correlate(imageData: ImageData, fingerprint: CameraFingerprint): PrnuCorrelationResult {
+    const residual = this.extractResidual(imageData);
+    const orientations: FingerprintOrientation[] = residual.width === fingerprint.width && residual.height === fingerprint.height
+      ? [0, 180]
+      : residual.width === fingerprint.height && residual.height === fingerprint.width
+        ? [90, 270]
+        : [0, 180];
+
+    // Rotate the fingerprint to the questioned image and keep the best-scoring orientation
+    let best: { orientation: FingerprintOrientation; pattern: Float32Array; width: number; height: number; pce: number } | null = null;
+    for (const orientation of orientations) {
+      const rotated = this.rotate(fingerprint.pattern, fingerprint.width, fingerprint.height, orientation);
+      const width = Math.min(rotated.width, residual.width);
+      const height = Math.min(rotated.height, residual.height);
+      const { signal, expected } = this.alignedPair(residual, rotated.pattern, rotated.width, rotated.height, width, height);
+      const pce = this.peakToCorrelationEnergy(signal, expected, width, height);
+      if (!best || pce > best.pce) best = { orientation, pattern: rotated.pattern, width: rotated.width, height: rotated.height, pce };
+    }
+    if (!best) throw new Error('No orientation could be compared');
+
+    const width = Math.min(best.width, residual.width);
+    const height = Math.min(best.height, residual.height);
+    const { signal, expected, intensity } = this.alignedPair(residual, best.pattern, best.width, best.height, width, height);
+    const correlation = this.normalizedCorrelation(signal, expected);
+    const matched = best.pce >= PCE_THRESHOLD;
+
+    const map = this.localCorrelationMap(signal, expected, intensity, width, height);
+    const reliable = map.values.filter((value): value is number => value !== null);
+    const reliableMedian = reliable.length > 0 ? [...reliable].sort((a, b) => a - b)[Math.floor(reliable.length / 2)] : 0;
+    // Only meaningful when the fingerprint is clearly present elsewhere in the frame; a block
+    // is flagged when it retains less than a third of the typical block correlation
+    const inconsistent = matched && reliableMedian > 0.02
+      ? map.values.map(value => value !== null && value < reliableMedian * LOCAL_CORRELATION_RATIO)
+      : map.values.map(() => false);
+    const inconsistentBlocks = inconsistent.filter(Boolean).length;
+
+    const findings: string[] = [];
+    if (!matched) {
+      findings.push(`Sensor noise does not match the reference camera (PCE ${best.pce.toFixed(1)} < ${PCE_THRESHOLD})`);
+    } else {
+      findings.push(`Sensor noise matches the reference camera (PCE ${best.pce.toFixed(1)})`);
+      if (inconsistentBlocks > 0) {
+        findings.push(`${inconsistentBlocks} region${inconsistentBlocks === 1 ? '' : 's'} lack the camera's noise pattern`);
+      }
+    }
+
+    const score = matched
+      ? Math.min((inconsistentBlocks / Math.max(reliable.length, 1)) * 400, 100)
+      : 70;
+
+    const regionX = Math.floor((imageData.width - width) / 2);
+    const regionY = Math.floor((imageData.height - height) / 2);
+
+    return {
+      correlation,
+      pce: best.pce,
+      matched,
+      orientation: best.orientation,
+      region: { x: regionX, y: regionY, width, height },
+      blockSize: BLOCK_SIZE,
+      columns: map.columns,
+      rows: map.rows,
+      blockCorrelations: map.values,
+      inconsistentBlocks,
+      mapImage: this.renderMap(map.values, inconsistent, map.columns, map.rows),
+      findings,
+      score
+    };
+  }
+
+  // Centre-aligns the questioned residual with the fingerprint and forms I·K, the pattern the
+  // residual should contain if the image came from the reference camera
+  private alignedPair(residual: NoiseResidual, pattern: Float32Array, patternWidth: number, patternHeight: number, width: number, height: number) {
+    const signal = new Float32Array(width * height);
+    const expected = new Float32Array(width * height);
+    const intensity = new Float32Array(width * height);
+    const residualX = Math.floor((residual.width - width) / 2);
+    const residualY = Math.floor((residual.height - height) / 2);
+    const patternX = Math.floor((patternWidth - width) / 2);
+    const patternY = Math.floor((patternHeight - height) / 2);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const source = (y + residualY) * residual.width + x + residualX;
+        const target = y * width + x;
+        signal[target] = residual.residual[source];
+        intensity[target] = residual.intensity[source];
+        expected[target] = residual.intensity[source] * pattern[(y + patternY) * patternWidth + x + patternX];
+      }
+    }
+    return { signal, expected, intensity };
+  }
+
+  // PCE: squared correlation peak over the mean energy of the cross-correlation away from it
+  private peakToCorrelationEnergy(signal: Float32Array, expected: Float32Array, width: number, height: number): number {
+    // Zero-pad up to a power of two; larger images contribute their centre
+    const size = Math.min(PCE_CROP, nextPowerOfTwo(Math.max(width, height)));
+    const cropWidth = Math.min(width, size);
+    const cropHeight = Math.min(height, size);
+    const offsetX = Math.floor((width - cropWidth) / 2);
+    const offsetY = Math.floor((height - cropHeight) / 2);
+
+    const aRe = new Float64Array(size * size);
+    const aIm = new Float64Array(size * size);
+    const bRe = new Float64Array(size * size);
+    const bIm = new Float64Array(size * size);
+    for (let y = 0; y < cropHeight; y++) {
+      for (let x = 0; x < cropWidth; x++) {
+        const source = (y + offsetY) * width + x + offsetX;
+        aRe[y * size + x] = signal[source];
+        bRe[y * size + x] = expected[source];
+      }
+    }
+
+    fft2d(aRe, aIm, size, size);
+    fft2d(bRe, bIm, size, size);
+    for (let i = 0; i < aRe.length; i++) {
+      const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+      const im = aIm[i] * bRe[i] - aRe[i] * bIm[i];
+      aRe[i] = re;
+      aIm[i] = im;
+    }
+    fft2d(aRe, aIm, size, size, true);
+
+    // Images are aligned, so the peak is expected at zero shift
+    const peak = aRe[0];
+    let energy = 0;
+    let count = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const dx = Math.min(x, size - x);
+        const dy = Math.min(y, size - y);
+        if (dx <= PCE_EXCLUSION && dy <= PCE_EXCLUSION) continue;
+        energy += aRe[y * size + x] ** 2;
+        count++;
+      }
+    }
+    return count > 0 && energy > 0 ? (Math.sign(peak) * peak ** 2) / (energy / count) : 0;
+  }
+
+  private localCorrelationMap(signal: Float32Array, expected: Float32Array, intensity: Float32Array, width: number, height: number) {
+    const columns = Math.floor(width / BLOCK_SIZE);
+    const rows = Math.floor(height / BLOCK_SIZE);
+    const values: (number | null)[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const a: number[] = [];
+        const b: number[] = [];
+        let brightness = 0;
+        for (let y = row * BLOCK_SIZE; y < (row + 1) * BLOCK_SIZE; y++) {
+          for (let x = column * BLOCK_SIZE; x < (column + 1) * BLOCK_SIZE; x++) {
+            const index = y * width + x;
+            a.push(signal[index]);
+            b.push(expected[index]);
+            brightness += intensity[index];
+          }
+        }
+        brightness /= BLOCK_SIZE * BLOCK_SIZE;
+        // Dark and clipped areas carry no multiplicative PRNU
+        values.push(brightness < 25 || brightness > 235 ? null : this.normalizedCorrelation(a, b));
+      }
+    }
+
+    return { columns, rows, values };
+  }
+
+  private renderMap(values: (number | null)[], inconsistent: boolean[], columns: number, rows: number): string {
+    const image = new ImageData(Math.max(columns, 1), Math.max(rows, 1));
+    const reliable = values.filter((value): value is number => value !== null);
+    const max = Math.max(...reliable.map(Math.abs), 1e-6);
+
+    values.forEach((value, index) => {
+      const offset = index * 4;
+      if (value === null) {
+        image.data.set([100, 116, 139, 60], offset);
+      } else if (inconsistent[index]) {
+        image.data.set([239, 68, 68, 200], offset);
+      } else {
+        const strength = Math.max(value, 0) / max;
+        image.data.set([34, 197, 94, 40 + strength * 140], offset);
+      }
+    });
+    return imageDataToUrl(image);
+  }
+
+  private normalizedCorrelation(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < a.length; i++) {
+      meanA += a[i];
+      meanB += b[i];
+    }
+    meanA /= a.length;
+    meanB /= b.length;
+
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+      const da = a[i] - meanA;
+      const db = b[i] - meanB;
+      covariance += da * db;
+      varianceA += da * da;
+      varianceB += db * db;
+    }
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+  }
+
+  // Row and column means carry CFA interpolation and JPEG artifacts shared by every camera of a model
+  private removeLinearPattern(values: Float32Array, width: number, height: number) {
+    for (let y = 0; y < height; y++) {
+      let mean = 0;
+      for (let x = 0; x < width; x++) mean += values[y * width + x];
+      mean /= width;
+      for (let x = 0; x < width; x++) values[y * width + x] -= mean;
+    }
+    for (let x = 0; x < width; x++) {
+      let mean = 0;
+      for (let y = 0; y < height; y++) mean += values[y * width + x];
+      mean /= height;
+      for (let y = 0; y < height; y++) values[y * width + x] -= mean;
+    }
+  }
+
+  private rotate(values: Float32Array, width: number, height: number, orientation: FingerprintOrientation) {
+    if (orientation === 0) return { pattern: values, width, height };
+    if (orientation === 180) return { pattern: Float32Array.from(values).reverse(), width, height };
+
+    const rotated = new Float32Array(values.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // 90° clockwise: (x, y) -> (height - 1 - y, x); 270° is the opposite turn
+        const target = orientation === 90 ? x * height + (height - 1 - y) : (width - 1 - x) * height + y;
+        rotated[target] = values[y * width + x];
+      }
+    }
+    return { pattern: rotated, width: height, height: width };
+  }
+
+  // Reference shots taken in portrait are turned back to the first reference's orientation
+  private matchOrientation(image: ImageData, reference: ImageData): ImageData {
+    const isPortrait = image.height > image.width;
+    if (isPortrait === reference.height > reference.width) return image;
+
+    const rotated = new ImageData(image.height, image.width);
+    for (let y = 0; y < image.height; y++) {
+      for (let x = 0; x < image.width; x++) {
+        const source = (y * image.width + x) * 4;
+        const target = (x * image.height + (image.height - 1 - y)) * 4;
+        rotated.data.set(image.data.subarray(source, source + 4), target);
+      }
+    }
+    return rotated;
+  }
+
+  private integralImages(values: Float32Array, width: number, height: number) {
+    const sum = new Float64Array((width + 1) * (height + 1));
+    const sumSq = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      let rowSumSq = 0;
+      for (let x = 0; x < width; x++) {
+        const value = values[y * width + x];
+        rowSum += value;
+        rowSumSq += value * value;
+        const index = (y + 1) * (width + 1) + x + 1;
+        sum[index] = sum[index - width - 1] + rowSum;
+        sumSq[index] = sumSq[index - width - 1] + rowSumSq;
+      }
+    }
+    return { sum, sumSq };
+  }
+
+  private boxSum(integral: Float64Array, width: number, x0: number, y0: number, x1: number, y1: number): number {
+    const stride = width + 1;
+    return integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+  }
+}
+
+export default SensorNoiseAnalyzer;
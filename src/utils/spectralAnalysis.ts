@@ -0,0 +1,264 @@
+import { fft2d, hannWindow, largestPowerOfTwo } from './fft';
+import { imageDataToUrl, toGrayscale } from './imageIO';
+
+export interface SpectralProfilePoint {
+  frequency: number;
+  power: number;
+  reference: number;
+}
+
+export interface SpectralPeak {
+  // Normalised frequency in [-1, 1], where ±1 is the Nyquist frequency
+  u: number;
+  v: number;
+  prominence: number;
+}
+
+export interface SpectralResult {
+  size: number;
+  spectrumImage: string;
+  profile: SpectralProfilePoint[];
+  slope: number;
+  tailDeviation: number;
+  peaks: SpectralPeak[];
+  findings: string[];
+  score: number;
+}
+
+export interface SpectralOptions {
+  // JPEG's 8x8 block grid puts peaks at multiples of N/8; ignore them for JPEG input
+  ignoreBlockGrid?: boolean;
+}
+
+const MAX_SIZE = 512;
+const MIN_SIZE = 64;
+
+// Natural photographs follow a 1/f^2 power law (a slope of -2 in log-log terms).
+// Camera pipelines land between these slopes; the tail may sit this far (in
+// decades) from the power law before denoising, sharpening or noise make it unusual.
+const REFERENCE_SLOPE = -2;
+const REAL_PHOTO_SLOPE_RANGE: [number, number] = [-3.2, -1.4];
+const REAL_PHOTO_TAIL_RANGE: [number, number] = [-1.2, 0.8];
+
+const FIT_BAND: [number, number] = [0.05, 0.4];
+const TAIL_BAND: [number, number] = [0.6, 1];
+
+const PEAK_MIN_RADIUS = 0.2;
+const PEAK_THRESHOLD = 1.3;
+const PEAK_SHARPNESS = 0.5;
+const SPIKE_THRESHOLD = 0.3;
+const MAX_PEAKS = 12;
+
+class SpectralAnalyzer {
+  analyze(imageData: ImageData, options: SpectralOptions = {}): SpectralResult | null {
+    const size = Math.min(MAX_SIZE, largestPowerOfTwo(Math.min(imageData.width, imageData.height)));
+    if (size < MIN_SIZE) return null;
+
+    const logPower = this.computeLogPowerSpectrum(imageData, size);
+    const { profile, radialLogMean, slope, tailDeviation } = this.radialProfile(logPower, size);
+    const peaks = this.findPeaks(logPower, radialLogMean, size, options);
+    const spikes = this.countProfileSpikes(profile);
+
+    const findings: string[] = [];
+    let score = 0;
+
+    if (peaks.length > 0) {
+      findings.push(`${peaks.length} periodic peak${peaks.length === 1 ? '' : 's'} in the high-frequency spectrum, typical of upsampling layers`);
+      score += Math.min(peaks.length, 3) * 25;
+    }
+    if (spikes > 0) {
+      findings.push(`Radial power spectrum shows ${spikes} narrow high-frequency bump${spikes === 1 ? '' : 's'}`);
+      score += Math.min(spikes, 2) * 10;
+    }
+    if (tailDeviation > REAL_PHOTO_TAIL_RANGE[1]) {
+      findings.push(`High-frequency energy ${tailDeviation.toFixed(2)} decades above the natural-image power law`);
+      score += Math.min((tailDeviation - REAL_PHOTO_TAIL_RANGE[1]) * 40, 30);
+    } else if (tailDeviation < REAL_PHOTO_TAIL_RANGE[0]) {
+      findings.push(`High-frequency energy ${Math.abs(tailDeviation).toFixed(2)} decades below the natural-image power law`);
+      score += Math.min((REAL_PHOTO_TAIL_RANGE[0] - tailDeviation) * 20, 20);
+    }
+    if (slope < REAL_PHOTO_SLOPE_RANGE[0] || slope > REAL_PHOTO_SLOPE_RANGE[1]) {
+      findings.push(`Spectral slope ${slope.toFixed(2)} is outside the range measured on camera images`);
+      score += 15;
+    }
+
+    return {
+      size,
+      spectrumImage: this.renderSpectrum(logPower, size),
+      profile,
+      slope,
+      tailDeviation,
+      peaks,
+      findings,
+      score: Math.min(score, 100)
+    };
+  }
+
+  // Centre crop at native resolution: resizing would smear exactly the artifacts we look for
+  private computeLogPowerSpectrum(imageData: ImageData, size: number): Float64Array {
+    const gray = toGrayscale(imageData);
+    const offsetX = Math.floor((imageData.width - size) / 2);
+    const offsetY = Math.floor((imageData.height - size) / 2);
+    const window = hannWindow(size);
+
+    const re = new Float64Array(size * size);
+    const im = new Float64Array(size * size);
+    let mean = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const value = gray[(offsetY + y) * imageData.width + offsetX + x];
+        re[y * size + x] = value;
+        mean += value;
+      }
+    }
+    mean /= size * size;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) re[y * size + x] = (re[y * size + x] - mean) * window[x] * window[y];
+    }
+
+    fft2d(re, im, size, size);
+
+    // Shift the zero frequency to the centre
+    const half = size / 2;
+    const logPower = new Float64Array(size * size);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const source = ((y + half) % size) * size + ((x + half) % size);
+        logPower[y * size + x] = Math.log10(re[source] ** 2 + im[source] ** 2 + 1e-9);
+      }
+    }
+    return logPower;
+  }
+
+  private radialProfile(logPower: Float64Array, size: number) {
+    const half = size / 2;
+    // Bins run out to the corners so peaks beyond the Nyquist circle have a baseline too
+    const bins = Math.ceil(half * Math.SQRT2) + 1;
+    const sums = new Float64Array(bins);
+    const logSums = new Float64Array(bins);
+    const counts = new Uint32Array(bins);
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const radius = Math.round(Math.hypot(x - half, y - half));
+        const value = logPower[y * size + x];
+        sums[radius] += 10 ** value;
+        logSums[radius] += value;
+        counts[radius]++;
+      }
+    }
+
+    const radialLogMean = Array.from(logSums, (sum, radius) => sum / Math.max(counts[radius], 1));
+    const measured = Array.from(sums, (sum, radius) => Math.log10(sum / Math.max(counts[radius], 1) + 1e-9));
+
+    // Least-squares slope in log-log space over the band where natural images are well behaved
+    const fitPoints: [number, number][] = [];
+    for (let radius = 1; radius <= half; radius++) {
+      const frequency = radius / half;
+      if (frequency >= FIT_BAND[0] && frequency <= FIT_BAND[1]) fitPoints.push([Math.log10(frequency), measured[radius]]);
+    }
+    const meanX = fitPoints.reduce((sum, [x]) => sum + x, 0) / fitPoints.length;
+    const meanY = fitPoints.reduce((sum, [, y]) => sum + y, 0) / fitPoints.length;
+    const covariance = fitPoints.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0);
+    const variance = fitPoints.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+    const slope = variance > 0 ? covariance / variance : 0;
+
+    // The reference is the 1/f^2 law anchored at the same mid-band level as the measurement
+    const reference = (frequency: number) => meanY + REFERENCE_SLOPE * (Math.log10(frequency) - meanX);
+
+    const profile: SpectralProfilePoint[] = [];
+    const tailResiduals: number[] = [];
+    for (let radius = 1; radius <= half; radius++) {
+      const frequency = radius / half;
+      const point = { frequency, power: measured[radius], reference: reference(frequency) };
+      profile.push(point);
+      if (frequency >= TAIL_BAND[0] && frequency <= TAIL_BAND[1]) tailResiduals.push(point.power - point.reference);
+    }
+    const tailDeviation = tailResiduals.reduce((sum, value) => sum + value, 0) / Math.max(tailResiduals.length, 1);
+
+    return { profile, radialLogMean, slope, tailDeviation };
+  }
+
+  // Isolated bright points well above their ring average; lines through the origin from
+  // straight edges fail the sharpness test because their neighbours along the line are bright too.
+  // Period-2 checkerboards sit exactly on the Nyquist edge, so neighbours wrap around.
+  private findPeaks(logPower: Float64Array, radialLogMean: number[], size: number, options: SpectralOptions): SpectralPeak[] {
+    const half = size / 2;
+    const gridSpacing = size / 8;
+    const peaks: SpectralPeak[] = [];
+    const at = (x: number, y: number) => logPower[((y + size) % size) * size + ((x + size) % size)];
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const u = x - half;
+        const v = y - half;
+        // The spectrum is point-symmetric; keep one half plus the Nyquist row and column, which have no mirror
+        if ((v < 0 && v !== -half) || (v === 0 && u <= 0 && u !== -half)) continue;
+
+        const radius = Math.round(Math.hypot(u, v));
+        if (radius < PEAK_MIN_RADIUS * half) continue;
+
+        const value = logPower[y * size + x];
+        const prominence = value - radialLogMean[radius];
+        if (prominence < PEAK_THRESHOLD) continue;
+
+        if (options.ignoreBlockGrid) {
+          const nearGrid = (n: number) => Math.abs(n - Math.round(n / gridSpacing) * gridSpacing) <= 1;
+          if (nearGrid(u) && nearGrid(v)) continue;
+        }
+
+        let isMaximum = true;
+        for (let dy = -1; dy <= 1 && isMaximum; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if ((dx || dy) && at(x + dx, y + dy) > value) {
+              isMaximum = false;
+              break;
+            }
+          }
+        }
+        if (!isMaximum) continue;
+
+        let ringMax = -Infinity;
+        for (let d = -3; d <= 3; d++) {
+          ringMax = Math.max(ringMax, at(x + d, y - 3), at(x + d, y + 3), at(x - 3, y + d), at(x + 3, y + d));
+        }
+        if (value - ringMax < PEAK_SHARPNESS) continue;
+
+        peaks.push({ u: u / half, v: v / half, prominence });
+      }
+    }
+
+    return peaks.sort((a, b) => b.prominence - a.prominence).slice(0, MAX_PEAKS);
+  }
+
+  private countProfileSpikes(profile: SpectralProfilePoint[]): number {
+    let spikes = 0;
+    for (let i = 3; i < profile.length - 3; i++) {
+      if (profile[i].frequency < TAIL_BAND[0] / 2) continue;
+      const neighbours = [-3, -2, 2, 3].map(offset => profile[i + offset].power).sort((a, b) => a - b);
+      const baseline = (neighbours[1] + neighbours[2]) / 2;
+      const isLocalMax = profile[i].power >= profile[i - 1].power && profile[i].power >= profile[i + 1].power;
+      if (isLocalMax && profile[i].power - baseline > SPIKE_THRESHOLD) spikes++;
+    }
+    return spikes;
+  }
+
+  private renderSpectrum(logPower: Float64Array, size: number): string {
+    const sorted = Float64Array.from(logPower).sort();
+    const low = sorted[Math.floor(sorted.length * 0.01)];
+    const high = sorted[Math.floor(sorted.length * 0.999)];
+    const range = Math.max(high - low, 1e-6);
+
+    const image = new ImageData(size, size);
+    for (let i = 0; i < logPower.length; i++) {
+      const value = Math.round(Math.min(Math.max((logPower[i] - low) / range, 0), 1) * 255);
+      image.data[i * 4] = value;
+      image.data[i * 4 + 1] = value;
+      image.data[i * 4 + 2] = value;
+      image.data[i * 4 + 3] = 255;
+    }
+    return imageDataToUrl(image);
+  }
+}
+
+export default SpectralAnalyzer;
@@ -0,0 +1,117 @@
+import { RawImage } from '@huggingface/transformers';
+import AIModelManager from './aiModels';
+import { DetectedFace } from './faceAnalysis';
+import { cropImageData } from './imageIO';
+import { LabelMapping } from './modelRegistry';
+
+export interface ClassifierLabel {
+  label: string;
+  score: number;
+}
+
+export interface SyntheticImageResult {
+  model: string;
+  // The classifier's own top labels for the whole image
+  labels: ClassifierLabel[];
+  // Share of the mapped label mass on the synthetic side. The model's raw output,
+  // not a calibrated probability: no labelled set has been scored against it yet,
+  // so the verdict leaves it out
+  probability: number;
+  // The same share for the largest face, which is what face-swaps change
+  faceProbability: number | null;
+  faceLabels: ClassifierLabel[];
+  score: number;
+  findings: string[];
+}
+
+const TOP_LABELS = 5;
+// Face crops keep some hair and background so blending seams stay in frame
+const FACE_MARGIN = 1.4;
+// Faces smaller than this are too blurry for the classifier's 224px input
+const MIN_FACE_SIZE = 48;
+
+const toRawImage = (imageData: ImageData) => new RawImage(imageData.data, imageData.width, imageData.height, 4);
+
+class SyntheticImageClassifier {
+  private modelManager = AIModelManager.getInstance();
+
+  // Resolves to null when the model can't be loaded or inference fails; the forensic checks still run
+  async classify(imageData: ImageData, faces: DetectedFace[]): Promise<SyntheticImageResult | null> {
+    const definition = this.modelManager.describe('synthetic-image');
+    if (!definition.labels) {
+      console.warn(`${definition.model} has no label mapping in the model registry`);
+      return null;
+    }
+
+    let classifier;
+    try {
+      classifier = await this.modelManager.load('synthetic-image');
+    } catch (error) {
+      console.warn('Synthetic-image classifier unavailable:', error);
+      return null;
+    }
+
+    const run = async (image: ImageData): Promise<ClassifierLabel[]> =>
+      classifier(toRawImage(image), { top_k: null });
+
+    let labels: ClassifierLabel[];
+    let faceLabels: ClassifierLabel[] = [];
+    const face = [...faces].sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height)[0];
+    try {
+      labels = await run(imageData);
+      if (face && Math.min(face.box.width, face.box.height) >= MIN_FACE_SIZE) {
+        faceLabels = await run(this.cropFace(imageData, face));
+      }
+    } catch (error) {
+      console.warn('Synthetic-image classifier failed:', error);
+      return null;
+    }
+
+    const probability = this.syntheticShare(labels, definition.labels);
+    if (probability === null) {
+      console.warn(`None of ${definition.model}'s labels are mapped: ${labels.map(entry => entry.label).join(', ')}`);
+      return null;
+    }
+    const faceProbability = faceLabels.length > 0 ? this.syntheticShare(faceLabels, definition.labels) : null;
+
+    const strongest = Math.max(probability, faceProbability ?? 0);
+    const findings: string[] = [];
+    const describe = (entries: ClassifierLabel[]) =>
+      entries.slice(0, 2).map(entry => `${entry.label} ${entry.score.toFixed(2)}`).join(', ');
+    if (probability >= 0.5) {
+      findings.push(`Synthetic-image classifier: the image scores ${(probability * 100).toFixed(0)}% generated or manipulated (${describe(labels)})`);
+    }
+    if (faceProbability !== null && faceProbability >= 0.5) {
+      findings.push(`Synthetic-image classifier: the main face scores ${(faceProbability * 100).toFixed(0)}% swapped or generated (${describe(faceLabels)})`);
+    }
+    if (strongest < 0.5) {
+      findings.push(`Synthetic-image classifier: scores ${(strongest * 100).toFixed(0)}% synthetic; consistent with a camera image`);
+    }
+
+    return {
+      model: definition.model,
+      labels: labels.slice(0, TOP_LABELS),
+      probability,
+      faceProbability,
+      faceLabels: faceLabels.slice(0, TOP_LABELS),
+      score: strongest * 100,
+      findings
+    };
+  }
+
+  private syntheticShare(labels: ClassifierLabel[], mapping: LabelMapping): number | null {
+    const matches = (names: string[], label: string) => names.includes(label.trim().toLowerCase());
+    const synthetic = labels.filter(entry => matches(mapping.synthetic, entry.label)).reduce((sum, entry) => sum + entry.score, 0);
+    const real = labels.filter(entry => matches(mapping.real, entry.label)).reduce((sum, entry) => sum + entry.score, 0);
+    return synthetic + real > 0 ? synthetic / (synthetic + real) : null;
+  }
+
+  private cropFace(imageData: ImageData, face: DetectedFace): ImageData {
+    const side = Math.min(Math.max(face.box.width, face.box.height) * FACE_MARGIN, imageData.width, imageData.height);
+    const left = Math.min(Math.max(face.box.x + face.box.width / 2 - side / 2, 0), imageData.width - side);
+    const top = Math.min(Math.max(face.box.y + face.box.height / 2 - side / 2, 0), imageData.height - side);
+    return cropImageData(imageData, Math.round(left), Math.round(top), Math.round(side), Math.round(side));
+  }
+}
+
+export default SyntheticImageClassifier;
@@ -0,0 +1,135 @@
+// Minimal POSIX tar (ustar) reader and writer for model bundles. Entries are
+// Blob slices of the archive, so multi-gigabyte bundles are never copied into
+// memory as a whole.
+
+import { readAscii, readUtf8 } from './fileFormats';
+
+export interface TarEntry {
+  path: string;
+  size: number;
+  data: Blob;
+}
+
+const BLOCK = 512;
+
+export const isGzip = (bytes: Uint8Array): boolean => bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const readString = (bytes: Uint8Array, offset: number, length: number): string => {
+  let end = offset;
+  while (end < offset + length && bytes[end] !== 0) end++;
+  return readUtf8(bytes.subarray(offset, end));
+};
+
+const readOctal = (bytes: Uint8Array, offset: number, length: number): number => {
+  const text = readAscii(bytes, offset, length).replace(/\0.*$/, '').trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+// Extended (pax) headers carry "<length> key=value\n" records
+const readPaxPath = (bytes: Uint8Array): string | null => {
+  for (const record of readUtf8(bytes).split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+export const readTar = async (archive: Blob): Promise<TarEntry[]> => {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let nextPath: string | null = null;
+
+  while (offset + BLOCK <= archive.size) {
+    const header = new Uint8Array(await archive.slice(offset, offset + BLOCK).arrayBuffer());
+    // Two zero blocks end the archive; one is enough to stop reading
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK;
+    const data = archive.slice(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === 'L') {
+      // GNU long name: the data block holds the name of the following entry
+      nextPath = readString(new Uint8Array(await data.arrayBuffer()), 0, size);
+      continue;
+    }
+    if (type === 'x') {
+      nextPath = readPaxPath(new Uint8Array(await data.arrayBuffer())) ?? nextPath;
+      continue;
+    }
+
+    let path = readString(header, 0, 100);
+    if (readAscii(header, 257, 5) === 'ustar') {
+      const prefix = readString(header, 345, 155);
+      if (prefix) path = `${prefix}/${path}`;
+    }
+    if (nextPath) path = nextPath;
+    nextPath = null;
+
+    // Regular files only; directories and links carry nothing a bundle needs
+    if (type === '0' || type === '\0' || type === '7') {
+      entries.push({ path: path.replace(/^\.\//, ''), size, data });
+    }
+  }
+
+  return entries;
+};
+
+export const gunzip = (archive: Blob): Promise<Blob> =>
+  new Response(archive.stream().pipeThrough(new DecompressionStream('gzip'))).blob();
+
+const writeField = (header: Uint8Array, offset: number, length: number, value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  if (bytes.length > length) throw new Error(`Tar header field too long: ${value}`);
+  header.set(bytes, offset);
+};
+
+const octal = (value: number, length: number): string => value.toString(8).padStart(length - 1, '0') + '\0';
+
+// ustar splits long paths into a 155-byte prefix and a 100-byte name at a slash
+const splitPath = (path: string): { prefix: string; name: string } => {
+  if (new TextEncoder().encode(path).length <= 100) return { prefix: '', name: path };
+  for (let i = path.lastIndexOf('/'); i > 0; i = path.lastIndexOf('/', i - 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (new TextEncoder().encode(name).length <= 100 && new TextEncoder().encode(prefix).length <= 155) {
+      return { prefix, name };
+    }
+  }
+  throw new Error(`Path too long for a tar archive: ${path}`);
+};
+
+const fileHeader = (path: string, size: number, mtime: number): Uint8Array => {
+  const header = new Uint8Array(BLOCK);
+  const { prefix, name } = splitPath(path);
+  writeField(header, 0, 100, name);
+  writeField(header, 100, 8, '0000644\0');
+  writeField(header, 108, 8, '0000000\0');
+  writeField(header, 116, 8, '0000000\0');
+  writeField(header, 124, 12, octal(size, 12));
+  writeField(header, 136, 12, octal(mtime, 12));
+  writeField(header, 156, 1, '0');
+  writeField(header, 257, 6, 'ustar\0');
+  writeField(header, 263, 2, '00');
+  writeField(header, 345, 155, prefix);
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeField(header, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ');
+  return header;
+};
+
+export const writeTar = (files: { path: string; data: Blob }[]): Blob => {
+  const mtime = Math.floor(Date.now() / 1000);
+  const parts: BlobPart[] = [];
+  for (const file of files) {
+    parts.push(fileHeader(file.path, file.data.size, mtime), file.data);
+    const padding = (BLOCK - (file.data.size % BLOCK)) % BLOCK;
+    if (padding) parts.push(new Uint8Array(padding));
+  }
+  parts.push(new Uint8Array(BLOCK * 2));
+  return new Blob(parts, { type: 'application/x-tar' });
+};
@@ -0,0 +1,355 @@
+import { resizeImageData, toGrayscale } from './imageIO';
+import { probeVideoTrack } from './videoContainer';
+import VideoFrameExtractor from './videoFrames';
+
+// Timing integrity: re-timed footage shows in the presentation timestamps (gaps, irregular
+// steps, a stretch at another frame rate) and in the pictures themselves (repeated frames,
+// jumps where frames were removed, in-between frames synthesised from their neighbours).
+
+export type TimingAnomalyKind = 'duplicate' | 'dropped' | 'irregular-pts' | 'interpolated' | 'rate-change';
+
+export interface TimingAnomaly {
+  kind: TimingAnomalyKind;
+  firstFrame: number;
+  lastFrame: number;
+  start: number;
+  end: number;
+  description: string;
+}
+
+export interface TimingFrame {
+  frameIndex: number;
+  time: number;
+  // Mean absolute grey-level change from the previous decoded frame
+  motion: number;
+  // Bits differing from the previous frame's perceptual hash (of 64)
+  hashDistance: number;
+}
+
+export interface DecodedRunFrame {
+  frameIndex: number;
+  time: number;
+  // Grey thumbnail, THUMBNAIL_WIDTH pixels wide
+  gray: Float32Array;
+}
+
+export interface TimingIntegrityResult {
+  timestampSource: 'container' | 'assumed';
+  nominalFrameRate: number;
+  frameCount: number;
+  // Runs of consecutive frames decoded for the picture checks
+  frames: TimingFrame[];
+  anomalies: TimingAnomaly[];
+  findings: string[];
+  notes: string[];
+  // 100 when neither the timestamps nor the pictures show re-timing
+  integrity: number;
+}
+
+const THUMBNAIL_WIDTH = 64;
+const RUN_COUNT = 4;
+const RUN_FRAMES = 48;
+const MAX_REPORTED_ANOMALIES = 20;
+
+// A delta within this fraction of a whole number of nominal frame durations is a gap of
+// missing frames; anything else off nominal is irregular
+const DELTA_TOLERANCE = 0.25;
+// Frame rate changes need to hold for a second's worth of frames to count
+const RATE_WINDOW = 30;
+const RATE_CHANGE = 0.1;
+// Phones switch rate with the light all the time; beyond this the recording is simply variable
+const MAX_RATE_SEGMENTS = 3;
+
+const DUPLICATE_MOTION = 0.5;
+const DUPLICATE_HASH_BITS = 2;
+const MOVING_MOTION = 1.5;
+const DROP_RATIO = 1.8;
+// A frame equal to the average of its neighbours is a blend, not a recording
+const BLEND_RATIO = 0.15;
+const BLEND_CONTRAST = 0.3;
+const MIN_PHASE_TRIPLETS = 12;
+const PHASE_RATIO = 0.6;
+
+const ANOMALY_WEIGHTS: Record<TimingAnomalyKind, number> = {
+  duplicate: 15,
+  dropped: 10,
+  'irregular-pts': 10,
+  interpolated: 35,
+  'rate-change': 35
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+const meanAbsoluteDifference = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+const popCount = (value: number) => {
+  let count = 0;
+  for (let v = value >>> 0; v; v &= v - 1) count++;
+  return count;
+};
+
+const frameRange = (first: number, last: number) => (first === last ? `frame ${first}` : `frames ${first}–${last}`);
+
+class TimingIntegrityAnalyzer {
+  private frameExtractor = new VideoFrameExtractor();
+
+  async analyze(file: Blob, frameRate: number, duration: number): Promise<TimingIntegrityResult> {
+    const track = await probeVideoTrack(file).catch(() => null);
+    const notes: string[] = [];
+    let times = track?.presentationTimes ?? [];
+    if (times.length < 2) {
+      const count = Math.max(Math.round(duration * frameRate), 1);
+      times = Array.from({ length: count }, (_, i) => i / frameRate);
+      notes.push('No per-frame timestamps in this container; timestamp checks were skipped and a constant frame rate assumed');
+    }
+
+    // Evenly spread runs of consecutive frames; seeking half a frame in avoids landing on a boundary
+    const runLength = Math.min(RUN_FRAMES, times.length);
+    const runStarts = Array.from(
+      new Set(Array.from({ length: RUN_COUNT }, (_, i) => Math.floor(((times.length - runLength) * (i + 0.5)) / RUN_COUNT)))
+    );
+    const runs: DecodedRunFrame[][] = [];
+    await this.frameExtractor.open(file, async (grab) => {
+      for (const start of runStarts) {
+        const run: DecodedRunFrame[] = [];
+        for (let index = start; index < start + runLength; index++) {
+          const next = index + 1 < times.length ? times[index + 1] : times[index] + 1 / frameRate;
+          const time = (times[index] + next) / 2;
+          const imageData = await grab(time);
+          const height = Math.max(Math.round((imageData.height * THUMBNAIL_WIDTH) / imageData.width), 1);
+          run.push({ frameIndex: index, time: times[index], gray: toGrayscale(resizeImageData(imageData, THUMBNAIL_WIDTH, height)) });
+        }
+        runs.push(run);
+      }
+    });
+
+    return this.measure(track ? times : null, frameRate, runs, notes);
+  }
+
+  // `times` are the container's presentation timestamps, or null when it has none
+  measure(times: number[] | null, frameRate: number, runs: DecodedRunFrame[][], notes: string[] = []): TimingIntegrityResult {
+    const anomalies: TimingAnomaly[] = [];
+    const findings: string[] = [];
+    const nominalFrameRate = times ? this.checkTimestamps(times, anomalies, findings, notes) : frameRate;
+
+    const frames: TimingFrame[] = [];
+    for (const run of runs) frames.push(...this.checkPictures(run, anomalies, notes));
+
+    anomalies.sort((a, b) => a.firstFrame - b.firstFrame);
+    const counts = new Map<TimingAnomalyKind, number>();
+    anomalies.forEach(anomaly => counts.set(anomaly.kind, (counts.get(anomaly.kind) ?? 0) + 1));
+    // Repeats of one kind add less and less; a single splice matters more than its echoes
+    let score = 0;
+    counts.forEach((count, kind) => { score += ANOMALY_WEIGHTS[kind] * Math.min(1 + Math.log2(count), 3); });
+
+    const reported = anomalies.slice(0, MAX_REPORTED_ANOMALIES);
+    findings.push(...reported.map(anomaly => anomaly.description));
+    if (anomalies.length > reported.length) findings.push(`${anomalies.length - reported.length} further timing anomalies not listed`);
+
+    return {
+      timestampSource: times ? 'container' : 'assumed',
+      nominalFrameRate,
+      frameCount: times?.length ?? 0,
+      frames,
+      anomalies,
+      findings: findings.filter((finding, i) => findings.indexOf(finding) === i),
+      notes,
+      integrity: Math.max(100 - score, 0)
+    };
+  }
+
+  private checkTimestamps(times: number[], anomalies: TimingAnomaly[], findings: string[], notes: string[]): number {
+    const deltas = times.slice(1).map((time, i) => time - times[i]);
+    const nominal = median(deltas);
+    if (!(nominal > 0)) {
+      notes.push('Most frames share a timestamp; the timestamp checks were skipped');
+      return 0;
+    }
+
+    // Stretches at another frame rate, from the median step over a sliding window
+    const segments: { first: number; last: number }[] = [];
+    for (let i = 0; i + RATE_WINDOW <= deltas.length; i++) {
+      const local = median(deltas.slice(i, i + RATE_WINDOW));
+      if (Math.abs(local - nominal) / nominal <= RATE_CHANGE) continue;
+      const last = segments[segments.length - 1];
+      if (last && i <= last.last + 1) last.last = i + RATE_WINDOW;
+      else segments.push({ first: i, last: i + RATE_WINDOW });
+    }
+    const found: TimingAnomaly[] = [];
+    if (segments.length > MAX_RATE_SEGMENTS) {
+      notes.push(`The frame rate varies throughout the recording (${segments.length} stretches off ${(1 / nominal).toFixed(2)} fps), as phones do in changing light`);
+      segments.length = 0;
+    }
+    for (const segment of segments) {
+      // The window overhangs both ends of the stretch by up to half its length
+      const offRate = (i: number) => Math.abs(deltas[i] - nominal) / nominal > RATE_CHANGE;
+      while (segment.first < segment.last && !offRate(segment.first)) segment.first++;
+      while (segment.last > segment.first && !offRate(segment.last - 1)) segment.last--;
+      const delta = median(deltas.slice(segment.first, segment.last));
+      found.push({
+        kind: 'rate-change',
+        firstFrame: segment.first,
+        lastFrame: segment.last,
+        start: times[segment.first],
+        end: times[segment.last],
+        description: `${frameRange(segment.first, segment.last)} (${times[segment.first].toFixed(2)}–${times[segment.last].toFixed(2)}s) run at ${(1 / delta).toFixed(2)} fps against ${(1 / nominal).toFixed(2)} fps elsewhere`
+      });
+    }
+
+    // Gaps and irregular steps outside those stretches, merged over consecutive frames
+    let open: TimingAnomaly | null = null;
+    for (let i = 0; i < deltas.length; i++) {
+      const steps = deltas[i] / nominal;
+      const whole = Math.round(steps);
+      const kind: TimingAnomalyKind | null = segments.some(segment => i >= segment.first && i < segment.last) ? null
+        : whole >= 2 && Math.abs(steps - whole) <= DELTA_TOLERANCE ? 'dropped'
+          : Math.abs(steps - 1) > DELTA_TOLERANCE * 2 ? 'irregular-pts'
+            : null;
+      if (!kind) {
+        open = null;
+      } else if (open && open.kind === kind && open.lastFrame === i) {
+        open.lastFrame = i + 1;
+        open.end = times[i + 1];
+      } else {
+        open = { kind, firstFrame: i, lastFrame: i + 1, start: times[i], end: times[i + 1], description: '' };
+        found.push(open);
+      }
+    }
+    for (const anomaly of found.filter(entry => entry.kind !== 'rate-change')) {
+      const gap = times[anomaly.lastFrame] - times[anomaly.firstFrame];
+      anomaly.description = anomaly.kind === 'dropped'
+        ? `Timestamps skip ${Math.round(gap / nominal) - (anomaly.lastFrame - anomaly.firstFrame)} frame(s) between ${frameRange(anomaly.firstFrame, anomaly.lastFrame)} (${anomaly.start.toFixed(2)}s)`
+        : `Irregular timestamp steps at ${frameRange(anomaly.firstFrame, anomaly.lastFrame)} (${anomaly.start.toFixed(2)}s)`;
+    }
+    anomalies.push(...found);
+
+    if (found.length === 0) findings.push(`Timestamps advance evenly at ${(1 / nominal).toFixed(2)} fps`);
+    return 1 / nominal;
+  }
+
+  private checkPictures(run: DecodedRunFrame[], anomalies: TimingAnomaly[], notes: string[]): TimingFrame[] {
+    const hashes = run.map(frame => this.differenceHash(frame.gray));
+    const frames: TimingFrame[] = run.map((frame, i) => ({
+      frameIndex: frame.frameIndex,
+      time: frame.time,
+      motion: i > 0 ? meanAbsoluteDifference(frame.gray, run[i - 1].gray) : 0,
+      hashDistance: i > 0 ? popCount(hashes[i][0] ^ hashes[i - 1][0]) + popCount(hashes[i][1] ^ hashes[i - 1][1]) : 0
+    }));
+    if (run.length < 5) return frames;
+
+    const motions = frames.slice(1).map(frame => frame.motion);
+    const typical = median(motions);
+    const runLabel = `${run[0].time.toFixed(1)}–${run[run.length - 1].time.toFixed(1)}s`;
+    if (typical < MOVING_MOTION) {
+      notes.push(`Frames ${run[0].frameIndex}–${run[run.length - 1].frameIndex} (${runLabel}) barely move; repeated and blended frames cannot be told apart there`);
+      return frames;
+    }
+    const add = (kind: TimingAnomalyKind, first: number, last: number, description: string) =>
+      anomalies.push({ kind, firstFrame: run[first].frameIndex, lastFrame: run[last].frameIndex, start: run[first].time, end: run[last].time, description });
+
+    // Repeated frames in moving footage; a regular pattern is a frame rate conversion
+    const duplicates = frames.map((frame, i) => i > 0 && frame.motion < DUPLICATE_MOTION && frame.hashDistance <= DUPLICATE_HASH_BITS);
+    const duplicateCount = duplicates.filter(Boolean).length;
+    if (duplicateCount >= 3 && this.isRegular(duplicates)) {
+      const period = Math.round((run.length - 1) / duplicateCount);
+      add('duplicate', 0, run.length - 1, `One frame in ${period} repeats the previous one in frames ${run[0].frameIndex}–${run[run.length - 1].frameIndex}: the footage was converted from a lower frame rate`);
+    } else {
+      for (let i = 1; i < run.length; i++) {
+        if (!duplicates[i] || duplicates[i - 1]) continue;
+        let j = i;
+        while (j + 1 < run.length && duplicates[j + 1]) j++;
+        add('duplicate', i, j, `${frameRange(run[i].frameIndex, run[j].frameIndex)} (${run[i].time.toFixed(2)}s) ${i === j ? 'repeats' : 'repeat'} the frame before in moving footage`);
+      }
+    }
+
+    // A jump of about twice the surrounding motion where frames were cut out
+    for (let i = 2; i < run.length - 2; i++) {
+      const around = [i - 2, i - 1, i + 1, i + 2].filter(k => !duplicates[k]).map(k => frames[k].motion);
+      const neighbourhood = median(around);
+      if (around.length >= 3 && neighbourhood >= MOVING_MOTION && frames[i].motion > DROP_RATIO * neighbourhood &&
+          Math.max(...around) < DROP_RATIO * Math.min(...around)) {
+        add('dropped', i - 1, i, `Motion jumps between frames ${run[i - 1].frameIndex} and ${run[i].frameIndex} (${run[i].time.toFixed(2)}s) as if frames were removed`);
+      }
+    }
+
+    // In-between frames: how far each frame is from the average of its neighbours, relative to
+    // how far the neighbours are apart
+    const ratios: (number | null)[] = run.map((frame, i) => {
+      if (i === 0 || i === run.length - 1 || duplicates[i] || duplicates[i + 1]) return null;
+      const span = meanAbsoluteDifference(run[i - 1].gray, run[i + 1].gray);
+      if (span < MOVING_MOTION) return null;
+      let residual = 0;
+      for (let p = 0; p < frame.gray.length; p++) residual += Math.abs(frame.gray[p] - (run[i - 1].gray[p] + run[i + 1].gray[p]) / 2);
+      return residual / frame.gray.length / span;
+    });
+
+    // Motion-compensated interpolation doubles the rate with warped frames rather than blends;
+    // every other frame then sits unusually close to its neighbours' average
+    const even = ratios.filter((ratio, i): ratio is number => ratio !== null && i % 2 === 0);
+    const odd = ratios.filter((ratio, i): ratio is number => ratio !== null && i % 2 === 1);
+    if (even.length >= MIN_PHASE_TRIPLETS / 2 && odd.length >= MIN_PHASE_TRIPLETS / 2) {
+      const [low, high] = [median(even), median(odd)].sort((a, b) => a - b);
+      if (low < PHASE_RATIO * high) {
+        add('interpolated', 0, run.length - 1, `Every other frame in frames ${run[0].frameIndex}–${run[run.length - 1].frameIndex} (${runLabel}) looks synthesised from its neighbours (frame interpolation)`);
+        return frames;
+      }
+    }
+
+    // Slow, smooth motion makes every frame close to the average of its neighbours, so only
+    // frames far closer than the rest of the run count as blends
+    const typicalRatio = median(ratios.filter((ratio): ratio is number => ratio !== null));
+    const blended = ratios.map(ratio => ratio !== null && ratio < BLEND_RATIO && ratio < BLEND_CONTRAST * typicalRatio);
+    for (let i = 1; i < run.length - 1; i++) {
+      if (!blended[i] || blended[i - 1]) continue;
+      let j = i;
+      while (j + 1 < run.length && blended[j + 1]) j++;
+      add('interpolated', i, j, `${frameRange(run[i].frameIndex, run[j].frameIndex)} (${run[i].time.toFixed(2)}s) ${i === j ? 'is a blend' : 'are blends'} of the neighbouring frames`);
+    }
+
+    return frames;
+  }
+
+  // Whether flagged positions recur at a steady spacing, as a pulldown pattern does
+  private isRegular(flags: boolean[]): boolean {
+    const positions = flags.map((flag, i) => (flag ? i : -1)).filter(i => i >= 0);
+    const gaps = positions.slice(1).map((position, i) => position - positions[i]);
+    const typical = median(gaps);
+    return typical >= 2 && gaps.every(gap => Math.abs(gap - typical) <= 1);
+  }
+
+  // 64-bit difference hash: brightness gradients of a 9x8 reduction, as two 32-bit words
+  private differenceHash(gray: Float32Array): [number, number] {
+    const width = THUMBNAIL_WIDTH;
+    const height = gray.length / width;
+    const cells = new Float32Array(9 * 8);
+    for (let cy = 0; cy < 8; cy++) {
+      for (let cx = 0; cx < 9; cx++) {
+        const x0 = Math.floor((cx * width) / 9);
+        const x1 = Math.max(Math.floor(((cx + 1) * width) / 9), x0 + 1);
+        const y0 = Math.floor((cy * height) / 8);
+        const y1 = Math.max(Math.floor(((cy + 1) * height) / 8), y0 + 1);
+        let sum = 0;
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) sum += gray[y * width + x];
+        }
+        cells[cy * 9 + cx] = sum / ((x1 - x0) * (y1 - y0));
+      }
+    }
+    const words: [number, number] = [0, 0];
+    for (let bit = 0; bit < 64; bit++) {
+      const y = Math.floor(bit / 8);
+      const x = bit % 8;
+      if (cells[y * 9 + x] < cells[y * 9 + x + 1]) words[bit >> 5] |= 1 << (bit & 31);
+    }
+    return words;
+  }
+}
+
+export default TimingIntegrityAnalyzer;
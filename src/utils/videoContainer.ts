@@ -0,0 +1,473 @@
+import { findIsoBox, readAscii, readInt32BE, readIsoBoxes, readUint32BE, readUint64BE } from './fileFormats';
+import {
+  findEbmlElement,
+  isEbml,
+  readEbmlElements,
+  readEbmlFloat,
+  readEbmlInt,
+  readEbmlString,
+  readEbmlUint,
+  readVint,
+  EBML_MAGIC,
+  EbmlElement
+} from './ebml';
+
+// Container structure readers for MP4/MOV (ISO-BMFF) and WebM/Matroska. Browsers expose
+// neither the frame rate nor the sync samples of a <video>, so frame indices and
+// keyframe positions come from here too.
+
+export interface VideoTrackTiming {
+  codec: string;
+  width: number;
+  height: number;
+  timescale: number;
+  duration: number;
+  frameCount: number;
+  frameRate: number;
+  keyframeTimes: number[];
+  // Presentation time of every frame in display order, from 0
+  presentationTimes: number[];
+}
+
+export interface IsoBoxHeader {
+  type: string;
+  offset: number;
+  size: number;
+  headerSize: number;
+}
+
+// Walks the top-level boxes by reading only their headers, so the media data of a
+// large file is never loaded just to find a trailing `moov`
+export const readTopLevelBoxes = async (file: Blob): Promise<IsoBoxHeader[]> => {
+  const boxes: IsoBoxHeader[] = [];
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new Uint8Array(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = readUint32BE(header, 0);
+    const type = readAscii(header, 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (header.length < 16) break;
+      size = readUint64BE(header, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+
+    boxes.push({ type, offset, size, headerSize });
+    offset += size;
+  }
+  return boxes;
+};
+
+export const readBoxPayload = async (file: Blob, box: IsoBoxHeader): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(box.offset + box.headerSize, box.offset + box.size).arrayBuffer());
+
+export const readTimeToSample = (stts: Uint8Array): { count: number; delta: number }[] => {
+  const entries: { count: number; delta: number }[] = [];
+  const entryCount = readUint32BE(stts, 4);
+  for (let i = 0; i < entryCount && 16 + i * 8 <= stts.length; i++) {
+    entries.push({ count: readUint32BE(stts, 8 + i * 8), delta: readUint32BE(stts, 12 + i * 8) });
+  }
+  return entries;
+};
+
+// Composition offsets; version 1 boxes use signed offsets
+const readCompositionOffsets = (ctts: Uint8Array): { count: number; offset: number }[] => {
+  const entries: { count: number; offset: number }[] = [];
+  const signed = ctts[0] === 1;
+  const entryCount = readUint32BE(ctts, 4);
+  for (let i = 0; i < entryCount && 16 + i * 8 <= ctts.length; i++) {
+    const offset = signed ? readInt32BE(ctts, 12 + i * 8) : readUint32BE(ctts, 12 + i * 8);
+    entries.push({ count: readUint32BE(ctts, 8 + i * 8), offset });
+  }
+  return entries;
+};
+
+const readSyncSamples = (stss: Uint8Array): number[] => {
+  const samples: number[] = [];
+  const entryCount = readUint32BE(stss, 4);
+  for (let i = 0; i < entryCount && 12 + i * 4 <= stss.length; i++) {
+    samples.push(readUint32BE(stss, 8 + i * 4));
+  }
+  return samples;
+};
+
+const readTrackTiming = (trak: Uint8Array): VideoTrackTiming | null => {
+  const boxes = readIsoBoxes(trak);
+  const hdlr = findIsoBox(boxes, ['mdia', 'hdlr']);
+  if (!hdlr || readAscii(hdlr.data, 8, 4) !== 'vide') return null;
+
+  const mdhd = findIsoBox(boxes, ['mdia', 'mdhd']);
+  const stbl = findIsoBox(boxes, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return null;
+
+  const timescale = mdhd.data[0] === 1 ? readUint32BE(mdhd.data, 20) : readUint32BE(mdhd.data, 12);
+  if (timescale === 0) return null;
+
+  const tables = readIsoBoxes(stbl.data);
+  const stts = tables.find(box => box.type === 'stts');
+  if (!stts) return null;
+  const ctts = tables.find(box => box.type === 'ctts');
+  const stss = tables.find(box => box.type === 'stss');
+  const stsd = tables.find(box => box.type === 'stsd');
+
+  // Presentation time of every sample, in decode order
+  const timeToSample = readTimeToSample(stts.data);
+  const frameCount = timeToSample.reduce((sum, entry) => sum + entry.count, 0);
+  if (frameCount === 0) return null;
+
+  const times = new Float64Array(frameCount);
+  let sample = 0;
+  let decodeTime = 0;
+  for (const entry of timeToSample) {
+    for (let i = 0; i < entry.count && sample < frameCount; i++) {
+      times[sample++] = decodeTime;
+      decodeTime += entry.delta;
+    }
+  }
+
+  if (ctts) {
+    sample = 0;
+    for (const entry of readCompositionOffsets(ctts.data)) {
+      for (let i = 0; i < entry.count && sample < frameCount; i++) {
+        times[sample++] += entry.offset;
+      }
+    }
+  }
+
+  // B-frame reordering shifts composition times; the edit list normally removes that
+  // shift again, which is approximated by starting presentation at the earliest sample
+  let firstTime = Infinity;
+  for (let i = 0; i < frameCount; i++) firstTime = Math.min(firstTime, times[i]);
+
+  // Without an stss box every sample is a sync sample
+  const syncSamples = stss ? readSyncSamples(stss.data) : Array.from({ length: frameCount }, (_, i) => i + 1);
+  const keyframeTimes = syncSamples
+    .filter(number => number >= 1 && number <= frameCount)
+    .map(number => (times[number - 1] - firstTime) / timescale)
+    .sort((a, b) => a - b);
+
+  const duration = decodeTime / timescale;
+  const tkhd = boxes.find(box => box.type === 'tkhd');
+
+  return {
+    codec: stsd && stsd.data.length >= 16 ? readAscii(stsd.data, 12, 4) : 'unknown',
+    width: tkhd ? Math.round(readUint32BE(tkhd.data, tkhd.data.length - 8) / 65536) : 0,
+    height: tkhd ? Math.round(readUint32BE(tkhd.data, tkhd.data.length - 4) / 65536) : 0,
+    timescale,
+    duration,
+    frameCount,
+    frameRate: duration > 0 ? frameCount / duration : 0,
+    keyframeTimes,
+    presentationTimes: Array.from(times, time => (time - firstTime) / timescale).sort((a, b) => a - b)
+  };
+};
+
+export interface MatroskaTrack {
+  number: number;
+  uid: number;
+  type: 'video' | 'audio' | 'subtitle' | 'other';
+  codec: string;
+  name: string | null;
+  language: string | null;
+  defaultDuration: number | null;
+  width: number | null;
+  height: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface MatroskaTag {
+  trackNumber: number | null;
+  name: string;
+  value: string;
+}
+
+export interface MatroskaBlocks {
+  times: number[];
+  keyframeTimes: number[];
+}
+
+export interface MatroskaFile {
+  docType: string;
+  timestampScale: number;
+  duration: number | null;
+  dateUtc: Date | null;
+  muxingApp: string | null;
+  writingApp: string | null;
+  title: string | null;
+  tracks: MatroskaTrack[];
+  tags: MatroskaTag[];
+  structure: string[];
+  clusterTimes: number[];
+  blocks: Map<number, MatroskaBlocks>;
+  truncated: boolean;
+}
+
+const MATROSKA_IDS = {
+  segment: 0x18538067,
+  docType: 0x4282,
+  seekHead: 0x114d9b74,
+  info: 0x1549a966,
+  tracks: 0x1654ae6b,
+  cluster: 0x1f43b675,
+  cues: 0x1c53bb6b,
+  tags: 0x1254c367,
+  chapters: 0x1043a770,
+  attachments: 0x1941a469,
+  timestampScale: 0x2ad7b1,
+  duration: 0x4489,
+  dateUtc: 0x4461,
+  muxingApp: 0x4d80,
+  writingApp: 0x5741,
+  title: 0x7ba9,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackUid: 0x73c5,
+  trackType: 0x83,
+  codecId: 0x86,
+  name: 0x536e,
+  language: 0x22b59c,
+  defaultDuration: 0x23e383,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  tag: 0x7373,
+  targets: 0x63c0,
+  tagTrackUid: 0x63c5,
+  simpleTag: 0x67c8,
+  tagName: 0x45a3,
+  tagString: 0x4487,
+  clusterTimestamp: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  referenceBlock: 0xfb
+};
+
+const SEGMENT_CHILD_NAMES: Record<number, string> = {
+  [MATROSKA_IDS.seekHead]: 'SeekHead',
+  [MATROSKA_IDS.info]: 'Info',
+  [MATROSKA_IDS.tracks]: 'Tracks',
+  [MATROSKA_IDS.cluster]: 'Cluster',
+  [MATROSKA_IDS.cues]: 'Cues',
+  [MATROSKA_IDS.tags]: 'Tags',
+  [MATROSKA_IDS.chapters]: 'Chapters',
+  [MATROSKA_IDS.attachments]: 'Attachments'
+};
+
+// Files beyond this are parsed from their head only
+const MAX_MATROSKA_BYTES = 256 * 1024 * 1024;
+
+// Matroska dates count nanoseconds from 2001-01-01T00:00:00Z
+const MATROSKA_EPOCH = Date.UTC(2001, 0, 1);
+
+const TRACK_TYPES: Record<number, MatroskaTrack['type']> = { 1: 'video', 2: 'audio', 17: 'subtitle' };
+
+const isSegmentChild = (id: number) => id in SEGMENT_CHILD_NAMES;
+
+const readChildren = (element: EbmlElement, isSibling?: (id: number) => boolean) =>
+  readEbmlElements(element.data, 0, element.data.length, isSibling);
+
+const readTrackEntry = (entry: EbmlElement): MatroskaTrack => {
+  const children = readChildren(entry);
+  const uint = (id: number, within = children) => {
+    const element = findEbmlElement(within, id);
+    return element ? readEbmlUint(element.data) : null;
+  };
+  const string = (id: number) => {
+    const element = findEbmlElement(children, id);
+    return element ? readEbmlString(element.data) : null;
+  };
+
+  const video = findEbmlElement(children, MATROSKA_IDS.video);
+  const videoChildren = video ? readChildren(video) : [];
+  const audio = findEbmlElement(children, MATROSKA_IDS.audio);
+  const audioChildren = audio ? readChildren(audio) : [];
+  const sampleRate = findEbmlElement(audioChildren, MATROSKA_IDS.samplingFrequency);
+  const defaultDuration = uint(MATROSKA_IDS.defaultDuration);
+
+  return {
+    number: uint(MATROSKA_IDS.trackNumber) ?? 0,
+    uid: uint(MATROSKA_IDS.trackUid) ?? 0,
+    type: TRACK_TYPES[uint(MATROSKA_IDS.trackType) ?? 0] ?? 'other',
+    codec: string(MATROSKA_IDS.codecId) ?? 'unknown',
+    name: string(MATROSKA_IDS.name),
+    language: string(MATROSKA_IDS.language),
+    defaultDuration: defaultDuration ? defaultDuration / 1e9 : null,
+    width: uint(MATROSKA_IDS.pixelWidth, videoChildren),
+    height: uint(MATROSKA_IDS.pixelHeight, videoChildren),
+    sampleRate: sampleRate ? readEbmlFloat(sampleRate.data) : null,
+    channels: uint(MATROSKA_IDS.channels, audioChildren)
+  };
+};
+
+const readTags = (tags: EbmlElement, tracks: MatroskaTrack[]): MatroskaTag[] => {
+  const result: MatroskaTag[] = [];
+  for (const tag of readChildren(tags).filter(element => element.id === MATROSKA_IDS.tag)) {
+    const children = readChildren(tag);
+    const targets = findEbmlElement(children, MATROSKA_IDS.targets);
+    const trackUid = targets ? findEbmlElement(readChildren(targets), MATROSKA_IDS.tagTrackUid) : undefined;
+    const trackNumber = trackUid ? tracks.find(track => track.uid === readEbmlUint(trackUid.data))?.number ?? null : null;
+
+    for (const simpleTag of children.filter(element => element.id === MATROSKA_IDS.simpleTag)) {
+      const fields = readChildren(simpleTag);
+      const name = findEbmlElement(fields, MATROSKA_IDS.tagName);
+      const value = findEbmlElement(fields, MATROSKA_IDS.tagString);
+      if (name) result.push({ trackNumber, name: readEbmlString(name.data), value: value ? readEbmlString(value.data) : '' });
+    }
+  }
+  return result;
+};
+
+// Block header: track number (vint), signed 16-bit timecode relative to the cluster, flags
+const readBlock = (data: Uint8Array): { track: number; timecode: number; flags: number } | null => {
+  const track = readVint(data, 0);
+  if (!track || track.length + 3 > data.length) return null;
+  const timecode = ((data[track.length] << 8) | data[track.length + 1]) << 16 >> 16;
+  return { track: track.value, timecode, flags: data[track.length + 2] };
+};
+
+export const readMatroska = async (file: Blob): Promise<MatroskaFile | null> => {
+  const truncated = file.size > MAX_MATROSKA_BYTES;
+  const bytes = new Uint8Array(await file.slice(0, MAX_MATROSKA_BYTES).arrayBuffer());
+  if (!isEbml(bytes)) return null;
+
+  const topLevel = readEbmlElements(bytes, 0, bytes.length, id => id === MATROSKA_IDS.segment || id === EBML_MAGIC);
+  const header = findEbmlElement(topLevel, EBML_MAGIC);
+  const segment = findEbmlElement(topLevel, MATROSKA_IDS.segment);
+  if (!header || !segment) return null;
+
+  const docType = findEbmlElement(readChildren(header), MATROSKA_IDS.docType);
+  const children = readChildren(segment, isSegmentChild);
+
+  const result: MatroskaFile = {
+    docType: docType ? readEbmlString(docType.data) : 'matroska',
+    timestampScale: 1e6,
+    duration: null,
+    dateUtc: null,
+    muxingApp: null,
+    writingApp: null,
+    title: null,
+    tracks: [],
+    tags: [],
+    structure: children.map(element => SEGMENT_CHILD_NAMES[element.id] ?? `0x${element.id.toString(16)}`),
+    clusterTimes: [],
+    blocks: new Map(),
+    truncated
+  };
+
+  const info = findEbmlElement(children, MATROSKA_IDS.info);
+  if (info) {
+    const fields = readChildren(info);
+    const field = (id: number) => findEbmlElement(fields, id);
+    const scale = field(MATROSKA_IDS.timestampScale);
+    if (scale) result.timestampScale = readEbmlUint(scale.data) || 1e6;
+    const duration = field(MATROSKA_IDS.duration);
+    if (duration) result.duration = (readEbmlFloat(duration.data) * result.timestampScale) / 1e9;
+    const date = field(MATROSKA_IDS.dateUtc);
+    if (date) result.dateUtc = new Date(MATROSKA_EPOCH + readEbmlInt(date.data) / 1e6);
+    const muxingApp = field(MATROSKA_IDS.muxingApp);
+    if (muxingApp) result.muxingApp = readEbmlString(muxingApp.data);
+    const writingApp = field(MATROSKA_IDS.writingApp);
+    if (writingApp) result.writingApp = readEbmlString(writingApp.data);
+    const title = field(MATROSKA_IDS.title);
+    if (title) result.title = readEbmlString(title.data);
+  }
+
+  const tracks = findEbmlElement(children, MATROSKA_IDS.tracks);
+  if (tracks) {
+    result.tracks = readChildren(tracks).filter(element => element.id === MATROSKA_IDS.trackEntry).map(readTrackEntry);
+  }
+  for (const tags of children.filter(element => element.id === MATROSKA_IDS.tags)) {
+    result.tags.push(...readTags(tags, result.tracks));
+  }
+
+  const toSeconds = (timestamp: number) => (timestamp * result.timestampScale) / 1e9;
+  const blocksFor = (track: number) => {
+    let blocks = result.blocks.get(track);
+    if (!blocks) {
+      blocks = { times: [], keyframeTimes: [] };
+      result.blocks.set(track, blocks);
+    }
+    return blocks;
+  };
+
+  for (const cluster of children.filter(element => element.id === MATROSKA_IDS.cluster)) {
+    const elements = readChildren(cluster);
+    const timestamp = findEbmlElement(elements, MATROSKA_IDS.clusterTimestamp);
+    const clusterTime = timestamp ? readEbmlUint(timestamp.data) : 0;
+    result.clusterTimes.push(toSeconds(clusterTime));
+
+    for (const element of elements) {
+      let block: ReturnType<typeof readBlock> = null;
+      let keyframe = false;
+      if (element.id === MATROSKA_IDS.simpleBlock) {
+        block = readBlock(element.data);
+        keyframe = !!block && (block.flags & 0x80) !== 0;
+      } else if (element.id === MATROSKA_IDS.blockGroup) {
+        const group = readChildren(element);
+        const inner = findEbmlElement(group, MATROSKA_IDS.block);
+        block = inner ? readBlock(inner.data) : null;
+        // A block that references no other block is a keyframe
+        keyframe = !findEbmlElement(group, MATROSKA_IDS.referenceBlock);
+      }
+      if (!block) continue;
+
+      const time = toSeconds(clusterTime + block.timecode);
+      const blocks = blocksFor(block.track);
+      blocks.times.push(time);
+      if (keyframe) blocks.keyframeTimes.push(time);
+    }
+  }
+
+  return result;
+};
+
+const readMatroskaTiming = (matroska: MatroskaFile): VideoTrackTiming | null => {
+  const track = matroska.tracks.find(entry => entry.type === 'video');
+  const blocks = track && matroska.blocks.get(track.number);
+  if (!track || !blocks || blocks.times.length === 0) return null;
+
+  const times = [...blocks.times].sort((a, b) => a - b);
+  const firstTime = times[0];
+  const frameDuration = track.defaultDuration ?? (times.length > 1 ? (times[times.length - 1] - firstTime) / (times.length - 1) : 0);
+  const duration = matroska.duration ?? times[times.length - 1] - firstTime + frameDuration;
+
+  return {
+    codec: track.codec,
+    width: track.width ?? 0,
+    height: track.height ?? 0,
+    timescale: 1e9 / matroska.timestampScale,
+    duration,
+    frameCount: times.length,
+    frameRate: frameDuration > 0 ? 1 / frameDuration : duration > 0 ? times.length / duration : 0,
+    keyframeTimes: blocks.keyframeTimes.map(time => time - firstTime).sort((a, b) => a - b),
+    presentationTimes: times.map(time => time - firstTime)
+  };
+};
+
+export const probeVideoTrack = async (file: Blob): Promise<VideoTrackTiming | null> => {
+  const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  if (isEbml(head)) {
+    const matroska = await readMatroska(file);
+    return matroska ? readMatroskaTiming(matroska) : null;
+  }
+  if (head.length < 12 || readAscii(head, 4, 4) !== 'ftyp') return null;
+
+  const moovBox = (await readTopLevelBoxes(file)).find(box => box.type === 'moov');
+  if (!moovBox) return null;
+  const moov = await readBoxPayload(file, moovBox);
+
+  for (const trak of readIsoBoxes(moov).filter(box => box.type === 'trak')) {
+    const timing = readTrackTiming(trak.data);
+    if (timing) return timing;
+  }
+  return null;
+};
@@ -0,0 +1,217 @@
+import { probeVideoTrack } from './videoContainer';
+
+// Decodes sampled frames of a video by seeking an offscreen <video> element and
+// drawing each frame onto a canvas.
+
+export type FrameSampling =
+  | { mode: 'interval'; frames: number }
+  | { mode: 'rate'; perSecond: number }
+  | { mode: 'keyframes' };
+
+export const DEFAULT_FRAME_SAMPLING: FrameSampling = { mode: 'rate', perSecond: 1 };
+
+export interface SampledFrame {
+  index: number;
+  time: number;
+  keyframe: boolean;
+  imageData: ImageData;
+}
+
+export interface FrameExtractionInfo {
+  sampling: FrameSampling;
+  duration: number;
+  width: number;
+  height: number;
+  frameRate: number;
+  frameRateSource: 'container' | 'assumed';
+  frameCount: number;
+  keyframeCount: number | null;
+  sampledFrames: number;
+  notes: string[];
+}
+
+interface PlannedFrame {
+  index: number;
+  time: number;
+  keyframe: boolean;
+}
+
+// Frames are analyzed one at a time with the full image pipeline, so both the number
+// of frames and their resolution are bounded
+const MAX_SAMPLED_FRAMES = 120;
+const MAX_FRAME_DIMENSION = 1280;
+const ASSUMED_FRAME_RATE = 30;
+const SEEK_TIMEOUT = 10000;
+
+const waitForEvent = (video: HTMLVideoElement, event: string, timeout = SEEK_TIMEOUT): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('The browser cannot decode this video'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for video ${event}`));
+    }, timeout);
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+};
+
+export const describeSampling = (sampling: FrameSampling): string => {
+  if (sampling.mode === 'interval') return `every ${sampling.frames} frame${sampling.frames === 1 ? '' : 's'}`;
+  if (sampling.mode === 'rate') return `${sampling.perSecond} frame${sampling.perSecond === 1 ? '' : 's'} per second`;
+  return 'keyframes only';
+};
+
+class VideoFrameExtractor {
+  async extract(
+    file: Blob,
+    sampling: FrameSampling,
+    onFrame: (frame: SampledFrame) => Promise<void> | void
+  ): Promise<FrameExtractionInfo> {
+    const track = await probeVideoTrack(file).catch(() => null);
+
+    return this.withVideo(file, async (video) => {
+      const duration = Number.isFinite(video.duration) ? video.duration : track?.duration ?? 0;
+      const frameRate = track && track.frameRate > 0 ? track.frameRate : ASSUMED_FRAME_RATE;
+      const frameCount = track ? track.frameCount : Math.max(Math.round(duration * frameRate), 1);
+      const notes: string[] = [];
+      if (!track) notes.push(`Frame rate not available from the container; ${ASSUMED_FRAME_RATE} fps assumed for frame numbering`);
+
+      let plan = this.planFrames(sampling, duration, frameRate, frameCount, track?.keyframeTimes ?? null, notes);
+      if (plan.length > MAX_SAMPLED_FRAMES) {
+        notes.push(`${plan.length} frames matched the sampling; ${MAX_SAMPLED_FRAMES} evenly spaced ones were analyzed`);
+        plan = Array.from({ length: MAX_SAMPLED_FRAMES }, (_, i) => plan[Math.floor((i * plan.length) / MAX_SAMPLED_FRAMES)]);
+      }
+
+      const ctx = this.createContext(video);
+      if (ctx.canvas.width < video.videoWidth) notes.push(`Frames were downscaled to ${ctx.canvas.width}×${ctx.canvas.height} for analysis`);
+
+      let sampledFrames = 0;
+      for (const planned of plan) {
+        await onFrame({ ...planned, imageData: await this.grab(video, ctx, planned.time) });
+        sampledFrames++;
+      }
+
+      return {
+        sampling,
+        duration,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        frameRate,
+        frameRateSource: track ? 'container' : 'assumed',
+        frameCount,
+        keyframeCount: track ? track.keyframeTimes.length : null,
+        sampledFrames,
+        notes
+      };
+    });
+  }
+
+  // Decodes frames at arbitrary times, at the same scale as `extract` so face boxes carry over
+  async extractAt(
+    file: Blob,
+    times: number[],
+    onFrame: (time: number, imageData: ImageData) => Promise<void> | void
+  ): Promise<void> {
+    await this.open(file, async (grab) => {
+      for (const time of times) await onFrame(time, await grab(time));
+    });
+  }
+
+  // For callers that choose the next time from the frames already seen
+  open<T>(file: Blob, read: (grab: (time: number) => Promise<ImageData>) => Promise<T>): Promise<T> {
+    return this.withVideo(file, (video) => {
+      const ctx = this.createContext(video);
+      return read((time) => this.grab(video, ctx, time));
+    });
+  }
+
+  private async withVideo<T>(file: Blob, read: (video: HTMLVideoElement) => Promise<T>): Promise<T> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    const url = URL.createObjectURL(file);
+
+    try {
+      const loaded = waitForEvent(video, 'loadeddata');
+      video.src = url;
+      await loaded;
+      return await read(video);
+    } finally {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private createContext(video: HTMLVideoElement): CanvasRenderingContext2D {
+    const scale = Math.min(1, MAX_FRAME_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(Math.round(video.videoWidth * scale), 1);
+    canvas.height = Math.max(Math.round(video.videoHeight * scale), 1);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    return ctx;
+  }
+
+  private async grab(video: HTMLVideoElement, ctx: CanvasRenderingContext2D, time: number): Promise<ImageData> {
+    const seeked = waitForEvent(video, 'seeked');
+    video.currentTime = time;
+    await seeked;
+
+    ctx.drawImage(video, 0, 0, ctx.canvas.width, ctx.canvas.height);
+    return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+
+  // Seeks land in the middle of a frame's display interval so rounding in the
+  // decoder cannot snap to the neighbouring frame
+  private planFrames(
+    sampling: FrameSampling,
+    duration: number,
+    frameRate: number,
+    frameCount: number,
+    keyframeTimes: number[] | null,
+    notes: string[]
+  ): PlannedFrame[] {
+    const frameTime = (index: number) => Math.min((index + 0.5) / frameRate, Math.max(duration - 0.5 / frameRate, 0));
+    const keyframes = new Set((keyframeTimes ?? []).map(time => Math.round(time * frameRate)));
+    const toPlanned = (index: number): PlannedFrame => ({ index, time: frameTime(index), keyframe: keyframes.has(index) });
+
+    if (sampling.mode === 'keyframes') {
+      if (keyframeTimes && keyframeTimes.length > 0) {
+        return Array.from(keyframes)
+          .filter(index => index < frameCount)
+          .sort((a, b) => a - b)
+          .map(toPlanned);
+      }
+      notes.push('Keyframe positions could not be read from this container; sampled one frame per second instead');
+      return this.planFrames(DEFAULT_FRAME_SAMPLING, duration, frameRate, frameCount, keyframeTimes, notes);
+    }
+
+    const indices = new Set<number>();
+    if (sampling.mode === 'interval') {
+      const step = Math.max(Math.floor(sampling.frames), 1);
+      for (let index = 0; index < frameCount; index += step) indices.add(index);
+    } else {
+      const step = 1 / Math.max(sampling.perSecond, 0.001);
+      for (let time = 0; time < duration; time += step) indices.add(Math.min(Math.floor(time * frameRate), frameCount - 1));
+    }
+    if (indices.size === 0) indices.add(0);
+
+    return Array.from(indices).sort((a, b) => a - b).map(toPlanned);
+  }
+}
+
+export default VideoFrameExtractor;
@@ -0,0 +1,137 @@
+import { RawImage } from '@huggingface/transformers';
+import AIModelManager from './aiModels';
+
+// Zero-shot second opinion: CLIP compares the image with short descriptions of
+// camera photographs and of generated renders. Unlike a trained detector it needs
+// no examples from a particular generator, so it degrades more gracefully on new ones.
+
+export type PromptKind = 'real' | 'synthetic';
+
+export interface ProbePrompt {
+  text: string;
+  kind: PromptKind;
+}
+
+export interface PromptSimilarity extends ProbePrompt {
+  // Cosine similarity between the image and prompt embeddings
+  similarity: number;
+  // Softmax share across all prompts at CLIP's logit scale
+  probability: number;
+}
+
+export interface ZeroShotResult {
+  model: string;
+  prompts: PromptSimilarity[];
+  // Combined share of the synthetic prompts
+  probability: number;
+  score: number;
+  findings: string[];
+}
+
+export const DEFAULT_PROMPTS: ProbePrompt[] = [
+  { text: 'a photo taken with a phone camera', kind: 'real' },
+  { text: 'an unedited snapshot with natural lighting and sensor noise', kind: 'real' },
+  { text: 'a candid photograph of a real scene', kind: 'real' },
+  { text: 'an AI-generated render', kind: 'synthetic' },
+  { text: 'a digital image made by a diffusion model', kind: 'synthetic' },
+  { text: 'a hyperrealistic computer-generated portrait', kind: 'synthetic' }
+];
+
+const PROMPTS_KEY = 'deepguard.zeroShotPrompts';
+// CLIP's learned temperature (exp of logit_scale), fixed at 100 in the released weights
+const CLIP_LOGIT_SCALE = 100;
+
+const normalise = (vector: Float32Array): Float32Array => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+};
+
+const isPrompt = (value: Partial<ProbePrompt> | null): value is ProbePrompt =>
+  !!value && typeof value.text === 'string' && value.text.trim() !== '' &&
+  (value.kind === 'real' || value.kind === 'synthetic');
+
+class ZeroShotProbe {
+  private modelManager = AIModelManager.getInstance();
+
+  prompts(): ProbePrompt[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(PROMPTS_KEY) ?? 'null');
+      if (Array.isArray(stored) && stored.every(isPrompt)) return stored;
+    } catch (error) {
+      console.warn('Ignoring unreadable zero-shot prompts:', error);
+    }
+    return DEFAULT_PROMPTS.map(prompt => ({ ...prompt }));
+  }
+
+  savePrompts(prompts: ProbePrompt[]) {
+    const cleaned = prompts
+      .map(prompt => ({ text: prompt.text.trim(), kind: prompt.kind }))
+      .filter(isPrompt);
+    if (!cleaned.some(prompt => prompt.kind === 'real') || !cleaned.some(prompt => prompt.kind === 'synthetic')) {
+      throw new Error('The probe needs at least one real and one synthetic prompt');
+    }
+    localStorage.setItem(PROMPTS_KEY, JSON.stringify(cleaned));
+  }
+
+  resetPrompts() {
+    localStorage.removeItem(PROMPTS_KEY);
+  }
+
+  // Resolves to null when CLIP can't be loaded or the prompt set is one-sided
+  async probe(imageData: ImageData): Promise<ZeroShotResult | null> {
+    const prompts = this.prompts();
+    if (!prompts.some(prompt => prompt.kind === 'real') || !prompts.some(prompt => prompt.kind === 'synthetic')) {
+      return null;
+    }
+
+    let clip;
+    try {
+      clip = await this.modelManager.load('zero-shot-image');
+    } catch (error) {
+      console.warn('Zero-shot probe unavailable:', error);
+      return null;
+    }
+
+    // The pipeline only returns softmax scores, so run its parts to keep the embeddings
+    const textInputs = clip.tokenizer(prompts.map(prompt => prompt.text), { padding: true, truncation: true });
+    const { pixel_values } = await clip.processor(new RawImage(imageData.data, imageData.width, imageData.height, 4));
+    const output = await clip.model({ ...textInputs, pixel_values });
+
+    const dimension = output.image_embeds.dims[output.image_embeds.dims.length - 1];
+    const image = normalise(Float32Array.from(output.image_embeds.data.slice(0, dimension)));
+    const similarities = prompts.map((_, index) => {
+      const text = normalise(Float32Array.from(output.text_embeds.data.slice(index * dimension, (index + 1) * dimension)));
+      return text.reduce((sum, value, i) => sum + value * image[i], 0);
+    });
+
+    const logits = similarities.map(similarity => similarity * CLIP_LOGIT_SCALE);
+    const peak = Math.max(...logits);
+    const weights = logits.map(logit => Math.exp(logit - peak));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const results: PromptSimilarity[] = prompts.map((prompt, index) => ({
+      ...prompt,
+      similarity: similarities[index],
+      probability: weights[index] / total
+    }));
+    const probability = results
+      .filter(result => result.kind === 'synthetic')
+      .reduce((sum, result) => sum + result.probability, 0);
+
+    const closest = results.reduce((best, result) => (result.similarity > best.similarity ? result : best));
+    const findings = [
+      `Zero-shot probe: closest description is "${closest.text}" (similarity ${closest.similarity.toFixed(3)}); ` +
+      `${(probability * 100).toFixed(0)}% of the match goes to AI-generated descriptions`
+    ];
+
+    return {
+      model: this.modelManager.describe('zero-shot-image').model,
+      prompts: results.sort((a, b) => b.similarity - a.similarity),
+      probability,
+      score: probability * 100,
+      findings
+    };
+  }
+}
+
+export default ZeroShotProbe;